@@ -0,0 +1,195 @@
+import { CategoryMinimumsSchema } from '../../config/yaml-types';
+import type { AnalyzedEvent, SignificanceScores } from '../../types';
+import { EventAnalyzer } from '../event-analyzer';
+import { ScoringEngine } from '../scoring';
+
+const PIPELINE_SCORING = {
+  weights: { technical: 0.5, commercial: 0.3, social: 0.2 },
+  minComposite: 0.62,
+  categoryMinimums: {
+    development: 0.6,
+    research: 0.58,
+    adoption: 0.55
+  }
+};
+
+function significance(overrides: Partial<SignificanceScores> = {}): SignificanceScores {
+  return {
+    technologicalBreakthrough: 8,
+    industryImpact: 7,
+    adoptionScale: 6,
+    novelty: 6,
+    ...overrides
+  };
+}
+
+describe('ScoringEngine', () => {
+  it('maps dimensions onto weight groups and computes a normalized composite', () => {
+    const engine = new ScoringEngine(PIPELINE_SCORING);
+
+    const breakdown = engine.score(significance(), 'research');
+
+    expect(breakdown.groups).toEqual({ technical: 0.7, commercial: 0.7, social: 0.6 });
+    expect(breakdown.composite).toBeCloseTo(0.68, 4);
+    expect(breakdown.impactScore).toBe(6.8);
+  });
+
+  it('normalizes weights that do not sum to one', () => {
+    const engine = new ScoringEngine({
+      weights: { technical: 2, commercial: 1, social: 1 },
+      minComposite: 0
+    });
+
+    const breakdown = engine.score(significance(), 'research');
+
+    expect(breakdown.weights).toEqual({ technical: 0.5, commercial: 0.25, social: 0.25 });
+    expect(breakdown.composite).toBeCloseTo(0.675, 4);
+  });
+
+  it('applies category minimums through their aliases', () => {
+    const engine = new ScoringEngine({ ...PIPELINE_SCORING, minComposite: 0.5 });
+    const scores = significance({ technologicalBreakthrough: 6, novelty: 6, industryImpact: 6 });
+
+    const product = engine.score(scores, 'product');
+    const industry = engine.score(scores, 'industry');
+    const regulation = engine.score(scores, 'regulation');
+
+    expect(product.minimumSource).toBe('category:development');
+    expect(product.passesMinimum).toBe(true);
+    expect(industry.minimumSource).toBe('category:adoption');
+    expect(industry.minimum).toBe(0.55);
+    expect(regulation.minimumSource).toBe('min_composite');
+    expect(regulation.minimum).toBe(0.5);
+  });
+
+  it('lets a category minimum below min_composite apply to its category', () => {
+    const engine = new ScoringEngine(PIPELINE_SCORING);
+    const scores = significance({ technologicalBreakthrough: 6, novelty: 6, industryImpact: 6 });
+
+    const research = engine.score(scores, 'research');
+    const regulation = engine.score(scores, 'regulation');
+
+    expect(research.composite).toBeCloseTo(0.6, 4);
+    expect(research.minimumSource).toBe('category:research');
+    expect(research.minimum).toBe(0.58);
+    expect(research.passesMinimum).toBe(true);
+    expect(regulation.minimumSource).toBe('min_composite');
+    expect(regulation.passesMinimum).toBe(false);
+  });
+
+  it('rejects category minimums that match no category when loading pipeline.yaml', () => {
+    expect(CategoryMinimumsSchema.safeParse({ research: 0.7, Policy: 0.65 }).success).toBe(true);
+    const result = CategoryMinimumsSchema.safeParse({ breakthrough: 0.7 });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('Unknown category "breakthrough"');
+  });
+
+  it('rejects weights without any positive value', () => {
+    expect(
+      () =>
+        new ScoringEngine({
+          weights: { technical: 0, commercial: 0, social: 0 },
+          minComposite: 0
+        })
+    ).toThrow('at least one positive value');
+  });
+});
+
+describe('EventAnalyzer.selectTopEvents with scoring configuration', () => {
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-openai';
+    process.env.GIT_TOKEN = 'test-token';
+    process.env.TIMELINE_REPO = 'owner/repo';
+  });
+
+  function buildEvent(
+    id: string,
+    category: AnalyzedEvent['category'],
+    scores: SignificanceScores
+  ): AnalyzedEvent {
+    const engine = new ScoringEngine(PIPELINE_SCORING);
+    return {
+      id,
+      title: id,
+      date: '2025-01-10T00:00:00.000Z',
+      description: `Description for ${id}`,
+      category,
+      sources: ['https://example.com'],
+      impactScore: engine.score(scores, category).impactScore,
+      significance: scores
+    };
+  }
+
+  it('drops events below their category minimum even when above the threshold', async () => {
+    const analyzer = new EventAnalyzer(
+      {
+        significanceThreshold: 5,
+        maxEventsToSelect: 5,
+        scoring: {
+          ...PIPELINE_SCORING,
+          minComposite: 0.5,
+          categoryMinimums: { ...PIPELINE_SCORING.categoryMinimums, policy: 0.65 }
+        }
+      },
+      { llmProvider: {} as never }
+    );
+
+    const scores = significance({
+      technologicalBreakthrough: 6,
+      novelty: 6,
+      industryImpact: 6,
+      adoptionScale: 6
+    });
+    const research = buildEvent('2025-01-10-research', 'research', scores);
+    const regulation = buildEvent('2025-01-10-regulation', 'regulation', scores);
+
+    const selected = await analyzer.selectTopEvents([research, regulation]);
+
+    expect(selected.map((event) => event.id)).toEqual(['2025-01-10-research']);
+
+    const decisions = await analyzer.evaluateSelection([regulation, research]);
+    expect(decisions.map(({ event, reason }) => [event.id, reason])).toEqual([
+      ['2025-01-10-research', undefined],
+      ['2025-01-10-regulation', 'category_minimum']
+    ]);
+  });
+
+  it('judges the threshold against the recomputed impact score', async () => {
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 6.5, maxEventsToSelect: 5, scoring: PIPELINE_SCORING },
+      { llmProvider: {} as never }
+    );
+    const strong = significance({ technologicalBreakthrough: 9, novelty: 9 });
+    // Scored under older weights: the stored impact scores no longer match the current ones
+    const stale = { ...buildEvent('2025-01-10-stale', 'research', strong), impactScore: 5 };
+    const inflated = {
+      ...buildEvent('2025-01-10-inflated', 'research', significance({ industryImpact: 2 })),
+      impactScore: 9
+    };
+
+    const decisions = await analyzer.evaluateSelection([inflated, stale]);
+
+    expect(decisions.map(({ event, reason }) => [event.id, reason])).toEqual([
+      ['2025-01-10-stale', undefined],
+      ['2025-01-10-inflated', 'below_threshold']
+    ]);
+  });
+
+  it('warns once when the threshold is stricter than the composite minimums', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 7, maxEventsToSelect: 5, scoring: PIPELINE_SCORING },
+      { llmProvider: {} as never }
+    );
+    const event = buildEvent('2025-01-10-research', 'research', significance());
+
+    await analyzer.evaluateSelection([event]);
+    await analyzer.evaluateSelection([event]);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain(
+      'minimums min_composite 0.62, development 0.6, research 0.58, adoption 0.55'
+    );
+    warn.mockRestore();
+  });
+});
@@ -4,10 +4,18 @@
  */
 
 import { z } from 'zod';
-import { loadConfig } from '../config';
+import { loadConfig, loadPipelineConfig } from '../config';
 import type { LLMFactoryOptions, LLMMessage, LLMProvider } from '../llm';
 import { createLLMProvider } from '../llm';
-import type { AnalyzedEvent, EventCategory, RawEvent, SignificanceScores } from '../types';
+import type { AnalyzedEvent, EventCategory, RawEvent } from '../types';
+import { getClock } from '../utils/clock';
+import {
+  DEFAULT_SCORING_CONFIG,
+  type ScoreBreakdown,
+  type ScoringConfig,
+  ScoringEngine,
+  type SelectionCriteria
+} from './scoring';
 
 // Schema for structured output from AI
 const AIAnalysisSchema = z.object({
@@ -69,10 +77,33 @@ export interface EventAnalyzerConfig {
   maxRetries?: number;
   significanceThreshold?: number;
   maxEventsToSelect?: number;
+  /** Scoring weights and minimums; loaded from pipeline.yaml when omitted */
+  scoring?: ScoringConfig;
+}
+
+/**
+ * Why selection passed over an event
+ */
+export type SelectionRejection =
+  | 'below_threshold'
+  | 'composite_minimum'
+  | 'category_minimum'
+  | 'weekly_limit';
+
+/**
+ * Selection outcome of one analyzed event
+ */
+export interface SelectionDecision {
+  event: AnalyzedEvent;
+  selected: boolean;
+  reason?: SelectionRejection;
+  /** Breakdown under the current scoring configuration */
+  scoring: ScoreBreakdown;
 }
 
 export interface EventAnalyzerDependencies {
   llmProvider?: LLMProvider;
+  scoringEngine?: ScoringEngine;
 }
 
 export class EventAnalyzer {
@@ -81,14 +112,15 @@ export class EventAnalyzer {
   private readonly significanceThreshold: number;
   private readonly maxEventsToSelect: number;
   private readonly llmProviderPromise: Promise<LLMProvider>;
+  private readonly scoringEnginePromise: Promise<ScoringEngine>;
+  private maskedMinimumsReported = false;
 
   constructor(config: EventAnalyzerConfig = {}, dependencies: EventAnalyzerDependencies = {}) {
-    const appConfig = loadConfig();
-
     this.requestTemperature = config.temperature ?? 0.2;
     this.maxRetries = config.maxRetries || 3;
-    this.significanceThreshold = config.significanceThreshold || appConfig.significanceThreshold;
-    this.maxEventsToSelect = config.maxEventsToSelect || appConfig.maxEventsPerWeek;
+    // Environment settings are only required when the caller does not provide them
+    this.significanceThreshold = config.significanceThreshold ?? loadConfig().significanceThreshold;
+    this.maxEventsToSelect = config.maxEventsToSelect || loadConfig().maxEventsPerWeek;
 
     if (dependencies.llmProvider) {
       this.llmProviderPromise = Promise.resolve(dependencies.llmProvider);
@@ -109,6 +141,22 @@ export class EventAnalyzer {
 
       this.llmProviderPromise = createLLMProvider(providerOptions);
     }
+
+    if (dependencies.scoringEngine) {
+      this.scoringEnginePromise = Promise.resolve(dependencies.scoringEngine);
+    } else if (config.scoring) {
+      this.scoringEnginePromise = Promise.resolve(new ScoringEngine(config.scoring));
+    } else {
+      this.scoringEnginePromise = loadPipelineConfig()
+        .then((pipeline) => ScoringEngine.fromPipelineConfig(pipeline))
+        .catch((error) => {
+          console.warn(
+            'Unable to load scoring configuration from pipeline.yaml, using defaults:',
+            error instanceof Error ? error.message : error
+          );
+          return new ScoringEngine(DEFAULT_SCORING_CONFIG);
+        });
+    }
   }
 
   /**
@@ -149,6 +197,7 @@ export class EventAnalyzer {
     provider: LLMProvider
   ): Promise<AnalyzedEvent | null> {
     let retries = 0;
+    const scoringEngine = await this.scoringEnginePromise;
 
     while (retries < this.maxRetries) {
       try {
@@ -197,8 +246,8 @@ export class EventAnalyzer {
           }
         }
 
-        // Calculate overall impact score
-        const impactScore = this.calculateImpactScore(analysis.significance);
+        // Score the significance dimensions with the configured weights
+        const scoring = scoringEngine.score(analysis.significance, analysis.category);
 
         // Generate a unique ID for the event
         const id = this.generateEventId(event.date, event.title);
@@ -211,16 +260,17 @@ export class EventAnalyzer {
           category: analysis.category as EventCategory,
           sources: [event.url].filter(Boolean),
           url: event.url,
-          impactScore,
+          impactScore: scoring.impactScore,
           significance: analysis.significance,
           metadata: {
             ...event.metadata,
+            scoring,
             keyInsights: analysis.keyInsights,
             relatedTopics: analysis.relatedTopics,
             originalTitle: event.title,
             analysisProvider: provider.id,
             analysisModel: provider.model,
-            analysisDate: new Date().toISOString()
+            analysisDate: getClock().now().toISOString()
           }
         };
       } catch (error) {
@@ -337,28 +387,6 @@ export class EventAnalyzer {
     return lines.join('\n');
   }
 
-  /**
-   * Calculate overall impact score from significance dimensions
-   */
-  private calculateImpactScore(significance: SignificanceScores): number {
-    // Weighted average of significance dimensions
-    const weights = {
-      technologicalBreakthrough: 0.35,
-      industryImpact: 0.3,
-      adoptionScale: 0.2,
-      novelty: 0.15
-    };
-
-    const score =
-      significance.technologicalBreakthrough * weights.technologicalBreakthrough +
-      significance.industryImpact * weights.industryImpact +
-      significance.adoptionScale * weights.adoptionScale +
-      significance.novelty * weights.novelty;
-
-    // Round to 1 decimal place
-    return Math.round(score * 10) / 10;
-  }
-
   /**
    * Generate a unique event ID
    */
@@ -536,33 +564,115 @@ export class EventAnalyzer {
     return `Key takeaways: ${sentences.join(' ')}`.trim();
   }
 
+  /**
+   * Threshold and composite minimums selection applies
+   */
+  async getSelectionCriteria(): Promise<SelectionCriteria> {
+    const scoringEngine = await this.scoringEnginePromise;
+    return { significanceThreshold: this.significanceThreshold, ...scoringEngine.getMinimums() };
+  }
+
+  /**
+   * Decide which events selection keeps and why the others are passed over. Events that pass
+   * the threshold and minimums come first, in rank order.
+   */
+  async evaluateSelection(events: AnalyzedEvent[]): Promise<SelectionDecision[]> {
+    const scoringEngine = await this.scoringEnginePromise;
+
+    this.warnOfMaskedMinimums(scoringEngine);
+
+    // The breakdown is recomputed so events scored under older weights are judged against
+    // the current configuration
+    const decisions: SelectionDecision[] = events.map((event) => {
+      const scoring = scoringEngine.score(event.significance, event.category);
+      let reason: SelectionRejection | undefined;
+      if (scoring.impactScore < this.significanceThreshold) {
+        reason = 'below_threshold';
+      } else if (!scoring.passesMinimum) {
+        reason = scoring.minimumSource.startsWith('category:')
+          ? 'category_minimum'
+          : 'composite_minimum';
+      }
+      return { event, selected: reason === undefined, reason, scoring };
+    });
+
+    // Sort by impact score (descending) and then by date (most recent first)
+    const ranked = decisions
+      .filter((decision) => decision.selected)
+      .sort((a, b) => {
+        if (Math.abs(a.scoring.impactScore - b.scoring.impactScore) > 0.1) {
+          return b.scoring.impactScore - a.scoring.impactScore;
+        }
+        return new Date(b.event.date).getTime() - new Date(a.event.date).getTime();
+      });
+
+    // Take top N events
+    ranked.slice(this.maxEventsToSelect).forEach((decision) => {
+      decision.selected = false;
+      decision.reason = 'weekly_limit';
+    });
+
+    const rankedSet = new Set(ranked);
+    return [...ranked, ...decisions.filter((decision) => !rankedSet.has(decision))];
+  }
+
+  /**
+   * Composite minimums below the threshold can never reject an event; say so once rather than
+   * let pipeline.yaml appear to be in effect
+   */
+  private warnOfMaskedMinimums(scoringEngine: ScoringEngine): void {
+    if (this.maskedMinimumsReported) {
+      return;
+    }
+    this.maskedMinimumsReported = true;
+
+    const { minComposite, categoryMinimums } = scoringEngine.getMinimums();
+    const masked = Object.entries({ min_composite: minComposite, ...categoryMinimums })
+      .filter(([, minimum]) => minimum > 0 && minimum * 10 < this.significanceThreshold)
+      .map(([key, minimum]) => `${key} ${minimum}`);
+
+    if (masked.length > 0) {
+      console.warn(
+        `Significance threshold ${this.significanceThreshold} is stricter than the composite ` +
+          `minimums ${masked.join(', ')}; lower SIGNIFICANCE_THRESHOLD for them to apply`
+      );
+    }
+  }
+
   /**
    * Rank and select the most significant events
    */
   async selectTopEvents(events: AnalyzedEvent[]): Promise<AnalyzedEvent[]> {
-    console.log(
-      `Selecting top ${this.maxEventsToSelect} events from ${events.length} analyzed events`
-    );
+    return this.selectFromDecisions(await this.evaluateSelection(events));
+  }
 
-    // Filter by significance threshold
-    const significantEvents = events.filter(
-      (event) => event.impactScore >= this.significanceThreshold
+  /**
+   * Selected events of decisions from `evaluateSelection`, for callers that keep the decisions
+   */
+  selectFromDecisions(decisions: SelectionDecision[]): AnalyzedEvent[] {
+    console.log(
+      `Selecting top ${this.maxEventsToSelect} events from ${decisions.length} analyzed events`
     );
 
+    const aboveThreshold = decisions.filter((decision) => decision.reason !== 'below_threshold');
     console.log(
-      `${significantEvents.length} events meet significance threshold of ${this.significanceThreshold}`
+      `${aboveThreshold.length} events meet significance threshold of ${this.significanceThreshold}`
     );
 
-    // Sort by impact score (descending) and then by date (most recent first)
-    const sortedEvents = significantEvents.sort((a, b) => {
-      if (Math.abs(a.impactScore - b.impactScore) > 0.1) {
-        return b.impactScore - a.impactScore;
-      }
-      return new Date(b.date).getTime() - new Date(a.date).getTime();
-    });
+    decisions
+      .filter(
+        (decision) =>
+          decision.reason === 'composite_minimum' || decision.reason === 'category_minimum'
+      )
+      .forEach(({ event, scoring }) => {
+        console.log(
+          `  - Skipping "${event.title}": composite ${scoring.composite} below ${scoring.minimumSource} minimum ${scoring.minimum}`
+        );
+      });
 
-    // Take top N events
-    const selectedEvents = sortedEvents.slice(0, this.maxEventsToSelect);
+    const selectedEvents = decisions
+      .filter((decision) => decision.selected)
+      .map((decision) => decision.event);
 
     console.log(`Selected ${selectedEvents.length} top events`);
     selectedEvents.forEach((event) => {
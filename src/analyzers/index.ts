@@ -2,4 +2,17 @@
  * Central export point for analyzer modules
  */
 
-export { EventAnalyzer, EventAnalyzerConfig } from './event-analyzer';
+export {
+  EventAnalyzer,
+  EventAnalyzerConfig,
+  SelectionDecision,
+  SelectionRejection
+} from './event-analyzer';
+export {
+  DEFAULT_SCORING_CONFIG,
+  ScoreBreakdown,
+  ScoringConfig,
+  ScoringEngine,
+  ScoringWeightGroup,
+  SelectionCriteria
+} from './scoring';
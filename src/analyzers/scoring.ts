@@ -0,0 +1,185 @@
+/**
+ * Config-driven scoring engine.
+ * Maps the four significance dimensions onto the weight groups declared in
+ * pipeline.yaml and produces a normalized composite plus per-category minimums.
+ */
+
+import { CATEGORY_MINIMUM_KEYS, type PipelineFile } from '../config/yaml-types';
+import type { EventCategory, SignificanceScores } from '../types';
+
+export type ScoringWeightGroup = 'technical' | 'commercial' | 'social';
+
+export interface ScoringConfig {
+  /** Relative weight of each group; normalized so they do not need to sum to 1 */
+  weights: Record<ScoringWeightGroup, number>;
+  /** Composite (0-1) an event must reach when no category minimum applies */
+  minComposite: number;
+  /**
+   * Per-category composite minimums keyed by category name or alias; a category's minimum
+   * replaces minComposite for that category, whether it is higher or lower
+   */
+  categoryMinimums?: Record<string, number>;
+}
+
+/**
+ * Per-event score breakdown recorded in AnalyzedEvent.metadata.scoring
+ */
+export interface ScoreBreakdown {
+  /** Normalized (0-1) score of each weight group */
+  groups: Record<ScoringWeightGroup, number>;
+  /** Normalized weights that were applied */
+  weights: Record<ScoringWeightGroup, number>;
+  /** Weighted composite (0-1) */
+  composite: number;
+  /** Composite expressed on the 0-10 impact scale */
+  impactScore: number;
+  /** Minimum composite required for this event */
+  minimum: number;
+  /** Where the minimum came from (`min_composite` or `category:<key>`) */
+  minimumSource: string;
+  /** Whether the composite meets the minimum */
+  passesMinimum: boolean;
+}
+
+/**
+ * Minimums selection applies. An event must reach both the threshold and its composite
+ * minimum; as the impact score is the composite on a 0-10 scale, the stricter one wins.
+ */
+export interface SelectionCriteria {
+  /** Impact score (0-10) an event must reach */
+  significanceThreshold: number;
+  /** Composite (0-1) an event must reach when its category has no minimum */
+  minComposite: number;
+  /** Composite minimums by category_minimums key; each replaces minComposite for its category */
+  categoryMinimums: Record<string, number>;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: {
+    technical: 0.5,
+    commercial: 0.3,
+    social: 0.2
+  },
+  minComposite: 0
+};
+
+/**
+ * Which weight group each significance dimension contributes to
+ */
+const DIMENSION_GROUPS: Record<keyof SignificanceScores, ScoringWeightGroup> = {
+  technologicalBreakthrough: 'technical',
+  novelty: 'technical',
+  industryImpact: 'commercial',
+  adoptionScale: 'social'
+};
+
+const GROUPS: ScoringWeightGroup[] = ['technical', 'commercial', 'social'];
+
+export class ScoringEngine {
+  private readonly weights: Record<ScoringWeightGroup, number>;
+  private readonly minComposite: number;
+  private readonly categoryMinimums: Record<string, number>;
+
+  constructor(config: ScoringConfig = DEFAULT_SCORING_CONFIG) {
+    const totalWeight = GROUPS.reduce((sum, group) => sum + Math.max(0, config.weights[group]), 0);
+
+    if (totalWeight <= 0) {
+      throw new Error('Scoring weights must contain at least one positive value');
+    }
+
+    this.weights = {
+      technical: Math.max(0, config.weights.technical) / totalWeight,
+      commercial: Math.max(0, config.weights.commercial) / totalWeight,
+      social: Math.max(0, config.weights.social) / totalWeight
+    };
+    this.minComposite = config.minComposite;
+    this.categoryMinimums = Object.fromEntries(
+      Object.entries(config.categoryMinimums ?? {}).map(([key, value]) => [
+        key.trim().toLowerCase(),
+        value
+      ])
+    );
+  }
+
+  /**
+   * Build an engine from the `scoring` and `category_minimums` sections of pipeline.yaml
+   */
+  static fromPipelineConfig(pipeline: PipelineFile): ScoringEngine {
+    return new ScoringEngine({
+      weights: pipeline.scoring.weights,
+      minComposite: pipeline.scoring.min_composite,
+      categoryMinimums: pipeline.category_minimums
+    });
+  }
+
+  /**
+   * Composite minimums as configured: the global one and the per-category keys
+   */
+  getMinimums(): { minComposite: number; categoryMinimums: Record<string, number> } {
+    return { minComposite: this.minComposite, categoryMinimums: { ...this.categoryMinimums } };
+  }
+
+  /**
+   * Score a set of significance dimensions for the given category
+   */
+  score(significance: SignificanceScores, category: EventCategory | string): ScoreBreakdown {
+    const totals: Record<ScoringWeightGroup, number> = { technical: 0, commercial: 0, social: 0 };
+    const counts: Record<ScoringWeightGroup, number> = { technical: 0, commercial: 0, social: 0 };
+
+    for (const [dimension, group] of Object.entries(DIMENSION_GROUPS) as [
+      keyof SignificanceScores,
+      ScoringWeightGroup
+    ][]) {
+      const value = significance[dimension];
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        continue;
+      }
+      totals[group] += Math.min(10, Math.max(0, value)) / 10;
+      counts[group] += 1;
+    }
+
+    const groups: Record<ScoringWeightGroup, number> = {
+      technical: counts.technical > 0 ? round(totals.technical / counts.technical, 4) : 0,
+      commercial: counts.commercial > 0 ? round(totals.commercial / counts.commercial, 4) : 0,
+      social: counts.social > 0 ? round(totals.social / counts.social, 4) : 0
+    };
+
+    const composite = round(
+      GROUPS.reduce((sum, group) => sum + groups[group] * this.weights[group], 0),
+      4
+    );
+    const { minimum, source } = this.resolveMinimum(category);
+
+    return {
+      groups,
+      weights: { ...this.weights },
+      composite,
+      impactScore: round(composite * 10, 1),
+      minimum,
+      minimumSource: source,
+      passesMinimum: composite >= minimum
+    };
+  }
+
+  /**
+   * A configured category minimum takes the place of `min_composite` for that category
+   */
+  private resolveMinimum(category: string): { minimum: number; source: string } {
+    const normalized = category.trim().toLowerCase();
+    const keys = CATEGORY_MINIMUM_KEYS[normalized as EventCategory] ?? [normalized];
+
+    for (const key of keys) {
+      const minimum = this.categoryMinimums[key];
+      if (typeof minimum === 'number') {
+        return { minimum, source: `category:${key}` };
+      }
+    }
+
+    return { minimum: this.minComposite, source: 'min_composite' };
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
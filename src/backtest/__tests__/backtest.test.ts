@@ -0,0 +1,140 @@
+/**
+ * Backtest over the fixture archive with the offline mock provider
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import YAML from 'yaml';
+import { loadRawEvents } from '../../lib/raw-event-archive';
+import { MockLLMProvider } from '../../llm';
+import { parseTimelineData } from '../../timeline';
+import type { AnalyzedEvent, TimelineEntry } from '../../types';
+import { type BacktestCandidate, renderBacktestMarkdown, runBacktest } from '../backtest';
+import { BacktestCandidatesFileSchema, toBacktestCandidates } from '../candidates';
+import { matchTimelineEntries, normalizeUrl } from '../matching';
+
+const FIXTURES = path.resolve(__dirname, '../../../tests/__fixtures__/backtest');
+
+const baseline: BacktestCandidate = {
+  name: 'current',
+  significanceThreshold: 7,
+  maxEventsPerWeek: 3,
+  scoring: {
+    weights: { technical: 0.5, commercial: 0.3, social: 0.2 },
+    minComposite: 0.62,
+    categoryMinimums: {}
+  }
+};
+
+async function loadTimeline(): Promise<TimelineEntry[]> {
+  return parseTimelineData(
+    JSON.parse(await fs.readFile(path.join(FIXTURES, 'timeline-events.json'), 'utf-8'))
+  );
+}
+
+describe('matchTimelineEntries', () => {
+  const event = (overrides: Partial<AnalyzedEvent>): AnalyzedEvent => ({
+    id: '2024-03-13-event',
+    title: 'Unrelated title',
+    date: '2024-03-13T00:00:00.000Z',
+    description: 'Description',
+    category: 'product',
+    sources: [],
+    impactScore: 8,
+    significance: { technologicalBreakthrough: 8, industryImpact: 8, adoptionScale: 8, novelty: 8 },
+    ...overrides
+  });
+
+  it('matches by normalized source URL or by a similar title in the same period', async () => {
+    const timeline = await loadTimeline();
+    const matches = matchTimelineEntries(
+      [
+        event({ id: 'url', url: 'https://gov.example/ai-framework?utm_source=feed' }),
+        event({ id: 'title', metadata: { originalTitle: 'Chip Maker Unveils AI Accelerator' } }),
+        event({
+          id: 'too-late',
+          date: '2024-06-30T00:00:00.000Z',
+          metadata: { originalTitle: 'Chip Maker Unveils AI Accelerator' }
+        }),
+        event({ id: 'none' })
+      ],
+      timeline
+    );
+
+    expect(Object.fromEntries([...matches].map(([id, entry]) => [id, entry.title]))).toEqual({
+      url: 'AI Policy Framework Published',
+      title: 'Chip Maker Unveils New AI Accelerator'
+    });
+    expect(normalizeUrl('https://www.Example.com/a/?utm_medium=x&id=1#top')).toBe(
+      'example.com/a?id=1'
+    );
+  });
+});
+
+describe('runBacktest', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports precision and recall per candidate and suggests thresholds', async () => {
+    const events = await loadRawEvents(path.join(FIXTURES, 'raw-events'));
+    const candidatesFile = BacktestCandidatesFileSchema.parse(
+      YAML.parse(await fs.readFile(path.join(FIXTURES, 'candidates.yaml'), 'utf-8'))
+    );
+
+    const report = await runBacktest({
+      events,
+      timeline: await loadTimeline(),
+      window: { since: events[0].date, until: events[events.length - 1].date },
+      baseline,
+      candidates: toBacktestCandidates(candidatesFile, baseline),
+      provider: new MockLLMProvider()
+    });
+
+    expect(report.analyzed).toBe(8);
+    expect(report.timeline).toEqual({
+      entries: 5,
+      covered: 4,
+      uncovered: [expect.objectContaining({ title: 'Robotics Foundation Model Announced' })]
+    });
+
+    const byName = Object.fromEntries(
+      report.candidates.map((result) => [result.candidate.name, result])
+    );
+    expect(Object.keys(byName)).toEqual(['current', 'strict', 'technical', 'suggested']);
+    expect(byName.current.quality).toEqual({ precision: 0.67, recall: 1, f1: 0.8, passed: 6 });
+    expect(byName.current.timelineRecall).toBe(0.8);
+    expect(byName.strict.quality.precision).toBe(1);
+    expect(byName.suggested.quality.f1).toBeGreaterThanOrEqual(byName.current.quality.f1);
+    expect(byName.current.categories.map((category) => category.category)).toEqual(
+      [...new Set(byName.current.categories.map((category) => category.category))].sort()
+    );
+
+    expect(report.calibration.suggested?.significanceThreshold).toBeGreaterThan(7);
+
+    const markdown = renderBacktestMarkdown(report);
+    expect(markdown).toContain('| current | 7 | 0.5/0.3/0.2 | 0.62 | 3 | 6 | 0.67 | 1.00 |');
+    expect(markdown).toContain('- 2024-03-01 Robotics Foundation Model Announced');
+
+    // Nothing selected and nothing expected: the ratios are undefined rather than zero
+    const none = { precision: 0, recall: 0, f1: 0, passed: 0 };
+    const empty = renderBacktestMarkdown({
+      ...report,
+      timeline: { ...report.timeline, entries: 0 },
+      candidates: [
+        {
+          ...byName.current,
+          quality: none,
+          timelineRecall: 0,
+          categories: [{ category: 'research', analyzed: 2, onTimeline: 0, quality: none }]
+        }
+      ]
+    });
+    expect(empty).toContain('| 3 | 0 | N/A | N/A | N/A | N/A |');
+    expect(empty).toContain('| research | 2 | 0 | 0 | N/A | N/A |');
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Backtest of selection settings over archived raw events. Events are analyzed once, then
+ * each candidate configuration re-scores and selects them week by week with EventAnalyzer;
+ * selections are compared with the entries that actually made it onto the timeline.
+ */
+
+import { EventAnalyzer } from '../analyzers';
+import { type ScoringConfig, ScoringEngine } from '../analyzers/scoring';
+import type { LLMProvider } from '../llm';
+import {
+  buildCalibrationReport,
+  type CalibrationReport,
+  type ReviewExample,
+  type SelectionQuality,
+  selectionQuality
+} from '../review';
+import type { AnalyzedEvent, RawEvent, TimelineEntry } from '../types';
+import { getClock } from '../utils/clock';
+import { matchTimelineEntries } from './matching';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Timeline entries missing from the raw events that are listed in the Markdown report */
+const MAX_LISTED_UNCOVERED = 20;
+
+/**
+ * Selection settings to evaluate
+ */
+export interface BacktestCandidate {
+  name: string;
+  significanceThreshold: number;
+  maxEventsPerWeek: number;
+  scoring: ScoringConfig;
+}
+
+export interface BacktestOptions {
+  events: RawEvent[];
+  timeline: TimelineEntry[];
+  window: { since: Date; until: Date };
+  /** Settings the pipeline runs with today; the others are compared against it */
+  baseline: BacktestCandidate;
+  candidates?: BacktestCandidate[];
+  provider: LLMProvider;
+}
+
+export interface BacktestCategoryResult {
+  category: string;
+  analyzed: number;
+  /** Analyzed events that correspond to a timeline entry */
+  onTimeline: number;
+  quality: SelectionQuality;
+}
+
+export interface BacktestCandidateResult {
+  candidate: BacktestCandidate;
+  /** Event-level precision and recall against events that are on the timeline */
+  quality: SelectionQuality;
+  /** Share of the window's timeline entries covered by a selected event */
+  timelineRecall: number;
+  categories: BacktestCategoryResult[];
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  window: { since: string; until: string };
+  provider: { id: string; model: string };
+  rawEvents: number;
+  analyzed: number;
+  timeline: {
+    /** Timeline entries dated within the window */
+    entries: number;
+    /** Entries matched by at least one analyzed event */
+    covered: number;
+    uncovered: Pick<TimelineEntry, 'id' | 'date' | 'title'>[];
+  };
+  candidates: BacktestCandidateResult[];
+  /** Threshold suggestions, treating analyzed events on the timeline as approved */
+  calibration: CalibrationReport;
+}
+
+/**
+ * Monday (UTC) of the week an event falls in; selection caps apply per week
+ */
+function weekKey(date: string): string {
+  const day = new Date(date);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function selectWithCandidate(
+  analyzed: AnalyzedEvent[],
+  candidate: BacktestCandidate,
+  provider: LLMProvider
+): Promise<AnalyzedEvent[]> {
+  const engine = new ScoringEngine(candidate.scoring);
+  const analyzer = new EventAnalyzer(
+    {
+      significanceThreshold: candidate.significanceThreshold,
+      maxEventsToSelect: candidate.maxEventsPerWeek
+    },
+    { llmProvider: provider, scoringEngine: engine }
+  );
+
+  // The LLM's significance scores do not depend on the configuration, so re-scoring them
+  // gives the impact scores the candidate would have produced
+  const weeks = new Map<string, AnalyzedEvent[]>();
+  for (const event of analyzed) {
+    const rescored = {
+      ...event,
+      impactScore: engine.score(event.significance, event.category).impactScore
+    };
+    const key = weekKey(event.date);
+    weeks.set(key, [...(weeks.get(key) ?? []), rescored]);
+  }
+
+  const selected: AnalyzedEvent[] = [];
+  for (const key of [...weeks.keys()].sort()) {
+    selected.push(...(await analyzer.selectTopEvents(weeks.get(key) ?? [])));
+  }
+  return selected;
+}
+
+function evaluate(
+  candidate: BacktestCandidate,
+  analyzed: AnalyzedEvent[],
+  selected: AnalyzedEvent[],
+  matches: Map<string, TimelineEntry>,
+  entries: TimelineEntry[]
+): BacktestCandidateResult {
+  const selectedIds = new Set(selected.map((event) => event.id));
+  const passes = (event: AnalyzedEvent) => selectedIds.has(event.id);
+  const onTimeline = (event: AnalyzedEvent) => matches.has(event.id);
+
+  const coveredEntries = new Set(
+    selected.map((event) => matches.get(event.id)?.id).filter((id): id is string => Boolean(id))
+  );
+
+  const categories = [...new Set(analyzed.map((event) => event.category))].sort();
+
+  return {
+    candidate,
+    quality: selectionQuality(analyzed, passes, onTimeline),
+    timelineRecall: entries.length > 0 ? round(coveredEntries.size / entries.length) : 0,
+    categories: categories.map((category) => {
+      const inCategory = analyzed.filter((event) => event.category === category);
+      return {
+        category,
+        analyzed: inCategory.length,
+        onTimeline: inCategory.filter(onTimeline).length,
+        quality: selectionQuality(inCategory, passes, onTimeline)
+      };
+    })
+  };
+}
+
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const { baseline, provider, window } = options;
+
+  // Legacy entries are dated to the first of their month, so the window starts with its month
+  const windowStart = Date.UTC(window.since.getUTCFullYear(), window.since.getUTCMonth(), 1);
+  const entries = options.timeline.filter((entry) => {
+    const time = new Date(entry.date).getTime();
+    return time >= windowStart && time <= window.until.getTime();
+  });
+
+  const analyzer = new EventAnalyzer(
+    {
+      significanceThreshold: baseline.significanceThreshold,
+      maxEventsToSelect: baseline.maxEventsPerWeek
+    },
+    { llmProvider: provider, scoringEngine: new ScoringEngine(baseline.scoring) }
+  );
+  const analyzed = await analyzer.analyzeEvents(options.events);
+  const matches = matchTimelineEntries(analyzed, entries);
+
+  const examples: ReviewExample[] = analyzed.map((event) => ({
+    eventId: event.id,
+    decision: matches.has(event.id) ? 'approved' : 'rejected',
+    selected: false,
+    category: event.category,
+    impactScore: event.impactScore,
+    significance: event.significance,
+    source: 'backtest',
+    reference: matches.get(event.id)?.id ?? '',
+    decidedAt: getClock().now().toISOString()
+  }));
+  const calibration = buildCalibrationReport(examples, {
+    significanceThreshold: baseline.significanceThreshold,
+    weights: baseline.scoring.weights,
+    minComposite: baseline.scoring.minComposite
+  });
+
+  const candidates = [baseline, ...(options.candidates ?? [])];
+  if (calibration.suggested) {
+    const suggestedMinimums = Object.fromEntries(
+      calibration.categories
+        .filter((category) => category.suggestedMinComposite !== undefined)
+        .map((category) => [category.category, category.suggestedMinComposite as number])
+    );
+    candidates.push({
+      name: 'suggested',
+      significanceThreshold: calibration.suggested.significanceThreshold,
+      maxEventsPerWeek: baseline.maxEventsPerWeek,
+      scoring: {
+        weights: calibration.suggested.weights,
+        minComposite: calibration.suggested.minComposite,
+        categoryMinimums: { ...baseline.scoring.categoryMinimums, ...suggestedMinimums }
+      }
+    });
+  }
+
+  const results: BacktestCandidateResult[] = [];
+  for (const candidate of candidates) {
+    const selected = await selectWithCandidate(analyzed, candidate, provider);
+    results.push(evaluate(candidate, analyzed, selected, matches, entries));
+  }
+
+  const coveredIds = new Set([...matches.values()].map((entry) => entry.id));
+
+  return {
+    generatedAt: getClock().now().toISOString(),
+    window: { since: window.since.toISOString(), until: window.until.toISOString() },
+    provider: { id: provider.id, model: provider.model },
+    rawEvents: options.events.length,
+    analyzed: analyzed.length,
+    timeline: {
+      entries: entries.length,
+      covered: coveredIds.size,
+      uncovered: entries
+        .filter((entry) => !coveredIds.has(entry.id))
+        .map(({ id, date, title }) => ({ id, date, title }))
+    },
+    candidates: results,
+    calibration
+  };
+}
+
+/**
+ * A ratio to two decimals; N/A when nothing was counted in its denominator
+ */
+function formatRatio(value: number, denominator: number): string {
+  return denominator > 0 ? value.toFixed(2) : 'N/A';
+}
+
+function formatWeights(weights: ScoringConfig['weights']): string {
+  return `${weights.technical}/${weights.commercial}/${weights.social}`;
+}
+
+export function renderBacktestMarkdown(report: BacktestReport): string {
+  const lines: string[] = [];
+
+  lines.push('# Selection backtest');
+  lines.push('');
+  lines.push(
+    `${report.window.since.slice(0, 10)} to ${report.window.until.slice(0, 10)}: ` +
+      `${report.rawEvents} raw events, ${report.analyzed} analyzed with ` +
+      `\`${report.provider.id}\` (${report.provider.model}). ` +
+      `${report.timeline.covered} of ${report.timeline.entries} timeline entries in the window ` +
+      'have a matching raw event.'
+  );
+  if (!report.calibration.confident) {
+    lines.push('');
+    lines.push('> Low confidence: fewer than 10 events on and off the timeline in this window.');
+  }
+
+  lines.push('');
+  lines.push('## Candidates');
+  lines.push(
+    '| Candidate | Threshold | Weights (tech/comm/social) | min_composite | Max/week | Selected | Precision | Recall | F1 | Timeline recall |'
+  );
+  lines.push('| --- | ---: | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |');
+  for (const result of report.candidates) {
+    const { candidate, quality } = result;
+    const onTimeline = result.categories.reduce((sum, category) => sum + category.onTimeline, 0);
+    lines.push(
+      `| ${candidate.name} | ${candidate.significanceThreshold} | ` +
+        `${formatWeights(candidate.scoring.weights)} | ${candidate.scoring.minComposite} | ` +
+        `${candidate.maxEventsPerWeek} | ${quality.passed} | ` +
+        `${formatRatio(quality.precision, quality.passed)} | ` +
+        `${formatRatio(quality.recall, onTimeline)} | ` +
+        `${formatRatio(quality.f1, Math.min(quality.passed, onTimeline))} | ` +
+        `${formatRatio(result.timelineRecall, report.timeline.entries)} |`
+    );
+  }
+
+  for (const result of report.candidates) {
+    lines.push('');
+    lines.push(`### ${result.candidate.name} by category`);
+    lines.push('| Category | Analyzed | On timeline | Selected | Precision | Recall |');
+    lines.push('| --- | ---: | ---: | ---: | ---: | ---: |');
+    for (const category of result.categories) {
+      lines.push(
+        `| ${category.category} | ${category.analyzed} | ${category.onTimeline} | ` +
+          `${category.quality.passed} | ` +
+          `${formatRatio(category.quality.precision, category.quality.passed)} | ` +
+          `${formatRatio(category.quality.recall, category.onTimeline)} |`
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push('## Suggested settings');
+  const suggested = report.calibration.suggested;
+  if (suggested) {
+    lines.push(`- \`SIGNIFICANCE_THRESHOLD\`: ${suggested.significanceThreshold}`);
+    lines.push(
+      `- \`scoring.weights\`: technical ${suggested.weights.technical}, ` +
+        `commercial ${suggested.weights.commercial}, social ${suggested.weights.social}`
+    );
+    lines.push(`- \`scoring.min_composite\`: ${suggested.minComposite}`);
+    for (const category of report.calibration.categories) {
+      if (category.suggestedMinComposite !== undefined) {
+        lines.push(
+          `- \`category_minimums.${category.category}\`: ${category.suggestedMinComposite}`
+        );
+      }
+    }
+  } else {
+    lines.push('- None: the window needs analyzed events both on and off the timeline.');
+  }
+
+  if (report.timeline.uncovered.length > 0) {
+    lines.push('');
+    lines.push('## Timeline entries without a raw event');
+    lines.push('No configuration can select these; check source coverage.');
+    for (const entry of report.timeline.uncovered.slice(0, MAX_LISTED_UNCOVERED)) {
+      lines.push(`- ${entry.date.slice(0, 10)} ${entry.title}`);
+    }
+    if (report.timeline.uncovered.length > MAX_LISTED_UNCOVERED) {
+      lines.push(`- … and ${report.timeline.uncovered.length - MAX_LISTED_UNCOVERED} more`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
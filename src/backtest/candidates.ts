@@ -0,0 +1,75 @@
+/**
+ * Candidate configurations for the backtest, read from a YAML or JSON file. Settings a
+ * candidate leaves out are taken from the baseline.
+ */
+
+import { promises as fs } from 'node:fs';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { CategoryMinimumsSchema } from '../config/yaml-types';
+import { ConfigurationError } from '../utils/errors';
+import type { BacktestCandidate } from './backtest';
+
+const WeightsSchema = z.object({
+  technical: z.number().min(0).max(1),
+  commercial: z.number().min(0).max(1),
+  social: z.number().min(0).max(1)
+});
+
+const CandidateSchema = z.object({
+  name: z.string().min(1),
+  significance_threshold: z.number().min(0).max(10).optional(),
+  max_events_per_week: z.number().int().positive().optional(),
+  scoring: z
+    .object({
+      weights: WeightsSchema.optional(),
+      min_composite: z.number().min(0).max(1).optional()
+    })
+    .optional(),
+  category_minimums: CategoryMinimumsSchema.optional()
+});
+
+export const BacktestCandidatesFileSchema = z.object({
+  candidates: z.array(CandidateSchema).min(1)
+});
+
+export type BacktestCandidatesFile = z.infer<typeof BacktestCandidatesFileSchema>;
+
+export function toBacktestCandidates(
+  file: BacktestCandidatesFile,
+  baseline: BacktestCandidate
+): BacktestCandidate[] {
+  return file.candidates.map((candidate) => ({
+    name: candidate.name,
+    significanceThreshold: candidate.significance_threshold ?? baseline.significanceThreshold,
+    maxEventsPerWeek: candidate.max_events_per_week ?? baseline.maxEventsPerWeek,
+    scoring: {
+      weights: candidate.scoring?.weights ?? baseline.scoring.weights,
+      minComposite: candidate.scoring?.min_composite ?? baseline.scoring.minComposite,
+      categoryMinimums: candidate.category_minimums ?? baseline.scoring.categoryMinimums
+    }
+  }));
+}
+
+export async function loadBacktestCandidates(
+  filePath: string,
+  baseline: BacktestCandidate
+): Promise<BacktestCandidate[]> {
+  let parsed: unknown;
+  try {
+    parsed = YAML.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to read backtest candidates ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  const result = BacktestCandidatesFileSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ConfigurationError(
+      `Invalid backtest candidates in ${filePath}: ${result.error.message}`
+    );
+  }
+
+  return toBacktestCandidates(result.data, baseline);
+}
@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+
+/**
+ * Backtest command: replay archived raw events through the analyzer and compare the
+ * selections of candidate configurations with the published timeline.
+ *
+ *   npm run backtest -- --events tests/__fixtures__/backtest/raw-events \
+ *     --timeline tests/__fixtures__/backtest/timeline-events.json --mock
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { loadPipelineConfig, type PipelineConfig } from '../config';
+import { loadRawEvents } from '../lib/raw-event-archive';
+import { createLLMProvider, MockLLMProvider } from '../llm';
+import { DEFAULT_TIMELINE_FIELDS, parseTimelineData } from '../timeline';
+import { ConfigurationError } from '../utils/errors';
+import { type BacktestCandidate, renderBacktestMarkdown, runBacktest } from './backtest';
+import { loadBacktestCandidates } from './candidates';
+
+export interface BacktestArgs {
+  events?: string;
+  timeline?: string;
+  since?: Date;
+  until?: Date;
+  candidates?: string;
+  out?: string;
+  /** Analyze with the offline mock provider instead of the configured LLM chain */
+  mock: boolean;
+}
+
+const USAGE =
+  'Usage: backtest [--events <dir>] [--timeline <file>] [--since YYYY-MM-DD] ' +
+  '[--until YYYY-MM-DD] [--candidates <file>] [--out <dir>] [--mock]';
+
+export function parseBacktestArgs(argv: string[]): BacktestArgs {
+  const value = (flag: string): string | undefined => {
+    const index = argv.indexOf(flag);
+    if (index === -1) {
+      return undefined;
+    }
+    const next = argv[index + 1];
+    if (!next || next.startsWith('--')) {
+      throw new ConfigurationError(`${flag} requires a value. ${USAGE}`);
+    }
+    return next;
+  };
+
+  const date = (flag: string, endOfDay: boolean): Date | undefined => {
+    const raw = value(flag);
+    if (raw === undefined) {
+      return undefined;
+    }
+    const parsed = new Date(
+      /^\d{4}-\d{2}-\d{2}$/.test(raw) && endOfDay ? `${raw}T23:59:59.999Z` : raw
+    );
+    if (Number.isNaN(parsed.getTime())) {
+      throw new ConfigurationError(`${flag} must be a date (YYYY-MM-DD), got "${raw}"`);
+    }
+    return parsed;
+  };
+
+  return {
+    events: value('--events'),
+    timeline: value('--timeline'),
+    since: date('--since', false),
+    until: date('--until', true),
+    candidates: value('--candidates'),
+    out: value('--out'),
+    mock: argv.includes('--mock')
+  };
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const parsed = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * Settings the daily run uses: env thresholds (with their defaults) and pipeline.yaml scoring
+ */
+export function baselineCandidate(pipeline: PipelineConfig): BacktestCandidate {
+  return {
+    name: 'current',
+    significanceThreshold: numberFromEnv('SIGNIFICANCE_THRESHOLD', 7.0),
+    maxEventsPerWeek: numberFromEnv('MAX_EVENTS_PER_WEEK', 3),
+    scoring: {
+      weights: pipeline.scoring.weights,
+      minComposite: pipeline.scoring.min_composite,
+      categoryMinimums: pipeline.category_minimums
+    }
+  };
+}
+
+async function main(): Promise<void> {
+  const args = parseBacktestArgs(process.argv.slice(2));
+  const pipeline = await loadPipelineConfig();
+
+  const eventsDir = args.events ?? pipeline.outputs.raw_events_dir;
+  if (!eventsDir) {
+    throw new ConfigurationError(
+      `--events is required when outputs.raw_events_dir is not configured. ${USAGE}`
+    );
+  }
+  const timelinePath = args.timeline ?? pipeline.outputs.timeline_path;
+  const outDir = args.out ?? path.join(pipeline.outputs.report_dir, 'backtest');
+
+  const events = await loadRawEvents(eventsDir, { since: args.since, until: args.until });
+  if (events.length === 0) {
+    throw new ConfigurationError(`No raw events found in ${eventsDir} for the requested window`);
+  }
+  const timeline = parseTimelineData(
+    JSON.parse(await fs.readFile(timelinePath, 'utf-8')),
+    pipeline.outputs.timeline_fields ?? DEFAULT_TIMELINE_FIELDS
+  );
+
+  const baseline = baselineCandidate(pipeline);
+  const candidates = args.candidates ? await loadBacktestCandidates(args.candidates, baseline) : [];
+  const provider = args.mock ? new MockLLMProvider() : await createLLMProvider();
+
+  console.log(
+    `🧪 Backtesting ${candidates.length + 1} configurations over ${events.length} raw events ` +
+      `against ${timelinePath}\n`
+  );
+
+  const report = await runBacktest({
+    events,
+    timeline,
+    window: {
+      since: args.since ?? events[0].date,
+      until: args.until ?? events[events.length - 1].date
+    },
+    baseline,
+    candidates,
+    provider
+  });
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(
+    path.join(outDir, 'backtest.json'),
+    `${JSON.stringify(report, null, 2)}\n`,
+    'utf-8'
+  );
+  const markdown = renderBacktestMarkdown(report);
+  await fs.writeFile(path.join(outDir, 'backtest.md'), markdown, 'utf-8');
+
+  console.log(`\n${markdown}`);
+  console.log(`📝 Backtest report written to ${outDir}`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('\n❌ Backtest failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Central export point for the selection backtest
+ */
+
+export {
+  type BacktestCandidate,
+  type BacktestCandidateResult,
+  type BacktestCategoryResult,
+  type BacktestOptions,
+  type BacktestReport,
+  renderBacktestMarkdown,
+  runBacktest
+} from './backtest';
+export {
+  BacktestCandidatesFileSchema,
+  loadBacktestCandidates,
+  toBacktestCandidates
+} from './candidates';
+export { matchTimelineEntries, normalizeUrl } from './matching';
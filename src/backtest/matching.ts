@@ -0,0 +1,96 @@
+/**
+ * Match analyzed events to entries of the published timeline. An event matches an entry that
+ * cites the same source URL, or one with a similar title dated close to the event.
+ */
+
+import type { AnalyzedEvent, TimelineEntry } from '../types';
+
+/** Word overlap (Jaccard) above which two titles describe the same event */
+const TITLE_SIMILARITY_MIN = 0.5;
+/** Timeline entries without a day are dated to the start of their month */
+const MAX_DATE_DISTANCE_MS = 45 * 24 * 60 * 60 * 1000;
+
+export function normalizeUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    const params = [...url.searchParams.entries()].filter(([key]) => !key.startsWith('utm_'));
+    const query = new URLSearchParams(params).toString();
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const pathname = url.pathname.replace(/\/+$/, '');
+    return `${host}${pathname}${query ? `?${query}` : ''}`;
+  } catch {
+    return null;
+  }
+}
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter((word) => word.length > 2)
+  );
+}
+
+function titleSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = [...a].filter((word) => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Map each analyzed event id to the timeline entry it corresponds to; events with no
+ * counterpart are left out
+ */
+export function matchTimelineEntries(
+  events: AnalyzedEvent[],
+  entries: TimelineEntry[]
+): Map<string, TimelineEntry> {
+  const byUrl = new Map<string, TimelineEntry>();
+  for (const entry of entries) {
+    for (const source of entry.sources) {
+      const key = normalizeUrl(source);
+      if (key && !byUrl.has(key)) {
+        byUrl.set(key, entry);
+      }
+    }
+  }
+  const entryWords = entries.map((entry) => ({ entry, words: titleWords(entry.title) }));
+
+  const matches = new Map<string, TimelineEntry>();
+  for (const event of events) {
+    const urlMatch = [event.url, ...event.sources]
+      .map((source) => (source ? normalizeUrl(source) : null))
+      .map((key) => (key ? byUrl.get(key) : undefined))
+      .find(Boolean);
+    if (urlMatch) {
+      matches.set(event.id, urlMatch);
+      continue;
+    }
+
+    const eventTime = new Date(event.date).getTime();
+    const originalTitle = event.metadata?.originalTitle;
+    const titles = [event.title, typeof originalTitle === 'string' ? originalTitle : '']
+      .filter(Boolean)
+      .map(titleWords);
+
+    let best: { entry: TimelineEntry; similarity: number } | undefined;
+    for (const { entry, words } of entryWords) {
+      if (Math.abs(new Date(entry.date).getTime() - eventTime) > MAX_DATE_DISTANCE_MS) {
+        continue;
+      }
+      const similarity = Math.max(...titles.map((title) => titleSimilarity(title, words)));
+      if (similarity >= TITLE_SIMILARITY_MIN && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+    if (best) {
+      matches.set(event.id, best.entry);
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,118 @@
+/**
+ * CLI subcommands and the stage artifacts they exchange
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readStageArtifact, writeStageArtifact } from '../../orchestrator';
+import type { AnalyzedEvent } from '../../types';
+import { positionalArgs } from '../args';
+import { readRawEventsArtifact } from '../artifacts';
+import { runCli } from '../index';
+
+const analyzedEvent = (id: string, impactScore: number): AnalyzedEvent => ({
+  id,
+  title: `Event ${id}`,
+  date: '2024-03-14T00:00:00.000Z',
+  description: 'Description',
+  category: 'research',
+  sources: [`https://example.com/${id}`],
+  impactScore,
+  significance: {
+    technologicalBreakthrough: impactScore,
+    industryImpact: impactScore,
+    adoptionScale: impactScore,
+    novelty: impactScore
+  }
+});
+
+describe('CLI', () => {
+  let dir: string;
+  let output: string[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    output = [];
+    jest.spyOn(console, 'log').mockImplementation((...args) => {
+      output.push(args.join(' '));
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads raw events from ingest and dedupe artifacts and rejects other stages', async () => {
+    const ingestPath = await writeStageArtifact(path.join(dir, 'ingest.json'), 'ingest', {
+      correlationId: 'run-1',
+      windowStart: '2024-03-08T00:00:00.000Z',
+      windowEnd: '2024-03-15T00:00:00.000Z',
+      sources: [{ id: 'blog', itemCount: 1, latencyMs: 5, throttleWaitMs: 0 }],
+      totalBeforeLimit: 1,
+      items: [
+        {
+          id: 'item-1',
+          title: 'Model released',
+          url: 'https://example.com/model',
+          publishedAt: '2024-03-14T00:00:00.000Z',
+          source: 'blog',
+          summary: 'A new model.'
+        }
+      ]
+    });
+    const dedupePath = await writeStageArtifact(path.join(dir, 'dedupe.json'), 'dedupe', {
+      events: [
+        {
+          title: 'Model released',
+          date: '2024-03-14T00:00:00.000Z',
+          source: 'blog',
+          url: 'https://example.com/model',
+          content: 'A new model.'
+        }
+      ],
+      removed: 0
+    });
+
+    const [fromIngest] = await readRawEventsArtifact(ingestPath);
+    const [fromDedupe] = await readRawEventsArtifact(dedupePath);
+    expect(fromIngest).toMatchObject({ content: 'A new model.', source: 'blog' });
+    expect(fromIngest.date).toEqual(new Date('2024-03-14T00:00:00.000Z'));
+    expect(fromDedupe.date).toEqual(fromIngest.date);
+
+    await expect(readStageArtifact(dedupePath, ['select'])).rejects.toThrow(
+      'was written by "dedupe", expected output of "select"'
+    );
+  });
+
+  it('runs the select stage from an analyze artifact', async () => {
+    process.env.OPENAI_API_KEY = 'test-openai';
+    process.env.TIMELINE_BACKEND = 'local';
+    const input = path.join(dir, 'analyze.json');
+    const out = path.join(dir, 'select.json');
+    await writeStageArtifact(input, 'analyze', {
+      events: [analyzedEvent('low', 3), analyzedEvent('high', 9.5)]
+    });
+
+    expect(await runCli(['select', '--in', input, '--out', out])).toBe(0);
+
+    const { data } = await readStageArtifact(out, ['select']);
+    expect(data.considered).toBe(2);
+    expect(data.events.map((event) => event.id)).toEqual(['high']);
+  });
+
+  it('lists sources and reports usage errors', async () => {
+    expect(await runCli(['list-sources', '--json'])).toBe(0);
+    const sources = JSON.parse(output.join('\n')) as { id: string }[];
+    expect(sources.map((source) => source.id)).toContain('openai_blog');
+
+    expect(await runCli(['test-source'])).toBe(1);
+    expect(await runCli(['test-source', 'unknown-source'])).toBe(1);
+    expect(await runCli(['unknown-command'])).toBe(1);
+    expect(positionalArgs(['--limit', '5', 'openai_blog', '--json'], ['--limit'])).toEqual([
+      'openai_blog'
+    ]);
+  });
+});
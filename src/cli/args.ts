@@ -0,0 +1,51 @@
+/**
+ * Minimal argv parsing for the CLI subcommands
+ */
+
+import { ConfigurationError } from '../utils/errors';
+
+/**
+ * Value of `--flag <value>`; undefined when the flag is absent
+ */
+export function flagValue(argv: string[], flag: string, usage: string): string | undefined {
+  const index = argv.indexOf(flag);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = argv[index + 1];
+  if (!value || value.startsWith('--')) {
+    throw new ConfigurationError(`${flag} requires a value. ${usage}`);
+  }
+  return value;
+}
+
+/**
+ * Positive integer value of `--flag <n>`
+ */
+export function integerFlag(argv: string[], flag: string, usage: string): number | undefined {
+  const raw = flagValue(argv, flag, usage);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ConfigurationError(`${flag} must be a positive integer, got "${raw}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Arguments that are neither flags nor the values of `valueFlags`
+ */
+export function positionalArgs(argv: string[], valueFlags: readonly string[]): string[] {
+  const positionals: string[] = [];
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (valueFlags.includes(arg)) {
+      index++;
+    } else if (!arg.startsWith('--')) {
+      positionals.push(arg);
+    }
+  }
+  return positionals;
+}
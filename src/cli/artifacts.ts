@@ -0,0 +1,24 @@
+/**
+ * Stage artifact input for the CLI
+ */
+
+import {
+  deserializeRawEvents,
+  rawItemToRawEvent,
+  readStageArtifact,
+  type StageArtifact
+} from '../orchestrator';
+import type { RawEvent } from '../types';
+
+/**
+ * Raw events from an ingest artifact (built from its items) or a dedupe artifact
+ */
+export async function readRawEventsArtifact(filePath: string): Promise<RawEvent[]> {
+  const artifact = await readStageArtifact(filePath, ['ingest', 'dedupe']);
+
+  if (artifact.stage === 'ingest') {
+    return (artifact as StageArtifact<'ingest'>).data.items.map(rawItemToRawEvent);
+  }
+
+  return deserializeRawEvents((artifact as StageArtifact<'dedupe'>).data.events);
+}
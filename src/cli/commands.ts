@@ -0,0 +1,360 @@
+/**
+ * CLI subcommands. Pipeline stages run one orchestrator step each, reading the previous
+ * stage's artifact and writing their own under `<outputs.report_dir>/artifacts` by default.
+ */
+
+import {
+  loadConfig,
+  loadLlmConfig,
+  loadPipelineConfig,
+  loadSourcesConfig,
+  validateConfig
+} from '../config';
+import { bootstrapConnectors, computeIngestionWindow } from '../connectors';
+import {
+  defaultArtifactPath,
+  type PipelineStage,
+  readStageArtifact,
+  type StageArtifactData,
+  serializeRawEvents,
+  toIngestArtifact,
+  WeeklyUpdateOrchestrator,
+  writeStageArtifact
+} from '../orchestrator';
+import { ConfigurationError } from '../utils/errors';
+import { flagValue, integerFlag, positionalArgs } from './args';
+import { readRawEventsArtifact } from './artifacts';
+
+export interface CliCommand {
+  usage: string;
+  description: string;
+  /** Resolves to the process exit code */
+  run(argv: string[]): Promise<number>;
+}
+
+/**
+ * Orchestrator configured from the environment, as for a full run. Stage commands do not
+ * consult the seen-items ledger, so every input item is processed.
+ */
+function createStageOrchestrator(): WeeklyUpdateOrchestrator {
+  const appConfig = loadConfig();
+  return new WeeklyUpdateOrchestrator({
+    timelineRepo: appConfig.timelineRepo?.full,
+    timelineBackend: appConfig.timelineBackend,
+    maxEventsPerWeek: appConfig.maxEventsPerWeek,
+    significanceThreshold: appConfig.significanceThreshold,
+    githubToken: appConfig.githubToken,
+    dryRun: appConfig.dryRun,
+    httpCacheMode: appConfig.httpCacheMode,
+    useSeenLedger: false
+  });
+}
+
+/**
+ * Input and output artifact paths of a stage, defaulting to the report directory
+ */
+async function stagePaths(
+  argv: string[],
+  usage: string,
+  stage: PipelineStage,
+  previous?: PipelineStage
+): Promise<{ input: string; output: string }> {
+  const input = flagValue(argv, '--in', usage);
+  const output = flagValue(argv, '--out', usage);
+  const needsDefaults = !output || (previous !== undefined && !input);
+  const reportDir = needsDefaults ? (await loadPipelineConfig()).outputs.report_dir : '';
+
+  return {
+    input: input ?? (previous ? defaultArtifactPath(reportDir, previous) : ''),
+    output: output ?? defaultArtifactPath(reportDir, stage)
+  };
+}
+
+/**
+ * Print errors the orchestrator recorded while continuing past them
+ */
+function reportRecoverableErrors(orchestrator: WeeklyUpdateOrchestrator): number {
+  const errors = orchestrator.getErrors();
+  if (errors.length > 0) {
+    console.error(`⚠️  ${errors.length} recoverable errors:`);
+    errors.forEach((error) => {
+      console.error(`  - ${error.message}`);
+    });
+  }
+  return errors.length;
+}
+
+const INGEST_USAGE = 'Usage: ingest [--out <file>]';
+
+const ingest: CliCommand = {
+  usage: INGEST_USAGE,
+  description: 'Fetch items from the enabled sources and write them as an ingest artifact',
+  async run(argv) {
+    const { output } = await stagePaths(argv, INGEST_USAGE, 'ingest');
+    const orchestrator = createStageOrchestrator();
+
+    console.log('📊 Collecting items from configured sources...');
+    const ingestion = await orchestrator.ingest();
+    if (!ingestion) {
+      throw new ConfigurationError('No enabled sources configured in sources.yaml');
+    }
+
+    ingestion.connectorSummaries.forEach((summary) => {
+      console.log(`   - ${summary.id}: ${summary.itemCount} items in ${summary.latencyMs}ms`);
+    });
+    reportRecoverableErrors(orchestrator);
+
+    const written = await writeStageArtifact(output, 'ingest', toIngestArtifact(ingestion));
+    console.log(`📝 Wrote ${ingestion.items.length} items to ${written}`);
+    return 0;
+  }
+};
+
+const DEDUPE_USAGE = 'Usage: dedupe [--in <ingest artifact>] [--out <file>]';
+
+const dedupe: CliCommand = {
+  usage: DEDUPE_USAGE,
+  description: 'Merge duplicate events from an ingest artifact',
+  async run(argv) {
+    const { input, output } = await stagePaths(argv, DEDUPE_USAGE, 'dedupe', 'ingest');
+    const events = await readRawEventsArtifact(input);
+    const orchestrator = createStageOrchestrator();
+
+    console.log(`🔄 Deduplicating ${events.length} events from ${input}...`);
+    const deduplicated = await orchestrator.deduplicate(events);
+
+    const written = await writeStageArtifact(output, 'dedupe', {
+      events: serializeRawEvents(deduplicated),
+      removed: events.length - deduplicated.length
+    });
+    console.log(
+      `📝 Wrote ${deduplicated.length} events (${events.length - deduplicated.length} duplicates removed) to ${written}`
+    );
+    return 0;
+  }
+};
+
+const ANALYZE_USAGE = 'Usage: analyze [--in <ingest or dedupe artifact>] [--out <file>]';
+
+const analyze: CliCommand = {
+  usage: ANALYZE_USAGE,
+  description: 'Score events with the configured LLM provider chain',
+  async run(argv) {
+    const { input, output } = await stagePaths(argv, ANALYZE_USAGE, 'analyze', 'dedupe');
+    const events = await readRawEventsArtifact(input);
+    const orchestrator = createStageOrchestrator();
+
+    console.log(`🤖 Analyzing ${events.length} events from ${input}...`);
+    const analyzed = events.length > 0 ? await orchestrator.analyze(events) : [];
+    if (reportRecoverableErrors(orchestrator) > 0) {
+      // Analysis errors leave no partial result worth handing to the next stage
+      return 1;
+    }
+
+    const written = await writeStageArtifact(output, 'analyze', { events: analyzed });
+    console.log(`📝 Wrote ${analyzed.length} analyzed events to ${written}`);
+    return 0;
+  }
+};
+
+const SELECT_USAGE = 'Usage: select [--in <analyze artifact>] [--out <file>]';
+
+const select: CliCommand = {
+  usage: SELECT_USAGE,
+  description: 'Pick the events to publish from an analyze artifact',
+  async run(argv) {
+    const { input, output } = await stagePaths(argv, SELECT_USAGE, 'select', 'analyze');
+    const { data } = await readStageArtifact(input, ['analyze']);
+    const orchestrator = createStageOrchestrator();
+
+    const selected = await orchestrator.select(data.events);
+    selected.forEach((event, i) => {
+      console.log(`   ${i + 1}. ${event.title} (score: ${event.impactScore})`);
+    });
+
+    const written = await writeStageArtifact(output, 'select', {
+      events: selected,
+      considered: data.events.length
+    });
+    console.log(
+      `📝 Wrote ${selected.length} of ${data.events.length} analyzed events to ${written}`
+    );
+    return 0;
+  }
+};
+
+const PUBLISH_USAGE = 'Usage: publish [--in <select artifact>] [--out <file>] [--dry-run]';
+
+const publish: CliCommand = {
+  usage: PUBLISH_USAGE,
+  description: 'Publish the selected events to the configured timeline backend',
+  async run(argv) {
+    const { input, output } = await stagePaths(argv, PUBLISH_USAGE, 'publish', 'select');
+    const { data } = await readStageArtifact(input, ['select']);
+    const dryRun = argv.includes('--dry-run') || loadConfig().dryRun;
+
+    if (data.events.length === 0) {
+      console.log(`⏭️  No events selected in ${input}; nothing to publish`);
+    } else if (dryRun) {
+      console.log(`🛑 Dry run: would publish ${data.events.length} events`);
+    }
+
+    let result: StageArtifactData['publish']['result'];
+    if (data.events.length > 0 && !dryRun) {
+      const { url, reference, created, changeRequest } = await createStageOrchestrator().publish(
+        data.events
+      );
+      result = { url, reference, created, changeRequest };
+    }
+
+    const written = await writeStageArtifact(output, 'publish', {
+      dryRun,
+      events: result ? data.events.length : 0,
+      result
+    });
+    console.log(`📝 Wrote publish result to ${written}`);
+    return 0;
+  }
+};
+
+const VALIDATE_USAGE = 'Usage: validate-config [--json]';
+
+const validateConfigCommand: CliCommand = {
+  usage: VALIDATE_USAGE,
+  description: 'Check the environment and the YAML configuration files',
+  async run(argv) {
+    const env = validateConfig();
+    const checks: { name: string; valid: boolean; errors: string[] }[] = [
+      { name: 'environment', valid: env.valid, errors: env.errors ?? [] }
+    ];
+
+    for (const [name, load] of [
+      ['sources.yaml', loadSourcesConfig],
+      ['pipeline.yaml', loadPipelineConfig],
+      ['llm.yaml', loadLlmConfig]
+    ] as const) {
+      try {
+        await load();
+        checks.push({ name, valid: true, errors: [] });
+      } catch (error) {
+        checks.push({ name, valid: false, errors: [(error as Error).message] });
+      }
+    }
+
+    const valid = checks.every((check) => check.valid);
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify({ valid, checks }, null, 2));
+    } else {
+      checks.forEach((check) => {
+        console.log(`${check.valid ? '✓' : '✗'} ${check.name}`);
+        check.errors.forEach((error) => {
+          console.log(`    ${error}`);
+        });
+      });
+    }
+    return valid ? 0 : 1;
+  }
+};
+
+const LIST_SOURCES_USAGE = 'Usage: list-sources [--json]';
+
+const listSources: CliCommand = {
+  usage: LIST_SOURCES_USAGE,
+  description: 'List the sources in sources.yaml',
+  async run(argv) {
+    const { sources, window_days } = await loadSourcesConfig();
+
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify(sources, null, 2));
+      return 0;
+    }
+
+    const idWidth = Math.max(2, ...sources.map((source) => source.id.length));
+    console.log(`${sources.length} sources, ${window_days}-day window\n`);
+    console.log(`${'ID'.padEnd(idWidth)}  KIND    ENABLED  URL`);
+    sources.forEach((source) => {
+      console.log(
+        `${source.id.padEnd(idWidth)}  ${source.kind.padEnd(6)}  ${(source.enabled ? 'yes' : 'no').padEnd(7)}  ${source.url}`
+      );
+    });
+    return 0;
+  }
+};
+
+const TEST_SOURCE_USAGE = 'Usage: test-source <id> [--limit <n>] [--out <file>] [--json]';
+
+const testSource: CliCommand = {
+  usage: TEST_SOURCE_USAGE,
+  description: 'Fetch one source and print its items',
+  async run(argv) {
+    const [id] = positionalArgs(argv, ['--limit', '--out']);
+    if (!id) {
+      throw new ConfigurationError(`A source id is required. ${TEST_SOURCE_USAGE}`);
+    }
+    const limit = integerFlag(argv, '--limit', TEST_SOURCE_USAGE);
+    const output = flagValue(argv, '--out', TEST_SOURCE_USAGE);
+
+    const { sources } = await loadSourcesConfig();
+    const entry = sources.find((source) => source.id === id);
+    if (!entry) {
+      throw new ConfigurationError(
+        `Unknown source "${id}". Configured sources: ${sources.map((source) => source.id).join(', ')}`
+      );
+    }
+    if (!entry.enabled) {
+      throw new ConfigurationError(`Source "${id}" is disabled in sources.yaml`);
+    }
+
+    const { connectors, windowDays } = await bootstrapConnectors();
+    const connector = connectors.find((candidate) => candidate.id === id);
+    if (!connector) {
+      throw new ConfigurationError(`Source "${id}" could not be set up; see the warning above`);
+    }
+
+    const pipeline = await loadPipelineConfig().catch(() => null);
+    const maxItems = limit ?? pipeline?.limits.max_items_per_source ?? 20;
+    const { windowStart, windowEnd } = computeIngestionWindow(windowDays);
+
+    const startedAt = Date.now();
+    const items = await connector.fetch({ windowStart, windowEnd, maxItems });
+    const latencyMs = Date.now() - startedAt;
+
+    if (argv.includes('--json')) {
+      console.log(JSON.stringify(items, null, 2));
+    } else {
+      console.log(
+        `${connector.id} (${connector.kind}, ${connector.url}): ${items.length} items in ${latencyMs}ms\n`
+      );
+      items.forEach((item) => {
+        console.log(`${item.publishedAt.slice(0, 10) || '----------'}  ${item.title}`);
+        console.log(`            ${item.url}`);
+      });
+    }
+
+    if (output) {
+      const written = await writeStageArtifact(output, 'ingest', {
+        correlationId: `test-source-${id}`,
+        windowStart: windowStart.toISOString(),
+        windowEnd: windowEnd.toISOString(),
+        sources: [{ id, itemCount: items.length, latencyMs, throttleWaitMs: 0 }],
+        totalBeforeLimit: items.length,
+        items
+      });
+      console.error(`📝 Wrote ${items.length} items to ${written}`);
+    }
+    return 0;
+  }
+};
+
+export const COMMANDS = {
+  ingest,
+  dedupe,
+  analyze,
+  select,
+  publish,
+  'validate-config': validateConfigCommand,
+  'list-sources': listSources,
+  'test-source': testSource
+} satisfies Record<string, CliCommand>;
+
+export type CliCommandName = keyof typeof COMMANDS;
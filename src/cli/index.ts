@@ -0,0 +1,74 @@
+/**
+ * Subcommand dispatch for the command line. Without a subcommand (or with `run`) the entry
+ * point runs the whole pipeline as before.
+ */
+
+import { ConfigurationError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+import { type CliCommandName, COMMANDS } from './commands';
+
+export { readRawEventsArtifact } from './artifacts';
+export { type CliCommand, type CliCommandName, COMMANDS } from './commands';
+
+export function isCliCommand(name: string | undefined): name is CliCommandName {
+  return name !== undefined && Object.hasOwn(COMMANDS, name);
+}
+
+export function renderHelp(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  const lines = [
+    'Usage: ai-timeline-update [command] [options]',
+    '',
+    'Commands:',
+    `  ${'run'.padEnd(width)}  Run the whole pipeline (default; --resume <run id> continues a failed run)`,
+    ...Object.entries(COMMANDS).map(
+      ([name, command]) => `  ${name.padEnd(width)}  ${command.description}`
+    ),
+    '',
+    'Pipeline stages read and write JSON artifacts (--in/--out), by default',
+    '<outputs.report_dir>/artifacts/<stage>.json, so they can be chained:',
+    '  ingest -> dedupe -> analyze -> select -> publish'
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Run a subcommand
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === 'help' || name === '--help') {
+    console.log(renderHelp());
+    return 0;
+  }
+  if (!isCliCommand(name)) {
+    console.error(`Unknown command "${name}"\n`);
+    console.error(renderHelp());
+    return 1;
+  }
+
+  const command = COMMANDS[name];
+  if (rest.includes('--help')) {
+    console.log(command.usage);
+    return 0;
+  }
+
+  // Keep stdout for command output such as --json; log lines go to stderr
+  getLogger().setOutputStream((entry) => console.error(JSON.stringify(entry)));
+
+  try {
+    return await command.run(rest);
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      console.error(`❌ ${error.message}`);
+      error.missingFields?.forEach((field) => {
+        console.error(`  - ${field}`);
+      });
+      return 1;
+    }
+    console.error(`❌ ${name} failed:`, error);
+    return 1;
+  }
+}
@@ -4,6 +4,7 @@
 
 import * as dotenv from 'dotenv';
 import { z } from 'zod';
+import type { TimelineBackend } from '../timeline/types';
 import { ConfigurationError } from '../utils/errors';
 
 // Load .env file if it exists
@@ -12,34 +13,54 @@ dotenv.config();
 /**
  * Environment variable schema
  */
-const EnvSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1),
-  GIT_TOKEN: z.string().min(1),
-  TIMELINE_REPO: z.string().regex(/^[^/]+\/[^/]+$/, 'Must be in format owner/repo'),
-
-  // AI Model settings
-  AI_MODEL: z.string().default('gpt-4o-mini'), // OpenAI models like 'gpt-4o-mini', 'gpt-4', 'gpt-3.5-turbo'
-
-  // Optional with defaults
-  MAX_EVENTS_PER_WEEK: z.string().transform(Number).pipe(z.number().min(1).max(10)).default('3'),
-  SIGNIFICANCE_THRESHOLD: z
-    .string()
-    .transform(Number)
-    .pipe(z.number().min(0).max(10))
-    .default('7.0'),
-  LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
-  DRY_RUN: z
-    .enum(['true', 'false'])
-    .transform((v) => v === 'true')
-    .default('false'),
-
-  // Optional API keys for news sources
-  HACKERNEWS_API_KEY: z.string().optional(),
-  ARXIV_API_KEY: z.string().optional(),
-
-  // Node environment
-  NODE_ENV: z.enum(['development', 'test', 'production']).default('production')
-});
+const EnvSchema = z
+  .object({
+    OPENAI_API_KEY: z.string().min(1),
+    // Only required for the forge timeline backends (see superRefine below)
+    GIT_TOKEN: z.string().min(1).optional(),
+    TIMELINE_REPO: z
+      .string()
+      .regex(
+        /^[^/]+(\/[^/]+)+$/,
+        'Must be in format owner/repo (or group/subgroup/project on GitLab)'
+      )
+      .optional(),
+
+    // AI Model settings
+    AI_MODEL: z.string().default('gpt-4o-mini'), // OpenAI models like 'gpt-4o-mini', 'gpt-4', 'gpt-3.5-turbo'
+
+    // Optional with defaults
+    MAX_EVENTS_PER_WEEK: z.string().transform(Number).pipe(z.number().min(1).max(10)).default('3'),
+    SIGNIFICANCE_THRESHOLD: z
+      .string()
+      .transform(Number)
+      .pipe(z.number().min(0).max(10))
+      .default('7.0'),
+    LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+    DRY_RUN: z
+      .enum(['true', 'false'])
+      .transform((v) => v === 'true')
+      .default('false'),
+    HTTP_CACHE_MODE: z.enum(['off', 'revalidate', 'offline']).optional(),
+    TIMELINE_BACKEND: z.enum(['github', 'gitlab', 'gitea', 'local']).optional(),
+
+    // Optional API keys for news sources
+    HACKERNEWS_API_KEY: z.string().optional(),
+    ARXIV_API_KEY: z.string().optional(),
+
+    // Node environment
+    NODE_ENV: z.enum(['development', 'test', 'production']).default('production')
+  })
+  .superRefine((env, ctx) => {
+    if (env.TIMELINE_BACKEND === 'local') {
+      return;
+    }
+    for (const key of ['GIT_TOKEN', 'TIMELINE_REPO'] as const) {
+      if (!env[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: 'Required' });
+      }
+    }
+  });
 
 type EnvConfig = z.infer<typeof EnvSchema>;
 
@@ -50,17 +71,19 @@ export interface AppConfig {
   // Core settings
   aiApiKey: string;
   aiModel: string;
-  githubToken: string;
-  timelineRepo: {
+  githubToken?: string;
+  timelineRepo?: {
     owner: string;
     repo: string;
     full: string;
   };
+  timelineBackend?: TimelineBackend;
 
   // Workflow settings
   maxEventsPerWeek: number;
   significanceThreshold: number;
   dryRun: boolean;
+  httpCacheMode?: 'off' | 'revalidate' | 'offline';
 
   // API Keys
   apiKeys: {
@@ -123,21 +146,23 @@ class Configuration {
       }
 
       // Parse timeline repo
-      const [owner, repo] = this.env.TIMELINE_REPO.split('/');
+      const timelineRepo = this.env.TIMELINE_REPO;
+      // GitLab projects may sit in nested groups, so the repo is the last segment
+      const separator = timelineRepo?.lastIndexOf('/') ?? -1;
+      const owner = timelineRepo?.slice(0, separator) ?? '';
+      const repo = timelineRepo?.slice(separator + 1) ?? '';
 
       // Build configuration object
       this.config = {
         aiApiKey,
         aiModel,
         githubToken: this.env.GIT_TOKEN,
-        timelineRepo: {
-          owner,
-          repo,
-          full: this.env.TIMELINE_REPO
-        },
+        timelineRepo: timelineRepo ? { owner, repo, full: timelineRepo } : undefined,
+        timelineBackend: this.env.TIMELINE_BACKEND,
         maxEventsPerWeek: this.env.MAX_EVENTS_PER_WEEK,
         significanceThreshold: this.env.SIGNIFICANCE_THRESHOLD,
         dryRun: this.env.DRY_RUN,
+        httpCacheMode: this.env.HTTP_CACHE_MODE,
         apiKeys: {
           hackernews: this.env.HACKERNEWS_API_KEY,
           arxiv: this.env.ARXIV_API_KEY
@@ -215,7 +240,7 @@ class Configuration {
     const redacted = {
       ...config,
       aiApiKey: this.redactSecret(config.aiApiKey),
-      githubToken: this.redactSecret(config.githubToken),
+      githubToken: config.githubToken ? this.redactSecret(config.githubToken) : undefined,
       apiKeys: {
         hackernews: config.apiKeys.hackernews
           ? this.redactSecret(config.apiKeys.hackernews)
@@ -265,6 +290,7 @@ export {
 
 export type {
   LlmFile as LlmConfig,
+  LocalLlmProviderEntry,
   PipelineFile as PipelineConfig,
   SourceConfigEntry,
   SourcesFile as SourcesConfig
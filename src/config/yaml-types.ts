@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { EXPORT_FORMATS } from '../exporters/types';
+import { missingTimelineFields, TIMELINE_FIELDS } from '../timeline/timeline-file';
+import type { EventCategory } from '../types';
 
 export const SourceConfigSchema = z.object({
   id: z.string().min(1),
@@ -26,6 +29,16 @@ export const SourcesFileSchema = z.object({
 
 export type SourcesFile = z.infer<typeof SourcesFileSchema>;
 
+export const LocalLlmProviderSchema = z.object({
+  base_url: z.string().url({ message: 'Local provider base_url must be a valid URL' }),
+  model: z.string().min(1).optional(),
+  embeddings_model: z.string().min(1).optional(),
+  api_key_env: z.string().min(1).optional(),
+  embeddings: z.boolean().default(true)
+});
+
+export type LocalLlmProviderEntry = z.infer<typeof LocalLlmProviderSchema>;
+
 export const LlmFileSchema = z.object({
   default_provider: z.string().min(1),
   fallback_chain: z.array(z.string().min(1)).default([]),
@@ -53,11 +66,47 @@ export const LlmFileSchema = z.object({
       max_delay_ms: z.number().int().positive().default(4000)
     })
     .partial()
-    .default({ attempts: 3, base_delay_ms: 250, max_delay_ms: 4000 })
+    .default({ attempts: 3, base_delay_ms: 250, max_delay_ms: 4000 }),
+  providers: z
+    .object({
+      local_gguf_small: LocalLlmProviderSchema.optional()
+    })
+    .default({})
 });
 
 export type LlmFile = z.infer<typeof LlmFileSchema>;
 
+/**
+ * category_minimums keys that apply to each analyzed category, in priority order
+ */
+export const CATEGORY_MINIMUM_KEYS: Readonly<Record<EventCategory, readonly string[]>> = {
+  research: ['research'],
+  product: ['product', 'development'],
+  industry: ['industry', 'adoption'],
+  regulation: ['regulation', 'policy']
+};
+
+/** Keys accepted in category_minimums */
+export const CATEGORY_MINIMUM_NAMES: readonly string[] =
+  Object.values(CATEGORY_MINIMUM_KEYS).flat();
+
+/**
+ * Composite minimums keyed by event category or alias; unknown keys would never apply
+ */
+export const CategoryMinimumsSchema = z
+  .record(z.string(), z.number().min(0).max(1))
+  .superRefine((minimums, ctx) => {
+    for (const key of Object.keys(minimums)) {
+      if (!CATEGORY_MINIMUM_NAMES.includes(key.trim().toLowerCase())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: `Unknown category "${key}"; expected one of ${CATEGORY_MINIMUM_NAMES.join(', ')}`
+        });
+      }
+    }
+  });
+
 export const PipelineFileSchema = z.object({
   dedupe: z.object({
     embed_similarity_min: z.number().min(0).max(1),
@@ -74,10 +123,11 @@ export const PipelineFileSchema = z.object({
     }),
     min_composite: z.number().min(0).max(1)
   }),
-  category_minimums: z.record(z.string(), z.number().min(0).max(1)),
+  category_minimums: CategoryMinimumsSchema,
   limits: z.object({
     max_items_per_run: z.number().int().positive(),
-    max_items_per_source: z.number().int().positive()
+    max_items_per_source: z.number().int().positive(),
+    max_concurrent_connectors: z.number().int().positive().optional()
   }),
   timeouts: z.object({
     connector_ms: z.number().int().positive(),
@@ -90,11 +140,116 @@ export const PipelineFileSchema = z.object({
   }),
   outputs: z.object({
     report_dir: z.string().min(1),
-    timeline_path: z.string().min(1)
+    timeline_path: z.string().min(1),
+    raw_events_dir: z.string().min(1).optional(),
+    timeline_fields: z
+      .record(z.enum(TIMELINE_FIELDS))
+      .superRefine((fields, ctx) => {
+        const missing = missingTimelineFields(fields);
+        if (missing.length > 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Timeline fields must include ${missing.join(', ')}`
+          });
+        }
+      })
+      .optional(),
+    timeline_format: z
+      .object({
+        insertion: z.enum(['append', 'chronological']).default('append'),
+        canonicalize: z.boolean().default(false)
+      })
+      .optional(),
+    exports: z
+      .object({
+        commit: z.boolean().default(false),
+        title: z.string().min(1).default('AI Timeline'),
+        site_url: z.string().url().optional(),
+        description: z.string().min(1).optional(),
+        feed_limit: z.number().int().positive().default(50),
+        files: z
+          .array(
+            z.object({
+              format: z.enum(EXPORT_FORMATS),
+              path: z.string().min(1)
+            })
+          )
+          .min(1)
+      })
+      .optional(),
+    site: z
+      .object({
+        dir: z.string().min(1).default('site'),
+        title: z.string().min(1).default('AI Timeline'),
+        description: z.string().min(1).optional(),
+        base_url: z.string().url().optional()
+      })
+      .optional()
   }),
   errors: z.object({
-    tracker: z.string().min(1)
-  })
+    tracker: z.enum(['noop', 'jsonl', 'webhook', 'sentry']).default('noop'),
+    path: z.string().min(1).default('reports/errors.jsonl'),
+    url: z.string().url().optional(),
+    dsn: z.string().url().optional(),
+    environment: z.string().min(1).optional(),
+    headers: z.record(z.string()).optional(),
+    timeout_ms: z.number().int().positive().default(5000)
+  }),
+  telemetry: z
+    .object({
+      openmetrics: z
+        .object({
+          enabled: z.boolean().default(true),
+          path: z.string().min(1).default('reports/metrics.prom'),
+          push_url: z.string().url().optional()
+        })
+        .optional(),
+      otlp: z
+        .object({
+          enabled: z.boolean().default(false),
+          endpoint: z.string().url().default('http://localhost:4318/v1/traces'),
+          service_name: z.string().min(1).default('ai-timeline-automation'),
+          headers: z.record(z.string()).optional(),
+          timeout_ms: z.number().int().positive().default(5000)
+        })
+        .optional()
+    })
+    .optional(),
+  http_cache: z
+    .object({
+      mode: z.enum(['off', 'revalidate', 'offline']).default('revalidate'),
+      dir: z.string().min(1).default('.cache/http')
+    })
+    .optional(),
+  review: z
+    .object({
+      enabled: z.boolean().default(true),
+      dir: z.string().min(1).default('reports/review')
+    })
+    .optional(),
+  seen_ledger: z
+    .object({
+      retention_days: z.number().int().positive().default(90),
+      max_items: z.number().int().positive().default(5000)
+    })
+    .optional(),
+  checkpoints: z
+    .object({
+      enabled: z.boolean().default(true),
+      dir: z.string().min(1).default('reports/runs'),
+      keep: z.number().int().positive().default(10)
+    })
+    .optional(),
+  timeline: z
+    .object({
+      backend: z.enum(['github', 'gitlab', 'gitea', 'local']).default('github'),
+      api_url: z.string().url().optional(),
+      base_branch: z.string().min(1).default('main'),
+      incremental: z.boolean().default(false),
+      local_dir: z.string().min(1).default('.'),
+      commit: z.boolean().default(false)
+    })
+    .optional()
 });
 
 export type PipelineFile = z.infer<typeof PipelineFileSchema>;
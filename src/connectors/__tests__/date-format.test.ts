@@ -0,0 +1,27 @@
+import { parseDateWithFormat } from '../date-format';
+
+describe('parseDateWithFormat', () => {
+  it('parses month names, numeric fields and times as UTC', () => {
+    expect(parseDateWithFormat('September 19, 2025', 'MMMM d, yyyy')?.toISOString()).toBe(
+      '2025-09-19T00:00:00.000Z'
+    );
+    expect(parseDateWithFormat('Sept. 3, 2025', 'MMM d, yyyy')?.toISOString()).toBe(
+      '2025-09-03T00:00:00.000Z'
+    );
+    expect(parseDateWithFormat('19/09/25 14:05', 'dd/MM/yy HH:mm')?.toISOString()).toBe(
+      '2025-09-19T14:05:00.000Z'
+    );
+  });
+
+  it('tolerates surrounding and repeated whitespace', () => {
+    expect(parseDateWithFormat('  Sep   9,  2025 ', 'MMM d, yyyy')?.toISOString()).toBe(
+      '2025-09-09T00:00:00.000Z'
+    );
+  });
+
+  it('returns undefined for values that do not match or overflow', () => {
+    expect(parseDateWithFormat('2025-09-19', 'MMMM d, yyyy')).toBeUndefined();
+    expect(parseDateWithFormat('Smarch 3, 2025', 'MMMM d, yyyy')).toBeUndefined();
+    expect(parseDateWithFormat('02/31/2025', 'MM/dd/yyyy')).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ConfigurationError } from '../../utils/errors';
+import type { LogEntry } from '../../utils/logger';
+import { bootstrapConnectors } from '../factory';
+import {
+  createCustomConnector,
+  listRegisteredConnectors,
+  registerConnector,
+  unregisterConnector
+} from '../registry';
+import type { SourceConnector, SourceConnectorInit } from '../types';
+
+const PLUGIN_PATH = path.resolve(
+  __dirname,
+  '../../..',
+  'tests/__fixtures__/connectors/static-connector.ts'
+);
+
+function customInit(metadata: Record<string, unknown>): SourceConnectorInit {
+  return {
+    config: {
+      id: 'internal_wiki',
+      kind: 'custom',
+      url: 'https://wiki.example.com/ai',
+      enabled: true,
+      metadata
+    },
+    defaults: {
+      timeout_ms: 4321
+    }
+  };
+}
+
+describe('custom connector registry', () => {
+  afterEach(() => {
+    for (const id of listRegisteredConnectors()) {
+      unregisterConnector(id);
+    }
+  });
+
+  it('resolves connectors registered by id with the source init', async () => {
+    const factory = jest.fn(
+      (init: SourceConnectorInit): SourceConnector => ({
+        id: init.config.id,
+        kind: init.config.kind,
+        url: init.config.url,
+        isEnabled: () => true,
+        fetch: async () => []
+      })
+    );
+    registerConnector('internal-wiki', factory);
+
+    const init = customInit({ connector: 'internal-wiki' });
+    const connector = await createCustomConnector(init);
+
+    expect(connector.id).toBe('internal_wiki');
+    expect(factory).toHaveBeenCalledWith(init);
+    expect(listRegisteredConnectors()).toEqual(['internal-wiki']);
+  });
+
+  it('loads connector classes from a module path and applies source defaults', async () => {
+    const connector = await createCustomConnector(customInit({ module: PLUGIN_PATH }));
+    const items = await connector.fetch({
+      windowStart: new Date('2025-09-15T00:00:00Z'),
+      windowEnd: new Date('2025-09-21T23:59:59Z')
+    });
+
+    expect(items).toHaveLength(1);
+    expect(items[0].title).toBe('Static item (timeout 4321)');
+  });
+
+  it('rejects unknown ids, missing exports and objects that are not connectors', async () => {
+    await expect(createCustomConnector(customInit({ connector: 'missing' }))).rejects.toThrow(
+      /"missing" for internal_wiki is not registered/
+    );
+    await expect(createCustomConnector(customInit({}))).rejects.toThrow(
+      /must set metadata.connector or metadata.module/
+    );
+    await expect(
+      createCustomConnector(customInit({ module: PLUGIN_PATH, export: 'nope' }))
+    ).rejects.toThrow(/has no "nope" export/);
+    await expect(
+      createCustomConnector(customInit({ module: PLUGIN_PATH, export: 'createBrokenConnector' }))
+    ).rejects.toThrow(ConfigurationError);
+  });
+
+  it('bootstraps custom sources next to built-in ones and skips broken entries', async () => {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sources-config-'));
+    const configPath = path.join(tempDir, 'sources.yaml');
+    await fs.writeFile(
+      configPath,
+      [
+        'window_days: 7',
+        'defaults:',
+        '  timeout_ms: 9000',
+        'sources:',
+        '  - id: huggingface',
+        '    kind: rss',
+        '    url: https://huggingface.co/blog/feed.xml',
+        '  - id: internal_wiki',
+        '    kind: custom',
+        '    url: https://wiki.example.com/ai',
+        '    metadata:',
+        `      module: ${PLUGIN_PATH}`,
+        '  - id: unregistered',
+        '    kind: custom',
+        '    url: https://example.com/',
+        '    metadata:',
+        '      connector: not-registered'
+      ].join('\n'),
+      'utf-8'
+    );
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    try {
+      const { connectors } = await bootstrapConnectors(configPath);
+
+      expect(connectors.map((connector) => connector.id)).toEqual(['huggingface', 'internal_wiki']);
+      const warnings = logSpy.mock.calls.map(([line]) => JSON.parse(String(line)) as LogEntry);
+      expect(warnings).toContainEqual(
+        expect.objectContaining({
+          level: 'WARN',
+          message: 'Skipping misconfigured source',
+          context: expect.objectContaining({ connector: 'unregistered' })
+        })
+      );
+    } finally {
+      logSpy.mockRestore();
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  });
+});
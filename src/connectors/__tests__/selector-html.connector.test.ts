@@ -0,0 +1,337 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { loadSourcesConfig, type SourceConfigEntry } from '../../config';
+import { hasSelectorConfig, SelectorHtmlConnector } from '../selector-html';
+import type { SourceConnectorInit, SourceFetchOptions } from '../types';
+
+const FIXTURE_ROOT = path.resolve(__dirname, '../../..', 'tests/__fixtures__');
+const SOURCES_PATH = path.resolve(__dirname, '../../..', 'config/sources.yaml');
+
+function readFixture(filename: string): string {
+  return fs.readFileSync(path.join(FIXTURE_ROOT, filename), 'utf-8');
+}
+
+function htmlResponse(html: string, status = 200): Response {
+  return new Response(html, {
+    status,
+    headers: {
+      'content-type': 'text/html'
+    }
+  });
+}
+
+function buildOptions(): SourceFetchOptions {
+  return {
+    windowStart: new Date('2025-09-01T00:00:00Z'),
+    windowEnd: new Date('2025-09-30T23:59:59Z')
+  };
+}
+
+function buildConnector(metadata: Record<string, unknown>): SelectorHtmlConnector {
+  const init: SourceConnectorInit = {
+    config: {
+      id: 'example_blog',
+      kind: 'html',
+      url: 'https://example.com/blog/',
+      enabled: true,
+      metadata
+    }
+  };
+
+  return new SelectorHtmlConnector(init);
+}
+
+function listingPage(
+  posts: { href: string; title: string; date: string }[],
+  nextHref?: string
+): string {
+  const cards = posts
+    .map(
+      (post) =>
+        `<li class="post"><a href="${post.href}">${post.title}</a><time datetime="${post.date}"></time></li>`
+    )
+    .join('');
+  const next = nextHref ? `<a rel="next" href="${nextHref}">Older</a>` : '';
+  return `<html><body><ul>${cards}</ul>${next}</body></html>`;
+}
+
+describe('SelectorHtmlConnector', () => {
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+  let warnSpy: jest.SpyInstance;
+
+  beforeAll(() => {
+    fetchSpy = jest.spyOn(global, 'fetch');
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fetchSpy.mockReset();
+    warnSpy.mockClear();
+  });
+
+  afterAll(() => {
+    fetchSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  describe('sources.yaml contract', () => {
+    let selectorSources: SourceConfigEntry[] = [];
+
+    beforeAll(async () => {
+      const config = await loadSourcesConfig(SOURCES_PATH);
+      selectorSources = config.sources.filter(
+        (source) => source.kind === 'html' && hasSelectorConfig(source.metadata)
+      );
+    });
+
+    it('configures at least one selector-driven source', () => {
+      expect(selectorSources.length).toBeGreaterThan(0);
+    });
+
+    it('extracts in-window items from each source fixture', async () => {
+      for (const source of selectorSources) {
+        // Later pages are not part of the fixture and respond with 404
+        fetchSpy.mockReset();
+        fetchSpy
+          .mockResolvedValueOnce(htmlResponse(readFixture(`html/${source.id}.html`)))
+          .mockResolvedValue(htmlResponse('Not found', 404));
+
+        const connector = new SelectorHtmlConnector({ config: source });
+        const items = await connector.fetch(buildOptions());
+        const sourceHost = new URL(source.url).host;
+
+        expect(items.length).toBeGreaterThan(0);
+        for (const item of items) {
+          expect(item.source).toBe(source.id);
+          expect(item.title.length).toBeGreaterThan(0);
+          expect(new URL(item.url).host).toBe(sourceHost);
+          expect(new Date(item.publishedAt).getTime()).toBeGreaterThanOrEqual(
+            buildOptions().windowStart.getTime()
+          );
+          expect(new Date(item.publishedAt).getTime()).toBeLessThanOrEqual(
+            buildOptions().windowEnd.getTime()
+          );
+        }
+      }
+    });
+  });
+
+  it('maps selectors and a custom date format onto raw items', async () => {
+    fetchSpy.mockResolvedValueOnce(htmlResponse(readFixture('html/xai_news.html')));
+
+    const connector = buildConnector({
+      selectors: {
+        item: 'a.news-card',
+        title: 'h3',
+        date: '.news-card__date',
+        summary: '.news-card__summary'
+      },
+      date_format: 'MMMM d, yyyy'
+    });
+    const items = await connector.fetch(buildOptions());
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual(
+      expect.objectContaining({
+        title: 'Grok 4 Fast',
+        url: 'https://example.com/news/grok-4-fast',
+        publishedAt: '2025-09-19T00:00:00.000Z',
+        summary: 'A cost-efficient reasoning model with a two million token context window.'
+      })
+    );
+    expect(items[0].id).toMatch(/^2025-09-19-example_blog-[0-9a-f]{6}$/);
+  });
+
+  it('prefers JSON-LD when configured and falls back to selectors otherwise', async () => {
+    const html = readFixture('html/gemini_product_news.html');
+    const selectors = {
+      item: 'article.article-card',
+      title: '.article-card__title',
+      link: 'a.article-card__link'
+    };
+
+    fetchSpy.mockResolvedValueOnce(htmlResponse(html));
+    const preferred = await buildConnector({ selectors, prefer_json_ld: true }).fetch(
+      buildOptions()
+    );
+
+    fetchSpy.mockResolvedValueOnce(htmlResponse(html));
+    const selected = await buildConnector({ selectors }).fetch(buildOptions());
+
+    expect(preferred.map((item) => item.title)).toEqual([
+      'Gemini in Chrome is rolling out to desktop users',
+      'New Gemini app drop: September 2025'
+    ]);
+    expect(preferred[0].authors).toEqual(['Parisa Tabriz']);
+    expect(selected).toHaveLength(1);
+    expect(selected[0].url).toBe('https://example.com/products/gemini/gemini-in-chrome/');
+  });
+
+  it('follows next links until a page falls outside the window', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(
+        htmlResponse(
+          listingPage(
+            [{ href: 'first', title: 'First', date: '2025-09-20T00:00:00Z' }],
+            '/blog/page/2/'
+          )
+        )
+      )
+      .mockResolvedValueOnce(
+        htmlResponse(
+          listingPage(
+            [{ href: '/blog/second', title: 'Second', date: '2025-09-10T00:00:00Z' }],
+            '/blog/page/3/'
+          )
+        )
+      )
+      .mockResolvedValueOnce(
+        htmlResponse(
+          listingPage(
+            [{ href: '/blog/archived', title: 'Archived', date: '2025-08-01T00:00:00Z' }],
+            '/blog/page/4/'
+          )
+        )
+      );
+
+    const connector = buildConnector({
+      selectors: { item: 'li.post' },
+      pagination: { next_selector: 'a[rel="next"]', max_pages: 10 }
+    });
+    const items = await connector.fetch(buildOptions());
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(fetchSpy.mock.calls[1][0]).toBe('https://example.com/blog/page/2/');
+    expect(items.map((item) => item.url)).toEqual([
+      'https://example.com/blog/first',
+      'https://example.com/blog/second'
+    ]);
+  });
+
+  it('builds page URLs from a template and respects max_pages', async () => {
+    const page = listingPage([{ href: '/a', title: 'A', date: '2025-09-20T00:00:00Z' }]);
+    fetchSpy.mockImplementation(async () => htmlResponse(page));
+
+    const connector = buildConnector({
+      selectors: { item: 'li.post' },
+      pagination: { url_template: '/blog/page/{page}/', max_pages: 3 }
+    });
+    await connector.fetch(buildOptions());
+
+    expect(fetchSpy.mock.calls.map((call) => call[0])).toEqual([
+      'https://example.com/blog/',
+      'https://example.com/blog/page/2/',
+      'https://example.com/blog/page/3/'
+    ]);
+  });
+
+  it('uses the fallback fetch URL and request headers from metadata', async () => {
+    fetchSpy
+      .mockResolvedValueOnce(htmlResponse('Forbidden', 403))
+      .mockResolvedValueOnce(
+        htmlResponse(listingPage([{ href: '/a', title: 'A', date: '2025-09-20T00:00:00Z' }]))
+      );
+
+    const connector = buildConnector({
+      selectors: { item: 'li.post' },
+      referer: 'https://example.com/',
+      fallback_fetch_url: 'https://mirror.example.net/blog/'
+    });
+    const items = await connector.fetch(buildOptions());
+
+    expect(fetchSpy.mock.calls[1][0]).toBe('https://mirror.example.net/blog/');
+    expect((fetchSpy.mock.calls[0][1]?.headers as Record<string, string>).Referer).toBe(
+      'https://example.com/'
+    );
+    expect(items).toHaveLength(1);
+  });
+
+  it('falls back to article heuristics when the selectors match nothing', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    fetchSpy.mockResolvedValueOnce(
+      htmlResponse(
+        `<html><body><main>
+          <article><a href="/blog/redesigned"><h2>Redesigned post</h2></a>
+            <time datetime="2025-09-12T00:00:00Z"></time><p>Same news, new markup.</p></article>
+          <article><a href="/blog/old"><h2>Old post</h2></a>
+            <time datetime="2025-08-01T00:00:00Z"></time></article>
+        </main></body></html>`
+      )
+    );
+
+    const connector = buildConnector({ selectors: { item: 'a.news-card' } });
+    const items = await connector.fetch(buildOptions());
+
+    expect(items).toEqual([
+      expect.objectContaining({
+        title: 'Redesigned post',
+        url: 'https://example.com/blog/redesigned',
+        publishedAt: '2025-09-12T00:00:00.000Z',
+        summary: 'Same news, new markup.'
+      })
+    ]);
+    const warnings = log.mock.calls.map(([line]) => JSON.parse(String(line)));
+    expect(warnings).toContainEqual(
+      expect.objectContaining({ message: 'Selectors matched nothing, using article heuristic' })
+    );
+    log.mockRestore();
+  });
+
+  it('reads dated post links from a markdown fallback page', async () => {
+    const markdown = [
+      'Title: Blog | Example',
+      '',
+      'URL Source: https://example.com/blog/',
+      '',
+      'Markdown Content:',
+      '[Home](https://example.com/) [Blog](https://example.com/blog/) [Careers](https://example.com/careers)',
+      '',
+      '[![Image 1: cover](https://cdn.example.com/cover.png) September 19, 2025 Faster model](https://example.com/blog/faster-model)',
+      '',
+      '[Agents in production](https://example.com/blog/agents)',
+      '',
+      'Sept. 2, 2025',
+      '',
+      '[Older post](https://example.com/blog/older)',
+      '',
+      '2025-08-10',
+      '',
+      '[Undated link](https://example.com/blog/tags/research)',
+      '',
+      '[Next page](https://example.com/blog/page/2)'
+    ].join('\n');
+    fetchSpy
+      .mockResolvedValueOnce(htmlResponse('Forbidden', 403))
+      .mockResolvedValueOnce(new Response(markdown, { status: 200 }));
+
+    const connector = buildConnector({
+      selectors: { item: 'a.news-card' },
+      fallback_fetch_url: 'https://r.jina.ai/https://example.com/blog/',
+      pagination: { next_selector: 'a[rel="next"]', max_pages: 3 }
+    });
+    const items = await connector.fetch(buildOptions());
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(items.map(({ title, url, publishedAt }) => ({ title, url, publishedAt }))).toEqual([
+      {
+        title: 'Faster model',
+        url: 'https://example.com/blog/faster-model',
+        publishedAt: '2025-09-19T00:00:00.000Z'
+      },
+      {
+        title: 'Agents in production',
+        url: 'https://example.com/blog/agents',
+        publishedAt: '2025-09-02T00:00:00.000Z'
+      }
+    ]);
+  });
+
+  it('rejects invalid selector metadata', () => {
+    expect(() => buildConnector({ selectors: { title: 'h2' } })).toThrow(
+      /metadata\.selectors\.item/
+    );
+    expect(() =>
+      buildConnector({ selectors: { item: 'li' }, pagination: { url_template: '/page/' } })
+    ).toThrow(/\{page\} placeholder/);
+  });
+});
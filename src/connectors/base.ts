@@ -1,4 +1,6 @@
 import crypto from 'node:crypto';
+import type { HttpRequestOptions } from '../utils/http';
+import { getLogger, type Logger } from '../utils/logger';
 import type {
   RawItem,
   SourceConnector,
@@ -24,6 +26,13 @@ export abstract class AbstractSourceConnector implements SourceConnector {
     this.timeoutMs = config.timeout_ms ?? defaults?.timeout_ms;
   }
 
+  /**
+   * Structured logger tagged with this source; correlated with the run that uses it
+   */
+  protected get logger(): Logger {
+    return getLogger().child({ service: 'connector', connector: this.id });
+  }
+
   isEnabled(): boolean {
     return this.enabled;
   }
@@ -45,6 +54,18 @@ export abstract class AbstractSourceConnector implements SourceConnector {
     return filtered;
   }
 
+  /**
+   * HTTP options that apply this source's `rate_limit_qpm` and report throttle waits
+   */
+  protected rateLimitOptions(
+    options: SourceFetchOptions
+  ): Pick<HttpRequestOptions, 'rateLimitQpm' | 'onThrottle'> {
+    return {
+      rateLimitQpm: this.rateLimitQpm,
+      onThrottle: options.onThrottle
+    };
+  }
+
   protected generateDeterministicId(seed: string): string {
     return crypto.createHash('sha1').update(seed).digest('hex').slice(0, 12);
   }
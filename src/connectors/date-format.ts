@@ -0,0 +1,122 @@
+/**
+ * Minimal date-format parsing for scraped listing pages.
+ * Supports the tokens yyyy, yy, MMMM, MMM, MM, M, dd, d, HH, H, mm and ss; any other
+ * character matches literally and whitespace matches any run of whitespace.
+ * Parsed dates are interpreted as UTC.
+ */
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december'
+];
+
+type DateField =
+  | 'year'
+  | 'shortYear'
+  | 'month'
+  | 'monthName'
+  | 'day'
+  | 'hour'
+  | 'minute'
+  | 'second';
+
+const TOKENS: Record<string, { pattern: string; field: DateField }> = {
+  yyyy: { pattern: '(\\d{4})', field: 'year' },
+  yy: { pattern: '(\\d{2})', field: 'shortYear' },
+  MMMM: { pattern: '([A-Za-z]+)', field: 'monthName' },
+  MMM: { pattern: '([A-Za-z]{3,4})\\.?', field: 'monthName' },
+  MM: { pattern: '(\\d{2})', field: 'month' },
+  M: { pattern: '(\\d{1,2})', field: 'month' },
+  dd: { pattern: '(\\d{2})', field: 'day' },
+  d: { pattern: '(\\d{1,2})', field: 'day' },
+  HH: { pattern: '(\\d{2})', field: 'hour' },
+  H: { pattern: '(\\d{1,2})', field: 'hour' },
+  mm: { pattern: '(\\d{2})', field: 'minute' },
+  ss: { pattern: '(\\d{2})', field: 'second' }
+};
+
+const TOKEN_PATTERN = /yyyy|yy|MMMM|MMM|MM|M|dd|d|HH|H|mm|ss|\s+|./g;
+
+function resolveMonthName(value: string): number | undefined {
+  const normalized = value.toLowerCase();
+  if (normalized.length < 3) {
+    return undefined;
+  }
+
+  const index = MONTHS.findIndex((month) => month.startsWith(normalized.slice(0, 3)));
+  return index >= 0 ? index : undefined;
+}
+
+/**
+ * Parse a date string with an explicit format
+ * @returns The parsed date, or undefined when the value does not match the format
+ */
+export function parseDateWithFormat(value: string, format: string): Date | undefined {
+  const fields: DateField[] = [];
+  let pattern = '';
+
+  for (const token of format.match(TOKEN_PATTERN) ?? []) {
+    const definition = TOKENS[token];
+    if (definition) {
+      pattern += definition.pattern;
+      fields.push(definition.field);
+    } else if (/^\s+$/.test(token)) {
+      pattern += '\\s+';
+    } else {
+      pattern += token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const match = new RegExp(`^\\s*${pattern}\\s*$`).exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const parts = { year: 1970, month: 0, day: 1, hour: 0, minute: 0, second: 0 };
+
+  for (const [index, field] of fields.entries()) {
+    const raw = match[index + 1];
+    switch (field) {
+      case 'year':
+        parts.year = Number(raw);
+        break;
+      case 'shortYear':
+        parts.year = 2000 + Number(raw);
+        break;
+      case 'monthName': {
+        const month = resolveMonthName(raw);
+        if (month === undefined) {
+          return undefined;
+        }
+        parts.month = month;
+        break;
+      }
+      case 'month':
+        parts.month = Number(raw) - 1;
+        break;
+      default:
+        parts[field] = Number(raw);
+    }
+  }
+
+  const date = new Date(
+    Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second)
+  );
+
+  // Reject overflowed values such as February 31st
+  if (date.getUTCMonth() !== parts.month || date.getUTCDate() !== parts.day) {
+    return undefined;
+  }
+
+  return date;
+}
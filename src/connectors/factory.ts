@@ -1,9 +1,14 @@
 import { loadSourcesConfig, type SourcesConfig } from '../config';
+import { getClock } from '../utils/clock';
+import { ConfigurationError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
 import { AbstractSourceConnector } from './base';
 import { DeepMindBlogConnector } from './deepmind-blog';
 import { OpenAIBlogConnector } from './openai-blog';
 import { PapersWithCodeConnector } from './paperswithcode';
+import { createCustomConnector } from './registry';
 import { RssSourceConnector } from './rss-connector';
+import { hasSelectorConfig, SelectorHtmlConnector } from './selector-html';
 import type { SourceConnector, SourceConnectorInit } from './types';
 
 export interface ConnectorBootstrapResult {
@@ -13,7 +18,7 @@ export interface ConnectorBootstrapResult {
 
 export function computeIngestionWindow(
   windowDays: number,
-  reference: Date = new Date()
+  reference: Date = getClock().now()
 ): { windowStart: Date; windowEnd: Date } {
   const windowEnd = new Date(reference);
   const windowStart = new Date(reference);
@@ -22,7 +27,7 @@ export function computeIngestionWindow(
   return { windowStart, windowEnd };
 }
 
-function createConnector(init: SourceConnectorInit): SourceConnector | undefined {
+async function createConnector(init: SourceConnectorInit): Promise<SourceConnector | undefined> {
   const { config } = init;
 
   if (config.enabled === false) {
@@ -37,6 +42,9 @@ function createConnector(init: SourceConnectorInit): SourceConnector | undefined
   }
 
   if (config.kind === 'html') {
+    if (hasSelectorConfig(config.metadata)) {
+      return new SelectorHtmlConnector(init);
+    }
     return new DeepMindBlogConnector(init);
   }
 
@@ -44,17 +52,38 @@ function createConnector(init: SourceConnectorInit): SourceConnector | undefined
     return new PapersWithCodeConnector(init);
   }
 
-  console.warn(`Connector kind ${config.kind} is not yet supported. Skipping ${config.id}.`);
+  if (config.kind === 'custom') {
+    return createCustomConnector(init);
+  }
+
+  getLogger()
+    .child({ service: 'connector', connector: config.id })
+    .warn('Connector kind is not yet supported, skipping source', { kind: config.kind });
   return undefined;
 }
 
-export async function bootstrapConnectors(): Promise<ConnectorBootstrapResult> {
-  const config: SourcesConfig = await loadSourcesConfig();
+export async function bootstrapConnectors(configPath?: string): Promise<ConnectorBootstrapResult> {
+  const config: SourcesConfig = await loadSourcesConfig(configPath);
   const defaults = config.defaults ?? {};
 
-  const connectors = config.sources
-    .map((sourceConfig) => createConnector({ config: sourceConfig, defaults }))
-    .filter((connector): connector is SourceConnector => Boolean(connector));
+  const created = await Promise.all(
+    config.sources.map(async (sourceConfig) => {
+      try {
+        return await createConnector({ config: sourceConfig, defaults });
+      } catch (error) {
+        if (error instanceof ConfigurationError) {
+          getLogger()
+            .child({ service: 'connector', connector: sourceConfig.id })
+            .warn('Skipping misconfigured source', { error: error.message });
+          return undefined;
+        }
+        throw error;
+      }
+    })
+  );
+  const connectors = created.filter((connector): connector is SourceConnector =>
+    Boolean(connector)
+  );
 
   return {
     windowDays: config.window_days,
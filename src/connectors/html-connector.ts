@@ -0,0 +1,467 @@
+import { type CheerioAPI, load as loadHtml } from 'cheerio';
+import { getClock } from '../utils/clock';
+import { NewsSourceError } from '../utils/errors';
+import { fetchText } from '../utils/http';
+import { AbstractSourceConnector } from './base';
+import { parseDateWithFormat } from './date-format';
+import type { RawItem, SourceConnectorInit, SourceFetchOptions } from './types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36';
+const DEFAULT_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8';
+const DEFAULT_ACCEPT_LANGUAGE = 'en-US,en;q=0.9';
+
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\([^)]*\)/g;
+const MARKDOWN_LINK = /\[([^[\]]+)\]\((\S+?)(?:\s+"[^"]*")?\)/g;
+const MONTH_NAME_DATE =
+  /\b(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?\s+\d{1,2},?\s+\d{4}\b/i;
+const ISO_DATE = /\b\d{4}-\d{2}-\d{2}\b/;
+/** Lines after a markdown link searched for its date */
+const MARKDOWN_DATE_LOOKAHEAD = 3;
+
+type JsonLdNode = {
+  '@type'?: string | string[];
+  headline?: string;
+  name?: string;
+  url?: string;
+  mainEntityOfPage?: { '@id'?: string } | string;
+  '@id'?: string;
+  datePublished?: string;
+  dateCreated?: string;
+  description?: string;
+  abstract?: string;
+  author?: JsonLdAuthor | JsonLdAuthor[];
+  creator?: JsonLdAuthor | JsonLdAuthor[];
+};
+
+type JsonLdAuthor = {
+  '@type'?: string;
+  name?: string;
+};
+
+/**
+ * Fields needed to build a RawItem with a deterministic id
+ */
+export interface HtmlItemFields {
+  title: string;
+  url: string;
+  publishedAt: string;
+  summary?: string;
+  authors?: string[];
+}
+
+/**
+ * A fetched page: HTML, or the markdown rendering returned by reader proxies such as r.jina.ai
+ */
+export type FetchedPage =
+  | { format: 'html'; url: string; $: CheerioAPI }
+  | { format: 'markdown'; url: string; markdown: string };
+
+/**
+ * Shared plumbing for connectors that scrape HTML pages: browser-like request headers,
+ * `referer`/`fetch_url`/`fallback_fetch_url` metadata, JSON-LD extraction and item ids.
+ */
+export abstract class HtmlSourceConnector extends AbstractSourceConnector {
+  protected readonly baseUrl: string;
+  protected readonly requestHeaders: Record<string, string>;
+  protected readonly requestUrl: string;
+  protected readonly fallbackUrl?: string;
+
+  constructor(init: SourceConnectorInit) {
+    super(init);
+    const base = new URL(init.config.url);
+    this.baseUrl = `${base.protocol}//${base.host}`;
+
+    const metadata = (init.config.metadata ?? {}) as Record<string, unknown>;
+    const metadataUserAgent = metadata.user_agent;
+    const metadataAcceptLanguage = metadata.accept_language;
+    const metadataHeaders = this.normalizeHeaders(metadata.http_headers);
+    const refererHeader = this.normalizeReferer(metadata.referer);
+    const requestUrlOverride = this.normalizeUrl(metadata.fetch_url);
+    const fallbackUrl = this.normalizeUrl(metadata.fallback_fetch_url);
+
+    const userAgent =
+      typeof metadataUserAgent === 'string' && metadataUserAgent.trim().length > 0
+        ? metadataUserAgent.trim()
+        : DEFAULT_USER_AGENT;
+
+    const acceptLanguage =
+      typeof metadataAcceptLanguage === 'string' && metadataAcceptLanguage.trim().length > 0
+        ? metadataAcceptLanguage.trim()
+        : DEFAULT_ACCEPT_LANGUAGE;
+
+    this.requestHeaders = {
+      Accept: DEFAULT_ACCEPT,
+      'Accept-Language': acceptLanguage,
+      'User-Agent': userAgent,
+      'Cache-Control': 'no-cache',
+      ...metadataHeaders
+    };
+
+    if (refererHeader) {
+      this.requestHeaders.Referer = refererHeader;
+    }
+
+    this.requestUrl = requestUrlOverride ?? this.url;
+    this.fallbackUrl = fallbackUrl;
+  }
+
+  /**
+   * Fetch and parse a page, trying each URL in order until one succeeds
+   */
+  protected async fetchDocument(
+    urls: (string | undefined)[],
+    options: SourceFetchOptions
+  ): Promise<CheerioAPI> {
+    const page = await this.fetchPage(urls, options);
+    return page.format === 'html' ? page.$ : loadHtml(page.markdown);
+  }
+
+  /**
+   * Fetch a page, trying each URL in order until one succeeds. Payloads that do not start
+   * with a tag are treated as markdown.
+   */
+  protected async fetchPage(
+    urls: (string | undefined)[],
+    options: SourceFetchOptions
+  ): Promise<FetchedPage> {
+    const timeout = this.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const urlsToTry = urls.filter(
+      (url): url is string => typeof url === 'string' && url.length > 0
+    );
+
+    let lastError: unknown;
+
+    for (const requestUrl of urlsToTry) {
+      try {
+        const payload = await fetchText(requestUrl, {
+          timeout,
+          signal: options.signal,
+          ...this.rateLimitOptions(options),
+          headers: this.requestHeaders
+        });
+
+        return /^\s*</.test(payload)
+          ? { format: 'html', url: requestUrl, $: loadHtml(payload) }
+          : { format: 'markdown', url: requestUrl, markdown: payload };
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw new NewsSourceError(this.id, 'Failed to fetch HTML source', lastError);
+  }
+
+  protected buildItem(fields: HtmlItemFields): RawItem {
+    const fingerprint = this.generateDeterministicId(`${this.id}:${fields.url}`);
+    const datePrefix = new Date(fields.publishedAt).toISOString().slice(0, 10);
+
+    return {
+      id: `${datePrefix}-${this.id}-${fingerprint.slice(0, 6)}`,
+      title: this.normalizeWhitespace(fields.title),
+      url: fields.url,
+      publishedAt: fields.publishedAt,
+      source: this.id,
+      summary: fields.summary ? this.normalizeWhitespace(fields.summary) : undefined,
+      authors: fields.authors
+    };
+  }
+
+  protected extractFromJsonLd($: CheerioAPI, acceptedTypes: string[]): RawItem[] {
+    const results: RawItem[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+      const raw = $(el).contents().text();
+      if (!raw) {
+        return;
+      }
+
+      try {
+        const parsed = JSON.parse(raw) as unknown;
+        const nodes = this.unwrapJsonLdNodes(parsed);
+        nodes.forEach((node) => {
+          const item = this.mapJsonLdNode(node, acceptedTypes);
+          if (item) {
+            results.push(item);
+          }
+        });
+      } catch (error) {
+        // Ignore parse errors but continue with other script tags
+        this.logger.warn('JSON-LD parse error', { error: (error as Error).message });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Heuristic extraction from `article` elements: the first link, heading, time and paragraph
+   */
+  protected extractFromArticles($: CheerioAPI, pageUrl: string = this.baseUrl): RawItem[] {
+    const results: RawItem[] = [];
+
+    $('article').each((_, element) => {
+      const article = $(element);
+      const link = article.find('a[href]').first().attr('href');
+      const title = article.find('h1, h2, h3').first().text().trim();
+      const datetime =
+        article.find('time[datetime]').attr('datetime') ||
+        article.find('time').first().text().trim();
+      const summary = article.find('p').first().text().trim();
+      const authorsText = article.find('[itemprop="author"], .author').text();
+
+      if (!link || !title) {
+        return;
+      }
+
+      results.push(
+        this.buildItem({
+          title,
+          url: this.toAbsoluteUrl(link, pageUrl),
+          publishedAt: this.resolvePublishedAt(datetime),
+          summary: summary || undefined,
+          authors: this.normalizeAuthorList(authorsText)
+        })
+      );
+    });
+
+    return results;
+  }
+
+  /**
+   * Extract posts from a markdown rendering of the listing page. A post is a link below the
+   * listing path with a date in its text or in the lines before the next link; links without
+   * a date are navigation and skipped.
+   */
+  protected extractFromMarkdown(markdown: string): RawItem[] {
+    const listing = new URL(this.url);
+    const listingPath = listing.pathname.endsWith('/') ? listing.pathname : `${listing.pathname}/`;
+    const lines = markdown.replace(MARKDOWN_IMAGE, '').split('\n');
+    const results: RawItem[] = [];
+
+    lines.forEach((line, index) => {
+      for (const [, text, href] of line.matchAll(MARKDOWN_LINK)) {
+        const url = this.toAbsoluteUrl(href, this.url);
+        let target: URL;
+        try {
+          target = new URL(url);
+        } catch {
+          continue;
+        }
+        if (
+          target.host !== listing.host ||
+          !target.pathname.startsWith(listingPath) ||
+          target.pathname.length <= listingPath.length
+        ) {
+          continue;
+        }
+
+        const following: string[] = [];
+        for (const next of lines.slice(index + 1, index + 1 + MARKDOWN_DATE_LOOKAHEAD)) {
+          if (next.search(MARKDOWN_LINK) >= 0) {
+            break;
+          }
+          following.push(next);
+        }
+
+        const date = [text, ...following]
+          .map((candidate) => this.findMarkdownDate(candidate))
+          .find(Boolean);
+        const title = this.normalizeWhitespace(date ? text.replace(date.raw, '') : text);
+        if (!date || !title) {
+          continue;
+        }
+
+        results.push(this.buildItem({ title, url, publishedAt: date.publishedAt }));
+      }
+    });
+
+    return results;
+  }
+
+  protected normalizeAuthorList(value: string | undefined): string[] | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const authors = value
+      .split(/,|and/)
+      .map((part) => this.normalizeWhitespace(part))
+      .filter(Boolean);
+
+    return authors.length > 0 ? authors : undefined;
+  }
+
+  protected toAbsoluteUrl(url: string, base: string = this.baseUrl): string {
+    try {
+      return new URL(url, base).toString();
+    } catch {
+      return this.sanitizeUrl(url);
+    }
+  }
+
+  protected deduplicateById(items: RawItem[]): RawItem[] {
+    const map = new Map<string, RawItem>();
+    for (const item of items) {
+      if (!map.has(item.id)) {
+        map.set(item.id, item);
+      }
+    }
+    return Array.from(map.values());
+  }
+
+  protected resolvePublishedAt(raw?: string): string {
+    if (raw) {
+      const parsed = new Date(raw);
+      if (!Number.isNaN(parsed.getTime())) {
+        return parsed.toISOString();
+      }
+      this.logger.warn('Unparsable date, using current time', { date: raw });
+    }
+
+    return getClock().now().toISOString();
+  }
+
+  protected normalizeUrl(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+
+    try {
+      return new URL(trimmed).toString();
+    } catch {
+      this.logger.warn('Invalid URL configured', { url: value });
+      return undefined;
+    }
+  }
+
+  private findMarkdownDate(text: string): { raw: string; publishedAt: string } | undefined {
+    const monthName = MONTH_NAME_DATE.exec(text);
+    const parsed = monthName
+      ? parseDateWithFormat(monthName[0].replace(/[.,]/g, ''), 'MMMM d yyyy')
+      : undefined;
+    if (monthName && parsed) {
+      return { raw: monthName[0], publishedAt: parsed.toISOString() };
+    }
+
+    const iso = ISO_DATE.exec(text);
+    const parsedIso = iso ? parseDateWithFormat(iso[0], 'yyyy-MM-dd') : undefined;
+    return iso && parsedIso ? { raw: iso[0], publishedAt: parsedIso.toISOString() } : undefined;
+  }
+
+  private normalizeHeaders(value: unknown): Record<string, string> {
+    if (!value || typeof value !== 'object') {
+      return {};
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, rawValue] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof rawValue === 'string' && rawValue.trim().length > 0) {
+        headers[key] = rawValue.trim();
+      }
+    }
+
+    return headers;
+  }
+
+  private normalizeReferer(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return undefined;
+    }
+
+    try {
+      const refererUrl = new URL(trimmed);
+      return refererUrl.toString();
+    } catch {
+      this.logger.warn('Invalid referer configured', { referer: value });
+      return undefined;
+    }
+  }
+
+  private unwrapJsonLdNodes(value: unknown): JsonLdNode[] {
+    if (!value) {
+      return [];
+    }
+
+    if (Array.isArray(value)) {
+      return value.flatMap((node) => this.unwrapJsonLdNodes(node));
+    }
+
+    if (typeof value === 'object') {
+      const maybeNode = value as Record<string, unknown>;
+      if (Array.isArray(maybeNode['@graph'])) {
+        return this.unwrapJsonLdNodes(maybeNode['@graph']);
+      }
+      return [maybeNode as JsonLdNode];
+    }
+
+    return [];
+  }
+
+  private mapJsonLdNode(node: JsonLdNode, acceptedTypes: string[]): RawItem | undefined {
+    if (!node) {
+      return undefined;
+    }
+
+    const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    if (!types || !types.filter(Boolean).some((type) => acceptedTypes.includes(type as string))) {
+      return undefined;
+    }
+
+    const title = node.headline ?? node.name;
+    const url =
+      node.url ??
+      (typeof node.mainEntityOfPage === 'string'
+        ? node.mainEntityOfPage
+        : node.mainEntityOfPage?.['@id']) ??
+      node['@id'];
+    const publishedAtRaw = node.datePublished ?? node.dateCreated;
+
+    if (!title || !url || !publishedAtRaw) {
+      return undefined;
+    }
+
+    return this.buildItem({
+      title,
+      url: this.toAbsoluteUrl(url),
+      publishedAt: this.resolvePublishedAt(publishedAtRaw),
+      summary: this.normalizeNullable(node.description ?? node.abstract),
+      authors: this.normalizeJsonLdAuthors(node.author ?? node.creator)
+    });
+  }
+
+  private normalizeNullable(value?: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const trimmed = this.normalizeWhitespace(value);
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  private normalizeJsonLdAuthors(
+    author: JsonLdAuthor | JsonLdAuthor[] | undefined
+  ): string[] | undefined {
+    if (!author) {
+      return undefined;
+    }
+
+    const authors = Array.isArray(author) ? author : [author];
+    const names = authors
+      .map((item) => item?.name)
+      .filter((name): name is string => Boolean(name))
+      .map((name) => this.normalizeWhitespace(name));
+
+    return names.length > 0 ? names : undefined;
+  }
+}
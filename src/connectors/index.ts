@@ -1,7 +1,11 @@
 export * from './base';
+export * from './date-format';
 export * from './deepmind-blog';
 export * from './factory';
+export * from './html-connector';
 export * from './openai-blog';
 export * from './paperswithcode';
+export * from './registry';
 export * from './rss-connector';
+export * from './selector-html';
 export * from './types';
@@ -1,3 +1,4 @@
+import { getClock } from '../utils/clock';
 import { NewsSourceError } from '../utils/errors';
 import { fetchJson } from '../utils/http';
 import { AbstractSourceConnector } from './base';
@@ -53,6 +54,7 @@ export class PapersWithCodeConnector extends AbstractSourceConnector {
         >(nextUrl, {
           timeout,
           signal: options.signal,
+          ...this.rateLimitOptions(options),
           headers: {
             'User-Agent': 'ai-timeline-bot/1.0 (+https://github.com/jayvicsanantonio/ai-timeline)'
           }
@@ -160,7 +162,7 @@ export class PapersWithCodeConnector extends AbstractSourceConnector {
       return parsed.toISOString();
     }
 
-    console.warn(`PapersWithCodeConnector received unparsable date "${raw}", using current time.`);
-    return new Date().toISOString();
+    this.logger.warn('Unparsable date, using current time', { date: raw });
+    return getClock().now().toISOString();
   }
 }
@@ -0,0 +1,130 @@
+import path from 'node:path';
+import { ConfigurationError } from '../utils/errors';
+import type { SourceConnector, SourceConnectorInit } from './types';
+
+/**
+ * Builds a connector for a `kind: custom` source entry
+ */
+export type SourceConnectorFactory = (
+  init: SourceConnectorInit
+) => SourceConnector | Promise<SourceConnector>;
+
+/**
+ * Constructor form accepted from plugin modules, e.g. a class extending AbstractSourceConnector
+ */
+export type SourceConnectorConstructor = new (init: SourceConnectorInit) => SourceConnector;
+
+const registry = new Map<string, SourceConnectorFactory>();
+
+/**
+ * Register a custom connector under an id referenced by `metadata.connector` in sources.yaml
+ */
+export function registerConnector(id: string, factory: SourceConnectorFactory): void {
+  if (!id.trim()) {
+    throw new ConfigurationError('Custom connector id must not be empty');
+  }
+  registry.set(id, factory);
+}
+
+export function unregisterConnector(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function listRegisteredConnectors(): string[] {
+  return Array.from(registry.keys()).sort();
+}
+
+/**
+ * Check that a value implements the SourceConnector contract used by the orchestrator
+ */
+export function isSourceConnector(value: unknown): value is SourceConnector {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<SourceConnector>;
+  return (
+    typeof candidate.id === 'string' &&
+    typeof candidate.fetch === 'function' &&
+    typeof candidate.isEnabled === 'function'
+  );
+}
+
+/**
+ * Resolve a `kind: custom` source into a connector.
+ *
+ * The source metadata either names a registered connector (`connector: <id>`) or a module
+ * to load (`module: <path>`, relative to the working directory, with an optional `export`
+ * name that defaults to the module's default export). Modules may export a factory
+ * function or a connector class.
+ */
+export async function createCustomConnector(init: SourceConnectorInit): Promise<SourceConnector> {
+  const { config } = init;
+  const metadata = (config.metadata ?? {}) as Record<string, unknown>;
+  const connectorId = typeof metadata.connector === 'string' ? metadata.connector : undefined;
+  const modulePath = typeof metadata.module === 'string' ? metadata.module : undefined;
+
+  let factory: SourceConnectorFactory | undefined;
+
+  if (connectorId) {
+    factory = registry.get(connectorId);
+    if (!factory) {
+      throw new ConfigurationError(
+        `Custom connector "${connectorId}" for ${config.id} is not registered`
+      );
+    }
+  } else if (modulePath) {
+    const exportName = typeof metadata.export === 'string' ? metadata.export : 'default';
+    factory = await loadConnectorModule(modulePath, exportName, config.id);
+  } else {
+    throw new ConfigurationError(
+      `Custom source ${config.id} must set metadata.connector or metadata.module`,
+      ['metadata.connector', 'metadata.module']
+    );
+  }
+
+  const connector = await factory(init);
+
+  if (!isSourceConnector(connector)) {
+    throw new ConfigurationError(
+      `Custom connector for ${config.id} must provide an id, fetch() and isEnabled()`
+    );
+  }
+
+  return connector;
+}
+
+async function loadConnectorModule(
+  modulePath: string,
+  exportName: string,
+  sourceId: string
+): Promise<SourceConnectorFactory> {
+  const resolvedPath = path.isAbsolute(modulePath)
+    ? modulePath
+    : path.resolve(process.cwd(), modulePath);
+
+  let loaded: Record<string, unknown>;
+  try {
+    loaded = (await import(resolvedPath)) as Record<string, unknown>;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to load custom connector module ${resolvedPath} for ${sourceId}: ${(error as Error).message}`
+    );
+  }
+
+  const exported = loaded[exportName];
+  if (typeof exported !== 'function') {
+    throw new ConfigurationError(
+      `Custom connector module ${resolvedPath} has no "${exportName}" export for ${sourceId}`
+    );
+  }
+
+  // Classes are instantiated; plain functions are treated as factories
+  const prototype = (exported as { prototype?: { fetch?: unknown } }).prototype;
+  if (prototype && typeof prototype.fetch === 'function') {
+    const ConnectorClass = exported as SourceConnectorConstructor;
+    return (init) => new ConnectorClass(init);
+  }
+
+  return exported as SourceConnectorFactory;
+}
@@ -1,4 +1,5 @@
 import Parser from 'rss-parser';
+import { getClock } from '../utils/clock';
 import { NewsSourceError } from '../utils/errors';
 import { fetchText } from '../utils/http';
 import { AbstractSourceConnector } from './base';
@@ -38,6 +39,7 @@ export class RssSourceConnector extends AbstractSourceConnector {
       const payload = await fetchText(this.url, {
         timeout,
         signal: options.signal,
+        ...this.rateLimitOptions(options),
         headers: {
           'User-Agent': 'ai-timeline-bot/1.0 (+https://github.com/jayvicsanantonio/ai-timeline)'
         }
@@ -60,7 +62,7 @@ export class RssSourceConnector extends AbstractSourceConnector {
       return undefined;
     }
 
-    const publishedAt = item.isoDate || new Date().toISOString();
+    const publishedAt = item.isoDate || getClock().now().toISOString();
     const sanitizedUrl = this.sanitizeUrl(item.link);
     const fingerprint = this.generateDeterministicId(`${this.id}:${sanitizedUrl}`);
     const datePrefix = new Date(publishedAt).toISOString().slice(0, 10);
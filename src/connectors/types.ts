@@ -19,6 +19,8 @@ export interface SourceFetchOptions {
   maxItems?: number;
   correlationId?: string;
   signal?: AbortSignal;
+  /** Reports time spent waiting on the per-host rate limit */
+  onThrottle?: (waitMs: number) => void;
 }
 
 export interface SourceConnector {
@@ -37,6 +39,7 @@ export interface ConnectorContext {
 export interface ConnectorMetrics {
   latencyMs: number;
   itemCount: number;
+  throttleWaitMs: number;
   success: boolean;
   errorMessage?: string;
 }
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the timeline exporters
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { TimelineEntry } from '../../types';
+import {
+  EXPORT_FORMATS,
+  getExporter,
+  renderTimelineExports,
+  type TimelineExportOptions,
+  writeTimelineExports
+} from '..';
+
+const entries: TimelineEntry[] = [
+  {
+    id: '2024-03-04-claude-3',
+    date: '2024-03-04T00:00:00.000Z',
+    title: 'Claude 3 Released',
+    description: 'Anthropic releases the Claude 3 family; Opus leads "most" benchmarks.',
+    category: 'Models & Architectures',
+    sources: ['https://example.com/claude-3', 'https://example.com/model-card'],
+    impact_score: 8.5,
+    tags: ['llm', 'benchmarks']
+  },
+  {
+    id: '2023-03-14-gpt-4',
+    date: '2023-03-14T00:00:00.000Z',
+    title: 'GPT-4 Released',
+    description: 'OpenAI releases GPT-4.',
+    category: 'Models & Architectures',
+    sources: ['https://openai.com/research/gpt-4'],
+    impact_score: 9.5
+  },
+  {
+    id: '2024-03-20-eu-ai-act',
+    date: '2024-03-20T00:00:00.000Z',
+    title: 'EU AI Act Adopted',
+    description: 'The European Parliament adopts the AI Act.',
+    category: 'Policy & Regulation',
+    sources: [],
+    impact_score: 8
+  }
+];
+
+const options: TimelineExportOptions = {
+  title: 'AI Timeline',
+  siteUrl: 'https://example.com/timeline',
+  description: 'Milestones in AI',
+  feedLimit: 2
+};
+
+describe('timeline exporters', () => {
+  it('has an exporter for every configurable format', () => {
+    for (const format of EXPORT_FORMATS) {
+      expect(getExporter(format).format).toBe(format);
+    }
+  });
+
+  it('groups the Markdown export by year and month', () => {
+    const markdown = getExporter('markdown').render(entries, options);
+
+    expect(markdown).toBe(
+      `${[
+        '# AI Timeline',
+        'Milestones in AI',
+        '## 2023',
+        '### March',
+        '- **[GPT-4 Released](https://openai.com/research/gpt-4)** &mdash; OpenAI releases GPT-4. _(Models & Architectures)_',
+        '## 2024',
+        '### March',
+        [
+          '- **[Claude 3 Released](https://example.com/claude-3)** &mdash; Anthropic releases the Claude 3 family; Opus leads "most" benchmarks. _(Models & Architectures)_',
+          '- **EU AI Act Adopted** &mdash; The European Parliament adopts the AI Act. _(Policy & Regulation)_'
+        ].join('\n')
+      ].join('\n\n')}\n`
+    );
+  });
+
+  it('quotes CSV fields that need it', () => {
+    const rows = getExporter('csv').render(entries, options).split('\r\n');
+
+    expect(rows[0]).toBe(
+      'id,date,year,month,title,description,category,impact_score,link,sources,tags'
+    );
+    expect(rows[1]).toBe(
+      '2023-03-14-gpt-4,2023-03-14,2023,March,GPT-4 Released,OpenAI releases GPT-4.,Models & Architectures,9.5,https://openai.com/research/gpt-4,https://openai.com/research/gpt-4,'
+    );
+    expect(rows[2]).toContain(
+      ',"Anthropic releases the Claude 3 family; Opus leads ""most"" benchmarks.",'
+    );
+    expect(rows[2]).toMatch(/,llm;benchmarks$/);
+    expect(rows).toHaveLength(5);
+    expect(rows[4]).toBe('');
+  });
+
+  it('renders all-day calendar events with escaped and folded text', () => {
+    const calendar = getExporter('ics').render(entries, options);
+    const lines = calendar.split('\r\n');
+
+    expect(lines.slice(0, 6)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//AI Timeline Automation//Timeline Export//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:AI Timeline',
+      'X-WR-CALDESC:Milestones in AI'
+    ]);
+    expect(lines).toContain('UID:2024-03-04-claude-3@ai-timeline');
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240304');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240305');
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    // Unfolding restores the escaped description
+    expect(calendar.replace(/\r\n /g, '')).toContain(
+      'DESCRIPTION:Anthropic releases the Claude 3 family\\; Opus leads "most" benchmarks.\\n\\nhttps://example.com/claude-3'
+    );
+    expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(3);
+  });
+
+  it('lists the newest entries first in feeds', () => {
+    const rss = getExporter('rss').render(entries, options);
+    const atom = getExporter('atom').render(entries, options);
+    const jsonFeed = JSON.parse(getExporter('json_feed').render(entries, options));
+
+    expect(rss.match(/<title>[^<]+<\/title>/g)).toEqual([
+      '<title>AI Timeline</title>',
+      '<title>EU AI Act Adopted</title>',
+      '<title>Claude 3 Released</title>'
+    ]);
+    expect(rss).toContain('&quot;most&quot;');
+    expect(rss).toContain('<lastBuildDate>Wed, 20 Mar 2024 00:00:00 GMT</lastBuildDate>');
+
+    expect(atom).toContain('<updated>2024-03-20T00:00:00.000Z</updated>');
+    expect(atom).toContain('<id>urn:ai-timeline:2024-03-04-claude-3</id>');
+    expect(atom).not.toContain('GPT-4');
+
+    expect(jsonFeed.items.map((item: { id: string }) => item.id)).toEqual([
+      'urn:ai-timeline:2024-03-20-eu-ai-act',
+      'urn:ai-timeline:2024-03-04-claude-3'
+    ]);
+    expect(jsonFeed.items[1]).toEqual(
+      expect.objectContaining({
+        url: 'https://example.com/claude-3',
+        tags: ['Models & Architectures', 'llm', 'benchmarks']
+      })
+    );
+  });
+
+  it('renders identical output for the same entries', () => {
+    const reordered = [entries[2], entries[0], entries[1]];
+
+    for (const format of EXPORT_FORMATS) {
+      const exporter = getExporter(format);
+      expect(exporter.render(reordered, options)).toBe(exporter.render(entries, options));
+    }
+  });
+
+  it('writes rendered exports under the base directory', async () => {
+    const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'timeline-exports-'));
+
+    try {
+      const written = await writeTimelineExports(
+        renderTimelineExports(entries, {
+          targets: [{ format: 'atom', path: 'feeds/atom.xml' }],
+          options
+        }),
+        baseDir
+      );
+
+      expect(written).toEqual([path.join(baseDir, 'feeds', 'atom.xml')]);
+      expect(await fs.readFile(written[0], 'utf-8')).toContain('<feed');
+    } finally {
+      await fs.rm(baseDir, { recursive: true, force: true });
+    }
+  });
+});
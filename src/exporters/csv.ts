@@ -0,0 +1,55 @@
+/**
+ * CSV export (RFC 4180), one row per entry in chronological order
+ */
+
+import type { TimelineEntry } from '../types';
+import { MONTH_NAMES, sortChronologically } from './format';
+import type { TimelineExporter } from './types';
+
+const COLUMNS = [
+  'id',
+  'date',
+  'year',
+  'month',
+  'title',
+  'description',
+  'category',
+  'impact_score',
+  'link',
+  'sources',
+  'tags'
+] as const;
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toRow(entry: TimelineEntry): Record<(typeof COLUMNS)[number], string | number> {
+  const date = new Date(entry.date);
+  return {
+    id: entry.id,
+    date: entry.date.slice(0, 10),
+    year: date.getUTCFullYear(),
+    month: MONTH_NAMES[date.getUTCMonth()],
+    title: entry.title,
+    description: entry.description,
+    category: entry.category,
+    impact_score: entry.impact_score,
+    link: entry.sources[0] ?? '',
+    sources: entry.sources.join(' '),
+    tags: (entry.tags ?? []).join(';')
+  };
+}
+
+export const csvExporter: TimelineExporter = {
+  format: 'csv',
+  render(entries: TimelineEntry[]): string {
+    const rows = sortChronologically(entries).map((entry) => {
+      const row = toRow(entry);
+      return COLUMNS.map((column) => escapeCsv(row[column])).join(',');
+    });
+
+    return `${[COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+  }
+};
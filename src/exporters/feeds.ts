@@ -0,0 +1,97 @@
+/**
+ * Feed exports for feed readers: RSS 2.0, Atom 1.0 and JSON Feed 1.1, newest entries first
+ */
+
+import type { TimelineEntry } from '../types';
+import { escapeXml, lastUpdated, latestEntries } from './format';
+import type { TimelineExporter, TimelineExportOptions } from './types';
+
+const FEED_ID_PREFIX = 'urn:ai-timeline:';
+
+export const rssExporter: TimelineExporter = {
+  format: 'rss',
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string {
+    const items = latestEntries(entries, options.feedLimit).map((entry) => {
+      const [link] = entry.sources;
+      return [
+        '    <item>',
+        `      <title>${escapeXml(entry.title)}</title>`,
+        ...(link ? [`      <link>${escapeXml(link)}</link>`] : []),
+        `      <guid isPermaLink="false">${FEED_ID_PREFIX}${entry.id}</guid>`,
+        `      <pubDate>${new Date(entry.date).toUTCString()}</pubDate>`,
+        `      <category>${escapeXml(entry.category)}</category>`,
+        `      <description>${escapeXml(entry.description)}</description>`,
+        '    </item>'
+      ].join('\n');
+    });
+
+    return `${[
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<rss version="2.0">',
+      '  <channel>',
+      `    <title>${escapeXml(options.title)}</title>`,
+      ...(options.siteUrl ? [`    <link>${escapeXml(options.siteUrl)}</link>`] : []),
+      `    <description>${escapeXml(options.description ?? options.title)}</description>`,
+      `    <lastBuildDate>${lastUpdated(entries).toUTCString()}</lastBuildDate>`,
+      ...items,
+      '  </channel>',
+      '</rss>'
+    ].join('\n')}\n`;
+  }
+};
+
+export const atomExporter: TimelineExporter = {
+  format: 'atom',
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string {
+    const items = latestEntries(entries, options.feedLimit).map((entry) => {
+      const [link] = entry.sources;
+      return [
+        '  <entry>',
+        `    <id>${FEED_ID_PREFIX}${entry.id}</id>`,
+        `    <title>${escapeXml(entry.title)}</title>`,
+        `    <updated>${new Date(entry.date).toISOString()}</updated>`,
+        ...(link ? [`    <link href="${escapeXml(link)}"/>`] : []),
+        `    <category term="${escapeXml(entry.category)}"/>`,
+        `    <summary>${escapeXml(entry.description)}</summary>`,
+        '  </entry>'
+      ].join('\n');
+    });
+
+    return `${[
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<feed xmlns="http://www.w3.org/2005/Atom">',
+      `  <id>${escapeXml(options.siteUrl ?? `${FEED_ID_PREFIX}feed`)}</id>`,
+      `  <title>${escapeXml(options.title)}</title>`,
+      ...(options.description ? [`  <subtitle>${escapeXml(options.description)}</subtitle>`] : []),
+      `  <updated>${lastUpdated(entries).toISOString()}</updated>`,
+      ...(options.siteUrl ? [`  <link href="${escapeXml(options.siteUrl)}"/>`] : []),
+      '  <author>',
+      `    <name>${escapeXml(options.title)}</name>`,
+      '  </author>',
+      ...items,
+      '</feed>'
+    ].join('\n')}\n`;
+  }
+};
+
+export const jsonFeedExporter: TimelineExporter = {
+  format: 'json_feed',
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string {
+    const feed = {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: options.title,
+      ...(options.siteUrl ? { home_page_url: options.siteUrl } : {}),
+      ...(options.description ? { description: options.description } : {}),
+      items: latestEntries(entries, options.feedLimit).map((entry) => ({
+        id: `${FEED_ID_PREFIX}${entry.id}`,
+        ...(entry.sources[0] ? { url: entry.sources[0] } : {}),
+        title: entry.title,
+        content_text: entry.description,
+        date_published: new Date(entry.date).toISOString(),
+        tags: [entry.category, ...(entry.tags ?? [])]
+      }))
+    };
+
+    return `${JSON.stringify(feed, null, 2)}\n`;
+  }
+};
@@ -0,0 +1,68 @@
+/**
+ * Helpers shared by the exporters
+ */
+
+import type { TimelineEntry } from '../types';
+
+export const MONTH_NAMES: readonly string[] = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+/**
+ * Oldest first; ties keep file order
+ */
+export function sortChronologically(entries: TimelineEntry[]): TimelineEntry[] {
+  return entries
+    .map((entry, index) => ({ entry, index, time: new Date(entry.date).getTime() }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Newest first, capped at `limit`
+ */
+export function latestEntries(entries: TimelineEntry[], limit: number): TimelineEntry[] {
+  return sortChronologically(entries).reverse().slice(0, limit);
+}
+
+/**
+ * Date of the newest entry; feeds use it as their update time so unchanged timelines render
+ * identically
+ */
+export function lastUpdated(entries: TimelineEntry[]): Date {
+  const times = entries.map((entry) => new Date(entry.date).getTime());
+  return new Date(times.length > 0 ? Math.max(...times) : 0);
+}
+
+/**
+ * Whether a link is an absolute http(s) URL; anything else (javascript:, data:, ...) must not
+ * end up in an href
+ */
+export function isWebUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && Boolean(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,89 @@
+/**
+ * iCalendar (RFC 5545) export with one all-day event per entry
+ */
+
+import type { TimelineEntry } from '../types';
+import { sortChronologically } from './format';
+import type { TimelineExporter, TimelineExportOptions } from './types';
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets, without splitting multi-byte characters
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+  return `${date.toISOString().slice(0, 19).replace(/[-:]/g, '')}Z`;
+}
+
+function renderEvent(entry: TimelineEntry): string[] {
+  const start = new Date(entry.date);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  const [link] = entry.sources;
+  const description = link ? `${entry.description}\n\n${link}` : entry.description;
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${entry.id}@ai-timeline`,
+    // Stamped with the event date rather than the export time so unchanged entries do not diff
+    `DTSTAMP:${formatTimestamp(start)}`,
+    `DTSTART;VALUE=DATE:${formatDate(start)}`,
+    `DTEND;VALUE=DATE:${formatDate(end)}`,
+    `SUMMARY:${escapeText(entry.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `CATEGORIES:${escapeText(entry.category)}`,
+    ...(link ? [`URL:${link}`] : []),
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT'
+  ];
+}
+
+export const icalendarExporter: TimelineExporter = {
+  format: 'ics',
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//AI Timeline Automation//Timeline Export//EN',
+      'CALSCALE:GREGORIAN',
+      `X-WR-CALNAME:${escapeText(options.title)}`,
+      ...(options.description ? [`X-WR-CALDESC:${escapeText(options.description)}`] : []),
+      ...sortChronologically(entries).flatMap(renderEvent),
+      'END:VCALENDAR'
+    ];
+
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+  }
+};
@@ -0,0 +1,62 @@
+/**
+ * Renders the timeline into formats for newsletters, calendars and feed readers
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { TimelineEntry } from '../types';
+import { csvExporter } from './csv';
+import { atomExporter, jsonFeedExporter, rssExporter } from './feeds';
+import { icalendarExporter } from './icalendar';
+import { markdownExporter } from './markdown';
+import type {
+  ExportFormat,
+  RenderedExport,
+  TimelineExporter,
+  TimelineExportSettings
+} from './types';
+
+export * from './types';
+
+const EXPORTERS: Record<ExportFormat, TimelineExporter> = {
+  markdown: markdownExporter,
+  csv: csvExporter,
+  ics: icalendarExporter,
+  rss: rssExporter,
+  atom: atomExporter,
+  json_feed: jsonFeedExporter
+};
+
+export function getExporter(format: ExportFormat): TimelineExporter {
+  return EXPORTERS[format];
+}
+
+export function renderTimelineExports(
+  entries: TimelineEntry[],
+  settings: TimelineExportSettings
+): RenderedExport[] {
+  return settings.targets.map((target) => ({
+    ...target,
+    content: getExporter(target.format).render(entries, settings.options)
+  }));
+}
+
+/**
+ * Write rendered exports under a directory, creating parent directories as needed
+ * @returns The absolute paths written
+ */
+export async function writeTimelineExports(
+  exports: RenderedExport[],
+  baseDir = '.'
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const rendered of exports) {
+    const filePath = path.resolve(baseDir, rendered.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, rendered.content, 'utf-8');
+    written.push(filePath);
+  }
+
+  return written;
+}
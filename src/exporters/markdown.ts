@@ -0,0 +1,61 @@
+/**
+ * Markdown export grouped by year and month, for newsletters and READMEs
+ */
+
+import type { TimelineEntry } from '../types';
+import { MONTH_NAMES, sortChronologically } from './format';
+import type { TimelineExporter, TimelineExportOptions } from './types';
+
+function renderEntry(entry: TimelineEntry): string {
+  const [link] = entry.sources;
+  const title = link ? `[${escapeMarkdown(entry.title)}](${link})` : escapeMarkdown(entry.title);
+  const description = entry.description.replace(/\s*\n\s*/g, ' ');
+  return `- **${title}** &mdash; ${description} _(${entry.category})_`;
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\[\]*_`])/g, '\\$1');
+}
+
+export const markdownExporter: TimelineExporter = {
+  format: 'markdown',
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string {
+    const sections: string[] = [`# ${options.title}`];
+
+    if (options.description) {
+      sections.push(options.description);
+    }
+
+    let currentYear: number | undefined;
+    let currentMonth: number | undefined;
+    let items: string[] = [];
+
+    const flushMonth = () => {
+      if (items.length > 0) {
+        sections.push(items.join('\n'));
+        items = [];
+      }
+    };
+
+    for (const entry of sortChronologically(entries)) {
+      const date = new Date(entry.date);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+
+      if (year !== currentYear || month !== currentMonth) {
+        flushMonth();
+        if (year !== currentYear) {
+          sections.push(`## ${year}`);
+          currentYear = year;
+        }
+        sections.push(`### ${MONTH_NAMES[month]}`);
+        currentMonth = month;
+      }
+
+      items.push(renderEntry(entry));
+    }
+    flushMonth();
+
+    return `${sections.join('\n\n')}\n`;
+  }
+};
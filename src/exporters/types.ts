@@ -0,0 +1,41 @@
+import type { TimelineEntry } from '../types';
+
+export const EXPORT_FORMATS = ['markdown', 'csv', 'ics', 'rss', 'atom', 'json_feed'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface TimelineExportOptions {
+  /** Feed, calendar and document title */
+  title: string;
+  /** Public page of the timeline, used as the feed home page */
+  siteUrl?: string;
+  description?: string;
+  /** Most recent entries included in RSS, Atom and JSON Feed output */
+  feedLimit: number;
+}
+
+export interface TimelineExporter {
+  readonly format: ExportFormat;
+  /** Renders are deterministic for the same entries, so re-exports only diff on real changes */
+  render(entries: TimelineEntry[], options: TimelineExportOptions): string;
+}
+
+/**
+ * A file to render, with its path relative to the repository or working copy
+ */
+export interface ExportTarget {
+  format: ExportFormat;
+  path: string;
+}
+
+export interface RenderedExport extends ExportTarget {
+  content: string;
+}
+
+/**
+ * Exports produced alongside every timeline update
+ */
+export interface TimelineExportSettings {
+  targets: ExportTarget[];
+  options: TimelineExportOptions;
+}
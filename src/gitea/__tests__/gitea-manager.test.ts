@@ -0,0 +1,328 @@
+/**
+ * GiteaManager tests against a local mock of the Gitea REST API
+ */
+
+import {
+  type MockForgeServer,
+  startMockForge
+} from '../../../tests/__fixtures__/forge/mock-forge-server';
+import type { AnalyzedEvent } from '../../types';
+import type { LogEntry } from '../../utils/logger';
+import { GiteaManager } from '../gitea-manager';
+
+const REPO = '/api/v1/repos/ai/timeline';
+const FILE = `${REPO}/contents/data/timeline-events.json`;
+const BRANCH = 'auto-update/week-2024-03';
+
+const EXISTING_TIMELINE = `[
+  {
+    "year": 2023,
+    "month": "March",
+    "title": "GPT-4 Released",
+    "description": "OpenAI releases GPT-4.",
+    "category": "Models & Architectures",
+    "link": "https://openai.com/research/gpt-4"
+  }
+]
+`;
+
+const analyzedEvent: AnalyzedEvent = {
+  id: '2024-01-15-ai-breakthrough',
+  title: 'AI Breakthrough',
+  date: '2024-01-15T00:00:00Z',
+  description: 'Major breakthrough in AI',
+  category: 'research',
+  sources: ['https://example.com/ai-news'],
+  impactScore: 7.5,
+  significance: {
+    technologicalBreakthrough: 8,
+    industryImpact: 7,
+    adoptionScale: 7,
+    novelty: 8
+  }
+};
+
+describe('GiteaManager', () => {
+  let forge: MockForgeServer;
+
+  const createManager = () =>
+    new GiteaManager({
+      owner: 'ai',
+      repo: 'timeline',
+      apiUrl: `${forge.baseUrl}/api/v1`,
+      token: 'gitea-test'
+    });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await forge.close();
+  });
+
+  it('opens a pull request with the appended timeline and known labels', async () => {
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${REPO}/pulls`,
+        body: [{ number: 2, html_url: 'https://git.example.com/pr/2', head: { ref: 'other' } }]
+      },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { content: Buffer.from(EXISTING_TIMELINE).toString('base64'), sha: 'sha-1' }
+      },
+      { method: 'POST', path: `${REPO}/branches`, status: 201, body: {} },
+      { method: 'PUT', path: FILE, body: {} },
+      {
+        method: 'POST',
+        path: `${REPO}/pulls`,
+        status: 201,
+        body: { number: 5, html_url: 'https://git.example.com/ai/timeline/pulls/5', head: {} }
+      },
+      {
+        method: 'GET',
+        path: `${REPO}/labels`,
+        body: [
+          { id: 11, name: 'automated' },
+          { id: 12, name: 'impact:high' },
+          { id: 13, name: 'bug' }
+        ]
+      },
+      { method: 'POST', path: `${REPO}/issues/5/labels`, body: [] }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual({
+      number: 5,
+      html_url: 'https://git.example.com/ai/timeline/pulls/5',
+      branch: BRANCH,
+      created: true,
+      entries: expect.any(Array)
+    });
+    expect(forge.requests[0].headers.authorization).toBe('token gitea-test');
+    expect(forge.calls('POST', `${REPO}/branches`)[0].body).toEqual({
+      new_branch_name: BRANCH,
+      old_branch_name: 'main'
+    });
+
+    const [update] = forge.calls('PUT', FILE);
+    const { content, ...commit } = update.body as Record<string, string>;
+    expect(commit).toEqual({
+      branch: BRANCH,
+      message: 'Add 1 new AI timeline event',
+      sha: 'sha-1'
+    });
+    expect(JSON.parse(Buffer.from(content, 'base64').toString('utf-8'))).toHaveLength(2);
+
+    expect(forge.calls('POST', `${REPO}/pulls`)[0].body).toEqual(
+      expect.objectContaining({ head: BRANCH, base: 'main' })
+    );
+    expect(forge.calls('POST', `${REPO}/issues/5/labels`)[0].body).toEqual({ labels: [11, 12] });
+    const entries = jest
+      .mocked(console.log)
+      .mock.calls.map(([line]) => JSON.parse(String(line)) as LogEntry);
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: 'WARN',
+        message: 'Skipping labels that do not exist in the repo',
+        metadata: { labels: ['weekly-update', 'category:research'] }
+      })
+    );
+  });
+
+  it('returns the open pull request for the week without writing anything', async () => {
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${REPO}/pulls`,
+        body: [{ number: 3, html_url: 'https://git.example.com/pr/3', head: { ref: BRANCH } }]
+      }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual({
+      number: 3,
+      html_url: 'https://git.example.com/pr/3',
+      branch: BRANCH,
+      created: false
+    });
+    expect(forge.requests).toHaveLength(1);
+    expect(forge.requests[0].query).toEqual({ state: 'open', limit: '50' });
+  });
+
+  it('commits changed exports to the pull request branch', async () => {
+    const markdownPath = `${REPO}/contents/exports/timeline.md`;
+    const csvPath = `${REPO}/contents/exports/timeline.csv`;
+    forge = await startMockForge([
+      { method: 'GET', path: `${REPO}/pulls`, body: [] },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { content: Buffer.from(EXISTING_TIMELINE).toString('base64'), sha: 'sha-1' }
+      },
+      { method: 'POST', path: `${REPO}/branches`, status: 201, body: {} },
+      { method: 'PUT', path: FILE, body: {} },
+      {
+        method: 'GET',
+        path: markdownPath,
+        body: { content: Buffer.from('# Old\n').toString('base64'), sha: 'md-1' }
+      },
+      { method: 'PUT', path: markdownPath, body: {} },
+      { method: 'POST', path: csvPath, status: 201, body: {} },
+      {
+        method: 'POST',
+        path: `${REPO}/pulls`,
+        status: 201,
+        body: { number: 6, html_url: 'https://git.example.com/ai/timeline/pulls/6', head: {} }
+      },
+      { method: 'GET', path: `${REPO}/labels`, body: [] }
+    ]);
+
+    const manager = new GiteaManager({
+      owner: 'ai',
+      repo: 'timeline',
+      apiUrl: `${forge.baseUrl}/api/v1`,
+      exports: {
+        targets: [
+          { format: 'markdown', path: 'exports/timeline.md' },
+          { format: 'csv', path: 'exports/timeline.csv' }
+        ],
+        options: { title: 'AI Timeline', feedLimit: 10 }
+      }
+    });
+    await manager.createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    const [markdown] = forge.calls('PUT', markdownPath);
+    expect(markdown.body).toEqual(
+      expect.objectContaining({
+        branch: BRANCH,
+        message: 'Update exports/timeline.md',
+        sha: 'md-1'
+      })
+    );
+    const [csv] = forge.calls('POST', csvPath);
+    const { content, ...commit } = csv.body as Record<string, string>;
+    expect(commit).toEqual({ branch: BRANCH, message: 'Update exports/timeline.csv' });
+    expect(Buffer.from(content, 'base64').toString('utf-8').split('\r\n')).toHaveLength(4);
+  });
+
+  it('reports merged and closed pull requests with their description', async () => {
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${REPO}/pulls/4`,
+        body: {
+          number: 4,
+          html_url: 'https://git.example.com/pr/4',
+          state: 'closed',
+          merged: true,
+          body: 'Done'
+        }
+      },
+      {
+        method: 'GET',
+        path: `${REPO}/pulls/5`,
+        body: {
+          number: 5,
+          html_url: 'https://git.example.com/pr/5',
+          state: 'closed',
+          merged: false
+        }
+      }
+    ]);
+
+    const manager = createManager();
+
+    expect(await manager.getChangeRequest(4)).toEqual({
+      number: 4,
+      html_url: 'https://git.example.com/pr/4',
+      state: 'merged',
+      description: 'Done'
+    });
+    expect(await manager.getChangeRequest(5)).toEqual(
+      expect.objectContaining({ state: 'closed', description: '' })
+    );
+  });
+
+  it('recreates a stale branch before writing', async () => {
+    forge = await startMockForge([
+      {
+        method: 'POST',
+        path: `${REPO}/branches`,
+        status: 409,
+        body: { message: 'branch already exists' },
+        times: 1
+      },
+      { method: 'DELETE', path: `${REPO}/branches/${BRANCH}`, status: 204 },
+      { method: 'POST', path: `${REPO}/branches`, status: 201, body: {} }
+    ]);
+
+    await createManager().createOrUpdateBranch(BRANCH);
+
+    expect(forge.requests.map((request) => request.method)).toEqual(['POST', 'DELETE', 'POST']);
+  });
+
+  it('rebases an open pull request in place when adding events incrementally', async () => {
+    const proposed = `[
+  {
+    "year": 2024,
+    "month": "January",
+    "title": "Open Model Released",
+    "description": "A lab releases open weights.",
+    "category": "Public Releases",
+    "link": "https://example.com/open-model"
+  }
+]
+`;
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${REPO}/pulls`,
+        body: [{ number: 3, html_url: 'https://git.example.com/pr/3', head: { ref: BRANCH } }]
+      },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { content: Buffer.from(EXISTING_TIMELINE).toString('base64'), sha: 'base-file' },
+        times: 1
+      },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { content: Buffer.from(proposed).toString('base64'), sha: 'pr-file' }
+      },
+      { method: 'POST', path: `${REPO}/pulls/3/update`, status: 409, body: {} },
+      { method: 'PUT', path: FILE, body: {} },
+      { method: 'PATCH', path: `${REPO}/pulls/3`, body: {} },
+      { method: 'GET', path: `${REPO}/labels`, body: [] },
+      { method: 'POST', path: `${REPO}/issues/3/comments`, status: 201, body: {} }
+    ]);
+
+    const manager = new GiteaManager({
+      owner: 'ai',
+      repo: 'timeline',
+      apiUrl: `${forge.baseUrl}/api/v1`,
+      incremental: true
+    });
+    const result = await manager.createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual(expect.objectContaining({ number: 3, created: false, updated: true }));
+    expect(forge.calls('POST', `${REPO}/pulls/3/update`)[0].query).toEqual({ style: 'rebase' });
+    expect(forge.calls('DELETE', `${REPO}/branches/${BRANCH}`)).toHaveLength(0);
+
+    const { content, sha } = forge.calls('PUT', FILE)[0].body as Record<string, string>;
+    expect(sha).toBe('pr-file');
+    expect(
+      JSON.parse(Buffer.from(content, 'base64').toString('utf-8')).map(
+        (entry: { title: string }) => entry.title
+      )
+    ).toEqual(['GPT-4 Released', 'Open Model Released', 'AI Breakthrough']);
+    expect(forge.calls('POST', `${REPO}/issues/3/comments`)).toHaveLength(1);
+  });
+});
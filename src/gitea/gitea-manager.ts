@@ -0,0 +1,286 @@
+/**
+ * GiteaManager - Publishes timeline updates as pull requests on Gitea or Forgejo
+ */
+
+import { forgeRequest, isHttpStatus } from '../timeline/forge-api';
+import { getTimelineInterceptor } from '../timeline/interceptor';
+import {
+  type ChangeRequest,
+  type ChangeRequestStatus,
+  type ForgeTimelineConfig,
+  ForgeTimelineStore,
+  type RepositoryFile
+} from '../timeline/publisher';
+import { parseTimelineData } from '../timeline/timeline-file';
+import type { TimelineData } from '../timeline/types';
+
+/**
+ * Configuration for GiteaManager
+ */
+export interface GiteaManagerConfig extends ForgeTimelineConfig {
+  /** Repository owner (user or organization) */
+  owner: string;
+  /** Repository name */
+  repo: string;
+  /** API root, e.g. https://git.example.com/api/v1 */
+  apiUrl?: string;
+  /** Access token with repository write scope */
+  token?: string;
+}
+
+interface GiteaContents {
+  content: string;
+  sha: string;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  html_url: string;
+  head: { ref: string };
+  state?: 'open' | 'closed';
+  merged?: boolean;
+  body?: string | null;
+}
+
+interface GiteaLabel {
+  id: number;
+  name: string;
+}
+
+const DEFAULT_API_URL = 'https://gitea.com/api/v1';
+const PAGE_SIZE = 50;
+
+export class GiteaManager extends ForgeTimelineStore {
+  readonly provider = 'gitea' as const;
+  private readonly owner: string;
+  private readonly repo: string;
+  private readonly apiUrl: string;
+  private readonly token: string;
+
+  constructor(config: GiteaManagerConfig) {
+    super(config);
+    this.owner = config.owner;
+    this.repo = config.repo;
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.token = config.token || process.env.GIT_TOKEN || '';
+  }
+
+  describe(): string {
+    return `gitea:${this.owner}/${this.repo}/${this.filePath}`;
+  }
+
+  async fetchTimeline(ref?: string): Promise<TimelineData> {
+    const interceptor = getTimelineInterceptor();
+    if (interceptor) {
+      return interceptor.fetchTimeline(() => this.readTimelineFile(ref));
+    }
+
+    return this.readTimelineFile(ref);
+  }
+
+  /**
+   * Check if an open pull request already exists for the branch
+   */
+  async findOpenChangeRequest(branchName: string): Promise<ChangeRequest | null> {
+    try {
+      // Gitea cannot filter pulls by head branch, so match it client-side
+      const pulls = await this.request<GiteaPullRequest[]>('/pulls', {
+        query: { state: 'open', limit: PAGE_SIZE }
+      });
+
+      const existing = pulls.find((pull) => pull.head.ref === branchName);
+      return existing ? { number: existing.number, html_url: existing.html_url } : null;
+    } catch (error) {
+      this.logger.error('Error checking for existing pull request', error as Error);
+      return null;
+    }
+  }
+
+  async getChangeRequest(number: number): Promise<ChangeRequestStatus> {
+    const pull = await this.request<GiteaPullRequest>(`/pulls/${number}`);
+
+    return {
+      number: pull.number,
+      html_url: pull.html_url,
+      state: pull.merged ? 'merged' : pull.state === 'closed' ? 'closed' : 'open',
+      description: pull.body ?? ''
+    };
+  }
+
+  /**
+   * Create the branch from the base branch, recreating it if it already exists
+   */
+  async createOrUpdateBranch(branchName: string): Promise<void> {
+    const create = () =>
+      this.request('/branches', {
+        method: 'POST',
+        body: { new_branch_name: branchName, old_branch_name: this.baseBranch }
+      });
+
+    try {
+      try {
+        await create();
+        this.logger.info('Created new branch', { branch: branchName });
+      } catch (error) {
+        // Gitea has no force-update for branch refs, so a stale branch is deleted and recreated
+        if (!isHttpStatus(error, 409)) {
+          throw error;
+        }
+        await this.request(`/branches/${encodeURIComponent(branchName)}`, { method: 'DELETE' });
+        await create();
+        this.logger.info('Updated existing branch', { branch: branchName });
+      }
+    } catch (error) {
+      this.logger.error('Error creating/updating branch', error as Error);
+      throw new Error(`Failed to create/update branch: ${error}`);
+    }
+  }
+
+  async createChangeRequest(
+    branchName: string,
+    title: string,
+    body: string
+  ): Promise<ChangeRequest> {
+    try {
+      const pull = await this.request<GiteaPullRequest>('/pulls', {
+        method: 'POST',
+        body: { head: branchName, base: this.baseBranch, title, body }
+      });
+
+      return { number: pull.number, html_url: pull.html_url };
+    } catch (error) {
+      this.logger.error('Error creating pull request', error as Error);
+      throw new Error(`Failed to create pull request: ${error}`);
+    }
+  }
+
+  /**
+   * Deleting a pull request's head branch closes it on Gitea, so the branch is rebased in place
+   */
+  protected async rebaseBranch(branchName: string, number: number): Promise<void> {
+    const logger = this.logger.child({ branch: branchName });
+
+    try {
+      await this.request(`/pulls/${number}/update`, {
+        method: 'POST',
+        query: { style: 'rebase' }
+      });
+      logger.info('Rebased pull request onto the base branch', { base: this.baseBranch });
+    } catch (error) {
+      // A conflicting timeline file is resolved by the rewrite that follows
+      if (!isHttpStatus(error, 409)) {
+        throw error;
+      }
+      logger.warn('Could not rebase the pull request; rewriting the timeline in place', {
+        base: this.baseBranch,
+        pullRequest: number
+      });
+    }
+  }
+
+  async updateChangeRequest(number: number, title: string, body: string): Promise<void> {
+    await this.request(`/pulls/${number}`, { method: 'PATCH', body: { title, body } });
+  }
+
+  async addComment(number: number, body: string): Promise<void> {
+    await this.request(`/issues/${number}/comments`, { method: 'POST', body: { body } });
+  }
+
+  /**
+   * Gitea attaches labels by id, so names are resolved against the repository's labels first
+   */
+  async addLabels(number: number, labels: string[]): Promise<void> {
+    const repoLabels = await this.request<GiteaLabel[]>('/labels', {
+      query: { limit: PAGE_SIZE }
+    });
+    const idsByName = new Map(repoLabels.map((label) => [label.name, label.id]));
+
+    const missing = labels.filter((name) => !idsByName.has(name));
+    if (missing.length > 0) {
+      this.logger.warn('Skipping labels that do not exist in the repo', { labels: missing });
+    }
+
+    const ids = labels.flatMap((name) => idsByName.get(name) ?? []);
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.request(`/issues/${number}/labels`, { method: 'POST', body: { labels: ids } });
+  }
+
+  protected async readRepositoryFile(
+    ref: string,
+    filePath: string
+  ): Promise<RepositoryFile | null> {
+    try {
+      const file = await this.request<GiteaContents>(this.contentsPath(filePath), {
+        query: { ref }
+      });
+      return { content: Buffer.from(file.content, 'base64').toString('utf-8'), sha: file.sha };
+    } catch (error) {
+      if (isHttpStatus(error, 404)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async writeRepositoryFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
+    await this.request(this.contentsPath(filePath), {
+      method: sha ? 'PUT' : 'POST',
+      body: {
+        branch: branchName,
+        content: Buffer.from(content).toString('base64'),
+        message,
+        ...(sha ? { sha } : {})
+      }
+    });
+  }
+
+  private async readTimelineFile(ref = this.baseBranch): Promise<TimelineData> {
+    try {
+      this.logger.info('Fetching timeline', {
+        repo: `${this.owner}/${this.repo}`,
+        path: this.filePath,
+        ref
+      });
+
+      const file = await this.readRepositoryFile(ref, this.filePath);
+      if (!file) {
+        this.logger.info('Timeline file not found, assuming empty timeline');
+        return { events: [], sha: '', content: '[]' };
+      }
+
+      const events = parseTimelineData(JSON.parse(file.content), this.fields);
+
+      this.logger.info('Fetched existing events', { events: events.length });
+
+      return { events, sha: file.sha, content: file.content };
+    } catch (error) {
+      this.logger.error('Error fetching timeline', error as Error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch timeline: ${errorMessage}`);
+    }
+  }
+
+  private contentsPath(filePath: string): string {
+    return `/contents/${filePath.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  private request<T = unknown>(
+    path: string,
+    options: { method?: string; query?: Record<string, string | number>; body?: unknown } = {}
+  ): Promise<T> {
+    const repoPath = `${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}`;
+    return forgeRequest<T>(`${this.apiUrl}/repos/${repoPath}${path}`, {
+      ...options,
+      headers: this.token ? { authorization: `token ${this.token}` } : {}
+    });
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Central export point for Gitea integration modules
+ */
+
+export { GiteaManager, GiteaManagerConfig } from './gitea-manager';
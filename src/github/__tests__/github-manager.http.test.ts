@@ -0,0 +1,291 @@
+/**
+ * GitHubManager tests against a local mock of the GitHub REST API
+ */
+
+import {
+  type MockForgeServer,
+  startMockForge
+} from '../../../tests/__fixtures__/forge/mock-forge-server';
+import type { AnalyzedEvent } from '../../types';
+import { GitHubManager } from '../github-manager';
+
+const REPO = '/repos/ai/timeline';
+const FILE = `${REPO}/contents/data/timeline-events.json`;
+const BRANCH = 'auto-update/week-2024-03';
+const COMPARE = `${REPO}/compare/main...${BRANCH}`;
+
+const PROPOSED_ENTRY = {
+  year: 2024,
+  month: 'January',
+  title: 'Open Model Released',
+  description: 'A lab releases open weights.',
+  category: 'Public Releases',
+  link: 'https://example.com/open-model'
+};
+
+const fileResponse = (entries: unknown[], sha: string) => ({
+  type: 'file',
+  content: Buffer.from(`${JSON.stringify(entries, null, 2)}\n`).toString('base64'),
+  sha
+});
+
+const analyzedEvent: AnalyzedEvent = {
+  id: '2024-01-15-ai-breakthrough',
+  title: 'AI Breakthrough',
+  date: '2024-01-15T00:00:00Z',
+  description: 'Major breakthrough in AI',
+  category: 'research',
+  sources: ['https://example.com/ai-news'],
+  impactScore: 9.5,
+  significance: {
+    technologicalBreakthrough: 9,
+    industryImpact: 8,
+    adoptionScale: 7,
+    novelty: 9
+  }
+};
+
+describe('GitHubManager over HTTP', () => {
+  let forge: MockForgeServer;
+
+  const createManager = () =>
+    new GitHubManager({ owner: 'ai', repo: 'timeline', token: 'ghp-test', baseUrl: forge.baseUrl });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await forge.close();
+  });
+
+  it('opens a pull request, resetting an existing branch', async () => {
+    forge = await startMockForge([
+      { method: 'GET', path: `${REPO}/pulls`, body: [] },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { type: 'file', content: Buffer.from('[]\n').toString('base64'), sha: 'sha-1' }
+      },
+      { method: 'GET', path: `${REPO}/branches/main`, body: { commit: { sha: 'base-sha' } } },
+      {
+        method: 'POST',
+        path: `${REPO}/git/refs`,
+        status: 422,
+        body: { message: 'Reference already exists' }
+      },
+      { method: 'PATCH', path: `${REPO}/git/refs/heads/${BRANCH}`, body: {} },
+      { method: 'PUT', path: FILE, body: {} },
+      {
+        method: 'POST',
+        path: `${REPO}/pulls`,
+        status: 201,
+        body: { number: 12, html_url: 'https://github.com/ai/timeline/pull/12' }
+      },
+      { method: 'POST', path: `${REPO}/issues/12/labels`, body: [] }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual({
+      number: 12,
+      html_url: 'https://github.com/ai/timeline/pull/12',
+      branch: BRANCH,
+      created: true,
+      entries: expect.any(Array)
+    });
+    expect(forge.requests[0].headers.authorization).toBe('token ghp-test');
+    expect(forge.calls('GET', `${REPO}/pulls`)[0].query).toEqual({
+      head: `ai:${BRANCH}`,
+      state: 'open'
+    });
+    expect(forge.calls('PATCH', `${REPO}/git/refs/heads/${BRANCH}`)[0].body).toEqual({
+      sha: 'base-sha',
+      force: true
+    });
+    expect(forge.calls('PUT', FILE)[0].body).toEqual(
+      expect.objectContaining({ branch: BRANCH, sha: 'sha-1' })
+    );
+    expect(forge.calls('POST', `${REPO}/issues/12/labels`)[0].body).toEqual({
+      labels: ['automated', 'weekly-update', 'category:research', 'impact:critical']
+    });
+  });
+
+  it('returns the open pull request for the week without writing anything', async () => {
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${REPO}/pulls`,
+        body: [{ number: 9, html_url: 'https://github.com/ai/timeline/pull/9' }]
+      }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual({
+      number: 9,
+      html_url: 'https://github.com/ai/timeline/pull/9',
+      branch: BRANCH,
+      created: false
+    });
+    expect(forge.requests).toHaveLength(1);
+  });
+
+  describe('incremental mode', () => {
+    const createIncrementalManager = () =>
+      new GitHubManager({
+        owner: 'ai',
+        repo: 'timeline',
+        token: 'ghp-test',
+        baseUrl: forge.baseUrl,
+        incremental: true
+      });
+
+    const openPR = {
+      method: 'GET',
+      path: `${REPO}/pulls`,
+      body: [{ number: 9, html_url: 'https://github.com/ai/timeline/pull/9' }]
+    };
+
+    it('merges the base into the open pull request and appends only the new events', async () => {
+      forge = await startMockForge([
+        openPR,
+        // Base branch, then the PR branch, then the PR branch after the rebase
+        { method: 'GET', path: FILE, body: fileResponse([], 'base-file'), times: 1 },
+        { method: 'GET', path: FILE, body: fileResponse([PROPOSED_ENTRY], 'pr-file'), times: 1 },
+        { method: 'GET', path: FILE, body: fileResponse([], 'base-file') },
+        // Behind the base until the update-branch merge lands
+        { method: 'GET', path: COMPARE, body: { behind_by: 2 }, times: 1 },
+        { method: 'GET', path: COMPARE, body: { behind_by: 0 } },
+        {
+          method: 'PUT',
+          path: `${REPO}/pulls/9/update-branch`,
+          status: 202,
+          body: {
+            message: 'Updating pull request branch.',
+            url: 'https://github.com/ai/timeline/pull/9'
+          }
+        },
+        { method: 'PUT', path: FILE, body: {} },
+        { method: 'PATCH', path: `${REPO}/pulls/9`, body: {} },
+        { method: 'POST', path: `${REPO}/issues/9/labels`, body: [] },
+        { method: 'POST', path: `${REPO}/issues/9/comments`, status: 201, body: {} }
+      ]);
+
+      const result = await createIncrementalManager().createTimelineUpdatePR(
+        [analyzedEvent],
+        3,
+        2024
+      );
+
+      expect(result).toEqual({
+        number: 9,
+        html_url: 'https://github.com/ai/timeline/pull/9',
+        branch: BRANCH,
+        created: false,
+        updated: true,
+        entries: expect.any(Array)
+      });
+      expect(forge.calls('GET', FILE).map((request) => request.query.ref)).toEqual(
+        expect.arrayContaining(['main', BRANCH])
+      );
+      // The branch keeps its commits: GitHub merges the base in, nothing is reset or recreated
+      expect(forge.calls('PUT', `${REPO}/pulls/9/update-branch`)).toHaveLength(1);
+      expect(forge.calls('GET', COMPARE)).toHaveLength(2);
+      expect(forge.calls('POST', `${REPO}/git/refs`)).toHaveLength(0);
+      expect(forge.calls('PATCH', `${REPO}/git/refs/heads/${BRANCH}`)).toHaveLength(0);
+
+      const [update] = forge.calls('PUT', FILE);
+      const { content, sha } = update.body as Record<string, string>;
+      expect(sha).toBe('base-file');
+      expect(JSON.parse(Buffer.from(content, 'base64').toString('utf-8'))).toEqual([
+        expect.objectContaining({ title: 'Open Model Released' }),
+        expect.objectContaining({ title: 'AI Breakthrough' })
+      ]);
+
+      const { body: description } = forge.calls('PATCH', `${REPO}/pulls/9`)[0].body as {
+        body: string;
+      };
+      expect(description).toContain('adds 2 significant AI developments');
+      expect(description).toContain('Open Model Released');
+      expect(forge.calls('POST', `${REPO}/issues/9/comments`)[0].body).toEqual({
+        body: expect.stringContaining('This run added 1 new event to the 1 already proposed')
+      });
+    });
+
+    it('reports a base branch that conflicts with the pull request and rewrites the file', async () => {
+      const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      forge = await startMockForge([
+        openPR,
+        { method: 'GET', path: FILE, body: fileResponse([], 'base-file'), times: 1 },
+        { method: 'GET', path: FILE, body: fileResponse([PROPOSED_ENTRY], 'pr-file') },
+        { method: 'GET', path: COMPARE, body: { behind_by: 1 } },
+        {
+          method: 'PUT',
+          path: `${REPO}/pulls/9/update-branch`,
+          status: 422,
+          body: { message: 'merge conflict between base and head' }
+        },
+        { method: 'PUT', path: FILE, body: {} },
+        { method: 'PATCH', path: `${REPO}/pulls/9`, body: {} },
+        { method: 'POST', path: `${REPO}/issues/9/labels`, body: [] },
+        { method: 'POST', path: `${REPO}/issues/9/comments`, status: 201, body: {} }
+      ]);
+
+      const result = await createIncrementalManager().createTimelineUpdatePR(
+        [analyzedEvent],
+        3,
+        2024
+      );
+
+      expect(result.updated).toBe(true);
+      expect(forge.calls('GET', COMPARE)).toHaveLength(1);
+      expect(forge.calls('PUT', FILE)[0].body).toEqual(expect.objectContaining({ sha: 'pr-file' }));
+      const entries = log.mock.calls
+        .map(([line]) => String(line))
+        .filter((line) => line.startsWith('{'))
+        .map((line) => JSON.parse(line));
+      expect(entries).toContainEqual(
+        expect.objectContaining({
+          level: 'WARN',
+          message: 'Base branch conflicts with the pull request; rewriting the timeline in place',
+          context: expect.objectContaining({
+            service: 'timeline-publisher',
+            provider: 'github',
+            branch: BRANCH
+          }),
+          metadata: expect.objectContaining({ pullRequest: 9 })
+        })
+      );
+      log.mockRestore();
+    });
+
+    it('leaves the pull request alone when it already has every event', async () => {
+      forge = await startMockForge([
+        openPR,
+        { method: 'GET', path: FILE, body: fileResponse([], 'base-file'), times: 1 },
+        {
+          method: 'GET',
+          path: FILE,
+          body: fileResponse(
+            [{ ...PROPOSED_ENTRY, title: 'AI Breakthrough', description: 'Major breakthrough' }],
+            'pr-file'
+          )
+        }
+      ]);
+
+      const result = await createIncrementalManager().publishEvents([analyzedEvent]);
+
+      expect(result).toEqual({
+        url: 'https://github.com/ai/timeline/pull/9',
+        reference: expect.stringMatching(/^auto-update\/week-\d{4}-\d{2}$/),
+        created: false,
+        changeRequest: 9
+      });
+      expect(forge.requests.map((request) => request.method)).toEqual(['GET', 'GET', 'GET']);
+    });
+  });
+});
@@ -114,7 +114,8 @@ describe('GitHubManager', () => {
         number: 123,
         html_url: 'https://github.com/test-owner/test-repo/pull/123',
         branch: expect.stringMatching(/^auto-update\/week-\d{4}-\d{2}$/),
-        created: true
+        created: true,
+        entries: expect.any(Array)
       });
     });
 
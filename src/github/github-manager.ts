@@ -3,188 +3,82 @@
  */
 
 import { Octokit } from '@octokit/rest';
-import { type AnalyzedEvent, type TimelineEntry, toTimelineEntry } from '../types';
+import {
+  type ChangeRequest,
+  type ChangeRequestStatus,
+  type ForgeTimelineConfig,
+  ForgeTimelineStore,
+  type PullRequestResult,
+  type RepositoryFile
+} from '../timeline/publisher';
+import type { TimelineValidationResult } from '../timeline/timeline-file';
+import type { TimelineEntry } from '../types';
 import { type TimelineData, TimelineReader } from './timeline-reader';
 
+export type { PullRequestResult };
+
+const UPDATE_POLL_INTERVAL_MS = 1000;
+const UPDATE_POLL_ATTEMPTS = 30;
+
 /**
  * Configuration for GitHubManager
  */
-export interface GitHubManagerConfig {
+export interface GitHubManagerConfig extends ForgeTimelineConfig {
   /** GitHub repository owner */
   owner: string;
   /** GitHub repository name */
   repo: string;
-  /** Path to timeline-events.json file */
-  filePath?: string;
-  /** Base branch to create PRs against */
-  baseBranch?: string;
   /** GitHub token for authentication */
   token?: string;
-  /** Labels to add to PRs */
-  defaultLabels?: string[];
-}
-
-/**
- * Result from creating a pull request
- */
-export interface PullRequestResult {
-  /** PR number */
-  number: number;
-  /** PR URL */
-  html_url: string;
-  /** Branch name */
-  branch: string;
-  /** Whether the PR was created (true) or already existed (false) */
-  created: boolean;
+  /** API root for GitHub Enterprise Server */
+  baseUrl?: string;
 }
 
 /**
  * Manages GitHub operations for timeline updates
  */
-export class GitHubManager {
+export class GitHubManager extends ForgeTimelineStore {
+  readonly provider = 'github' as const;
   private octokit: Octokit;
-  private config: Required<GitHubManagerConfig>;
+  private config: Required<Pick<GitHubManagerConfig, 'owner' | 'repo' | 'token'>>;
   private timelineReader: TimelineReader;
 
   constructor(config: GitHubManagerConfig) {
+    super(config);
     this.config = {
       owner: config.owner,
       repo: config.repo,
-      filePath: config.filePath || 'data/timeline-events.json',
-      baseBranch: config.baseBranch || 'main',
-      token: config.token || process.env.GIT_TOKEN || '',
-      defaultLabels: config.defaultLabels || ['automated', 'weekly-update']
+      token: config.token || process.env.GIT_TOKEN || ''
     };
 
     this.octokit = new Octokit({
-      auth: this.config.token
+      auth: this.config.token,
+      baseUrl: config.baseUrl
     });
 
     this.timelineReader = new TimelineReader({
       owner: this.config.owner,
       repo: this.config.repo,
-      filePath: this.config.filePath,
-      branch: this.config.baseBranch,
-      token: this.config.token
+      filePath: this.filePath,
+      branch: this.baseBranch,
+      token: this.config.token,
+      baseUrl: config.baseUrl,
+      fields: this.fields
     });
   }
 
-  /**
-   * Create a pull request with new timeline events
-   */
-  async createTimelineUpdatePR(
-    events: AnalyzedEvent[],
-    weekNumber?: number,
-    year?: number
-  ): Promise<PullRequestResult> {
-    // Convert to timeline entries
-    const timelineEntries = events.map(toTimelineEntry);
-
-    if (timelineEntries.length === 0) {
-      throw new Error('No events to add to timeline');
-    }
-
-    // Calculate week number if not provided
-    const now = new Date();
-    if (!weekNumber || !year) {
-      const startOfYear = new Date(now.getFullYear(), 0, 1);
-      const daysSinceStart = Math.floor(
-        (now.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24)
-      );
-      weekNumber = weekNumber || Math.ceil((daysSinceStart + startOfYear.getDay() + 1) / 7);
-      year = year || now.getFullYear();
-    }
-
-    // Generate branch name
-    const branchName = this.generateBranchName(year, weekNumber);
-    console.log(`Creating PR with branch: ${branchName}`);
-
-    try {
-      // Check if PR already exists
-      const existingPR = await this.checkExistingPR(branchName);
-      if (existingPR) {
-        console.log(`PR already exists: #${existingPR.number}`);
-        return {
-          number: existingPR.number,
-          html_url: existingPR.html_url,
-          branch: branchName,
-          created: false
-        };
-      }
-
-      // Fetch current timeline
-      const currentTimeline = await this.timelineReader.fetchTimeline();
-
-      const newEvents = this.timelineReader.filterNewEvents(
-        timelineEntries,
-        currentTimeline.events
-      );
-      if (newEvents.length === 0) {
-        console.log('All events already exist in timeline');
-        throw new Error('No new events to add');
-      }
-
-      // Validate new events after filtering
-      const validation = this.timelineReader.validateNewEvents(newEvents, currentTimeline.events);
-      if (!validation.valid) {
-        throw new Error(`Event validation failed: ${validation.conflicts.join(', ')}`);
-      }
-
-      if (validation.warnings.length > 0) {
-        console.warn('Validation warnings:', validation.warnings);
-      }
-
-      const analyzedNewEvents = events.filter((event) =>
-        newEvents.some((entry) => entry.id === event.id)
-      );
-
-      // Create or update branch
-      await this.createOrUpdateBranch(branchName);
-
-      // Update timeline file
-      await this.updateTimelineFile(currentTimeline, newEvents, branchName);
-
-      // Generate PR description
-      const description = this.generatePRDescription(events, newEvents, validation.warnings);
-
-      // Create pull request
-      const pr = await this.createPullRequest(
-        branchName,
-        `AI Timeline Update - Week ${weekNumber}, ${year}`,
-        description
-      );
-
-      // Add labels
-      await this.addLabels(pr.number, analyzedNewEvents);
-
-      console.log(`Successfully created PR #${pr.number}: ${pr.html_url}`);
-
-      return {
-        number: pr.number,
-        html_url: pr.html_url,
-        branch: branchName,
-        created: true
-      };
-    } catch (error) {
-      console.error('Error creating timeline update PR:', error);
-      throw error;
-    }
+  describe(): string {
+    return `github:${this.config.owner}/${this.config.repo}/${this.filePath}`;
   }
 
-  /**
-   * Generate branch name for the update
-   */
-  private generateBranchName(year: number, weekNumber: number): string {
-    return `auto-update/week-${year}-${String(weekNumber).padStart(2, '0')}`;
+  fetchTimeline(ref?: string): Promise<TimelineData> {
+    return this.timelineReader.fetchTimeline(ref);
   }
 
   /**
    * Check if a PR already exists for the branch
    */
-  private async checkExistingPR(branchName: string): Promise<{
-    number: number;
-    html_url: string;
-  } | null> {
+  async findOpenChangeRequest(branchName: string): Promise<ChangeRequest | null> {
     try {
       const { data: prs } = await this.octokit.pulls.list({
         owner: this.config.owner,
@@ -195,11 +89,26 @@ export class GitHubManager {
 
       return prs.length > 0 ? prs[0] : null;
     } catch (error) {
-      console.error('Error checking for existing PR:', error);
+      this.logger.error('Error checking for existing pull request', error as Error);
       return null;
     }
   }
 
+  async getChangeRequest(number: number): Promise<ChangeRequestStatus> {
+    const { data: pr } = await this.octokit.pulls.get({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      pull_number: number
+    });
+
+    return {
+      number: pr.number,
+      html_url: pr.html_url,
+      state: pr.merged ? 'merged' : pr.state === 'open' ? 'open' : 'closed',
+      description: pr.body ?? ''
+    };
+  }
+
   /**
    * Create or update a branch
    */
@@ -209,7 +118,7 @@ export class GitHubManager {
       const { data: baseBranch } = await this.octokit.repos.getBranch({
         owner: this.config.owner,
         repo: this.config.repo,
-        branch: this.config.baseBranch
+        branch: this.baseBranch
       });
 
       const baseSha = baseBranch.commit.sha;
@@ -222,7 +131,7 @@ export class GitHubManager {
           ref: `refs/heads/${branchName}`,
           sha: baseSha
         });
-        console.log(`Created new branch: ${branchName}`);
+        this.logger.info('Created new branch', { branch: branchName });
       } catch (error: unknown) {
         if (error && typeof error === 'object' && 'status' in error && error.status === 422) {
           // Branch already exists, update it
@@ -233,118 +142,106 @@ export class GitHubManager {
             sha: baseSha,
             force: true
           });
-          console.log(`Updated existing branch: ${branchName}`);
+          this.logger.info('Updated existing branch', { branch: branchName });
         } else {
           throw error;
         }
       }
     } catch (error) {
-      console.error('Error creating/updating branch:', error);
+      this.logger.error('Error creating/updating branch', error as Error);
       throw new Error(`Failed to create/update branch: ${error}`);
     }
   }
 
   /**
-   * Update the timeline file with new events
+   * Merge the base branch into the pull request with GitHub's update-branch API, which keeps the
+   * commits already on it, and wait for the asynchronous merge to land
    */
-  async updateTimelineFile(
-    currentTimeline: TimelineData,
-    newEvents: TimelineEntry[],
-    branchName: string
-  ): Promise<string> {
-    const updatedContent = this.appendEventsToTimelineContent(currentTimeline.content, newEvents);
-
-    // Update file on GitHub
-    try {
-      await this.octokit.repos.createOrUpdateFileContents({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        path: this.config.filePath,
-        message: `Add ${newEvents.length} new AI timeline event${newEvents.length > 1 ? 's' : ''}`,
-        content: Buffer.from(updatedContent).toString('base64'),
-        sha: currentTimeline.sha || undefined,
-        branch: branchName
+  protected async rebaseBranch(branchName: string, number: number): Promise<void> {
+    const { owner, repo } = this.config;
+    const logger = this.logger.child({ branch: branchName });
+    const isBehind = async (): Promise<boolean> => {
+      const { data } = await this.octokit.repos.compareCommits({
+        owner,
+        repo,
+        base: this.baseBranch,
+        head: branchName
       });
-
-      console.log(`Updated timeline file with ${newEvents.length} new events`);
-      return updatedContent;
-    } catch (error) {
-      console.error('Error updating timeline file:', error);
-      throw new Error(`Failed to update timeline file: ${error}`);
-    }
-  }
-
-  private toTimelineJson(event: TimelineEntry): {
-    year: number;
-    month: string;
-    title: string;
-    description: string;
-    category: TimelineEntry['category'];
-    link: string;
-  } {
-    const date = new Date(event.date);
-    const year = date.getUTCFullYear();
-    const month = MONTH_NAMES[date.getUTCMonth()] ?? MONTH_NAMES[0];
-    const link = event.sources[0] ?? '';
-
-    return {
-      year,
-      month,
-      title: event.title,
-      description: event.description,
-      category: event.category,
-      link
+      return data.behind_by > 0;
     };
-  }
 
-  private appendEventsToTimelineContent(
-    currentContent: string,
-    newEvents: TimelineEntry[]
-  ): string {
-    if (newEvents.length === 0) {
-      return currentContent;
+    try {
+      if (!(await isBehind())) {
+        return;
+      }
+      await this.octokit.pulls.updateBranch({ owner, repo, pull_number: number });
+    } catch (error) {
+      // GitHub answers 422 when the base branch does not merge cleanly
+      if (error && typeof error === 'object' && 'status' in error && error.status === 422) {
+        logger.warn(
+          'Base branch conflicts with the pull request; rewriting the timeline in place',
+          {
+            base: this.baseBranch,
+            pullRequest: number,
+            error: error instanceof Error ? error.message : String(error)
+          }
+        );
+        return;
+      }
+      logger.error('Error updating branch', error as Error);
+      throw new Error(`Failed to update branch ${branchName}: ${error}`);
     }
 
-    const newline = currentContent.includes('\r\n') ? '\r\n' : '\n';
-    const formattedEvents = newEvents.map((event) => this.formatTimelineEvent(event, newline));
-
-    const trimmedContent = currentContent.trim();
-    const isEmptyArray = /^\[\s*\]$/.test(trimmedContent);
-
-    if (trimmedContent === '' || isEmptyArray) {
-      const body = formattedEvents.join(`,${newline}`);
-      const trailingWhitespace = currentContent.slice(currentContent.trimEnd().length);
-      const closingWhitespace = trailingWhitespace || newline;
-      return `[` + (body ? `${newline}${body}${newline}` : '') + `]${closingWhitespace}`;
+    for (let attempt = 0; attempt < UPDATE_POLL_ATTEMPTS; attempt++) {
+      if (!(await isBehind())) {
+        logger.info('Merged base branch into the pull request', { base: this.baseBranch });
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, UPDATE_POLL_INTERVAL_MS));
     }
 
-    if (!trimmedContent.startsWith('[') || !trimmedContent.endsWith(']')) {
-      throw new Error('Timeline content must be a JSON array');
-    }
+    throw new Error(`Update of ${branchName} did not finish in time`);
+  }
 
-    const closingBracketIndex = currentContent.lastIndexOf(']');
-    if (closingBracketIndex === -1) {
-      throw new Error('Timeline content missing closing bracket');
+  protected async readRepositoryFile(
+    ref: string,
+    filePath: string
+  ): Promise<RepositoryFile | null> {
+    try {
+      const { data } = await this.octokit.repos.getContent({
+        owner: this.config.owner,
+        repo: this.config.repo,
+        path: filePath,
+        ref
+      });
+      if (Array.isArray(data) || data.type !== 'file') {
+        throw new Error(`Expected a file at ${filePath}`);
+      }
+      return { content: Buffer.from(data.content, 'base64').toString('utf-8'), sha: data.sha };
+    } catch (error: unknown) {
+      if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
+        return null;
+      }
+      throw error;
     }
-
-    const prefix = currentContent.slice(0, closingBracketIndex);
-    const suffix = currentContent.slice(closingBracketIndex);
-
-    const trimmedPrefix = prefix.replace(/\s*$/, '');
-    const needsComma = !trimmedPrefix.trim().endsWith('[');
-    const separator = needsComma ? ',' : '';
-
-    const updatedBody = `${trimmedPrefix}${separator}${newline}${formattedEvents.join(`,${newline}`)}${newline}`;
-
-    return `${updatedBody}${suffix}`;
   }
 
-  private formatTimelineEvent(event: TimelineEntry, newline: string): string {
-    const json = JSON.stringify(this.toTimelineJson(event), null, 2).replace(/\n/g, newline);
-    return json
-      .split(newline)
-      .map((line) => (line.length > 0 ? `  ${line}` : line))
-      .join(newline);
+  protected async writeRepositoryFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
+    await this.octokit.repos.createOrUpdateFileContents({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      path: filePath,
+      message,
+      content: Buffer.from(content).toString('base64'),
+      sha: sha || undefined,
+      branch: branchName
+    });
   }
 
   // Public method for creating a PR (delegates to private method)
@@ -363,195 +260,59 @@ export class GitHubManager {
         title,
         body,
         head: branchName,
-        base: this.config.baseBranch
+        base: this.baseBranch
       });
 
       return pr;
     } catch (error) {
-      console.error('Error creating pull request:', error);
+      this.logger.error('Error creating pull request', error as Error);
       throw new Error(`Failed to create pull request: ${error}`);
     }
   }
 
-  /**
-   * Generate PR description
-   */
-  private generatePRDescription(
-    analyzedEvents: AnalyzedEvent[],
-    addedEntries: TimelineEntry[],
-    warnings: string[]
-  ): string {
-    const lines: string[] = [];
-
-    lines.push('## 🤖 Daily AI Timeline Update\n');
-    lines.push(
-      `This automated PR adds ${addedEntries.length} significant AI developments to the timeline.\n`
-    );
-
-    // Summary statistics
-    lines.push('### 📊 Summary');
-    lines.push(`- **Events analyzed**: ${analyzedEvents.length}`);
-    lines.push(`- **Events added**: ${addedEntries.length}`);
-    lines.push(`- **Date range**: ${this.getDateRange(addedEntries)}`);
-
-    // Categories breakdown
-    const categories = this.getCategoryBreakdown(addedEntries);
-    lines.push(
-      `- **Categories**: ${Object.entries(categories)
-        .map(([cat, count]) => `${cat} (${count})`)
-        .join(', ')}\n`
-    );
-
-    // Events details
-    lines.push('### 📝 Events Added\n');
-    analyzedEvents.forEach((event, index) => {
-      const entry = addedEntries.find((e) => e.id === event.id);
-      if (!entry) return;
-
-      lines.push(`#### ${index + 1}. ${event.title}`);
-      lines.push(
-        `- **Date**: ${new Date(event.date).toLocaleDateString('en-US', {
-          month: 'long',
-          day: 'numeric',
-          year: 'numeric'
-        })}`
-      );
-      lines.push(`- **Category**: \`${event.category}\``);
-      lines.push(`- **Impact Score**: ${event.impactScore}/10`);
-
-      // Significance breakdown
-      if (event.significance) {
-        lines.push('- **Significance**:');
-        lines.push(
-          `  - Technological Breakthrough: ${event.significance.technologicalBreakthrough}/10`
-        );
-        lines.push(`  - Industry Impact: ${event.significance.industryImpact}/10`);
-        lines.push(`  - Adoption Scale: ${event.significance.adoptionScale}/10`);
-        lines.push(`  - Novelty: ${event.significance.novelty}/10`);
-      }
-
-      lines.push(`\n${event.description}\n`);
+  createChangeRequest(branchName: string, title: string, body: string): Promise<ChangeRequest> {
+    return this.createPullRequest(branchName, title, body);
+  }
 
-      if (event.sources && event.sources.length > 0) {
-        lines.push('**Sources:**');
-        event.sources.forEach((source, sourceIndex) => {
-          const label = event.sources.length > 1 ? `Source ${sourceIndex + 1}` : 'Source';
-          lines.push(`- [${label}](${source})`);
-        });
-        lines.push('');
-      }
+  async updateChangeRequest(prNumber: number, title: string, body: string): Promise<void> {
+    await this.octokit.pulls.update({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      pull_number: prNumber,
+      title,
+      body
     });
-
-    // Selection criteria
-    lines.push('### 🎯 Selection Criteria');
-    lines.push('Events were selected based on:');
-    lines.push('- Technological breakthrough potential');
-    lines.push('- Industry-wide impact');
-    lines.push('- Expected adoption scale');
-    lines.push('- Novelty of the development');
-    lines.push(`- Minimum significance threshold: 7.0/10\n`);
-
-    // Warnings if any
-    if (warnings.length > 0) {
-      lines.push('### ⚠️ Warnings');
-      warnings.forEach((warning) => {
-        lines.push(`- ${warning}`);
-      });
-      lines.push('');
-    }
-
-    // Metadata
-    lines.push('### 🔧 Metadata');
-    lines.push('- **Generated by**: AI Timeline Automation');
-    lines.push(`- **Timestamp**: ${new Date().toISOString()}`);
-    lines.push('- **Type**: Automated weekly update');
-
-    return lines.join('\n');
   }
 
-  /**
-   * Add labels to the pull request
-   */
-  private async addLabels(prNumber: number, events: AnalyzedEvent[]): Promise<void> {
-    const labels = [...this.config.defaultLabels];
-
-    // Add category-specific labels
-    const categories = new Set(events.map((e) => e.category));
-    categories.forEach((category) => {
-      labels.push(`category:${category}`);
+  async addLabels(prNumber: number, labels: string[]): Promise<void> {
+    await this.octokit.issues.addLabels({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      issue_number: prNumber,
+      labels
     });
-
-    // Add impact level label
-    const maxImpact = Math.max(...events.map((e) => e.impactScore));
-    if (maxImpact >= 9) {
-      labels.push('impact:critical');
-    } else if (maxImpact >= 7) {
-      labels.push('impact:high');
-    } else {
-      labels.push('impact:moderate');
-    }
-
-    try {
-      await this.octokit.issues.addLabels({
-        owner: this.config.owner,
-        repo: this.config.repo,
-        issue_number: prNumber,
-        labels
-      });
-      console.log(`Added labels to PR #${prNumber}: ${labels.join(', ')}`);
-    } catch (error) {
-      console.warn('Error adding labels (they may not exist in the repo):', error);
-    }
   }
 
-  /**
-   * Get date range of events
-   */
-  private getDateRange(events: TimelineEntry[]): string {
-    if (events.length === 0) return 'N/A';
-
-    const dates = events.map((e) => new Date(e.date));
-    const earliest = new Date(Math.min(...dates.map((d) => d.getTime())));
-    const latest = new Date(Math.max(...dates.map((d) => d.getTime())));
-
-    const format = (date: Date) =>
-      date.toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric'
-      });
-
-    if (earliest.getTime() === latest.getTime()) {
-      return format(earliest);
-    }
-
-    return `${format(earliest)} - ${format(latest)}`;
+  async addComment(prNumber: number, body: string): Promise<void> {
+    await this.octokit.issues.createComment({
+      owner: this.config.owner,
+      repo: this.config.repo,
+      issue_number: prNumber,
+      body
+    });
   }
 
-  /**
-   * Get category breakdown
-   */
-  private getCategoryBreakdown(events: TimelineEntry[]): Record<string, number> {
-    const breakdown: Record<string, number> = {};
-
-    events.forEach((event) => {
-      breakdown[event.category] = (breakdown[event.category] || 0) + 1;
-    });
+  protected filterNewEvents(
+    newEvents: TimelineEntry[],
+    existingEvents: TimelineEntry[]
+  ): TimelineEntry[] {
+    return this.timelineReader.filterNewEvents(newEvents, existingEvents);
+  }
 
-    return breakdown;
+  protected validateNewEvents(
+    newEvents: TimelineEntry[],
+    existingEvents: TimelineEntry[]
+  ): TimelineValidationResult {
+    return this.timelineReader.validateNewEvents(newEvents, existingEvents);
   }
 }
-const MONTH_NAMES: readonly string[] = [
-  'January',
-  'February',
-  'March',
-  'April',
-  'May',
-  'June',
-  'July',
-  'August',
-  'September',
-  'October',
-  'November',
-  'December'
-];
@@ -3,8 +3,18 @@
  */
 
 import { Octokit } from '@octokit/rest';
-import { z } from 'zod';
-import { generateEventId, type TimelineEntry, TimelineEntrySchema } from '../types';
+import { getTimelineInterceptor } from '../timeline/interceptor';
+import {
+  filterNewEvents,
+  parseTimelineData,
+  type TimelineFieldMapping,
+  type TimelineValidationResult,
+  validateNewEvents
+} from '../timeline/timeline-file';
+import type { TimelineData } from '../timeline/types';
+import type { TimelineEntry } from '../types';
+
+export type { TimelineData };
 
 /**
  * Configuration for TimelineReader
@@ -20,57 +30,19 @@ export interface TimelineReaderConfig {
   branch?: string;
   /** GitHub token for authentication */
   token?: string;
+  /** API root for GitHub Enterprise Server */
+  baseUrl?: string;
+  /** Output schema of the timeline file */
+  fields?: TimelineFieldMapping;
 }
 
-/**
- * Result from fetching timeline
- */
-export interface TimelineData {
-  /** Current timeline entries */
-  events: TimelineEntry[];
-  /** SHA of the current file */
-  sha: string;
-  /** Content of the file */
-  content: string;
-}
-
-const TimelineJsonEventSchema = z
-  .object({
-    year: z.number().int(),
-    month: z.union([z.string(), z.number().int().min(1).max(12)]),
-    title: z.string().min(1),
-    description: z.string().min(1),
-    category: z.string().min(1),
-    link: z.string().url()
-  })
-  .passthrough();
-
-type TimelineJsonEvent = z.infer<typeof TimelineJsonEventSchema>;
-type TimelineCategory = TimelineEntry['category'];
-
-const DEFAULT_CATEGORY: TimelineCategory = 'Research Breakthroughs';
-
-const MONTHS: Record<string, number> = {
-  january: 0,
-  february: 1,
-  march: 2,
-  april: 3,
-  may: 4,
-  june: 5,
-  july: 6,
-  august: 7,
-  september: 8,
-  october: 9,
-  november: 10,
-  december: 11
-};
-
 /**
  * Reads timeline events from a GitHub repository
  */
 export class TimelineReader {
   private octokit: Octokit;
-  private config: Required<TimelineReaderConfig>;
+  private config: Required<Omit<TimelineReaderConfig, 'baseUrl' | 'fields'>>;
+  private readonly fields?: TimelineFieldMapping;
 
   constructor(config: TimelineReaderConfig) {
     this.config = {
@@ -80,16 +52,28 @@ export class TimelineReader {
       branch: config.branch || 'main',
       token: config.token || process.env.GIT_TOKEN || ''
     };
+    this.fields = config.fields;
 
     this.octokit = new Octokit({
-      auth: this.config.token
+      auth: this.config.token,
+      baseUrl: config.baseUrl
     });
   }
 
   /**
    * Fetch the current timeline from the repository
+   * @param ref Branch or commit to read instead of the configured branch
    */
-  async fetchTimeline(): Promise<TimelineData> {
+  async fetchTimeline(ref?: string): Promise<TimelineData> {
+    const interceptor = getTimelineInterceptor();
+    if (interceptor) {
+      return interceptor.fetchTimeline(() => this.readTimelineFile(ref));
+    }
+
+    return this.readTimelineFile(ref);
+  }
+
+  private async readTimelineFile(ref = this.config.branch): Promise<TimelineData> {
     try {
       console.log(
         `Fetching timeline from ${this.config.owner}/${this.config.repo}/${this.config.filePath}`
@@ -100,7 +84,7 @@ export class TimelineReader {
         owner: this.config.owner,
         repo: this.config.repo,
         path: this.config.filePath,
-        ref: this.config.branch
+        ref
       });
 
       // Ensure we got a file response
@@ -117,7 +101,7 @@ export class TimelineReader {
 
       // Parse and normalize JSON
       const parsedData = JSON.parse(content);
-      const events = this.parseTimelineData(parsedData);
+      const events = parseTimelineData(parsedData, this.fields);
 
       console.log(`Successfully fetched ${events.length} existing events`);
 
@@ -142,160 +126,6 @@ export class TimelineReader {
     }
   }
 
-  /**
-   * Parse timeline data in array format
-   */
-  private parseTimelineData(data: unknown): TimelineEntry[] {
-    const timelineArray = z.array(TimelineJsonEventSchema).safeParse(data);
-    if (!timelineArray.success) {
-      console.error('Timeline validation error:', timelineArray.error);
-      throw new Error(
-        'Invalid timeline data structure. Expected an array of timeline entries like the provided sample.'
-      );
-    }
-
-    const entries = timelineArray.data
-      .map((entry, index) => this.normalizeTimelineEvent(entry, index))
-      .filter((entry): entry is TimelineEntry => entry !== null);
-
-    return entries;
-  }
-
-  private normalizeTimelineEvent(entry: TimelineJsonEvent, index: number): TimelineEntry | null {
-    const title = entry.title.trim();
-    if (!title) {
-      console.warn(`Timeline entry at index ${index} is missing a title. Skipping.`);
-      return null;
-    }
-
-    const eventDate = this.resolveTimelineDate(entry);
-    if (!eventDate) {
-      console.warn(`Timeline entry "${title}" is missing a valid date. Skipping.`);
-      return null;
-    }
-
-    const sources = this.normalizeSources(entry);
-    if (sources.length === 0) {
-      console.warn(`Timeline entry "${title}" does not contain any valid source URLs. Skipping.`);
-      return null;
-    }
-
-    const candidate: TimelineEntry = {
-      id: generateEventId(eventDate, title),
-      date: eventDate.toISOString(),
-      title,
-      description: (entry.description ?? title).trim(),
-      category: this.mapCategory(entry.category),
-      sources,
-      impact_score: 5
-    };
-
-    try {
-      return TimelineEntrySchema.parse(candidate);
-    } catch (error) {
-      console.warn(
-        `Timeline entry "${title}" failed validation after normalization. Skipping entry.`,
-        error
-      );
-      return null;
-    }
-  }
-
-  private resolveTimelineDate(entry: TimelineJsonEvent): Date | null {
-    const year = entry.year;
-    let monthIndex = 0;
-
-    if (typeof entry.month === 'number') {
-      monthIndex = Math.min(11, Math.max(0, entry.month - 1));
-    } else {
-      const normalized = entry.month.trim().toLowerCase();
-      if (normalized in MONTHS) {
-        monthIndex = MONTHS[normalized];
-      } else {
-        console.warn(`Unknown month "${entry.month}"; defaulting to January.`);
-        monthIndex = 0;
-      }
-    }
-
-    return new Date(Date.UTC(year, monthIndex, 1));
-  }
-
-  private mapCategory(category?: string): TimelineCategory {
-    if (!category) {
-      return DEFAULT_CATEGORY;
-    }
-
-    const normalized = category.trim().toLowerCase();
-
-    switch (normalized) {
-      case 'models & architectures':
-      case 'models':
-      case 'architectures':
-      case 'ai models':
-        return 'Models & Architectures';
-      case 'research breakthroughs':
-      case 'research':
-      case 'fundamental research':
-      case 'academic research':
-      case 'breakthroughs':
-        return 'Research Breakthroughs';
-      case 'public releases':
-      case 'product':
-      case 'products':
-      case 'product releases':
-      case 'commercial releases':
-      case 'industry adoption':
-        return 'Public Releases';
-      case 'ethics & policy':
-      case 'policy':
-      case 'regulation':
-      case 'policy & regulation':
-      case 'regulation & policy':
-      case 'ethics':
-        return 'Ethics & Policy';
-      case 'hardware advances':
-      case 'hardware':
-      case 'infrastructure':
-      case 'compute':
-        return 'Hardware Advances';
-      default:
-        console.warn(`Unknown category "${category}". Defaulting to ${DEFAULT_CATEGORY}.`);
-        return DEFAULT_CATEGORY;
-    }
-  }
-
-  private normalizeSources(entry: TimelineJsonEvent): string[] {
-    const sources = new Set<string>();
-
-    const addSource = (value?: string) => {
-      if (!value) return;
-      const trimmed = value.trim();
-      if (!trimmed) return;
-      if (!this.isValidUrl(trimmed)) return;
-      sources.add(trimmed);
-    };
-
-    addSource(entry.link);
-
-    // Allow optional extra links
-    if (Array.isArray((entry as any).sources)) {
-      (entry as any).sources.forEach((value: string) => {
-        addSource(value);
-      });
-    }
-
-    return Array.from(sources);
-  }
-
-  private isValidUrl(value: string): boolean {
-    try {
-      const url = new URL(value);
-      return Boolean(url.protocol && url.hostname);
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Check if an event already exists in the timeline
    */
@@ -307,23 +137,7 @@ export class TimelineReader {
    * Filter out events that already exist in the timeline
    */
   filterNewEvents(newEvents: TimelineEntry[], existingEvents: TimelineEntry[]): TimelineEntry[] {
-    const existingIds = new Set(existingEvents.map((e) => e.id));
-    const existingKeys = new Set(existingEvents.map((e) => this.getDuplicateKey(e)));
-
-    return newEvents.filter((event) => {
-      if (existingIds.has(event.id)) {
-        return false;
-      }
-
-      const duplicateKey = this.getDuplicateKey(event);
-      if (existingKeys.has(duplicateKey)) {
-        console.warn(`Skipping duplicate event "${event.title}" with existing key ${duplicateKey}`);
-        return false;
-      }
-
-      existingKeys.add(duplicateKey);
-      return true;
-    });
+    return filterNewEvents(newEvents, existingEvents);
   }
 
   /**
@@ -406,101 +220,7 @@ export class TimelineReader {
   validateNewEvents(
     newEvents: TimelineEntry[],
     existingEvents: TimelineEntry[]
-  ): {
-    valid: boolean;
-    conflicts: string[];
-    warnings: string[];
-  } {
-    const result = {
-      valid: true,
-      conflicts: [] as string[],
-      warnings: [] as string[]
-    };
-
-    const existingIds = new Set(existingEvents.map((e) => e.id));
-    const existingKeys = new Set(existingEvents.map((e) => this.getDuplicateKey(e)));
-    const newKeys = new Set<string>();
-
-    newEvents.forEach((event) => {
-      // Check for ID conflicts
-      if (existingIds.has(event.id)) {
-        result.conflicts.push(`Event ID already exists: ${event.id}`);
-        result.valid = false;
-      }
-
-      const duplicateKey = this.getDuplicateKey(event);
-      if (existingKeys.has(duplicateKey)) {
-        result.conflicts.push(
-          `Event duplicates existing timeline entry: "${event.title}" (${duplicateKey})`
-        );
-        result.valid = false;
-      }
-
-      if (newKeys.has(duplicateKey)) {
-        result.conflicts.push(`Duplicate event in submission: "${event.title}" (${duplicateKey})`);
-        result.valid = false;
-      }
-
-      newKeys.add(duplicateKey);
-
-      // Check for very similar events on the same date
-      const sameDateEvents = existingEvents.filter(
-        (e) => e.date === event.date && e.category === event.category
-      );
-
-      if (sameDateEvents.length > 0) {
-        const similarEvent = sameDateEvents.find(
-          (e) => this.calculateSimilarity(e.title, event.title) > 0.8
-        );
-
-        if (similarEvent) {
-          result.warnings.push(
-            `Potential duplicate: "${event.title}" is similar to existing "${similarEvent.title}"`
-          );
-        }
-      }
-
-      // Validate date is not in the future
-      if (new Date(event.date) > new Date()) {
-        result.warnings.push(`Event "${event.title}" has a future date: ${event.date}`);
-      }
-    });
-
-    return result;
-  }
-
-  /**
-   * Simple similarity calculation for titles
-   */
-  private calculateSimilarity(str1: string, str2: string): number {
-    const s1 = str1.toLowerCase();
-    const s2 = str2.toLowerCase();
-
-    if (s1 === s2) return 1;
-
-    // Simple word overlap calculation
-    const words1 = new Set(s1.split(/\s+/));
-    const words2 = new Set(s2.split(/\s+/));
-
-    // Convert sets to arrays for ES5 compatibility
-    const words1Array = Array.from(words1);
-    const words2Array = Array.from(words2);
-
-    const intersection = new Set(words1Array.filter((x) => words2.has(x)));
-    const union = new Set(words1Array.concat(words2Array));
-
-    return intersection.size / union.size;
-  }
-
-  private getDuplicateKey(event: TimelineEntry): string {
-    const date = new Date(event.date);
-    const year = date.getUTCFullYear();
-    const month = date.getUTCMonth() + 1;
-    const normalizedTitle = event.title
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-+|-+$/g, '');
-
-    return `${year}-${String(month).padStart(2, '0')}-${normalizedTitle}`;
+  ): TimelineValidationResult {
+    return validateNewEvents(newEvents, existingEvents);
   }
 }
@@ -0,0 +1,279 @@
+/**
+ * GitLabManager tests against a local mock of the GitLab REST API
+ */
+
+import {
+  type MockForgeServer,
+  startMockForge
+} from '../../../tests/__fixtures__/forge/mock-forge-server';
+import { createTimelineStore } from '../../timeline/factory';
+import type { AnalyzedEvent } from '../../types';
+import { GitLabManager } from '../gitlab-manager';
+
+const PROJECT = '/api/v4/projects/ai/timelines/site';
+const FILE = `${PROJECT}/repository/files/data/timeline-events.json`;
+const BRANCH = 'auto-update/week-2024-03';
+
+const EXISTING_TIMELINE = `[
+  {
+    "year": 2023,
+    "month": "March",
+    "title": "GPT-4 Released",
+    "description": "OpenAI releases GPT-4.",
+    "category": "Models & Architectures",
+    "link": "https://openai.com/research/gpt-4"
+  }
+]
+`;
+
+const analyzedEvent: AnalyzedEvent = {
+  id: '2024-01-15-ai-breakthrough',
+  title: 'AI Breakthrough',
+  date: '2024-01-15T00:00:00Z',
+  description: 'Major breakthrough in AI',
+  category: 'research',
+  sources: ['https://example.com/ai-news'],
+  impactScore: 9.5,
+  significance: {
+    technologicalBreakthrough: 9,
+    industryImpact: 8,
+    adoptionScale: 7,
+    novelty: 9
+  }
+};
+
+const timelineFile = {
+  method: 'GET',
+  path: FILE,
+  body: { content: Buffer.from(EXISTING_TIMELINE).toString('base64'), blob_id: 'blob-1' }
+};
+
+describe('GitLabManager', () => {
+  let forge: MockForgeServer;
+
+  const createManager = () =>
+    new GitLabManager({
+      project: 'ai/timelines/site',
+      apiUrl: `${forge.baseUrl}/api/v4`,
+      token: 'glpat-test'
+    });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await forge.close();
+  });
+
+  it('opens a merge request with the appended timeline and labels', async () => {
+    forge = await startMockForge([
+      { method: 'GET', path: `${PROJECT}/merge_requests`, body: [] },
+      timelineFile,
+      { method: 'POST', path: `${PROJECT}/repository/branches`, status: 201, body: {} },
+      { method: 'PUT', path: FILE, body: { file_path: 'data/timeline-events.json' } },
+      {
+        method: 'POST',
+        path: `${PROJECT}/merge_requests`,
+        status: 201,
+        body: { iid: 7, web_url: 'https://gitlab.example.com/ai/timelines/site/-/merge_requests/7' }
+      },
+      { method: 'PUT', path: `${PROJECT}/merge_requests/7`, body: { iid: 7 } }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024, {
+      selectionCriteria: {
+        significanceThreshold: 6.5,
+        minComposite: 0.62,
+        categoryMinimums: { research: 0.58, product: 0.7 }
+      }
+    });
+
+    expect(result).toEqual({
+      number: 7,
+      html_url: 'https://gitlab.example.com/ai/timelines/site/-/merge_requests/7',
+      branch: BRANCH,
+      created: true,
+      entries: expect.any(Array)
+    });
+    expect(forge.requests[0].headers['private-token']).toBe('glpat-test');
+    expect(forge.calls('GET', `${PROJECT}/merge_requests`)[0].query).toEqual({
+      state: 'opened',
+      source_branch: BRANCH,
+      target_branch: 'main'
+    });
+    expect(forge.calls('POST', `${PROJECT}/repository/branches`)[0].query).toEqual({
+      branch: BRANCH,
+      ref: 'main'
+    });
+
+    const [update] = forge.calls('PUT', FILE);
+    const { content, ...commit } = update.body as Record<string, string>;
+    expect(commit).toEqual({
+      branch: BRANCH,
+      encoding: 'base64',
+      commit_message: 'Add 1 new AI timeline event'
+    });
+    expect(JSON.parse(Buffer.from(content, 'base64').toString('utf-8'))).toEqual([
+      expect.objectContaining({ title: 'GPT-4 Released' }),
+      expect.objectContaining({ year: 2024, month: 'January', title: 'AI Breakthrough' })
+    ]);
+
+    expect(forge.calls('POST', `${PROJECT}/merge_requests`)[0].body).toEqual(
+      expect.objectContaining({
+        source_branch: BRANCH,
+        target_branch: 'main',
+        title: 'AI Timeline Update - Week 3, 2024'
+      })
+    );
+    const { description } = forge.calls('POST', `${PROJECT}/merge_requests`)[0].body as {
+      description: string;
+    };
+    expect(description).toContain('- Minimum significance threshold: 6.5/10');
+    expect(description).toContain('- Minimum composite score: 0.62 (research 0.58, product 0.7)');
+    expect(forge.calls('PUT', `${PROJECT}/merge_requests/7`)[0].body).toEqual({
+      add_labels: 'automated,weekly-update,category:research,impact:critical'
+    });
+  });
+
+  it('returns the open merge request for the week without writing anything', async () => {
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${PROJECT}/merge_requests`,
+        body: [{ iid: 4, web_url: 'https://gitlab.example.com/mr/4' }]
+      }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toEqual({
+      number: 4,
+      html_url: 'https://gitlab.example.com/mr/4',
+      branch: BRANCH,
+      created: false
+    });
+    expect(forge.requests).toHaveLength(1);
+  });
+
+  it('recreates a stale branch and creates a missing timeline file', async () => {
+    forge = await startMockForge([
+      { method: 'GET', path: `${PROJECT}/merge_requests`, body: [] },
+      {
+        method: 'POST',
+        path: `${PROJECT}/repository/branches`,
+        status: 400,
+        body: { message: 'Branch already exists' },
+        times: 1
+      },
+      { method: 'DELETE', path: `${PROJECT}/repository/branches/${BRANCH}`, status: 204 },
+      { method: 'POST', path: `${PROJECT}/repository/branches`, status: 201, body: {} },
+      { method: 'POST', path: FILE, status: 201, body: {} },
+      {
+        method: 'POST',
+        path: `${PROJECT}/merge_requests`,
+        status: 201,
+        body: { iid: 8, web_url: 'https://gitlab.example.com/mr/8' }
+      },
+      { method: 'PUT', path: `${PROJECT}/merge_requests/8`, body: {} }
+    ]);
+
+    const result = await createManager().createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result.number).toBe(8);
+    expect(forge.calls('POST', `${PROJECT}/repository/branches`)).toHaveLength(2);
+    expect(forge.calls('DELETE', `${PROJECT}/repository/branches/${BRANCH}`)).toHaveLength(1);
+    expect(forge.calls('POST', FILE)).toHaveLength(1);
+  });
+
+  it('rebases an open merge request instead of recreating its branch', async () => {
+    const proposedTimeline = `${EXISTING_TIMELINE.trimEnd().slice(0, -1)},
+  {
+    "year": 2024,
+    "month": "January",
+    "title": "Open Model Released",
+    "description": "A lab releases open weights.",
+    "category": "Public Releases",
+    "link": "https://example.com/open-model"
+  }
+]
+`;
+    forge = await startMockForge([
+      {
+        method: 'GET',
+        path: `${PROJECT}/merge_requests`,
+        body: [{ iid: 4, web_url: 'https://gitlab.example.com/mr/4' }]
+      },
+      // Base branch, then the merge request branch
+      { ...timelineFile, times: 1 },
+      {
+        method: 'GET',
+        path: FILE,
+        body: { content: Buffer.from(proposedTimeline).toString('base64'), blob_id: 'blob-2' }
+      },
+      {
+        method: 'PUT',
+        path: `${PROJECT}/merge_requests/4/rebase`,
+        status: 202,
+        body: { rebase_in_progress: true }
+      },
+      {
+        method: 'GET',
+        path: `${PROJECT}/merge_requests/4`,
+        body: { iid: 4, web_url: 'https://gitlab.example.com/mr/4', rebase_in_progress: true },
+        times: 1
+      },
+      {
+        method: 'GET',
+        path: `${PROJECT}/merge_requests/4`,
+        body: { iid: 4, web_url: 'https://gitlab.example.com/mr/4', rebase_in_progress: false }
+      },
+      { method: 'PUT', path: FILE, body: {} },
+      { method: 'PUT', path: `${PROJECT}/merge_requests/4`, body: {} },
+      { method: 'POST', path: `${PROJECT}/merge_requests/4/notes`, status: 201, body: {} }
+    ]);
+
+    const result = await new GitLabManager({
+      project: 'ai/timelines/site',
+      apiUrl: `${forge.baseUrl}/api/v4`,
+      token: 'glpat-test',
+      incremental: true
+    }).createTimelineUpdatePR([analyzedEvent], 3, 2024);
+
+    expect(result).toMatchObject({ number: 4, created: false, updated: true });
+    expect(forge.calls('PUT', `${PROJECT}/merge_requests/4/rebase`)).toHaveLength(1);
+    expect(
+      forge.calls('GET', `${PROJECT}/merge_requests/4`).map((request) => request.query)
+    ).toEqual([{ include_rebase_in_progress: 'true' }, { include_rebase_in_progress: 'true' }]);
+    // The source branch, and the commits on it, are never deleted
+    expect(forge.calls('DELETE', `${PROJECT}/repository/branches/${BRANCH}`)).toHaveLength(0);
+    expect(forge.calls('POST', `${PROJECT}/repository/branches`)).toHaveLength(0);
+
+    const [update] = forge.calls('PUT', FILE);
+    const { branch, content } = update.body as Record<string, string>;
+    expect(branch).toBe(BRANCH);
+    expect(JSON.parse(Buffer.from(content, 'base64').toString('utf-8'))).toEqual([
+      expect.objectContaining({ title: 'GPT-4 Released' }),
+      expect.objectContaining({ title: 'Open Model Released' }),
+      expect.objectContaining({ title: 'AI Breakthrough' })
+    ]);
+  });
+
+  it('is selected by the timeline factory for nested group projects', async () => {
+    forge = await startMockForge([timelineFile]);
+
+    const store = createTimelineStore({
+      backend: 'gitlab',
+      filePath: 'data/timeline-events.json',
+      repo: 'ai/timelines/site',
+      apiUrl: `${forge.baseUrl}/api/v4`
+    });
+    const timeline = await store.fetchTimeline();
+
+    expect(store).toBeInstanceOf(GitLabManager);
+    expect(timeline.sha).toBe('blob-1');
+    expect(timeline.events[0].title).toBe('GPT-4 Released');
+  });
+});
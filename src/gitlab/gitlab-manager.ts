@@ -0,0 +1,295 @@
+/**
+ * GitLabManager - Publishes timeline updates as merge requests on GitLab (SaaS or self-hosted)
+ */
+
+import { forgeRequest, isHttpStatus } from '../timeline/forge-api';
+import { getTimelineInterceptor } from '../timeline/interceptor';
+import {
+  type ChangeRequest,
+  type ChangeRequestStatus,
+  type ForgeTimelineConfig,
+  ForgeTimelineStore,
+  type RepositoryFile
+} from '../timeline/publisher';
+import { parseTimelineData } from '../timeline/timeline-file';
+import type { TimelineData } from '../timeline/types';
+
+/**
+ * Configuration for GitLabManager
+ */
+export interface GitLabManagerConfig extends ForgeTimelineConfig {
+  /** Project path including its namespace, e.g. group/subgroup/project */
+  project: string;
+  /** API root, e.g. https://gitlab.example.com/api/v4 */
+  apiUrl?: string;
+  /** Personal, project or group access token with api scope */
+  token?: string;
+}
+
+interface GitLabFile {
+  content: string;
+  blob_id: string;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+  state?: 'opened' | 'closed' | 'locked' | 'merged';
+  description?: string | null;
+  /** Only returned with `include_rebase_in_progress` */
+  rebase_in_progress?: boolean;
+  merge_error?: string | null;
+}
+
+const DEFAULT_API_URL = 'https://gitlab.com/api/v4';
+const REBASE_POLL_INTERVAL_MS = 1000;
+const REBASE_POLL_ATTEMPTS = 30;
+
+export class GitLabManager extends ForgeTimelineStore {
+  readonly provider = 'gitlab' as const;
+  private readonly project: string;
+  private readonly apiUrl: string;
+  private readonly token: string;
+
+  constructor(config: GitLabManagerConfig) {
+    super(config);
+    this.project = config.project;
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.token = config.token || process.env.GIT_TOKEN || '';
+  }
+
+  describe(): string {
+    return `gitlab:${this.project}/${this.filePath}`;
+  }
+
+  async fetchTimeline(ref?: string): Promise<TimelineData> {
+    const interceptor = getTimelineInterceptor();
+    if (interceptor) {
+      return interceptor.fetchTimeline(() => this.readTimelineFile(ref));
+    }
+
+    return this.readTimelineFile(ref);
+  }
+
+  /**
+   * Check if an open merge request already exists for the branch
+   */
+  async findOpenChangeRequest(branchName: string): Promise<ChangeRequest | null> {
+    try {
+      const mergeRequests = await this.request<GitLabMergeRequest[]>('/merge_requests', {
+        query: { state: 'opened', source_branch: branchName, target_branch: this.baseBranch }
+      });
+
+      const [existing] = mergeRequests;
+      return existing ? { number: existing.iid, html_url: existing.web_url } : null;
+    } catch (error) {
+      this.logger.error('Error checking for existing merge request', error as Error);
+      return null;
+    }
+  }
+
+  async getChangeRequest(number: number): Promise<ChangeRequestStatus> {
+    const mergeRequest = await this.request<GitLabMergeRequest>(`/merge_requests/${number}`);
+
+    return {
+      number: mergeRequest.iid,
+      html_url: mergeRequest.web_url,
+      state:
+        mergeRequest.state === 'merged'
+          ? 'merged'
+          : mergeRequest.state === 'closed'
+            ? 'closed'
+            : 'open',
+      description: mergeRequest.description ?? ''
+    };
+  }
+
+  /**
+   * Create the branch from the base branch, recreating it if it already exists
+   */
+  async createOrUpdateBranch(branchName: string): Promise<void> {
+    const create = () =>
+      this.request('/repository/branches', {
+        method: 'POST',
+        query: { branch: branchName, ref: this.baseBranch }
+      });
+
+    try {
+      try {
+        await create();
+        this.logger.info('Created new branch', { branch: branchName });
+      } catch (error) {
+        // GitLab cannot force-move a branch, so a stale branch is deleted and recreated
+        if (!isHttpStatus(error, 400, 409)) {
+          throw error;
+        }
+        await this.request(`/repository/branches/${encodeURIComponent(branchName)}`, {
+          method: 'DELETE'
+        });
+        await create();
+        this.logger.info('Updated existing branch', { branch: branchName });
+      }
+    } catch (error) {
+      this.logger.error('Error creating/updating branch', error as Error);
+      throw new Error(`Failed to create/update branch: ${error}`);
+    }
+  }
+
+  /**
+   * Rebase the merge request with GitLab's rebase API, which replays the source branch's commits
+   * onto the target branch, and wait for the asynchronous rebase to finish
+   */
+  protected async rebaseBranch(branchName: string, number: number): Promise<void> {
+    const logger = this.logger.child({ branch: branchName });
+
+    try {
+      await this.request(`/merge_requests/${number}/rebase`, { method: 'PUT' });
+    } catch (error) {
+      // A rebase that cannot be queued leaves the branch as is for the rewrite that follows
+      if (!isHttpStatus(error, 409)) {
+        throw error;
+      }
+      logger.warn('Could not rebase the merge request; rewriting the timeline in place', {
+        base: this.baseBranch,
+        mergeRequest: number
+      });
+      return;
+    }
+
+    for (let attempt = 0; attempt < REBASE_POLL_ATTEMPTS; attempt++) {
+      const mergeRequest = await this.request<GitLabMergeRequest>(`/merge_requests/${number}`, {
+        query: { include_rebase_in_progress: 'true' }
+      });
+
+      if (!mergeRequest.rebase_in_progress) {
+        if (mergeRequest.merge_error) {
+          // A conflicting timeline file is resolved by the rewrite that follows
+          logger.warn('Could not rebase the merge request; rewriting the timeline in place', {
+            base: this.baseBranch,
+            mergeRequest: number,
+            error: mergeRequest.merge_error
+          });
+        } else {
+          logger.info('Rebased merge request onto the base branch', { base: this.baseBranch });
+        }
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, REBASE_POLL_INTERVAL_MS));
+    }
+
+    throw new Error(`Rebase of ${branchName} did not finish in time`);
+  }
+
+  async createChangeRequest(
+    branchName: string,
+    title: string,
+    body: string
+  ): Promise<ChangeRequest> {
+    try {
+      const mergeRequest = await this.request<GitLabMergeRequest>('/merge_requests', {
+        method: 'POST',
+        body: {
+          source_branch: branchName,
+          target_branch: this.baseBranch,
+          title,
+          description: body,
+          remove_source_branch: true
+        }
+      });
+
+      return { number: mergeRequest.iid, html_url: mergeRequest.web_url };
+    } catch (error) {
+      this.logger.error('Error creating merge request', error as Error);
+      throw new Error(`Failed to create merge request: ${error}`);
+    }
+  }
+
+  async updateChangeRequest(number: number, title: string, body: string): Promise<void> {
+    await this.request(`/merge_requests/${number}`, {
+      method: 'PUT',
+      body: { title, description: body }
+    });
+  }
+
+  async addComment(number: number, body: string): Promise<void> {
+    await this.request(`/merge_requests/${number}/notes`, { method: 'POST', body: { body } });
+  }
+
+  async addLabels(number: number, labels: string[]): Promise<void> {
+    // GitLab creates missing project labels on the fly
+    await this.request(`/merge_requests/${number}`, {
+      method: 'PUT',
+      body: { add_labels: labels.join(',') }
+    });
+  }
+
+  protected async readRepositoryFile(
+    ref: string,
+    filePath: string
+  ): Promise<RepositoryFile | null> {
+    try {
+      const file = await this.request<GitLabFile>(this.fileUrl(filePath), { query: { ref } });
+      return { content: Buffer.from(file.content, 'base64').toString('utf-8'), sha: file.blob_id };
+    } catch (error) {
+      if (isHttpStatus(error, 404)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  protected async writeRepositoryFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    sha: string
+  ): Promise<void> {
+    await this.request(this.fileUrl(filePath), {
+      method: sha ? 'PUT' : 'POST',
+      body: {
+        branch: branchName,
+        content: Buffer.from(content).toString('base64'),
+        encoding: 'base64',
+        commit_message: message
+      }
+    });
+  }
+
+  private async readTimelineFile(ref = this.baseBranch): Promise<TimelineData> {
+    try {
+      this.logger.info('Fetching timeline', { project: this.project, path: this.filePath, ref });
+
+      const file = await this.readRepositoryFile(ref, this.filePath);
+      if (!file) {
+        this.logger.info('Timeline file not found, assuming empty timeline');
+        return { events: [], sha: '', content: '[]' };
+      }
+
+      const events = parseTimelineData(JSON.parse(file.content), this.fields);
+
+      this.logger.info('Fetched existing events', { events: events.length });
+
+      return { events, sha: file.sha, content: file.content };
+    } catch (error) {
+      this.logger.error('Error fetching timeline', error as Error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch timeline: ${errorMessage}`);
+    }
+  }
+
+  private fileUrl(filePath: string): string {
+    return `/repository/files/${encodeURIComponent(filePath)}`;
+  }
+
+  private request<T = unknown>(
+    path: string,
+    options: { method?: string; query?: Record<string, string>; body?: unknown } = {}
+  ): Promise<T> {
+    return forgeRequest<T>(`${this.apiUrl}/projects/${encodeURIComponent(this.project)}${path}`, {
+      ...options,
+      headers: this.token ? { 'private-token': this.token } : {}
+    });
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Central export point for GitLab integration modules
+ */
+
+export { GitLabManager, GitLabManagerConfig } from './gitlab-manager';
@@ -1,14 +1,20 @@
 #!/usr/bin/env node
 
 /**
- * Main entry point for the AI Timeline Update GitHub Action
+ * Main entry point for the AI Timeline Update GitHub Action. Subcommands (see `src/cli`) run
+ * single pipeline stages; without one, the whole pipeline runs.
  */
 
 import * as fs from 'node:fs';
+import { runCli } from './cli';
+import { flagValue } from './cli/args';
 import { config, loadConfig, validateConfig } from './config';
+import { RunRecording } from './lib/run-recording';
 import { type OrchestratorResult, WeeklyUpdateOrchestrator } from './orchestrator';
 import { ConfigurationError } from './utils/errors';
 
+const RUN_USAGE = 'Usage: run [--resume <run id>] [--record <dir> | --replay <dir>]';
+
 /**
  * Write execution summary to file for GitHub Actions
  */
@@ -17,6 +23,7 @@ function writeSummary(result: OrchestratorResult): void {
     success: result.success,
     metrics: result.metrics,
     prUrl: result.prUrl,
+    runId: result.runId,
     errors: result.errors.map((e) => e.message),
     timestamp: new Date().toISOString()
   };
@@ -25,6 +32,33 @@ function writeSummary(result: OrchestratorResult): void {
   console.log('📝 Summary written to execution-summary.json');
 }
 
+/**
+ * Parse `--record <dir>` / `--replay <dir>` from the command line
+ */
+async function initializeRecording(argv: string[]): Promise<RunRecording | null> {
+  const recordDir = flagValue(argv, '--record', RUN_USAGE);
+  const replayDir = flagValue(argv, '--replay', RUN_USAGE);
+
+  if (recordDir && replayDir) {
+    throw new ConfigurationError('--record and --replay cannot be used together');
+  }
+  if ((recordDir || replayDir) && argv.includes('--resume')) {
+    throw new ConfigurationError('--resume cannot be combined with --record or --replay');
+  }
+
+  if (recordDir) {
+    console.log(`🎙️  Recording run to ${recordDir}\n`);
+    return RunRecording.record(recordDir);
+  }
+
+  if (replayDir) {
+    console.log(`📼 Replaying run from ${replayDir}\n`);
+    return RunRecording.replay(replayDir);
+  }
+
+  return null;
+}
+
 /**
  * Validate and load configuration
  */
@@ -47,7 +81,8 @@ function initializeConfiguration() {
       JSON.stringify(
         {
           aiModel: appConfig.aiModel,
-          timelineRepo: appConfig.timelineRepo.full,
+          timelineRepo: appConfig.timelineRepo?.full,
+          timelineBackend: appConfig.timelineBackend,
           maxEventsPerWeek: appConfig.maxEventsPerWeek,
           significanceThreshold: appConfig.significanceThreshold,
           dryRun: appConfig.dryRun,
@@ -72,6 +107,11 @@ function initializeConfiguration() {
  * Handle orchestrator results
  */
 function handleResults(result: OrchestratorResult): void {
+  // Exposed on failures too, so the run can be resumed
+  if (process.env.GITHUB_OUTPUT && result.runId) {
+    fs.appendFileSync(process.env.GITHUB_OUTPUT, `run_id=${result.runId}\n`);
+  }
+
   if (result.success) {
     console.log('✅ AI timeline update completed successfully!');
 
@@ -110,21 +150,53 @@ async function main(): Promise<void> {
 
   try {
     const appConfig = initializeConfiguration();
+    const argv = process.argv.slice(2);
+    const recording = await initializeRecording(argv);
+    recording?.install();
+    const resumeRunId = flagValue(argv, '--resume', RUN_USAGE);
+    if (resumeRunId) {
+      console.log(`↻ Resuming run ${resumeRunId}\n`);
+    }
 
     // Step 2: Initialize orchestrator
     console.log('🔧 Initializing orchestrator...');
     const orchestrator = new WeeklyUpdateOrchestrator({
-      timelineRepo: appConfig.timelineRepo.full,
+      timelineRepo: appConfig.timelineRepo?.full,
+      timelineBackend: appConfig.timelineBackend,
       maxEventsPerWeek: appConfig.maxEventsPerWeek,
       significanceThreshold: appConfig.significanceThreshold,
       githubToken: appConfig.githubToken,
-      dryRun: appConfig.dryRun
+      dryRun: appConfig.dryRun,
+      // Recorded runs must see exactly the captured traffic, not the cache or earlier runs
+      httpCacheMode: recording ? 'off' : appConfig.httpCacheMode,
+      useSeenLedger: !recording,
+      useCheckpoints: !recording,
+      // Nor may they queue reviews of, or archive and render, recorded change requests
+      useLocalOutputs: !recording,
+      resumeRunId
     });
 
     // Step 3: Run the update (connectors are loaded from config at runtime)
     console.log('🎯 Running daily update workflow...\n');
     const result = await orchestrator.run();
 
+    if (recording) {
+      const comparison = await recording.finish(result);
+      recording.uninstall();
+
+      if (!comparison) {
+        console.log(`🎙️  Recording saved to ${recording.dir}`);
+      } else if (comparison.matches) {
+        console.log('📼 Replay matches the recorded result');
+      } else {
+        console.error('❌ Replay differs from the recorded result:');
+        comparison.differences.forEach((difference) => {
+          console.error(`  - ${difference}`);
+        });
+        process.exit(1);
+      }
+    }
+
     // Step 4: Write summary for GitHub Actions
     writeSummary(result);
 
@@ -148,6 +220,7 @@ async function main(): Promise<void> {
         afterDeduplication: 0,
         analyzed: 0,
         selected: 0,
+        previouslySeen: 0,
         duration: 0
       },
       errors: [error as Error]
@@ -175,7 +248,15 @@ process.on('uncaughtException', (error) => {
 
 // Run if this is the main module
 if (require.main === module) {
-  main().catch((error) => {
+  const [command] = process.argv.slice(2);
+  // Bare flags such as --record keep running the whole pipeline
+  const runsPipeline =
+    !command || command === 'run' || (command.startsWith('--') && command !== '--help');
+  const execution = runsPipeline
+    ? main()
+    : runCli(process.argv.slice(2)).then((code) => process.exit(code));
+
+  execution.catch((error) => {
     console.error('❌ Unexpected error:', error);
     process.exit(1);
   });
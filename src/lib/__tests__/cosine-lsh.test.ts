@@ -0,0 +1,146 @@
+import type { LLMProvider } from '../../llm/provider';
+import type { LLMEmbeddingRequest, LLMEmbeddingResult } from '../../llm/types';
+import type { RawEvent } from '../../types';
+import { CosineLshIndex } from '../cosine-lsh';
+import { DeduplicationService } from '../deduplication';
+import * as embeddings from '../embeddings';
+
+/** Dimensions of OpenAI text-embedding-3-small vectors */
+const DIMENSIONS = 1536;
+
+/**
+ * Small deterministic PRNG so the benchmark corpus is identical on every run
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+function randomTitle(random: () => number): string {
+  return Array.from({ length: 8 }, () =>
+    Array.from(
+      { length: 4 + Math.floor(random() * 6) },
+      () => LETTERS[Math.floor(random() * LETTERS.length)]
+    ).join('')
+  ).join(' ');
+}
+
+function randomUnitVector(random: () => number, dimensions = DIMENSIONS): number[] {
+  const vector = Array.from({ length: dimensions }, () => random() * 2 - 1);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map((value) => value / norm);
+}
+
+/**
+ * A vector at roughly the given cosine similarity to a unit vector
+ */
+function nearbyVector(random: () => number, vector: number[], cosine: number): number[] {
+  const noise = randomUnitVector(random, vector.length);
+  const weight = Math.sqrt(1 - cosine * cosine) / cosine;
+  return vector.map((value, index) => value + weight * noise[index]);
+}
+
+describe('CosineLshIndex', () => {
+  it('proposes vectors with a high cosine similarity as candidates', () => {
+    const random = createRandom(3);
+    const index = new CosineLshIndex();
+    const original = randomUnitVector(random);
+    const nearby = nearbyVector(random, original, 0.9);
+
+    const a = index.add(original);
+    const b = index.add(nearby);
+    const unrelated = index.add(randomUnitVector(random));
+    index.add(new Array(DIMENSIONS).fill(0));
+    index.add(new Array(DIMENSIONS).fill(0));
+
+    const candidates = index.findCandidatePairs();
+
+    expect(embeddings.cosineSimilarity(original, nearby)).toBeCloseTo(0.9, 1);
+    expect(candidates.get(a)?.has(b)).toBe(true);
+    expect(candidates.get(a)?.has(unrelated) ?? false).toBe(false);
+    expect(candidates.has(3)).toBe(false);
+  });
+
+  it('rejects vectors of different dimensions and oversized bands', () => {
+    const index = new CosineLshIndex();
+    index.add([1, 0, 0]);
+
+    expect(() => index.add([1, 0])).toThrow('Cannot index a vector of 2 dimensions alongside 3');
+    expect(() => new CosineLshIndex({ rowsPerBand: 31 })).toThrow(/rowsPerBand/);
+  });
+});
+
+describe('DeduplicationService with cosine LSH candidates', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deduplicates 2k embedded events without comparing every pair', async () => {
+    const random = createRandom(42);
+    const start = new Date('2025-01-01T00:00:00Z').getTime();
+    const events: RawEvent[] = [];
+    const vectors = new Map<string, number[]>();
+    const total = 2000;
+    const planted = 100;
+
+    for (let i = 0; i < total - planted; i++) {
+      const title = randomTitle(random);
+      events.push({
+        title,
+        date: new Date(start + Math.floor(random() * 90 * 24 * 60 * 60 * 1000)),
+        source: `source_${i % 12}`,
+        url: `https://news${i % 40}.example.com/articles/${i}`,
+        content: ''
+      });
+      vectors.set(title, randomUnitVector(random));
+    }
+
+    // Rewritten coverage of the same story: no lexical overlap, close in embedding space
+    for (let i = 0; i < planted; i++) {
+      const original = events[i * 17];
+      const title = randomTitle(random);
+      events.push({
+        title,
+        date: new Date(original.date.getTime() + 3 * 60 * 60 * 1000),
+        source: 'syndication',
+        url: `https://mirror.example.com/copies/${i}`,
+        content: ''
+      });
+      vectors.set(title, nearbyVector(random, vectors.get(original.title) ?? [], 0.93));
+    }
+
+    const provider: LLMProvider = {
+      id: 'vector-table',
+      model: 'text-embedding-3-small',
+      supportsEmbeddings: () => true,
+      complete: async () => {
+        throw new Error('not used');
+      },
+      embed: async (request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> => {
+        const inputs = Array.isArray(request.input) ? request.input : [request.input];
+        return {
+          providerId: 'vector-table',
+          vectors: inputs.map((input) => vectors.get(input) ?? [])
+        };
+      }
+    };
+    const compared = jest.spyOn(embeddings, 'cosineSimilarity');
+
+    const service = new DeduplicationService({
+      mode: 'semantic',
+      embeddingProvider: provider,
+      embedSimilarityMin: 0.88
+    });
+    const result = await service.deduplicate(events);
+
+    expect(result).toHaveLength(total - planted);
+    expect(result.filter((event) => event.metadata?.is_deduplicated)).toHaveLength(planted);
+    // All pairs would be about 2M cosine comparisons
+    expect(compared.mock.calls.length).toBeLessThan((total * (total - 1)) / 2 / 20);
+  }, 30_000);
+});
@@ -0,0 +1,193 @@
+import type { LLMProvider } from '../../llm/provider';
+import type { LLMEmbeddingRequest, LLMEmbeddingResult } from '../../llm/types';
+import type { RawEvent } from '../../types';
+import { DeduplicationService } from '../deduplication';
+import { cosineSimilarity } from '../embeddings';
+
+const LAUNCH_EVENTS: RawEvent[] = [
+  {
+    title: 'Introducing GPT-6',
+    date: new Date('2025-03-10T12:00:00Z'),
+    source: 'openai_blog',
+    url: 'https://openai.com/index/introducing-gpt-6',
+    content: 'Our most capable model yet.'
+  },
+  {
+    title: 'OpenAI unveils next flagship language model',
+    date: new Date('2025-03-10T15:00:00Z'),
+    source: 'google_ai_news',
+    url: 'https://news.example.com/openai-flagship',
+    content: 'The company announced a successor to its previous system.'
+  },
+  {
+    title: 'Microsoft to bring new OpenAI system to Azure customers',
+    date: new Date('2025-03-11T09:00:00Z'),
+    source: 'microsoft_ai_news',
+    url: 'https://news.microsoft.com/azure-openai-next',
+    content: 'Azure customers get day-one access.'
+  },
+  {
+    title: 'Robotics lab releases open manipulation dataset',
+    date: new Date('2025-03-11T10:00:00Z'),
+    source: 'huggingface',
+    url: 'https://huggingface.co/blog/manipulation-dataset',
+    content: 'A dataset of one million grasps.'
+  }
+];
+
+/**
+ * Embeds launch coverage near one direction and everything else orthogonally
+ */
+function createTopicProvider(
+  options: { supportsEmbeddings?: boolean; fail?: boolean; mixedDimensions?: boolean } = {}
+) {
+  const requests: LLMEmbeddingRequest[] = [];
+
+  const provider: LLMProvider = {
+    id: 'topic-provider',
+    model: 'topic-model',
+    supportsEmbeddings: () => options.supportsEmbeddings ?? true,
+    complete: async () => {
+      throw new Error('not used');
+    },
+    embed: async (request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> => {
+      requests.push(request);
+      if (options.fail) {
+        throw new Error('embedding endpoint unavailable');
+      }
+      const inputs = Array.isArray(request.input) ? request.input : [request.input];
+      return {
+        providerId: 'topic-provider',
+        vectors: inputs.map((input) => {
+          if (/gpt-6|openai/i.test(input)) {
+            return [0.95, 0.05, 0.02];
+          }
+          return options.mixedDimensions ? [0.02, 0.99] : [0.02, 0.1, 0.99];
+        })
+      };
+    }
+  };
+
+  return { provider, requests };
+}
+
+describe('DeduplicationService', () => {
+  it('merges exact URL duplicates in lexical mode', async () => {
+    const service = new DeduplicationService();
+    const duplicate = { ...LAUNCH_EVENTS[0], source: 'google_ai_news', title: 'GPT-6 is here' };
+
+    const result = await service.deduplicate([LAUNCH_EVENTS[0], duplicate]);
+
+    expect(service.getEffectiveMode()).toBe('lexical');
+    expect(result).toHaveLength(1);
+    expect(result[0].metadata).toEqual(
+      expect.objectContaining({
+        is_deduplicated: true,
+        sources: ['openai_blog', 'google_ai_news']
+      })
+    );
+  });
+
+  it('keeps differently worded coverage apart without embeddings', async () => {
+    const service = new DeduplicationService();
+
+    const result = await service.deduplicate(LAUNCH_EVENTS);
+
+    expect(result).toHaveLength(4);
+  });
+
+  it('clusters differently worded coverage by embedding similarity', async () => {
+    const { provider, requests } = createTopicProvider();
+    const service = DeduplicationService.fromPipelineConfig(
+      {
+        embed_similarity_min: 0.88,
+        minhash_jaccard_max: 0.12,
+        url_canonicalize: true,
+        embedding_model: 'text-embedding-latest',
+        shingle_size: 3
+      },
+      provider
+    );
+
+    const result = await service.deduplicate(LAUNCH_EVENTS);
+
+    expect(service.getEffectiveMode()).toBe('semantic');
+    expect(requests[0].model).toBe('text-embedding-latest');
+    expect(requests[0].input).toEqual(
+      expect.arrayContaining([expect.stringContaining('Introducing GPT-6')])
+    );
+    expect(result).toHaveLength(2);
+    expect(result[0].metadata?.sources).toEqual([
+      'openai_blog',
+      'google_ai_news',
+      'microsoft_ai_news'
+    ]);
+  });
+
+  it('does not cluster semantically similar events outside the time window', async () => {
+    const { provider } = createTopicProvider();
+    const service = new DeduplicationService({
+      mode: 'semantic',
+      embeddingProvider: provider,
+      timeWindowMs: 60 * 60 * 1000
+    });
+
+    const result = await service.deduplicate(LAUNCH_EVENTS.slice(0, 3));
+
+    expect(result).toHaveLength(3);
+  });
+
+  it('falls back to lexical matching when no provider supports embeddings', async () => {
+    const { provider, requests } = createTopicProvider({ supportsEmbeddings: false });
+    const service = new DeduplicationService({ mode: 'semantic', embeddingProvider: provider });
+
+    const result = await service.deduplicate(LAUNCH_EVENTS);
+
+    expect(service.getEffectiveMode()).toBe('lexical');
+    expect(requests).toHaveLength(0);
+    expect(result).toHaveLength(4);
+  });
+
+  it('falls back to lexical matching when embedding fails', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { provider } = createTopicProvider({ fail: true });
+    const service = new DeduplicationService({ mode: 'semantic', embeddingProvider: provider });
+
+    const result = await service.deduplicate(LAUNCH_EVENTS);
+
+    expect(result).toHaveLength(4);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('falling back to lexical matching'),
+      'embedding endpoint unavailable'
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('falls back to lexical matching when embeddings differ in dimensions', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const { provider } = createTopicProvider({ mixedDimensions: true });
+    const service = new DeduplicationService({ mode: 'semantic', embeddingProvider: provider });
+
+    const result = await service.deduplicate(LAUNCH_EVENTS);
+
+    expect(result).toHaveLength(4);
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('falling back to lexical matching'),
+      'Embedding 3 has 2 dimensions, expected 3'
+    );
+    warnSpy.mockRestore();
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('returns 1 for parallel vectors and 0 for empty ones', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1, 6);
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+
+  it('rejects vectors of different dimensions', () => {
+    expect(() => cosineSimilarity([1, 0, 0], [1, 0])).toThrow(
+      'Cannot compare vectors of 3 and 2 dimensions'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import type { RawEvent } from '../../types';
+import { DeduplicationService } from '../deduplication';
+import { MinHashLshIndex, shingle } from '../minhash';
+
+/**
+ * Small deterministic PRNG so the benchmark corpus is identical on every run
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+function createVocabulary(random: () => number, size: number): string[] {
+  return Array.from({ length: size }, () =>
+    Array.from(
+      { length: 4 + Math.floor(random() * 6) },
+      () => LETTERS[Math.floor(random() * LETTERS.length)]
+    ).join('')
+  );
+}
+
+const VOCABULARY = createVocabulary(createRandom(7), 5000);
+
+function sentence(random: () => number, words: number): string {
+  return Array.from(
+    { length: words },
+    () => VOCABULARY[Math.floor(random() * VOCABULARY.length)]
+  ).join(' ');
+}
+
+describe('shingle', () => {
+  it('hashes normalized character shingles', () => {
+    expect(shingle('GPT-6!', 3)).toEqual(shingle('gpt 6', 3));
+    expect(shingle('ab', 3).size).toBe(1);
+    expect(shingle('   ', 3).size).toBe(0);
+  });
+});
+
+describe('MinHashLshIndex', () => {
+  it('proposes near-identical documents as candidates and estimates their similarity', () => {
+    const index = new MinHashLshIndex({ shingleSize: 3 });
+    const original = index.add('OpenAI releases GPT-6 with improved reasoning and tool use');
+    const retitled = index.add('OpenAI releases GPT-6 with improved reasoning and tool use!');
+    const unrelated = index.add('Robotics lab publishes open manipulation dataset');
+
+    const candidates = index.findCandidatePairs();
+
+    expect(candidates.get(original)?.has(retitled)).toBe(true);
+    expect(candidates.get(original)?.has(unrelated) ?? false).toBe(false);
+    expect(index.estimateJaccard(original, retitled)).toBe(1);
+    expect(index.estimateJaccard(original, unrelated)).toBeLessThan(0.2);
+  });
+
+  it('never proposes documents without shingles', () => {
+    const index = new MinHashLshIndex();
+    index.add('');
+    index.add('');
+
+    expect(index.findCandidatePairs().size).toBe(0);
+  });
+
+  it('rejects hash counts that cannot be split into bands', () => {
+    expect(() => new MinHashLshIndex({ numHashes: 100, bands: 32 })).toThrow(/divisible/);
+  });
+});
+
+describe('DeduplicationService with MinHash/LSH candidates', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('deduplicates 10k raw events scoring only LSH candidate pairs', async () => {
+    const random = createRandom(42);
+    const start = new Date('2025-01-01T00:00:00Z').getTime();
+    const events: RawEvent[] = [];
+    const planted = 200;
+
+    for (let i = 0; i < 10_000 - planted; i++) {
+      events.push({
+        title: sentence(random, 8),
+        date: new Date(start + Math.floor(random() * 90 * 24 * 60 * 60 * 1000)),
+        source: `source_${i % 12}`,
+        url: `https://news${i % 40}.example.com/articles/${i}`,
+        content: sentence(random, 40)
+      });
+    }
+
+    // Syndicated copies: same story on another site a few hours later
+    for (let i = 0; i < planted; i++) {
+      const original = events[i * 37];
+      events.push({
+        ...original,
+        title: `${original.title} - Syndicated`,
+        date: new Date(original.date.getTime() + 3 * 60 * 60 * 1000),
+        source: 'syndication',
+        url: `https://mirror.example.com/copies/${i}`
+      });
+    }
+
+    const findCandidatePairs = jest.spyOn(MinHashLshIndex.prototype, 'findCandidatePairs');
+    const service = new DeduplicationService({ shingleSize: 3, minhashJaccardMax: 0.12 });
+    const result = await service.deduplicate(events);
+
+    expect(result).toHaveLength(10_000 - planted);
+    expect(result.filter((event) => event.metadata?.is_deduplicated)).toHaveLength(planted);
+
+    // All pairs would be about 50M full comparisons
+    const candidates = findCandidatePairs.mock.results[0].value as Map<number, Set<number>>;
+    const pairs = Array.from(candidates.values()).reduce((sum, ids) => sum + ids.size, 0);
+    expect(pairs).toBeGreaterThanOrEqual(planted);
+    expect(pairs).toBeLessThan(10_000);
+  }, 30_000);
+});
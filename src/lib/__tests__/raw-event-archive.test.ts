@@ -0,0 +1,68 @@
+/**
+ * Unit tests for the raw event archive
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { RawEvent } from '../../types';
+import { archiveRawEvents, loadRawEvents } from '../raw-event-archive';
+
+const event = (title: string, date: string, content = 'Body'): RawEvent => ({
+  title,
+  date: new Date(date),
+  source: 'Test',
+  url: `https://example.com/${title.toLowerCase().replace(/\s+/g, '-')}`,
+  content
+});
+
+describe('raw event archive', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'raw-events-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('merges reruns of the same day into one file', async () => {
+    const runDate = new Date('2024-03-15T06:00:00.000Z');
+    await archiveRawEvents(dir, [event('First', '2024-03-14T00:00:00.000Z')], runDate);
+    const filePath = await archiveRawEvents(
+      dir,
+      [
+        event('First', '2024-03-14T00:00:00.000Z', 'Updated body'),
+        event('Second', '2024-03-15T00:00:00.000Z')
+      ],
+      runDate
+    );
+
+    expect(path.basename(filePath)).toBe('raw-events-2024-03-15.json');
+    const events = await loadRawEvents(dir);
+    expect(events.map((archived) => [archived.title, archived.content])).toEqual([
+      ['First', 'Updated body'],
+      ['Second', 'Body']
+    ]);
+    expect(events[0].date).toEqual(new Date('2024-03-14T00:00:00.000Z'));
+  });
+
+  it('loads plain fixture arrays and filters by event date', async () => {
+    await fs.writeFile(
+      path.join(dir, 'fixtures.json'),
+      JSON.stringify([
+        { ...event('Early', '2024-03-01T00:00:00.000Z'), date: '2024-03-01T00:00:00.000Z' },
+        { ...event('Late', '2024-03-20T00:00:00.000Z'), date: '2024-03-20T00:00:00.000Z' }
+      ])
+    );
+    await archiveRawEvents(dir, [event('Middle', '2024-03-10T00:00:00.000Z')], new Date());
+
+    const events = await loadRawEvents(dir, {
+      since: new Date('2024-03-05T00:00:00.000Z'),
+      until: new Date('2024-03-31T00:00:00.000Z')
+    });
+
+    expect(events.map((archived) => archived.title)).toEqual(['Middle', 'Late']);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Unit tests for run record/replay
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { type LLMProvider, MockLLMProvider } from '../../llm';
+import { WeeklyUpdateOrchestrator } from '../../orchestrator';
+import { getTimelineInterceptor } from '../../timeline';
+import { getClock } from '../../utils/clock';
+import { fetchText } from '../../utils/http';
+import { RecordingMissError, RunRecording, snapshotRunResult } from '../run-recording';
+
+const FEED_URL = 'https://feeds.example.com/rss.xml';
+const STARTED_AT = new Date('2025-09-15T06:00:00.000Z');
+
+function createProvider(): LLMProvider & { complete: jest.Mock } {
+  return {
+    id: 'stub',
+    model: 'stub-model',
+    supportsEmbeddings: () => false,
+    complete: jest.fn(async () => ({
+      providerId: 'stub',
+      text: '{"impact": 8}',
+      finishReason: 'stop',
+      raw: { verbose: true }
+    })),
+    embed: jest.fn()
+  };
+}
+
+const FIXTURE_ROOT = path.resolve(__dirname, '../../..', 'tests/__fixtures__');
+const RUN_STARTED_AT = new Date('2025-09-22T06:00:00.000Z');
+
+const OPENAI_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"><channel><title>OpenAI News</title>
+<item><title>GPT-5 system card update</title><link>https://openai.com/index/gpt-5-system-card</link>
+<pubDate>Thu, 18 Sep 2025 17:00:00 GMT</pubDate><description>Safety evaluations for GPT-5.</description></item>
+<item><title>Introducing Codex upgrades</title><link>https://openai.com/index/codex-upgrades</link>
+<pubDate>Mon, 15 Sep 2025 16:00:00 GMT</pubDate><description>A faster coding agent.</description></item>
+</channel></rss>`;
+
+/**
+ * Stubbed source traffic: the OpenAI feed, the saved listing pages of the selector sources
+ * and 404 for everything else
+ */
+async function respondToSource(input: string | URL | Request): Promise<Response> {
+  const url = input instanceof Request ? input.url : String(input);
+  if (url === 'https://openai.com/blog/rss.xml') {
+    return new Response(OPENAI_FEED, { status: 200 });
+  }
+
+  const pages: Record<string, string> = {
+    'https://x.ai/news': 'xai_news.html',
+    'https://ai.meta.com/blog/': 'meta_ai_blog.html',
+    'https://blog.google/products/gemini': 'gemini_product_news.html'
+  };
+  if (pages[url]) {
+    const html = await fs.readFile(path.join(FIXTURE_ROOT, 'html', pages[url]), 'utf-8');
+    return new Response(html, { status: 200, headers: { 'content-type': 'text/html' } });
+  }
+
+  return new Response('Not Found', { status: 404, statusText: 'Not Found' });
+}
+
+function createResult(duration: number) {
+  return {
+    success: true,
+    selected: [{ title: 'Launch', date: new Date('2025-09-14T00:00:00.000Z') }],
+    metrics: { analyzed: 1, duration },
+    errors: [new Error('feed unavailable')]
+  };
+}
+
+describe('RunRecording', () => {
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+  let recordingDir: string;
+
+  beforeEach(async () => {
+    recordingDir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-recording-'));
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    fetchSpy.mockRestore();
+    await fs.rm(recordingDir, { recursive: true, force: true });
+  });
+
+  async function recordRun(): Promise<void> {
+    const recording = RunRecording.record(recordingDir, STARTED_AT);
+    recording.install();
+
+    try {
+      fetchSpy
+        .mockResolvedValueOnce(new Response('<rss>v1</rss>', { status: 200 }))
+        .mockResolvedValueOnce(new Response('<rss>v2</rss>', { status: 200 }));
+      expect(await fetchText(FEED_URL)).toBe('<rss>v1</rss>');
+      expect(await fetchText(FEED_URL)).toBe('<rss>v2</rss>');
+
+      const provider = await recording.wrap(async () => createProvider());
+      await provider.complete({
+        messages: [{ role: 'user', content: 'Score this' }],
+        correlationId: 'record-run'
+      });
+
+      await getTimelineInterceptor()?.fetchTimeline(async () => ({
+        events: [],
+        sha: 'abc123',
+        content: '[]'
+      }));
+
+      await recording.finish(createResult(1200));
+    } finally {
+      recording.uninstall();
+    }
+  }
+
+  it('replays HTTP, LLM and timeline traffic without calling through', async () => {
+    await recordRun();
+    fetchSpy.mockReset();
+    fetchSpy.mockRejectedValue(new Error('network disabled'));
+
+    const recording = await RunRecording.replay(recordingDir);
+    recording.install();
+
+    try {
+      expect(getClock().now().toISOString()).toBe(STARTED_AT.toISOString());
+      expect(await fetchText(FEED_URL)).toBe('<rss>v1</rss>');
+      expect(await fetchText(FEED_URL)).toBe('<rss>v2</rss>');
+
+      const create = jest.fn(async () => createProvider());
+      const provider = await recording.wrap(create);
+      const completion = await provider.complete({
+        messages: [{ role: 'user', content: 'Score this' }],
+        correlationId: 'replay-run'
+      });
+      expect(create).not.toHaveBeenCalled();
+      expect(provider.id).toBe('stub');
+      expect(completion).toEqual({
+        providerId: 'stub',
+        text: '{"impact": 8}',
+        finishReason: 'stop'
+      });
+
+      const read = jest.fn();
+      const timeline = await getTimelineInterceptor()?.fetchTimeline(read);
+      expect(read).not.toHaveBeenCalled();
+      expect(timeline?.sha).toBe('abc123');
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(await recording.finish(createResult(95))).toEqual({
+        matches: true,
+        differences: []
+      });
+    } finally {
+      recording.uninstall();
+    }
+  });
+
+  it('reports result differences and unrecorded requests on replay', async () => {
+    await recordRun();
+
+    const recording = await RunRecording.replay(recordingDir);
+    recording.install();
+
+    try {
+      await expect(fetchText('https://other.example.com/feed')).rejects.toBeInstanceOf(
+        RecordingMissError
+      );
+
+      const changed = createResult(1200);
+      changed.metrics.analyzed = 2;
+      expect(await recording.finish(changed)).toEqual({
+        matches: false,
+        differences: ['$.metrics.analyzed']
+      });
+    } finally {
+      recording.uninstall();
+    }
+  });
+
+  it('snapshots results without wall-clock duration', () => {
+    const snapshot = JSON.parse(snapshotRunResult(createResult(1200)));
+
+    expect(snapshot.metrics).toEqual({ analyzed: 1 });
+    expect(snapshot.selected[0].date).toBe('2025-09-14T00:00:00.000Z');
+    expect(snapshot.errors).toEqual([{ name: 'Error', message: 'feed unavailable' }]);
+  });
+});
+
+describe('RunRecording of WeeklyUpdateOrchestrator.run()', () => {
+  const originalCwd = process.cwd();
+  const originalProvider = process.env.LLM_PROVIDER;
+  let workDir: string;
+  let recordingDir: string;
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-recording-e2e-'));
+    recordingDir = path.join(workDir, 'recording');
+    process.chdir(workDir);
+    process.env.LLM_PROVIDER = 'mock_llm';
+    fetchSpy = jest.spyOn(global, 'fetch');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.chdir(originalCwd);
+    if (originalProvider === undefined) {
+      delete process.env.LLM_PROVIDER;
+    } else {
+      process.env.LLM_PROVIDER = originalProvider;
+    }
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  // Options the CLI uses for recorded runs
+  const runPipeline = () =>
+    new WeeklyUpdateOrchestrator({
+      timelineBackend: 'local',
+      httpCacheMode: 'off',
+      useSeenLedger: false,
+      useCheckpoints: false,
+      useLocalOutputs: false
+    }).run();
+
+  it('replays a recorded run offline to an identical result', async () => {
+    const recording = RunRecording.record(recordingDir, RUN_STARTED_AT);
+    recording.install();
+    let recorded: Awaited<ReturnType<typeof runPipeline>>;
+    try {
+      fetchSpy.mockImplementation(respondToSource);
+      recorded = await runPipeline();
+      await recording.finish(recorded);
+    } finally {
+      recording.uninstall();
+    }
+
+    expect(recorded.metrics.totalCollected).toBeGreaterThan(0);
+    expect(recorded.selected.length).toBeGreaterThan(0);
+    expect(recorded.prUrl).toBeDefined();
+
+    fetchSpy.mockReset();
+    fetchSpy.mockRejectedValue(new Error('network disabled'));
+    const complete = jest.spyOn(MockLLMProvider.prototype, 'complete');
+    const embed = jest.spyOn(MockLLMProvider.prototype, 'embed');
+
+    const replay = await RunRecording.replay(recordingDir);
+    replay.install();
+    let replayed: Awaited<ReturnType<typeof runPipeline>>;
+    try {
+      replayed = await runPipeline();
+      expect(await replay.finish(replayed)).toEqual({ matches: true, differences: [] });
+    } finally {
+      replay.uninstall();
+    }
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(complete).not.toHaveBeenCalled();
+    // Neither run queued reviews of, archived or rendered the recorded change request
+    for (const output of ['reports/review', 'reports/raw-events', 'site']) {
+      await expect(fs.stat(path.join(workDir, output))).rejects.toThrow();
+    }
+    expect(embed).not.toHaveBeenCalled();
+    // Wall-clock duration is the only documented difference between the two runs
+    expect({ ...replayed, metrics: { ...replayed.metrics, duration: 0 } }).toEqual({
+      ...recorded,
+      metrics: { ...recorded.metrics, duration: 0 }
+    });
+  }, 60_000);
+});
@@ -0,0 +1,217 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AnalyzedEvent, RawEvent } from '../../types';
+import { FixedClock, setClock } from '../../utils/clock';
+import { DeduplicationService } from '../deduplication';
+import { getRawItemIds, SeenItemsLedger } from '../seen-ledger';
+
+function rawEvent(id: string, title: string, url: string): RawEvent {
+  return {
+    title,
+    date: new Date('2025-03-10T12:00:00Z'),
+    source: id.split('-')[3] ?? 'openai_blog',
+    url,
+    content: `${title} content`,
+    metadata: { raw_item_id: id }
+  };
+}
+
+function analyzedFrom(event: RawEvent, id: string): AnalyzedEvent {
+  return {
+    id,
+    title: event.title,
+    date: event.date.toISOString(),
+    description: `${event.title} description`,
+    category: 'product',
+    sources: [event.url],
+    url: event.url,
+    impactScore: 8,
+    significance: {
+      technologicalBreakthrough: 8,
+      industryImpact: 8,
+      adoptionScale: 8,
+      novelty: 8
+    },
+    metadata: { ...event.metadata }
+  };
+}
+
+describe('SeenItemsLedger', () => {
+  let tempDir: string;
+  let ledgerPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'seen-ledger-'));
+    ledgerPath = path.join(tempDir, 'reports', 'seen-items.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('starts empty when no ledger file exists', async () => {
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+
+    expect(ledger.itemCount).toBe(0);
+    expect(ledger.has('2025-03-10-openai_blog-abc123')).toBe(false);
+  });
+
+  it('persists analyses and reuses them for items seen again', async () => {
+    const launch = rawEvent(
+      '2025-03-10-openai_blog-abc123',
+      'Introducing GPT-6',
+      'https://a.test/1'
+    );
+    const dataset = rawEvent('2025-03-10-huggingface-def456', 'Open dataset', 'https://b.test/2');
+
+    const first = await SeenItemsLedger.load(ledgerPath);
+    first.recordAnalyses(
+      [
+        analyzedFrom(launch, '2025-03-10-introducing-gpt-6'),
+        analyzedFrom(dataset, '2025-03-10-open-dataset')
+      ],
+      [launch, dataset]
+    );
+    first.recordOutcome([analyzedFrom(dataset, '2025-03-10-open-dataset')], 'rejected');
+    await first.save();
+
+    const second = await SeenItemsLedger.load(ledgerPath);
+    const newcomer = rawEvent('2025-03-11-anthropic-aaa111', 'Claude update', 'https://c.test/3');
+    const partition = second.partition([launch, dataset, newcomer]);
+
+    expect(second.itemCount).toBe(2);
+    expect(partition.skipped).toBe(2);
+    expect(partition.fresh).toEqual([newcomer]);
+    expect(partition.cached.map((event) => event.id)).toEqual([
+      '2025-03-10-introducing-gpt-6',
+      '2025-03-10-open-dataset'
+    ]);
+    expect(second.getEventForItem('2025-03-10-huggingface-def456')?.outcome).toBe('rejected');
+  });
+
+  it('never returns published events as cached analyses', async () => {
+    const launch = rawEvent(
+      '2025-03-10-openai_blog-abc123',
+      'Introducing GPT-6',
+      'https://a.test/1'
+    );
+    const analyzed = analyzedFrom(launch, '2025-03-10-introducing-gpt-6');
+
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+    ledger.recordAnalyses([analyzed], [launch]);
+    ledger.recordOutcome([analyzed], 'published', 'https://github.com/o/r/pull/1');
+    ledger.recordOutcome([analyzed], 'rejected');
+
+    const partition = ledger.partition([launch]);
+
+    expect(partition.fresh).toHaveLength(0);
+    expect(partition.cached).toHaveLength(0);
+    expect(ledger.getEventForItem('2025-03-10-openai_blog-abc123')).toEqual(
+      expect.objectContaining({ outcome: 'published', prUrl: 'https://github.com/o/r/pull/1' })
+    );
+  });
+
+  it('tracks every raw item merged into a deduplicated event', async () => {
+    const original = rawEvent(
+      '2025-03-10-openai_blog-abc123',
+      'Introducing GPT-6',
+      'https://a.test/1'
+    );
+    const syndicated = rawEvent(
+      '2025-03-10-techcrunch-fff000',
+      'Introducing GPT-6',
+      'https://a.test/1'
+    );
+    const [merged] = await new DeduplicationService().deduplicate([original, syndicated]);
+
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+    ledger.recordAnalyses([analyzedFrom(merged, '2025-03-10-introducing-gpt-6')], [merged]);
+
+    expect(getRawItemIds(merged.metadata)).toEqual([
+      '2025-03-10-openai_blog-abc123',
+      '2025-03-10-techcrunch-fff000'
+    ]);
+    expect(ledger.has('2025-03-10-openai_blog-abc123')).toBe(true);
+    expect(ledger.has('2025-03-10-techcrunch-fff000')).toBe(true);
+  });
+
+  it('matches reposted coverage with a new item id against stored events', async () => {
+    const launch = rawEvent(
+      '2025-03-10-openai_blog-abc123',
+      'Introducing GPT-6',
+      'https://openai.com/index/gpt-6'
+    );
+    const dataset = rawEvent('2025-03-10-huggingface-def456', 'Open dataset', 'https://b.test/2');
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+    ledger.recordAnalyses(
+      [
+        analyzedFrom(launch, '2025-03-10-introducing-gpt-6'),
+        analyzedFrom(dataset, '2025-03-10-open-dataset')
+      ],
+      [launch, dataset]
+    );
+    ledger.recordOutcome([analyzedFrom(dataset, '2025-03-10-open-dataset')], 'published');
+
+    const repost = rawEvent(
+      '2025-03-11-techcrunch-aaa111',
+      'Introducing GPT-6',
+      'https://techcrunch.test/openai-gpt-6'
+    );
+    const mirrored = rawEvent('2025-03-11-hn-bbb222', 'HN: a new open dataset', 'https://b.test/2');
+    const newcomer = rawEvent('2025-03-11-anthropic-ccc333', 'Claude update', 'https://c.test/3');
+    const partition = ledger.partition([repost, mirrored, newcomer]);
+
+    expect(partition.fresh).toEqual([newcomer]);
+    expect(partition.skipped).toBe(2);
+    expect(partition.matchedByContent).toBe(2);
+    expect(partition.cached.map((event) => event.id)).toEqual(['2025-03-10-introducing-gpt-6']);
+    expect(getRawItemIds(partition.cached[0].metadata)).toEqual([
+      '2025-03-10-openai_blog-abc123',
+      '2025-03-11-techcrunch-aaa111'
+    ]);
+    expect(ledger.getEventForItem('2025-03-11-hn-bbb222')?.outcome).toBe('published');
+  });
+
+  it('prunes items by last-seen date and caps the ledger', async () => {
+    const events = [
+      rawEvent('2025-01-01-openai_blog-aaa111', 'Old launch', 'https://a.test/old'),
+      rawEvent('2025-03-01-openai_blog-bbb222', 'Recent launch', 'https://a.test/recent'),
+      rawEvent('2025-03-02-huggingface-ccc333', 'Newest dataset', 'https://b.test/newest')
+    ];
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+    const seenOn = ['2025-01-01T00:00:00Z', '2025-03-01T00:00:00Z', '2025-03-02T00:00:00Z'];
+
+    let removed: number;
+    try {
+      events.forEach((event, index) => {
+        setClock(new FixedClock(seenOn[index]));
+        ledger.recordAnalyses([analyzedFrom(event, `event-${index}`)], [event]);
+      });
+
+      setClock(new FixedClock('2025-03-10T00:00:00Z'));
+      removed = ledger.prune({ retentionDays: 30, maxItems: 1 });
+    } finally {
+      setClock(null);
+    }
+    await ledger.save();
+    const saved = JSON.parse(await fs.readFile(ledgerPath, 'utf-8'));
+
+    expect(removed).toBe(2);
+    expect(Object.keys(saved.items)).toEqual(['2025-03-02-huggingface-ccc333']);
+    expect(Object.keys(saved.events)).toEqual(['event-2']);
+    expect(ledger.prune({ retentionDays: 30, maxItems: 1 }, new Date('2025-03-10'))).toBe(0);
+  });
+
+  it('ignores a corrupt ledger file', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.writeFile(ledgerPath, '{ not json', 'utf-8');
+
+    const ledger = await SeenItemsLedger.load(ledgerPath);
+
+    expect(ledger.itemCount).toBe(0);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Random-hyperplane LSH (SimHash) over embedding vectors.
+ * Used to find candidate pairs with high cosine similarity without comparing every pair of
+ * vectors: the chance that two vectors fall on the same side of a random hyperplane is
+ * 1 - angle / π, so vectors that share every bit of a band are likely close in angle.
+ */
+
+/**
+ * Configuration for the cosine LSH index
+ */
+export interface CosineLshConfig {
+  /** Random hyperplanes, i.e. signature bits computed per vector */
+  numHyperplanes?: number;
+  /** Number of LSH bands; more bands favour recall over precision */
+  bands?: number;
+  /** Signature bits per band, sampled from the hyperplanes (at most 30) */
+  rowsPerBand?: number;
+  /** Seed for the hyperplanes and band bits, for reproducible candidates */
+  seed?: number;
+}
+
+const MAX_ROWS_PER_BAND = 30;
+
+/**
+ * xorshift32 PRNG returning values in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    state >>>= 0;
+    return state / 0x100000000;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * In-memory cosine LSH index. Vectors are identified by insertion order and must all have the
+ * dimensions of the first one.
+ */
+export class CosineLshIndex {
+  private readonly numHyperplanes: number;
+  private readonly bands: number;
+  private readonly rowsPerBand: number;
+  private readonly random: () => number;
+  /** Signature bit of each band row */
+  private readonly bandBits: Uint16Array;
+  private readonly buckets: Map<number, number[]>[];
+  private hyperplanes?: Float64Array;
+  private dimensions = 0;
+  private count = 0;
+
+  constructor(config: CosineLshConfig = {}) {
+    this.numHyperplanes = config.numHyperplanes ?? 128;
+    this.bands = config.bands ?? 32;
+    this.rowsPerBand = config.rowsPerBand ?? 10;
+
+    if (this.rowsPerBand > MAX_ROWS_PER_BAND || this.rowsPerBand > this.numHyperplanes) {
+      throw new Error(
+        `Cosine LSH rowsPerBand (${this.rowsPerBand}) must be at most ${MAX_ROWS_PER_BAND} and numHyperplanes (${this.numHyperplanes})`
+      );
+    }
+
+    this.random = createRandom(config.seed ?? 0x9e3779b9);
+    this.bandBits = new Uint16Array(this.bands * this.rowsPerBand);
+    for (let band = 0; band < this.bands; band++) {
+      // Distinct bits within a band, drawn with a partial Fisher-Yates shuffle
+      const pool = Array.from({ length: this.numHyperplanes }, (_, index) => index);
+      for (let row = 0; row < this.rowsPerBand; row++) {
+        const pick = row + Math.floor(this.random() * (pool.length - row));
+        [pool[row], pool[pick]] = [pool[pick], pool[row]];
+        this.bandBits[band * this.rowsPerBand + row] = pool[row];
+      }
+    }
+
+    this.buckets = Array.from({ length: this.bands }, () => new Map<number, number[]>());
+  }
+
+  /**
+   * Number of indexed vectors
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  /**
+   * Index a vector and return its id
+   * @throws Error when the vector has different dimensions than the first one
+   */
+  add(vector: number[]): number {
+    const id = this.count++;
+    const signature = this.computeSignature(vector);
+
+    // Zero vectors have no direction and never become candidates
+    if (!signature) {
+      return id;
+    }
+
+    for (let band = 0; band < this.bands; band++) {
+      let key = 0;
+      for (let row = 0; row < this.rowsPerBand; row++) {
+        key = (key << 1) | signature[this.bandBits[band * this.rowsPerBand + row]];
+      }
+      const bucket = this.buckets[band].get(key);
+      if (bucket) {
+        bucket.push(id);
+      } else {
+        this.buckets[band].set(key, [id]);
+      }
+    }
+
+    return id;
+  }
+
+  /**
+   * Candidate pairs that share at least one LSH band
+   * @returns Map from each vector id to candidate ids greater than it
+   */
+  findCandidatePairs(): Map<number, Set<number>> {
+    const candidates = new Map<number, Set<number>>();
+
+    for (const bandBuckets of this.buckets) {
+      for (const ids of bandBuckets.values()) {
+        for (let a = 0; a < ids.length; a++) {
+          for (let b = a + 1; b < ids.length; b++) {
+            // Ids are added in increasing order, so ids[a] < ids[b]
+            let neighbours = candidates.get(ids[a]);
+            if (!neighbours) {
+              neighbours = new Set<number>();
+              candidates.set(ids[a], neighbours);
+            }
+            neighbours.add(ids[b]);
+          }
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Sign of the vector's projection on each hyperplane, or null for a zero vector
+   */
+  private computeSignature(vector: number[]): Uint8Array | null {
+    const hyperplanes = this.getHyperplanes(vector.length);
+    if (vector.every((value) => value === 0)) {
+      return null;
+    }
+
+    const signature = new Uint8Array(this.numHyperplanes);
+    for (let plane = 0; plane < this.numHyperplanes; plane++) {
+      const offset = plane * this.dimensions;
+      let dot = 0;
+      for (let i = 0; i < this.dimensions; i++) {
+        dot += hyperplanes[offset + i] * vector[i];
+      }
+      signature[plane] = dot >= 0 ? 1 : 0;
+    }
+
+    return signature;
+  }
+
+  private getHyperplanes(dimensions: number): Float64Array {
+    if (!this.hyperplanes) {
+      this.dimensions = dimensions;
+      this.hyperplanes = new Float64Array(this.numHyperplanes * dimensions);
+      for (let i = 0; i < this.hyperplanes.length; i++) {
+        this.hyperplanes[i] = gaussian(this.random);
+      }
+    } else if (dimensions !== this.dimensions) {
+      throw new Error(
+        `Cannot index a vector of ${dimensions} dimensions alongside ${this.dimensions}`
+      );
+    }
+    return this.hyperplanes;
+  }
+}
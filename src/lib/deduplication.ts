@@ -1,10 +1,23 @@
 /**
  * Deduplication service for identifying and merging duplicate events from different sources
- * Uses multiple strategies including title similarity, URL matching, and content hashing
+ * Uses multiple strategies including title similarity, URL matching, content hashing and,
+ * when an embedding provider is available, semantic similarity of titles and summaries.
+ * Candidate pairs come from a MinHash/LSH index, plus a random-hyperplane LSH index over the
+ * embeddings in semantic mode, so only likely duplicates are scored in full.
  */
 
 import * as crypto from 'node:crypto';
+import type { PipelineConfig } from '../config';
+import type { LLMProvider } from '../llm';
 import type { RawEvent } from '../types';
+import { CosineLshIndex } from './cosine-lsh';
+import { cosineSimilarity, embedTexts } from './embeddings';
+import { MinHashLshIndex } from './minhash';
+
+/**
+ * Matching strategy used to detect duplicates
+ */
+export type DeduplicationMode = 'lexical' | 'semantic';
 
 /**
  * Configuration for deduplication
@@ -16,6 +29,30 @@ export interface DeduplicationConfig {
   useFuzzyMatching?: boolean;
   /** Time window in milliseconds for considering events as potential duplicates */
   timeWindowMs?: number;
+  /** Matching strategy; semantic mode falls back to lexical without embeddings */
+  mode?: DeduplicationMode;
+  /** Minimum cosine similarity for events to be clustered semantically (0-1) */
+  embedSimilarityMin?: number;
+  /** Embedding model requested from the provider */
+  embeddingModel?: string;
+  /** Provider (or fallback chain) used to embed titles and summaries */
+  embeddingProvider?: LLMProvider;
+  /** Character shingle size used for MinHash signatures */
+  shingleSize?: number;
+  /** Maximum estimated Jaccard distance for candidates to merge without full scoring (0-1) */
+  minhashJaccardMax?: number;
+}
+
+/**
+ * Candidate pairs produced by the LSH indexes
+ */
+interface CandidateIndex {
+  /** Map from each event index to lexical candidate indexes greater than it */
+  neighbours: Map<number, Set<number>>;
+  /** Map from each event index to embedding candidate indexes greater than it */
+  semanticNeighbours: Map<number, Set<number>>;
+  /** Index over title plus content prefix, used to estimate Jaccard similarity */
+  document: MinHashLshIndex;
 }
 
 /**
@@ -37,24 +74,54 @@ export class DeduplicationService {
   private readonly similarityThreshold: number;
   private readonly useFuzzyMatching: boolean;
   private readonly timeWindowMs: number;
+  private readonly mode: DeduplicationMode;
+  private readonly embedSimilarityMin: number;
+  private readonly embeddingModel?: string;
+  private readonly embeddingProvider?: LLMProvider;
+  private readonly shingleSize: number;
+  private readonly minhashJaccardMax: number;
 
   constructor(config?: DeduplicationConfig) {
     this.similarityThreshold = config?.similarityThreshold ?? 0.6;
     this.useFuzzyMatching = config?.useFuzzyMatching ?? true;
     this.timeWindowMs = config?.timeWindowMs ?? 48 * 60 * 60 * 1000; // 48 hours
+    this.mode = config?.mode ?? 'lexical';
+    this.embedSimilarityMin = config?.embedSimilarityMin ?? 0.88;
+    this.embeddingModel = config?.embeddingModel;
+    this.embeddingProvider = config?.embeddingProvider;
+    this.shingleSize = config?.shingleSize ?? 3;
+    this.minhashJaccardMax = config?.minhashJaccardMax ?? 0.12;
+  }
+
+  /**
+   * Build a service from the `dedupe` section of pipeline.yaml
+   */
+  static fromPipelineConfig(
+    dedupe: PipelineConfig['dedupe'],
+    embeddingProvider?: LLMProvider
+  ): DeduplicationService {
+    return new DeduplicationService({
+      mode: 'semantic',
+      embedSimilarityMin: dedupe.embed_similarity_min,
+      embeddingModel: dedupe.embedding_model,
+      embeddingProvider,
+      shingleSize: dedupe.shingle_size,
+      minhashJaccardMax: dedupe.minhash_jaccard_max
+    });
   }
 
   /**
    * Deduplicate a list of events
    * @returns Unique events with merged information from duplicates
    */
-  public deduplicate(events: RawEvent[]): RawEvent[] {
+  public async deduplicate(events: RawEvent[]): Promise<RawEvent[]> {
     if (events.length === 0) {
       return [];
     }
 
     // Group events by potential duplicates
-    const groups = this.findDuplicateGroups(events);
+    const embeddings = await this.embedEvents(events);
+    const groups = this.findDuplicateGroups(events, embeddings);
 
     // Merge each group into a single event
     const deduplicatedEvents = groups.map((group) => this.mergeEventGroup(group));
@@ -62,12 +129,94 @@ export class DeduplicationService {
     return deduplicatedEvents;
   }
 
+  /**
+   * Match events against events known from earlier runs, using the lexical checks only so
+   * known events never need to be embedded again
+   * @returns For each event, the index of the known event it duplicates, or -1
+   */
+  public findKnownDuplicates(events: RawEvent[], known: RawEvent[]): number[] {
+    const matches = events.map(() => -1);
+    if (events.length === 0 || known.length === 0) {
+      return matches;
+    }
+
+    const combined = [...known, ...events];
+    const candidates = this.buildCandidateIndex(combined);
+    const bestScores = events.map(() => 0);
+
+    for (const [low, highs] of candidates.neighbours) {
+      if (low >= known.length) {
+        continue;
+      }
+      for (const high of highs) {
+        if (high < known.length) {
+          continue;
+        }
+        const offset = high - known.length;
+        const similarity = this.scoreCandidatePair(combined, low, high, candidates.document, null);
+        if (similarity >= this.similarityThreshold && similarity > bestScores[offset]) {
+          bestScores[offset] = similarity;
+          matches[offset] = low;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Resolve the strategy that will actually be used for the next run
+   */
+  public getEffectiveMode(): DeduplicationMode {
+    if (this.mode === 'semantic' && this.embeddingProvider?.supportsEmbeddings()) {
+      return 'semantic';
+    }
+    return 'lexical';
+  }
+
+  /**
+   * Embed titles and summaries when semantic mode is available
+   * @returns One vector per event, or null to use lexical matching only
+   */
+  private async embedEvents(events: RawEvent[]): Promise<number[][] | null> {
+    if (this.getEffectiveMode() !== 'semantic' || !this.embeddingProvider) {
+      return null;
+    }
+
+    try {
+      return await embedTexts(
+        this.embeddingProvider,
+        events.map((event) => this.getEmbeddingText(event)),
+        { model: this.embeddingModel }
+      );
+    } catch (error) {
+      console.warn(
+        'Semantic deduplication unavailable, falling back to lexical matching:',
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Text used to represent an event in embedding space
+   */
+  private getEmbeddingText(event: RawEvent): string {
+    const summary =
+      typeof event.metadata?.summary === 'string' ? event.metadata.summary : event.content;
+    return `${event.title}\n${(summary ?? '').substring(0, 500)}`.trim();
+  }
+
   /**
    * Find groups of duplicate events
    */
-  private findDuplicateGroups(events: RawEvent[]): DuplicateGroup[] {
+  private findDuplicateGroups(
+    events: RawEvent[],
+    embeddings: number[][] | null = null
+  ): DuplicateGroup[] {
     const groups: DuplicateGroup[] = [];
     const processed = new Set<number>();
+    const candidates = this.buildCandidateIndex(events, embeddings);
 
     for (let i = 0; i < events.length; i++) {
       if (processed.has(i)) {
@@ -82,13 +231,23 @@ export class DeduplicationService {
 
       processed.add(i);
 
+      const lexicalCandidates = candidates.neighbours.get(i);
+
+      // Embeddings can match events with no lexical overlap, so semantic mode also visits
+      // the candidates of the embedding index
+      const neighbours = Array.from(
+        new Set([...(lexicalCandidates ?? []), ...(candidates.semanticNeighbours.get(i) ?? [])])
+      ).sort((a, b) => a - b);
+
       // Find all duplicates of this event
-      for (let j = i + 1; j < events.length; j++) {
+      for (const j of neighbours) {
         if (processed.has(j)) {
           continue;
         }
 
-        const similarity = this.calculateSimilarity(events[i], events[j]);
+        const similarity = lexicalCandidates?.has(j)
+          ? this.scoreCandidatePair(events, i, j, candidates.document, embeddings)
+          : this.scoreEmbeddingsOnly(events[i], events[j], embeddings?.[i], embeddings?.[j]);
 
         if (similarity >= this.similarityThreshold) {
           group.duplicates.push(events[j]);
@@ -108,6 +267,109 @@ export class DeduplicationService {
     return groups;
   }
 
+  /**
+   * Index events with MinHash/LSH and collect candidate pairs.
+   * Titles are indexed separately so retitled coverage with different bodies is still found,
+   * and exact URL matches are always candidates. Embeddings, when given, are indexed with
+   * random-hyperplane LSH for candidates with a high cosine similarity.
+   */
+  private buildCandidateIndex(
+    events: RawEvent[],
+    embeddings: number[][] | null = null
+  ): CandidateIndex {
+    const document = new MinHashLshIndex({ shingleSize: this.shingleSize });
+    const titles = new MinHashLshIndex({ shingleSize: this.shingleSize });
+    const eventsByUrl = new Map<string, number>();
+    const neighbours = new Map<number, Set<number>>();
+
+    const addPair = (low: number, high: number) => {
+      let set = neighbours.get(low);
+      if (!set) {
+        set = new Set<number>();
+        neighbours.set(low, set);
+      }
+      set.add(high);
+    };
+
+    events.forEach((event, index) => {
+      document.add(`${event.title} ${(event.content ?? '').substring(0, 200)}`);
+      titles.add(event.title);
+
+      const firstWithUrl = eventsByUrl.get(event.url);
+      if (firstWithUrl === undefined) {
+        eventsByUrl.set(event.url, index);
+      } else {
+        addPair(firstWithUrl, index);
+      }
+    });
+
+    for (const index of [document, titles]) {
+      for (const [low, highs] of index.findCandidatePairs()) {
+        for (const high of highs) {
+          addPair(low, high);
+        }
+      }
+    }
+
+    let semanticNeighbours = new Map<number, Set<number>>();
+    if (embeddings) {
+      const vectors = new CosineLshIndex();
+      for (const vector of embeddings) {
+        vectors.add(vector);
+      }
+      semanticNeighbours = vectors.findCandidatePairs();
+    }
+
+    return { neighbours, semanticNeighbours, document };
+  }
+
+  /**
+   * Score a pair proposed by the LSH index. Near-identical pairs (estimated Jaccard distance
+   * within minhashJaccardMax) are accepted without running the full similarity checks.
+   */
+  private scoreCandidatePair(
+    events: RawEvent[],
+    i: number,
+    j: number,
+    document: MinHashLshIndex,
+    embeddings: number[][] | null
+  ): number {
+    const event1 = events[i];
+    const event2 = events[j];
+    const timeDiff = Math.abs(event1.date.getTime() - event2.date.getTime());
+    const estimatedJaccard = document.estimateJaccard(i, j);
+
+    if (timeDiff <= this.timeWindowMs && 1 - estimatedJaccard <= this.minhashJaccardMax) {
+      return Math.max(estimatedJaccard, this.similarityThreshold);
+    }
+
+    return embeddings
+      ? this.calculateSemanticSimilarity(event1, event2, embeddings[i], embeddings[j])
+      : this.calculateSimilarity(event1, event2);
+  }
+
+  /**
+   * Score a pair with no lexical overlap, which can only match on embeddings
+   */
+  private scoreEmbeddingsOnly(
+    event1: RawEvent,
+    event2: RawEvent,
+    vector1?: number[],
+    vector2?: number[]
+  ): number {
+    if (!vector1 || !vector2) {
+      return 0;
+    }
+
+    const timeDiff = Math.abs(event1.date.getTime() - event2.date.getTime());
+    if (timeDiff > this.timeWindowMs) {
+      return 0;
+    }
+
+    const cosine = cosineSimilarity(vector1, vector2);
+    return cosine >= this.embedSimilarityMin ? Math.max(cosine, this.similarityThreshold) : 0;
+  }
+
   /**
    * Calculate similarity between two events
    */
@@ -153,6 +415,36 @@ export class DeduplicationService {
     return scores.reduce((a, b) => a + b, 0);
   }
 
+  /**
+   * Calculate similarity using embeddings on top of the lexical checks.
+   * Events whose cosine similarity reaches embedSimilarityMin are treated as duplicates
+   * even when they are worded completely differently.
+   */
+  private calculateSemanticSimilarity(
+    event1: RawEvent,
+    event2: RawEvent,
+    vector1: number[],
+    vector2: number[]
+  ): number {
+    const lexical = this.calculateSimilarity(event1, event2);
+    if (lexical >= this.similarityThreshold) {
+      return lexical;
+    }
+
+    const timeDiff = Math.abs(event1.date.getTime() - event2.date.getTime());
+    if (timeDiff > this.timeWindowMs) {
+      return lexical;
+    }
+
+    const cosine = cosineSimilarity(vector1, vector2);
+    if (cosine >= this.embedSimilarityMin) {
+      // Report the cosine score but never below the lexical duplicate threshold
+      return Math.max(cosine, this.similarityThreshold);
+    }
+
+    return lexical;
+  }
+
   /**
    * Calculate text similarity using various methods
    */
@@ -346,10 +638,14 @@ export class DeduplicationService {
     // Collect all unique sources
     const sources = new Set<string>();
     const urls = new Set<string>();
+    const itemIds = new Set<string>();
 
     for (const event of duplicates) {
       sources.add(event.source);
       urls.add(event.url);
+      if (typeof event.metadata?.raw_item_id === 'string') {
+        itemIds.add(event.metadata.raw_item_id);
+      }
 
       // Use longer content if available
       if (event.content && event.content.length > (merged.content?.length ?? 0)) {
@@ -376,6 +672,11 @@ export class DeduplicationService {
       urls: Array.from(urls)
     };
 
+    // Keep every connector item id so the seen-items ledger can track merged items
+    if (itemIds.size > 0) {
+      merged.metadata.merged_item_ids = Array.from(itemIds);
+    }
+
     return merged;
   }
 
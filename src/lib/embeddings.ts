@@ -0,0 +1,80 @@
+/**
+ * Embedding helpers shared by the semantic pipeline stages
+ */
+
+import type { LLMProvider } from '../llm';
+
+export interface EmbedTextsOptions {
+  /** Embedding model override passed to the provider */
+  model?: string;
+  /** Number of inputs sent per embed request */
+  batchSize?: number;
+  /** Correlation ID forwarded to the provider */
+  correlationId?: string;
+}
+
+/**
+ * Embed a list of texts in batches, preserving input order
+ */
+export async function embedTexts(
+  provider: LLMProvider,
+  texts: string[],
+  options: EmbedTextsOptions = {}
+): Promise<number[][]> {
+  const batchSize = Math.max(1, options.batchSize ?? 64);
+  const vectors: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize);
+    const result = await provider.embed({
+      input: batch,
+      model: options.model,
+      correlationId: options.correlationId
+    });
+
+    if (result.vectors.length !== batch.length) {
+      throw new Error(
+        `Embedding provider ${result.providerId} returned ${result.vectors.length} vectors for ${batch.length} inputs`
+      );
+    }
+
+    vectors.push(...result.vectors);
+  }
+
+  // A fallback chain may answer later batches with a different model
+  const dimensions = vectors[0]?.length;
+  const mismatched = vectors.findIndex((vector) => vector.length !== dimensions);
+  if (mismatched !== -1) {
+    throw new Error(
+      `Embedding ${mismatched} has ${vectors[mismatched].length} dimensions, expected ${dimensions}`
+    );
+  }
+
+  return vectors;
+}
+
+/**
+ * Cosine similarity between two vectors (0 when either vector is empty)
+ * @throws Error when the vectors have different dimensions
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Cannot compare vectors of ${a.length} and ${b.length} dimensions`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,237 @@
+/**
+ * MinHash signatures with locality-sensitive hashing (LSH) banding.
+ * Used to find candidate near-duplicate pairs without comparing every pair of events.
+ */
+
+/**
+ * Configuration for the MinHash/LSH index
+ */
+export interface MinHashLshConfig {
+  /** Character shingle size used to tokenize text */
+  shingleSize?: number;
+  /** Number of hash functions per signature (must be divisible by bands) */
+  numHashes?: number;
+  /** Number of LSH bands; more bands favour recall over precision */
+  bands?: number;
+  /** Seed for the hash function salts, for reproducible signatures */
+  seed?: number;
+}
+
+const EMPTY_SLOT = 0xffffffff;
+
+/**
+ * 32-bit integer multiply. Math.imul is not inlined when code runs inside a vm context
+ * (as under Jest), which makes signature computation dramatically slower there.
+ */
+function multiply32(a: number, b: number): number {
+  const aLow = a & 0xffff;
+  const aHigh = a >>> 16;
+  return (aLow * b + (((aHigh * b) & 0xffff) << 16)) >>> 0;
+}
+
+/**
+ * Murmur3 finalizer: cheap, well-distributed 32-bit mixing
+ */
+function mix32(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = multiply32(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = multiply32(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * FNV-1a hash of a substring, avoiding intermediate string allocation
+ */
+function hashSubstring(text: string, start: number, end: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = start; i < end; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = multiply32(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Normalize text before shingling
+ */
+export function normalizeForShingles(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash the character shingles of a text into a set of 32-bit values
+ */
+export function shingle(text: string, size: number): Set<number> {
+  const normalized = normalizeForShingles(text);
+  const shingles = new Set<number>();
+
+  if (normalized.length === 0) {
+    return shingles;
+  }
+
+  if (normalized.length <= size) {
+    shingles.add(hashSubstring(normalized, 0, normalized.length));
+    return shingles;
+  }
+
+  for (let i = 0; i + size <= normalized.length; i++) {
+    shingles.add(hashSubstring(normalized, i, i + size));
+  }
+
+  return shingles;
+}
+
+/**
+ * In-memory MinHash/LSH index. Documents are identified by insertion order.
+ */
+export class MinHashLshIndex {
+  private readonly shingleSize: number;
+  private readonly numHashes: number;
+  private readonly bands: number;
+  private readonly rowsPerBand: number;
+  private readonly salts: Uint32Array;
+  private readonly signatures: Uint32Array[] = [];
+  private readonly buckets: Map<number, number[]>[];
+
+  constructor(config: MinHashLshConfig = {}) {
+    this.shingleSize = Math.max(1, config.shingleSize ?? 3);
+    this.numHashes = config.numHashes ?? 128;
+    this.bands = config.bands ?? 32;
+
+    if (this.numHashes % this.bands !== 0) {
+      throw new Error(
+        `MinHash numHashes (${this.numHashes}) must be divisible by bands (${this.bands})`
+      );
+    }
+
+    this.rowsPerBand = this.numHashes / this.bands;
+    this.salts = new Uint32Array(this.numHashes);
+
+    let state = (config.seed ?? 0x9e3779b9) >>> 0;
+    for (let i = 0; i < this.numHashes; i++) {
+      state = mix32(state + 0x9e3779b9);
+      this.salts[i] = state;
+    }
+
+    this.buckets = Array.from({ length: this.bands }, () => new Map<number, number[]>());
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.signatures.length;
+  }
+
+  /**
+   * Index a document and return its id
+   */
+  add(text: string): number {
+    const id = this.signatures.length;
+    const signature = this.computeSignature(shingle(text, this.shingleSize));
+    this.signatures.push(signature);
+
+    // Documents without shingles never become candidates
+    if (signature[0] === EMPTY_SLOT) {
+      return id;
+    }
+
+    for (let band = 0; band < this.bands; band++) {
+      const key = this.bandKey(signature, band);
+      const bucket = this.buckets[band].get(key);
+      if (bucket) {
+        bucket.push(id);
+      } else {
+        this.buckets[band].set(key, [id]);
+      }
+    }
+
+    return id;
+  }
+
+  /**
+   * Candidate pairs that share at least one LSH band
+   * @returns Map from each document id to candidate ids greater than it
+   */
+  findCandidatePairs(): Map<number, Set<number>> {
+    const candidates = new Map<number, Set<number>>();
+
+    for (const bandBuckets of this.buckets) {
+      for (const ids of bandBuckets.values()) {
+        if (ids.length < 2) {
+          continue;
+        }
+
+        for (let a = 0; a < ids.length; a++) {
+          for (let b = a + 1; b < ids.length; b++) {
+            const low = Math.min(ids[a], ids[b]);
+            const high = Math.max(ids[a], ids[b]);
+            let neighbours = candidates.get(low);
+            if (!neighbours) {
+              neighbours = new Set<number>();
+              candidates.set(low, neighbours);
+            }
+            neighbours.add(high);
+          }
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Estimate the Jaccard similarity of two indexed documents from their signatures
+   */
+  estimateJaccard(a: number, b: number): number {
+    const left = this.signatures[a];
+    const right = this.signatures[b];
+
+    if (!left || !right || left[0] === EMPTY_SLOT || right[0] === EMPTY_SLOT) {
+      return 0;
+    }
+
+    let matches = 0;
+    for (let i = 0; i < this.numHashes; i++) {
+      if (left[i] === right[i]) {
+        matches++;
+      }
+    }
+
+    return matches / this.numHashes;
+  }
+
+  private computeSignature(shingles: Set<number>): Uint32Array {
+    const signature = new Uint32Array(this.numHashes).fill(EMPTY_SLOT);
+
+    for (const value of shingles) {
+      // Mix once per shingle, then derive each permutation with a single xor-multiply-shift
+      const mixed = mix32(value);
+      for (let i = 0; i < this.numHashes; i++) {
+        let hashed = multiply32(mixed ^ this.salts[i], 0x9e3779b1);
+        hashed = (hashed ^ (hashed >>> 16)) >>> 0;
+        if (hashed < signature[i]) {
+          signature[i] = hashed;
+        }
+      }
+    }
+
+    return signature;
+  }
+
+  private bandKey(signature: Uint32Array, band: number): number {
+    let key = band;
+    const offset = band * this.rowsPerBand;
+    for (let row = 0; row < this.rowsPerBand; row++) {
+      key = mix32(key ^ signature[offset + row]) + row;
+    }
+    return key >>> 0;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Archive of collected raw events, one JSON file per run day, so later tooling (such as the
+ * backtest) can replay ingestion without fetching the sources again. Fixture directories use
+ * the same layout; a file may also hold a plain array of events.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { RawEvent } from '../types';
+
+const ARCHIVE_VERSION = 1;
+
+interface RawEventArchiveFile {
+  version: number;
+  runDate: string;
+  events: ArchivedRawEvent[];
+}
+
+/**
+ * RawEvent as stored on disk, with the date as an ISO string
+ */
+type ArchivedRawEvent = Omit<RawEvent, 'date'> & { date: string };
+
+/**
+ * Events to load, by event date (inclusive)
+ */
+export interface RawEventWindow {
+  since?: Date;
+  until?: Date;
+}
+
+function eventKey(event: Pick<RawEvent, 'url' | 'title'>): string {
+  return `${event.url}\n${event.title.trim().toLowerCase()}`;
+}
+
+function toArchived(event: RawEvent): ArchivedRawEvent {
+  return { ...event, date: event.date.toISOString() };
+}
+
+function fromArchived(event: ArchivedRawEvent): RawEvent | null {
+  const date = new Date(event.date);
+  if (!event.title || !event.url || Number.isNaN(date.getTime())) {
+    return null;
+  }
+  return { ...event, content: event.content ?? '', date };
+}
+
+async function readArchiveFile(filePath: string): Promise<ArchivedRawEvent[]> {
+  const parsed = JSON.parse(await fs.readFile(filePath, 'utf-8')) as
+    | Partial<RawEventArchiveFile>
+    | ArchivedRawEvent[];
+
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  if (parsed.version !== ARCHIVE_VERSION || !Array.isArray(parsed.events)) {
+    throw new Error(`Unsupported raw event archive format: ${filePath}`);
+  }
+  return parsed.events;
+}
+
+/**
+ * Add a run's events to the archive file of its day, replacing events already archived
+ * with the same URL and title
+ * @returns Path of the archive file
+ */
+export async function archiveRawEvents(
+  dir: string,
+  events: RawEvent[],
+  runDate: Date
+): Promise<string> {
+  const day = runDate.toISOString().slice(0, 10);
+  const filePath = path.resolve(process.cwd(), dir, `raw-events-${day}.json`);
+
+  const existing = await readArchiveFile(filePath).catch((error) => {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Replacing unreadable raw event archive ${filePath}:`, (error as Error).message);
+    }
+    return [];
+  });
+
+  const byKey = new Map(existing.map((event) => [eventKey(event), event]));
+  for (const event of events) {
+    byKey.set(eventKey(event), toArchived(event));
+  }
+
+  const file: RawEventArchiveFile = {
+    version: ARCHIVE_VERSION,
+    runDate: day,
+    events: [...byKey.values()]
+  };
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, 'utf-8');
+  await fs.rename(tempPath, filePath);
+
+  return filePath;
+}
+
+/**
+ * Load every archived event in `dir` whose date falls in the window. Events archived by
+ * several runs are returned once, in date order.
+ */
+export async function loadRawEvents(dir: string, window: RawEventWindow = {}): Promise<RawEvent[]> {
+  const resolved = path.resolve(process.cwd(), dir);
+  const fileNames = (await fs.readdir(resolved)).filter((name) => name.endsWith('.json')).sort();
+  const byKey = new Map<string, RawEvent>();
+
+  for (const fileName of fileNames) {
+    for (const archived of await readArchiveFile(path.join(resolved, fileName))) {
+      const event = fromArchived(archived);
+      if (!event) {
+        continue;
+      }
+      if (window.since && event.date < window.since) {
+        continue;
+      }
+      if (window.until && event.date > window.until) {
+        continue;
+      }
+      byKey.set(eventKey(event), event);
+    }
+  }
+
+  return [...byKey.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,546 @@
+/**
+ * Record/replay of a complete pipeline run.
+ *
+ * In record mode every HTTP exchange made through `utils/http`, every LLM call made by
+ * providers from `createLLMProvider`, and every timeline read or publish is
+ * captured into `<dir>/recording.json`, along with a snapshot of the run result. Replay
+ * serves those captures back without touching the network, so rerunning a historical week
+ * after a prompt or scoring change shows exactly what the change does to the result.
+ *
+ * Both modes pin the clock to the recorded start time so ingestion windows and analysis
+ * timestamps line up. Wall-clock duration is left out of the result snapshot.
+ */
+
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  type LLMBudgetConfig,
+  type LLMCompletionRequest,
+  type LLMCompletionResult,
+  type LLMEmbeddingRequest,
+  type LLMEmbeddingResult,
+  type LLMProvider,
+  type LLMProviderInterceptor,
+  setLLMProviderInterceptor
+} from '../llm';
+import {
+  setTimelineInterceptor,
+  type TimelineData,
+  type TimelineInterceptor,
+  type TimelinePublishResult
+} from '../timeline';
+import { FixedClock, setClock } from '../utils/clock';
+import { BaseError, ConfigurationError } from '../utils/errors';
+import {
+  type HttpInterceptor,
+  type InterceptedHttpRequest,
+  setHttpInterceptor
+} from '../utils/http';
+
+/** File holding the captured exchanges inside the recording directory */
+export const RECORDING_FILENAME = 'recording.json';
+
+/** File holding the snapshot of the recorded run result */
+export const RECORDED_RESULT_FILENAME = 'result.json';
+
+const RECORDING_VERSION = 1;
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+const MAX_REPORTED_DIFFERENCES = 20;
+
+export type RunRecordingMode = 'record' | 'replay';
+
+interface RecordedError {
+  name: string;
+  message: string;
+}
+
+interface RecordedHttpResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface RecordedHttpExchange {
+  key: string;
+  occurrence: number;
+  method: string;
+  url: string;
+  response?: RecordedHttpResponse;
+  error?: RecordedError;
+}
+
+type RecordedLlmOperation = 'complete' | 'embed';
+
+interface RecordedLlmExchange {
+  key: string;
+  occurrence: number;
+  operation: RecordedLlmOperation;
+  result?: LLMCompletionResult | LLMEmbeddingResult;
+  error?: RecordedError;
+}
+
+interface RecordedLlmProvider {
+  id?: string;
+  model?: string;
+  supportsEmbeddings?: boolean;
+  error?: RecordedError;
+}
+
+interface RecordedCall<T> {
+  result?: T;
+  error?: RecordedError;
+}
+
+interface RunRecordingFile {
+  version: number;
+  startedAt: string;
+  http: RecordedHttpExchange[];
+  llm: {
+    providers: RecordedLlmProvider[];
+    exchanges: RecordedLlmExchange[];
+  };
+  timeline: {
+    reads: RecordedCall<TimelineData>[];
+    publishes: RecordedCall<TimelinePublishResult>[];
+  };
+}
+
+/**
+ * Outcome of comparing a replayed result with the recorded snapshot
+ */
+export interface RunReplayComparison {
+  matches: boolean;
+  /** JSON paths whose values differ, capped for readability */
+  differences: string[];
+}
+
+export class RecordingMissError extends BaseError {
+  constructor(description: string) {
+    super(`No recorded response for ${description}`, { description });
+  }
+}
+
+function hashKey(value: unknown): string {
+  return crypto.createHash('sha1').update(JSON.stringify(value)).digest('hex');
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Error', message: String(error) };
+}
+
+function fromRecordedError(recorded: RecordedError): Error {
+  const error = new Error(recorded.message);
+  error.name = recorded.name;
+  return error;
+}
+
+function toResponse(recorded: RecordedHttpResponse): Response {
+  const body = NULL_BODY_STATUSES.has(recorded.status) ? null : recorded.body;
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers
+  });
+}
+
+/**
+ * Reduce a value to plain JSON data: errors keep only name and message, dates become ISO strings
+ */
+function toSnapshotValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toSnapshotValue);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      if (entry !== undefined) {
+        result[key] = toSnapshotValue(entry);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Canonical JSON for a run result, excluding the wall-clock duration
+ */
+export function snapshotRunResult(result: { metrics?: object }): string {
+  const comparable = result.metrics
+    ? { ...result, metrics: { ...result.metrics, duration: undefined } }
+    : result;
+  return `${JSON.stringify(toSnapshotValue(comparable), null, 2)}\n`;
+}
+
+function diffSnapshots(expected: unknown, actual: unknown, pathLabel: string, out: string[]): void {
+  if (out.length >= MAX_REPORTED_DIFFERENCES) {
+    return;
+  }
+
+  if (
+    expected &&
+    actual &&
+    typeof expected === 'object' &&
+    typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual)
+  ) {
+    const keys = new Set([...Object.keys(expected as object), ...Object.keys(actual as object)]);
+    for (const key of keys) {
+      diffSnapshots(
+        (expected as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        Array.isArray(expected) ? `${pathLabel}[${key}]` : `${pathLabel}.${key}`,
+        out
+      );
+    }
+    return;
+  }
+
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    out.push(pathLabel);
+  }
+}
+
+/**
+ * LLM provider facade that routes calls through the recording
+ */
+class RecordedLLMProvider implements LLMProvider {
+  constructor(
+    readonly id: string,
+    readonly model: string,
+    private readonly embeddings: boolean,
+    private readonly recording: RunRecording,
+    private readonly inner?: LLMProvider
+  ) {}
+
+  supportsEmbeddings(): boolean {
+    return this.embeddings;
+  }
+
+  updateBudget(budget: LLMBudgetConfig): void {
+    this.inner?.updateBudget?.(budget);
+  }
+
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    const { correlationId: _correlationId, ...keyed } = request;
+    return this.recording.exchangeLlm('complete', keyed, () => {
+      if (!this.inner) {
+        throw new RecordingMissError('an LLM provider');
+      }
+      return this.inner.complete(request);
+    });
+  }
+
+  embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    const { correlationId: _correlationId, ...keyed } = request;
+    return this.recording.exchangeLlm('embed', keyed, () => {
+      if (!this.inner) {
+        throw new RecordingMissError('an LLM provider');
+      }
+      return this.inner.embed(request);
+    });
+  }
+}
+
+export class RunRecording implements HttpInterceptor, LLMProviderInterceptor, TimelineInterceptor {
+  private readonly httpIndex = new Map<string, RecordedHttpExchange>();
+  private readonly llmIndex = new Map<string, RecordedLlmExchange>();
+  private readonly occurrences = new Map<string, number>();
+  private providerCount = 0;
+  private readCount = 0;
+  private publishCount = 0;
+  /** Reads made by a store while publishing are part of the publish, not separate calls */
+  private publishing = 0;
+
+  private constructor(
+    readonly mode: RunRecordingMode,
+    readonly dir: string,
+    private readonly data: RunRecordingFile
+  ) {
+    for (const exchange of data.http) {
+      this.httpIndex.set(`${exchange.key}#${exchange.occurrence}`, exchange);
+    }
+    for (const exchange of data.llm.exchanges) {
+      this.llmIndex.set(`${exchange.key}#${exchange.occurrence}`, exchange);
+    }
+  }
+
+  /**
+   * Start a new recording into a directory
+   */
+  static record(dir: string, startedAt: Date = new Date()): RunRecording {
+    return new RunRecording('record', path.resolve(dir), {
+      version: RECORDING_VERSION,
+      startedAt: startedAt.toISOString(),
+      http: [],
+      llm: { providers: [], exchanges: [] },
+      timeline: { reads: [], publishes: [] }
+    });
+  }
+
+  /**
+   * Load a recording for replay
+   */
+  static async replay(dir: string): Promise<RunRecording> {
+    const resolvedDir = path.resolve(dir);
+    const filePath = path.join(resolvedDir, RECORDING_FILENAME);
+
+    let data: RunRecordingFile;
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8')) as RunRecordingFile;
+    } catch (error) {
+      throw new ConfigurationError(
+        `Unable to read run recording ${filePath}: ${(error as Error).message}`
+      );
+    }
+
+    if (data.version !== RECORDING_VERSION) {
+      throw new ConfigurationError(
+        `Unsupported run recording version ${data.version} in ${filePath}`
+      );
+    }
+
+    return new RunRecording('replay', resolvedDir, data);
+  }
+
+  get offline(): boolean {
+    return this.mode === 'replay';
+  }
+
+  get startedAt(): Date {
+    return new Date(this.data.startedAt);
+  }
+
+  /**
+   * Route HTTP, LLM and timeline traffic plus the clock through this recording
+   */
+  install(): void {
+    setHttpInterceptor(this);
+    setLLMProviderInterceptor(this);
+    setTimelineInterceptor(this);
+    setClock(new FixedClock(this.data.startedAt));
+  }
+
+  uninstall(): void {
+    setHttpInterceptor(null);
+    setLLMProviderInterceptor(null);
+    setTimelineInterceptor(null);
+    setClock(null);
+  }
+
+  async intercept(
+    request: InterceptedHttpRequest,
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    const key = hashKey([request.method, request.url, request.body ?? null]);
+    const occurrence = this.nextOccurrence(`http:${key}`);
+
+    if (this.mode === 'replay') {
+      const exchange = this.httpIndex.get(`${key}#${occurrence}`);
+      if (!exchange) {
+        throw new RecordingMissError(`${request.method} ${request.url} (call ${occurrence + 1})`);
+      }
+      if (exchange.error) {
+        throw fromRecordedError(exchange.error);
+      }
+      return toResponse(exchange.response as RecordedHttpResponse);
+    }
+
+    const exchange: RecordedHttpExchange = {
+      key,
+      occurrence,
+      method: request.method,
+      url: request.url
+    };
+    this.data.http.push(exchange);
+
+    let response: Response;
+    try {
+      response = await send();
+    } catch (error) {
+      exchange.error = toRecordedError(error);
+      throw error;
+    }
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    exchange.response = {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text()
+    };
+
+    return toResponse(exchange.response);
+  }
+
+  async wrap(create: () => Promise<LLMProvider>): Promise<LLMProvider> {
+    const index = this.providerCount++;
+
+    if (this.mode === 'replay') {
+      const slot = this.data.llm.providers[index];
+      if (!slot) {
+        throw new RecordingMissError(`LLM provider #${index + 1}`);
+      }
+      if (slot.error) {
+        throw fromRecordedError(slot.error);
+      }
+      return new RecordedLLMProvider(
+        slot.id ?? 'recorded',
+        slot.model ?? 'recorded',
+        slot.supportsEmbeddings ?? false,
+        this
+      );
+    }
+
+    try {
+      const provider = await create();
+      this.data.llm.providers[index] = {
+        id: provider.id,
+        model: provider.model,
+        supportsEmbeddings: provider.supportsEmbeddings()
+      };
+      return new RecordedLLMProvider(
+        provider.id,
+        provider.model,
+        provider.supportsEmbeddings(),
+        this,
+        provider
+      );
+    } catch (error) {
+      this.data.llm.providers[index] = { error: toRecordedError(error) };
+      throw error;
+    }
+  }
+
+  /**
+   * Record or replay one LLM call, keyed by the request without its correlation id
+   */
+  async exchangeLlm<T extends LLMCompletionResult | LLMEmbeddingResult>(
+    operation: RecordedLlmOperation,
+    request: object,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const key = hashKey([operation, request]);
+    const occurrence = this.nextOccurrence(`llm:${key}`);
+
+    if (this.mode === 'replay') {
+      const exchange = this.llmIndex.get(`${key}#${occurrence}`);
+      if (!exchange) {
+        throw new RecordingMissError(`LLM ${operation} request (call ${occurrence + 1})`);
+      }
+      if (exchange.error) {
+        throw fromRecordedError(exchange.error);
+      }
+      return exchange.result as T;
+    }
+
+    const exchange: RecordedLlmExchange = { key, occurrence, operation };
+    this.data.llm.exchanges.push(exchange);
+
+    try {
+      const { raw: _raw, ...result } = await call();
+      exchange.result = result as T;
+      return result as T;
+    } catch (error) {
+      exchange.error = toRecordedError(error);
+      throw error;
+    }
+  }
+
+  fetchTimeline(read: () => Promise<TimelineData>): Promise<TimelineData> {
+    if (this.publishing > 0) {
+      return read();
+    }
+    return this.exchangeCall(this.data.timeline.reads, this.readCount++, 'read', read);
+  }
+
+  async publishEvents(
+    publish: () => Promise<TimelinePublishResult>
+  ): Promise<TimelinePublishResult> {
+    this.publishing++;
+    try {
+      return await this.exchangeCall(
+        this.data.timeline.publishes,
+        this.publishCount++,
+        'publish',
+        publish
+      );
+    } finally {
+      this.publishing--;
+    }
+  }
+
+  /**
+   * Persist the recording and result snapshot, or compare a replayed result with it
+   */
+  async finish(result: { metrics?: object }): Promise<RunReplayComparison | undefined> {
+    const snapshot = snapshotRunResult(result);
+    const resultPath = path.join(this.dir, RECORDED_RESULT_FILENAME);
+
+    if (this.mode === 'record') {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(
+        path.join(this.dir, RECORDING_FILENAME),
+        `${JSON.stringify(this.data, null, 2)}\n`,
+        'utf-8'
+      );
+      await fs.writeFile(resultPath, snapshot, 'utf-8');
+      return undefined;
+    }
+
+    const expected = await fs.readFile(resultPath, 'utf-8').catch(() => undefined);
+    if (expected === undefined) {
+      return { matches: false, differences: [`missing ${RECORDED_RESULT_FILENAME}`] };
+    }
+
+    const differences: string[] = [];
+    diffSnapshots(JSON.parse(expected), JSON.parse(snapshot), '$', differences);
+    return { matches: expected === snapshot, differences };
+  }
+
+  private async exchangeCall<T>(
+    calls: RecordedCall<T>[],
+    index: number,
+    label: string,
+    call: () => Promise<T>
+  ): Promise<T> {
+    if (this.mode === 'replay') {
+      const recorded = calls[index];
+      if (!recorded) {
+        throw new RecordingMissError(`timeline ${label} (call ${index + 1})`);
+      }
+      if (recorded.error) {
+        throw fromRecordedError(recorded.error);
+      }
+      return recorded.result as T;
+    }
+
+    try {
+      const result = await call();
+      calls[index] = { result };
+      return result;
+    } catch (error) {
+      calls[index] = { error: toRecordedError(error) };
+      throw error;
+    }
+  }
+
+  private nextOccurrence(key: string): number {
+    const occurrence = this.occurrences.get(key) ?? 0;
+    this.occurrences.set(key, occurrence + 1);
+    return occurrence;
+  }
+}
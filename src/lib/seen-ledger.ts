@@ -0,0 +1,384 @@
+/**
+ * Persistent ledger of raw items the pipeline has already processed.
+ * Keyed by the deterministic RawItem ids so reruns over an overlapping ingestion window
+ * reuse earlier analyses instead of sending the same article to the LLM again. Items with a
+ * new id are also matched against the stored events, so reposted or syndicated coverage of an
+ * event handled in an earlier run is not analyzed and proposed again.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AnalyzedEvent, RawEvent } from '../types';
+import { getClock } from '../utils/clock';
+import { DeduplicationService } from './deduplication';
+
+/** File name of the ledger inside `outputs.report_dir` */
+export const SEEN_LEDGER_FILENAME = 'seen-items.json';
+
+const LEDGER_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Retention used when pipeline.yaml has no `seen_ledger` section */
+export const DEFAULT_SEEN_LEDGER_RETENTION: SeenLedgerRetention = {
+  retentionDays: 90,
+  maxItems: 5000
+};
+
+/**
+ * Selection outcome recorded for an analyzed event
+ */
+export type SeenEventOutcome = 'analyzed' | 'rejected' | 'selected' | 'published';
+
+/**
+ * A raw item that contributed to an analyzed event
+ */
+export interface SeenItemRecord {
+  id: string;
+  source: string;
+  url: string;
+  title: string;
+  eventId: string;
+  /** Publication date of the item; missing in ledgers written before it was recorded */
+  publishedAt?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Cached analysis for a (possibly deduplicated) event
+ */
+export interface SeenEventRecord {
+  event: AnalyzedEvent;
+  outcome: SeenEventOutcome;
+  itemIds: string[];
+  updatedAt: string;
+  prUrl?: string;
+}
+
+interface SeenLedgerFile {
+  version: number;
+  items: Record<string, SeenItemRecord>;
+  events: Record<string, SeenEventRecord>;
+}
+
+/**
+ * Split of a run's events into work still to do and analyses that can be reused
+ */
+export interface SeenLedgerPartition {
+  /** Events with no recorded analysis; these go through dedupe and analysis */
+  fresh: RawEvent[];
+  /** Cached analyses for previously processed items that were not yet published */
+  cached: AnalyzedEvent[];
+  /** Number of incoming events skipped because they were processed before */
+  skipped: number;
+  /** Skipped events with a new item id that duplicate a stored event */
+  matchedByContent: number;
+}
+
+/**
+ * Retention limits applied before each run
+ */
+export interface SeenLedgerRetention {
+  /** Drop items not seen for this many days */
+  retentionDays: number;
+  /** Keep at most this many items, dropping the least recently seen first */
+  maxItems: number;
+}
+
+/**
+ * Raw item ids an event was built from, including items merged by deduplication
+ */
+export function getRawItemIds(metadata: Record<string, unknown> | undefined): string[] {
+  const merged = metadata?.merged_item_ids;
+  if (Array.isArray(merged)) {
+    return merged.filter((id): id is string => typeof id === 'string' && id.length > 0);
+  }
+
+  const single = metadata?.raw_item_id;
+  return typeof single === 'string' && single.length > 0 ? [single] : [];
+}
+
+/**
+ * JSON-file backed ledger of processed items and their analysis results
+ */
+export class SeenItemsLedger {
+  private constructor(
+    private readonly filePath: string,
+    private readonly data: SeenLedgerFile
+  ) {}
+
+  /**
+   * Load the ledger, starting empty when the file does not exist or cannot be parsed
+   */
+  static async load(filePath: string): Promise<SeenItemsLedger> {
+    try {
+      const contents = await fs.readFile(filePath, 'utf-8');
+      const parsed = JSON.parse(contents) as Partial<SeenLedgerFile>;
+
+      if (parsed.version !== LEDGER_VERSION || !parsed.items || !parsed.events) {
+        console.warn(`Ignoring seen-items ledger with unsupported format: ${filePath}`);
+        return new SeenItemsLedger(filePath, SeenItemsLedger.emptyFile());
+      }
+
+      return new SeenItemsLedger(filePath, {
+        version: LEDGER_VERSION,
+        items: parsed.items,
+        events: parsed.events
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.warn(
+          `Unable to read seen-items ledger ${filePath}, starting empty:`,
+          (error as Error).message
+        );
+      }
+      return new SeenItemsLedger(filePath, SeenItemsLedger.emptyFile());
+    }
+  }
+
+  /**
+   * Resolve the ledger location for a configured report directory
+   */
+  static resolvePath(reportDir: string): string {
+    return path.resolve(process.cwd(), reportDir, SEEN_LEDGER_FILENAME);
+  }
+
+  private static emptyFile(): SeenLedgerFile {
+    return { version: LEDGER_VERSION, items: {}, events: {} };
+  }
+
+  get path(): string {
+    return this.filePath;
+  }
+
+  get itemCount(): number {
+    return Object.keys(this.data.items).length;
+  }
+
+  /**
+   * Whether an item already has a recorded analysis
+   */
+  has(itemId: string): boolean {
+    const record = this.data.items[itemId];
+    return Boolean(record && this.data.events[record.eventId]);
+  }
+
+  /**
+   * Cached event record for an item, if any
+   */
+  getEventForItem(itemId: string): SeenEventRecord | undefined {
+    const record = this.data.items[itemId];
+    return record ? this.data.events[record.eventId] : undefined;
+  }
+
+  /**
+   * Separate new events from ones processed in earlier runs.
+   * Events whose item id is unknown are matched lexically against the items of stored events.
+   * Published events are dropped entirely so they are never proposed twice.
+   */
+  partition(
+    events: RawEvent[],
+    deduplication: DeduplicationService = new DeduplicationService()
+  ): SeenLedgerPartition {
+    const unmatched: RawEvent[] = [];
+    const cached = new Map<string, AnalyzedEvent>();
+    const now = getClock().now().toISOString();
+    let skipped = 0;
+
+    const reuse = (record: SeenEventRecord) => {
+      skipped++;
+      if (record.outcome !== 'published') {
+        cached.set(record.event.id, record.event);
+      }
+    };
+
+    for (const event of events) {
+      const [itemId] = getRawItemIds(event.metadata);
+      const record = itemId ? this.getEventForItem(itemId) : undefined;
+
+      if (!itemId || !record) {
+        unmatched.push(event);
+        continue;
+      }
+
+      this.data.items[itemId].lastSeenAt = now;
+      reuse(record);
+    }
+
+    const known = this.knownItems();
+    const matches = deduplication.findKnownDuplicates(
+      unmatched,
+      known.map(({ event }) => event)
+    );
+    const fresh: RawEvent[] = [];
+    let matchedByContent = 0;
+
+    unmatched.forEach((event, index) => {
+      const match = matches[index];
+      if (match === -1) {
+        fresh.push(event);
+        return;
+      }
+
+      const record = this.data.events[known[match].eventId];
+      const [itemId] = getRawItemIds(event.metadata);
+      if (itemId) {
+        this.attachItem(record, itemId, event, now);
+      }
+      matchedByContent++;
+      reuse(record);
+    });
+
+    return { fresh, cached: Array.from(cached.values()), skipped, matchedByContent };
+  }
+
+  /**
+   * Drop items older than the retention window, then the least recently seen ones above the
+   * cap, together with events that have no items left
+   * @returns Number of items removed
+   */
+  prune(retention: SeenLedgerRetention, now: Date = getClock().now()): number {
+    const cutoff = now.getTime() - retention.retentionDays * DAY_MS;
+    const kept = Object.values(this.data.items)
+      .filter((item) => Date.parse(item.lastSeenAt) >= cutoff)
+      .sort((a, b) => Date.parse(b.lastSeenAt) - Date.parse(a.lastSeenAt))
+      .slice(0, retention.maxItems);
+    const removed = this.itemCount - kept.length;
+    if (removed === 0) {
+      return 0;
+    }
+
+    this.data.items = Object.fromEntries(kept.map((item) => [item.id, item]));
+    for (const [eventId, record] of Object.entries(this.data.events)) {
+      record.itemIds = record.itemIds.filter((itemId) => this.data.items[itemId]);
+      if (record.itemIds.length === 0) {
+        delete this.data.events[eventId];
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Stored items as events for content matching, dated by publication (or their event's date)
+   */
+  private knownItems(): Array<{ eventId: string; event: RawEvent }> {
+    return Object.values(this.data.items).flatMap((item) => {
+      const record = this.data.events[item.eventId];
+      if (!record) {
+        return [];
+      }
+      return [
+        {
+          eventId: item.eventId,
+          event: {
+            title: item.title,
+            date: new Date(item.publishedAt ?? record.event.date),
+            source: item.source,
+            url: item.url,
+            // Only titles and URLs are stored, so content is not compared
+            content: ''
+          }
+        }
+      ];
+    });
+  }
+
+  /**
+   * Add an item to a stored event, so the cached analysis also covers it
+   */
+  private attachItem(record: SeenEventRecord, itemId: string, event: RawEvent, now: string): void {
+    this.data.items[itemId] = {
+      id: itemId,
+      source: event.source,
+      url: event.url,
+      title: event.title,
+      eventId: record.event.id,
+      publishedAt: event.date.toISOString(),
+      firstSeenAt: now,
+      lastSeenAt: now
+    };
+
+    if (!record.itemIds.includes(itemId)) {
+      record.itemIds.push(itemId);
+      record.event = {
+        ...record.event,
+        metadata: { ...record.event.metadata, merged_item_ids: [...record.itemIds] }
+      };
+    }
+  }
+
+  /**
+   * Record analyzed events together with the raw items and deduplicated events they came from
+   */
+  recordAnalyses(analyzed: AnalyzedEvent[], sourceEvents: RawEvent[]): void {
+    const now = getClock().now().toISOString();
+    const sourceByItemId = new Map<string, RawEvent>();
+
+    for (const event of sourceEvents) {
+      for (const itemId of getRawItemIds(event.metadata)) {
+        sourceByItemId.set(itemId, event);
+      }
+    }
+
+    for (const event of analyzed) {
+      const itemIds = getRawItemIds(event.metadata);
+      if (itemIds.length === 0) {
+        continue;
+      }
+
+      this.data.events[event.id] = {
+        event,
+        outcome: this.data.events[event.id]?.outcome ?? 'analyzed',
+        itemIds,
+        updatedAt: now
+      };
+
+      for (const itemId of itemIds) {
+        const source = sourceByItemId.get(itemId);
+        const existing = this.data.items[itemId];
+        this.data.items[itemId] = {
+          id: itemId,
+          source: source?.source ?? existing?.source ?? 'unknown',
+          url: source?.url ?? existing?.url ?? event.url ?? '',
+          title: source?.title ?? existing?.title ?? event.title,
+          eventId: event.id,
+          publishedAt: source?.date.toISOString() ?? existing?.publishedAt,
+          firstSeenAt: existing?.firstSeenAt ?? now,
+          lastSeenAt: now
+        };
+      }
+    }
+  }
+
+  /**
+   * Record the selection outcome for events considered in this run
+   */
+  recordOutcome(events: AnalyzedEvent[], outcome: SeenEventOutcome, prUrl?: string): void {
+    const now = getClock().now().toISOString();
+
+    for (const event of events) {
+      const record = this.data.events[event.id];
+      if (!record || record.outcome === 'published') {
+        continue;
+      }
+
+      record.outcome = outcome;
+      record.updatedAt = now;
+      if (prUrl) {
+        record.prUrl = prUrl;
+      }
+    }
+  }
+
+  /**
+   * Write the ledger to disk, replacing the previous file atomically
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, `${JSON.stringify(this.data, null, 2)}\n`, 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
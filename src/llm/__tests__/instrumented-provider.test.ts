@@ -0,0 +1,65 @@
+import { getLogger, type LogEntry } from '../../utils/logger';
+import { getMetricsCollector } from '../../utils/metrics';
+import { InstrumentedLLMProvider } from '../instrumented-provider';
+import { MockLLMProvider } from '../mock-provider';
+import type { LLMProvider } from '../provider';
+
+describe('InstrumentedLLMProvider', () => {
+  let entries: LogEntry[];
+
+  beforeEach(() => {
+    entries = [];
+    getLogger().setOutputStream((entry) => {
+      entries.push(entry);
+    });
+    getLogger().setCorrelationId('run-1');
+    getMetricsCollector().reset();
+  });
+
+  afterEach(() => {
+    getLogger().setOutputStream((entry) => console.log(JSON.stringify(entry)));
+  });
+
+  it('records calls, failures and token usage per provider', async () => {
+    const provider = new InstrumentedLLMProvider(new MockLLMProvider());
+    const failing = new InstrumentedLLMProvider({
+      id: 'openai_gpt5_low',
+      model: 'gpt-5',
+      complete: jest.fn().mockRejectedValue(new Error('rate limited')),
+      embed: jest.fn(),
+      supportsEmbeddings: () => false
+    } satisfies LLMProvider);
+    const request = { messages: [{ role: 'user' as const, content: 'A new model was released.' }] };
+
+    const first = await provider.complete(request);
+    await provider.complete(request);
+    await expect(failing.complete(request)).rejects.toThrow('rate limited');
+
+    const summary = getMetricsCollector().getSummary();
+    expect(summary.correlationId).toBe('run-1');
+    expect(summary.llmUsage).toEqual([
+      expect.objectContaining({
+        provider: 'mock_llm',
+        model: 'mock-1',
+        calls: 2,
+        failures: 0,
+        promptTokens: 2 * (first.usage?.prompt ?? 0),
+        totalTokens: 2 * (first.usage?.total ?? 0)
+      }),
+      expect.objectContaining({
+        provider: 'openai_gpt5_low',
+        calls: 1,
+        failures: 1,
+        totalTokens: 0
+      })
+    ]);
+    expect(entries).toContainEqual(
+      expect.objectContaining({
+        level: 'WARN',
+        message: 'LLM complete failed',
+        correlationId: 'run-1',
+        metadata: expect.objectContaining({ error: 'rate limited' })
+      })
+    );
+  });
+});
@@ -0,0 +1,296 @@
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { LLMProviderError } from '../errors';
+import { createLLMProvider } from '../factory';
+import { LocalGGUFProvider } from '../local-gguf-provider';
+import type { LLMProviderInit } from '../types';
+
+interface RecordedRequest {
+  path: string;
+  authorization?: string;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Minimal llama.cpp-style server implementing the OpenAI-compatible endpoints
+ */
+async function startStubServer(options: { failWith?: number } = {}) {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+      requests.push({ path: req.url ?? '', authorization: req.headers.authorization, body });
+
+      if (options.failWith) {
+        res.writeHead(options.failWith, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'model not loaded' } }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/json' });
+
+      if (req.url === '/v1/chat/completions') {
+        res.end(
+          JSON.stringify({
+            choices: [
+              { message: { role: 'assistant', content: '{"ok":true}' }, finish_reason: 'stop' }
+            ],
+            usage: { prompt_tokens: 42, completion_tokens: 7, total_tokens: 49 }
+          })
+        );
+        return;
+      }
+
+      if (req.url === '/v1/embeddings') {
+        const input = body.input as string[];
+        // Return rows out of order to make sure they are re-sorted by index
+        const data = input.map((_, index) => ({ index, embedding: [index, 1, 0] })).reverse();
+        res.end(JSON.stringify({ data, usage: { prompt_tokens: 12, total_tokens: 12 } }));
+        return;
+      }
+
+      res.writeHead(404);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+function providerInit(baseUrl: string, overrides: Partial<LLMProviderInit> = {}): LLMProviderInit {
+  return {
+    providerId: 'local_gguf_small',
+    model: 'qwen2.5-1.5b-instruct-q4_k_m',
+    temperature: 0.2,
+    topP: 1,
+    maxTokens: 256,
+    embeddingsModel: 'nomic-embed-text-v1.5',
+    retries: { attempts: 1 },
+    baseUrl,
+    ...overrides
+  };
+}
+
+describe('LocalGGUFProvider', () => {
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('completes chat requests against the configured endpoint and reports usage', async () => {
+    stub = await startStubServer();
+    const provider = new LocalGGUFProvider(
+      providerInit(`${stub.baseUrl}/`, { apiKey: 'local-key' })
+    );
+
+    const result = await provider.complete({
+      messages: [
+        { role: 'system', content: 'You are terse.' },
+        { role: 'user', content: 'Summarize.' }
+      ],
+      maxTokens: 1000
+    });
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        providerId: 'local_gguf_small',
+        text: '{"ok":true}',
+        finishReason: 'stop',
+        usage: { prompt: 42, completion: 7, total: 49 }
+      })
+    );
+    expect(stub.requests[0]).toEqual({
+      path: '/v1/chat/completions',
+      authorization: 'Bearer local-key',
+      body: expect.objectContaining({
+        model: 'qwen2.5-1.5b-instruct-q4_k_m',
+        max_tokens: 256,
+        stream: false,
+        messages: [
+          { role: 'system', content: 'You are terse.' },
+          { role: 'user', content: 'Summarize.' }
+        ]
+      })
+    });
+  });
+
+  it('embeds batches with the local embedding model in input order', async () => {
+    stub = await startStubServer();
+    const provider = new LocalGGUFProvider(providerInit(stub.baseUrl));
+
+    const result = await provider.embed({
+      input: ['first', 'second', 'third'],
+      model: 'text-embedding-latest'
+    });
+
+    expect(provider.supportsEmbeddings()).toBe(true);
+    expect(result.vectors).toEqual([
+      [0, 1, 0],
+      [1, 1, 0],
+      [2, 1, 0]
+    ]);
+    expect(result.usage).toEqual({ prompt: 12, completion: 0, total: 12 });
+    expect(stub.requests[0].authorization).toBeUndefined();
+    expect(stub.requests[0].body.model).toBe('nomic-embed-text-v1.5');
+  });
+
+  it('surfaces server errors as provider errors', async () => {
+    stub = await startStubServer({ failWith: 503 });
+    const provider = new LocalGGUFProvider(providerInit(stub.baseUrl));
+
+    await expect(
+      provider.complete({ messages: [{ role: 'user', content: 'hi' }] })
+    ).rejects.toThrow(LLMProviderError);
+    await expect(
+      provider.complete({ messages: [{ role: 'user', content: 'hi' }] })
+    ).rejects.toThrow(/503/);
+  });
+
+  it('requires a base URL', () => {
+    expect(() => new LocalGGUFProvider(providerInit(''))).toThrow(/endpoint is not configured/);
+  });
+
+  it('reports no embedding support when disabled in config', () => {
+    const provider = new LocalGGUFProvider(
+      providerInit('http://127.0.0.1:1/v1', { embeddingsEnabled: false })
+    );
+
+    expect(provider.supportsEmbeddings()).toBe(false);
+  });
+});
+
+describe('createLLMProvider with local_gguf_small', () => {
+  const originalEnv = { ...process.env };
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'llm-config-'));
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LOCAL_LLM_BASE_URL;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    await stub?.close();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  async function writeConfig(contents: string): Promise<string> {
+    const configPath = path.join(tempDir, 'llm.yaml');
+    await fs.writeFile(configPath, contents, 'utf-8');
+    return configPath;
+  }
+
+  it('builds the provider from llm.yaml endpoint, model and auth settings', async () => {
+    stub = await startStubServer();
+    process.env.STUB_LLM_KEY = 'from-env';
+    const configPath = await writeConfig(
+      [
+        'default_provider: local_gguf_small',
+        'providers:',
+        '  local_gguf_small:',
+        `    base_url: ${stub.baseUrl}`,
+        '    model: llama-3.2-1b-q4',
+        '    embeddings_model: bge-small',
+        '    api_key_env: STUB_LLM_KEY'
+      ].join('\n')
+    );
+
+    const provider = await createLLMProvider({ configPath, apiKey: 'sk-openai' });
+    await provider.complete({ messages: [{ role: 'user', content: 'hi' }] });
+    await provider.embed({ input: 'hello' });
+
+    expect(provider.id).toBe('local_gguf_small');
+    expect(provider.model).toBe('llama-3.2-1b-q4');
+    expect(stub.requests.map((request) => request.authorization)).toEqual([
+      'Bearer from-env',
+      'Bearer from-env'
+    ]);
+    expect(stub.requests[1].body.model).toBe('bge-small');
+  });
+
+  it('lets LOCAL_LLM_BASE_URL override the configured endpoint', async () => {
+    stub = await startStubServer();
+    process.env.LOCAL_LLM_BASE_URL = stub.baseUrl;
+    const configPath = await writeConfig(
+      [
+        'default_provider: local_gguf_small',
+        'providers:',
+        '  local_gguf_small:',
+        '    base_url: http://127.0.0.1:1/v1'
+      ].join('\n')
+    );
+
+    const provider = await createLLMProvider({ configPath });
+    const result = await provider.complete({ messages: [{ role: 'user', content: 'hi' }] });
+
+    expect(result.text).toBe('{"ok":true}');
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('skips the local provider when no endpoint is configured', async () => {
+    const configPath = await writeConfig(
+      ['default_provider: local_gguf_small', 'fallback_chain:', '  - mock_llm'].join('\n')
+    );
+
+    const provider = await createLLMProvider({ configPath });
+
+    expect(provider.id).toBe('mock_llm');
+    // The fallback mock must not make semantic deduplication look available
+    expect(provider.supportsEmbeddings()).toBe(false);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    await expect(provider.embed({ input: 'hello' })).rejects.toThrow(LLMProviderError);
+    log.mockRestore();
+  });
+
+  it('keeps the fallback mock out of the chain embeddings', async () => {
+    stub = await startStubServer();
+    const configPath = await writeConfig(
+      [
+        'default_provider: local_gguf_small',
+        'fallback_chain:',
+        '  - mock_llm',
+        'providers:',
+        '  local_gguf_small:',
+        `    base_url: ${stub.baseUrl}`,
+        '    embeddings: false'
+      ].join('\n')
+    );
+
+    const provider = await createLLMProvider({ configPath });
+
+    expect(provider.supportsEmbeddings()).toBe(false);
+    await expect(provider.embed({ input: 'hello' })).rejects.toThrow(
+      'No provider in the fallback chain could produce embeddings'
+    );
+  });
+
+  it('serves mock embeddings when the mock provider is requested', async () => {
+    process.env.LLM_PROVIDER = 'mock_llm';
+    const configPath = await writeConfig('default_provider: local_gguf_small');
+
+    const provider = await createLLMProvider({ configPath });
+    const result = await provider.embed({ input: 'hello' });
+
+    expect(provider.id).toBe('mock_llm');
+    expect(provider.supportsEmbeddings()).toBe(true);
+    expect(result.vectors).toHaveLength(1);
+  });
+});
@@ -1,6 +1,8 @@
 import { type LlmConfig, loadLlmConfig } from '../config';
+import { getLogger } from '../utils/logger';
 import { ChainedLLMProvider } from './chained-provider';
 import { LLMProviderError } from './errors';
+import { InstrumentedLLMProvider } from './instrumented-provider';
 import { LocalGGUFProvider } from './local-gguf-provider';
 import { MockLLMProvider } from './mock-provider';
 import { OpenAIGPT4OMiniProvider } from './openai-gpt4o-mini-provider';
@@ -22,7 +24,7 @@ const PROVIDER_CONSTRUCTORS: Record<LLMProviderId, ProviderConstructor> = {
   openai_gpt5_low: (options) => new OpenAIGPT5LowProvider(options),
   openai_gpt4o_mini: (options) => new OpenAIGPT4OMiniProvider(options),
   local_gguf_small: (options) => new LocalGGUFProvider(options),
-  mock_llm: (_options) => new MockLLMProvider()
+  mock_llm: (options) => new MockLLMProvider({ embeddings: options.embeddingsEnabled })
 };
 
 const PROVIDER_MODEL_DEFAULTS: Record<LLMProviderId, string> = {
@@ -43,15 +45,27 @@ function isKnownProvider(id: string): id is LLMProviderId {
   return KNOWN_PROVIDERS.includes(id as LLMProviderId);
 }
 
-function resolveApiKey(providerId: LLMProviderId, explicit?: string): string | undefined {
-  if (explicit) {
-    return explicit;
-  }
+const DEFAULT_LOCAL_API_KEY_ENV = 'LOCAL_LLM_API_KEY';
 
-  if (providerId === 'local_gguf_small' || providerId === 'mock_llm') {
+function resolveApiKey(
+  providerId: LLMProviderId,
+  config: LlmConfig,
+  explicit?: string
+): string | undefined {
+  if (providerId === 'mock_llm') {
     return undefined;
   }
 
+  // Local servers use their own (usually optional) key, never the OpenAI one
+  if (providerId === 'local_gguf_small') {
+    const envName = config.providers.local_gguf_small?.api_key_env ?? DEFAULT_LOCAL_API_KEY_ENV;
+    return process.env[envName] || undefined;
+  }
+
+  if (explicit) {
+    return explicit;
+  }
+
   return process.env.OPENAI_API_KEY;
 }
 
@@ -67,7 +81,8 @@ function normalizeConfig(config: LlmConfig): LlmConfig {
     },
     timeouts: config.timeouts ?? {
       request_ms: 20000
-    }
+    },
+    providers: config.providers ?? {}
   };
 }
 
@@ -91,10 +106,13 @@ function mapBudget(budget?: LlmConfig['budget']) {
 function buildProviderInit(
   providerId: LLMProviderId,
   config: LlmConfig,
+  primary: boolean,
   apiKey?: string,
   overrides?: LLMFactoryOptions['overrides']
 ): LLMProviderInit {
-  const model = overrides?.model ?? PROVIDER_MODEL_DEFAULTS[providerId];
+  const local = providerId === 'local_gguf_small' ? config.providers.local_gguf_small : undefined;
+
+  const model = overrides?.model ?? local?.model ?? PROVIDER_MODEL_DEFAULTS[providerId];
   if (!model) {
     throw new LLMProviderError(`Unknown model for provider ${providerId}`);
   }
@@ -106,7 +124,8 @@ function buildProviderInit(
     temperature: overrides?.temperature ?? config.temperature,
     topP: overrides?.topP ?? config.top_p,
     maxTokens: overrides?.maxTokens ?? config.max_tokens,
-    embeddingsModel: overrides?.embeddingsModel ?? config.embeddings_model,
+    embeddingsModel:
+      overrides?.embeddingsModel ?? local?.embeddings_model ?? config.embeddings_model,
     budget: overrides?.budget ?? mapBudget(config.budget),
     retries: overrides?.retries ?? {
       attempts: config.retries.attempts,
@@ -115,21 +134,33 @@ function buildProviderInit(
     },
     timeouts: overrides?.timeouts ?? {
       requestMs: config.timeouts.request_ms
-    }
+    },
+    ...(providerId === 'local_gguf_small'
+      ? {
+          baseUrl: process.env.LOCAL_LLM_BASE_URL || local?.base_url,
+          embeddingsEnabled: local?.embeddings
+        }
+      : {}),
+    // Mock embeddings only when the mock was asked for, never as a fallback for real ones
+    ...(providerId === 'mock_llm' ? { embeddingsEnabled: primary } : {})
   };
 }
 
+/**
+ * @param primary Whether the provider heads the requested chain (LLM_PROVIDER or default_provider)
+ */
 async function instantiateProvider(
   providerId: LLMProviderId,
   config: LlmConfig,
-  options: LLMFactoryOptions
+  options: LLMFactoryOptions,
+  primary: boolean
 ): Promise<LLMProvider> {
   const providerConstructor = PROVIDER_CONSTRUCTORS[providerId];
   if (!providerConstructor) {
     throw new LLMProviderError(`No constructor registered for provider ${providerId}`);
   }
 
-  const apiKey = resolveApiKey(providerId, options.apiKey);
+  const apiKey = resolveApiKey(providerId, config, options.apiKey);
 
   if (!apiKey && providerId !== 'local_gguf_small' && providerId !== 'mock_llm') {
     throw new LLMProviderError('Missing OPENAI_API_KEY for OpenAI provider', {
@@ -137,11 +168,35 @@ async function instantiateProvider(
     });
   }
 
-  const init = buildProviderInit(providerId, config, apiKey, options.overrides);
+  const init = buildProviderInit(providerId, config, primary, apiKey, options.overrides);
   return providerConstructor(init);
 }
 
+/**
+ * Hook around provider creation, used to record and replay the LLM traffic of a run
+ */
+export interface LLMProviderInterceptor {
+  wrap(create: () => Promise<LLMProvider>): Promise<LLMProvider>;
+}
+
+let activeInterceptor: LLMProviderInterceptor | null = null;
+
+/**
+ * Install an interceptor for providers created by createLLMProvider; pass null to remove it
+ */
+export function setLLMProviderInterceptor(interceptor: LLMProviderInterceptor | null): void {
+  activeInterceptor = interceptor;
+}
+
 export async function createLLMProvider(options: LLMFactoryOptions = {}): Promise<LLMProvider> {
+  if (activeInterceptor) {
+    return activeInterceptor.wrap(() => buildProviderChain(options));
+  }
+
+  return buildProviderChain(options);
+}
+
+async function buildProviderChain(options: LLMFactoryOptions): Promise<LLMProvider> {
   const config = normalizeConfig(await loadLlmConfig(options.configPath));
 
   const envOverrideRaw = process.env.LLM_PROVIDER?.trim();
@@ -162,29 +217,27 @@ export async function createLLMProvider(options: LLMFactoryOptions = {}): Promis
     (id, index) => requestedChain.indexOf(id) === index
   ) as LLMProviderId[];
 
-  if (process.env.LLM_DEBUG === 'true') {
-    console.log('[LLM] Provider chain:', providerChain.join(' -> '));
-  }
+  const logger = getLogger().child({ service: 'llm' });
+  logger.debug('Provider chain', { providers: providerChain });
 
   const providers: LLMProvider[] = [];
   const errors: Error[] = [];
 
   for (const providerId of providerChain) {
     try {
-      const provider = await instantiateProvider(providerId, config, options);
-      if (process.env.LLM_DEBUG === 'true') {
-        console.log('[LLM] Instantiated provider:', providerId);
-      }
-      providers.push(provider);
+      const provider = await instantiateProvider(
+        providerId,
+        config,
+        options,
+        providerId === providerChain[0]
+      );
+      logger.debug('Instantiated provider', { provider: providerId });
+      providers.push(new InstrumentedLLMProvider(provider));
     } catch (error) {
-      if (process.env.LLM_DEBUG === 'true') {
-        console.warn(
-          '[LLM] Provider instantiation failed:',
-          providerId,
-          '-',
-          (error as Error).message
-        );
-      }
+      logger.debug('Provider instantiation failed', {
+        provider: providerId,
+        error: (error as Error).message
+      });
       errors.push(error instanceof Error ? error : new Error(String(error)));
     }
   }
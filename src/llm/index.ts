@@ -1,7 +1,8 @@
 export { ChainedLLMProvider } from './chained-provider';
 export * from './errors';
-export type { LLMFactoryOptions } from './factory';
-export { createLLMProvider } from './factory';
+export type { LLMFactoryOptions, LLMProviderInterceptor } from './factory';
+export { createLLMProvider, setLLMProviderInterceptor } from './factory';
+export { InstrumentedLLMProvider } from './instrumented-provider';
 export { LocalGGUFProvider } from './local-gguf-provider';
 export { MockLLMProvider } from './mock-provider';
 export { OpenAIGPT4OMiniProvider } from './openai-gpt4o-mini-provider';
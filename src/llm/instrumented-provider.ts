@@ -0,0 +1,76 @@
+import { getLogger } from '../utils/logger';
+import { getMetricsCollector } from '../utils/metrics';
+import type { LLMProvider } from './provider';
+import type {
+  LLMBudgetConfig,
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMEmbeddingRequest,
+  LLMEmbeddingResult,
+  LLMTokens
+} from './types';
+
+/**
+ * Records call counts, latency and token usage of a provider in the metrics collector
+ */
+export class InstrumentedLLMProvider implements LLMProvider {
+  constructor(private readonly provider: LLMProvider) {}
+
+  get id(): string {
+    return this.provider.id;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
+    return this.track('complete', request.correlationId, () => this.provider.complete(request));
+  }
+
+  embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    return this.track('embed', request.correlationId, () => this.provider.embed(request));
+  }
+
+  supportsEmbeddings(): boolean {
+    return this.provider.supportsEmbeddings();
+  }
+
+  updateBudget(budget: LLMBudgetConfig): void {
+    this.provider.updateBudget?.(budget);
+  }
+
+  private async track<T extends { usage?: LLMTokens }>(
+    operation: 'complete' | 'embed',
+    correlationId: string | undefined,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const logger = getLogger().child({
+      service: 'llm',
+      provider: this.provider.id,
+      ...(correlationId ? { correlationId } : {})
+    });
+    const startedAt = Date.now();
+
+    try {
+      const result = await call();
+      const duration = Date.now() - startedAt;
+      getMetricsCollector().trackLlmCall(this.id, this.model, duration, result.usage);
+      logger.debug(`LLM ${operation} completed`, {
+        model: this.model,
+        duration,
+        tokens: result.usage
+      });
+      return result;
+    } catch (error) {
+      const duration = Date.now() - startedAt;
+      getMetricsCollector().trackLlmCall(this.id, this.model, duration, undefined, false);
+      logger.warn(`LLM ${operation} failed`, {
+        model: this.model,
+        duration,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+}
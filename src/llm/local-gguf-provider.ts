@@ -1,3 +1,4 @@
+import { fetchJson } from '../utils/http';
 import { BaseLLMProvider } from './base-provider';
 import { LLMProviderError } from './errors';
 import type {
@@ -5,35 +6,158 @@ import type {
   LLMCompletionResult,
   LLMEmbeddingRequest,
   LLMEmbeddingResult,
-  LLMProviderInit
+  LLMProviderInit,
+  LLMTokens
 } from './types';
 
 const LOCAL_GGUF_MODEL_ID = 'local-gguf-small';
 
+interface OpenAICompatibleUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAICompatibleUsage;
+}
+
+interface EmbeddingsResponse {
+  data?: { embedding: number[]; index?: number }[];
+  usage?: OpenAICompatibleUsage;
+}
+
+/**
+ * Provider for a local OpenAI-compatible server (llama.cpp server, Ollama, LM Studio)
+ * serving a small GGUF model over `/chat/completions` and `/embeddings`.
+ */
 export class LocalGGUFProvider extends BaseLLMProvider {
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly embeddingsEnabled: boolean;
+
   constructor(options: Omit<LLMProviderInit, 'model'> & Partial<Pick<LLMProviderInit, 'model'>>) {
     super({
       ...options,
       model: options.model ?? LOCAL_GGUF_MODEL_ID
     } as LLMProviderInit);
+
+    if (!options.baseUrl) {
+      throw new LLMProviderError('Local GGUF provider endpoint is not configured', {
+        providerId: options.providerId
+      });
+    }
+
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    this.embeddingsEnabled = options.embeddingsEnabled ?? true;
   }
 
   supportsEmbeddings(): boolean {
-    return false;
+    return this.embeddingsEnabled;
   }
 
   protected async doComplete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
-    throw new LLMProviderError(
-      'Local GGUF provider endpoint is not configured',
-      this.buildContext(request.correlationId)
-    );
+    const maxTokens = Math.min(request.maxTokens ?? this.maxTokens, this.maxTokens);
+
+    const response = await this.post<ChatCompletionResponse>('/chat/completions', {
+      model: this.model,
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: message.content
+      })),
+      temperature: request.temperature ?? this.temperature,
+      top_p: request.topP ?? this.topP,
+      max_tokens: maxTokens,
+      stream: false
+    });
+
+    const choice = response.choices?.[0];
+
+    if (!choice || !choice.message?.content) {
+      throw new LLMProviderError(
+        'Local GGUF provider returned an empty response',
+        this.buildContext(request.correlationId)
+      );
+    }
+
+    return {
+      providerId: this.providerId,
+      text: choice.message.content,
+      finishReason: choice.finish_reason ?? 'unknown',
+      usage: this.extractUsage(response.usage),
+      raw: response
+    };
   }
 
   protected async doEmbed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
-    throw new LLMProviderError(
-      'Local GGUF provider does not support embeddings yet',
-      this.buildContext(request.correlationId)
-    );
+    if (!this.embeddingsEnabled) {
+      throw new LLMProviderError(
+        'Local GGUF provider embeddings are disabled',
+        this.buildContext(request.correlationId)
+      );
+    }
+
+    const input = Array.isArray(request.input) ? request.input : [request.input];
+
+    // The local server only has its own embedding model loaded, so the configured
+    // model is used instead of the hosted model name requested by callers
+    const response = await this.post<EmbeddingsResponse>('/embeddings', {
+      model: this.embeddingsModel,
+      input
+    });
+
+    const data = [...(response.data ?? [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+    if (data.length !== input.length) {
+      throw new LLMProviderError(
+        `Local GGUF provider returned ${data.length} embeddings for ${input.length} inputs`,
+        this.buildContext(request.correlationId)
+      );
+    }
+
+    return {
+      providerId: this.providerId,
+      vectors: data.map((item) => item.embedding),
+      usage: this.extractUsage(response.usage),
+      raw: response
+    };
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const headers: Record<string, string> = {
+      'content-type': 'application/json'
+    };
+
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    return fetchJson<T>(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      timeout: this.timeoutMs
+    });
+  }
+
+  private extractUsage(usage?: OpenAICompatibleUsage): LLMTokens | undefined {
+    if (!usage) {
+      return undefined;
+    }
+
+    const prompt = usage.prompt_tokens ?? 0;
+    const completion = usage.completion_tokens ?? 0;
+
+    return {
+      prompt,
+      completion,
+      total: usage.total_tokens ?? prompt + completion
+    };
   }
 }
 
@@ -1,3 +1,5 @@
+import { getLogger } from '../utils/logger';
+import { LLMProviderError } from './errors';
 import type { LLMProvider } from './provider';
 import type {
   LLMBudgetConfig,
@@ -7,12 +9,22 @@ import type {
   LLMEmbeddingResult
 } from './types';
 
+export interface MockLLMProviderOptions {
+  /**
+   * Serve hash-based embeddings (default true). The factory disables them when the mock is only
+   * a fallback, so its vectors never stand in for real embeddings.
+   */
+  embeddings?: boolean;
+}
+
 export class MockLLMProvider implements LLMProvider {
   readonly id = 'mock_llm';
   readonly model = 'mock-1';
 
+  constructor(private readonly options: MockLLMProviderOptions = {}) {}
+
   supportsEmbeddings(): boolean {
-    return true;
+    return this.options.embeddings ?? true;
   }
 
   updateBudget(_budget: LLMBudgetConfig): void {
@@ -20,9 +32,9 @@ export class MockLLMProvider implements LLMProvider {
   }
 
   async complete(request: LLMCompletionRequest): Promise<LLMCompletionResult> {
-    if (process.env.LLM_DEBUG === 'true') {
-      console.log('[MockLLMProvider] Generating completion for request');
-    }
+    getLogger().debug('Mock provider generating completion', {
+      correlationId: request.correlationId
+    });
     const userPrompt = request.messages
       .filter((message) => message.role === 'user')
       .map((message) => message.content)
@@ -43,6 +55,13 @@ export class MockLLMProvider implements LLMProvider {
   }
 
   async embed(request: LLMEmbeddingRequest): Promise<LLMEmbeddingResult> {
+    if (!this.supportsEmbeddings()) {
+      throw new LLMProviderError('Mock provider embeddings are disabled', {
+        providerId: this.id,
+        correlationId: request.correlationId
+      });
+    }
+
     const inputs = Array.isArray(request.input) ? request.input : [request.input];
 
     const vectors = inputs.map((input) => this.toUnitVector(input));
@@ -123,12 +142,24 @@ export class MockLLMProvider implements LLMProvider {
       .slice(0, limit);
   }
 
+  /**
+   * Hashed bag-of-words vector so cosine similarity reflects shared vocabulary
+   */
   private toUnitVector(text: string): number[] {
-    const dims = 12;
+    const dims = 64;
     const vector = new Array(dims).fill(0);
+    const tokens = text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter((token) => token.length > 2);
 
-    for (let i = 0; i < text.length; i++) {
-      vector[i % dims] += text.charCodeAt(i);
+    for (const token of tokens) {
+      let hash = 0;
+      for (let i = 0; i < token.length; i++) {
+        hash = (hash * 31 + token.charCodeAt(i)) | 0;
+      }
+      vector[Math.abs(hash) % dims] += 1;
     }
 
     const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
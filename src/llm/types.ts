@@ -71,4 +71,8 @@ export interface LLMProviderInit {
   budget?: LLMBudgetConfig;
   retries?: Partial<LLMRetryConfig>;
   timeouts?: Partial<LLMTimeoutConfig>;
+  /** Base URL of an OpenAI-compatible server (local providers only) */
+  baseUrl?: string;
+  /** Whether the provider serves embeddings (local and mock providers only) */
+  embeddingsEnabled?: boolean;
 }
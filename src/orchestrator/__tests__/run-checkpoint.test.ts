@@ -0,0 +1,222 @@
+/**
+ * Run checkpoints and resuming WeeklyUpdateOrchestrator from them
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EventAnalyzer } from '../../analyzers';
+import { DEFAULT_SCORING_CONFIG, ScoringEngine } from '../../analyzers/scoring';
+import { MockLLMProvider } from '../../llm';
+import type { TimelineStore } from '../../timeline';
+import type { AnalyzedEvent } from '../../types';
+import type { StageMetrics } from '../../utils/metrics';
+import { RunCheckpoint } from '../run-checkpoint';
+import { WeeklyUpdateOrchestrator } from '../weekly-update-orchestrator';
+
+const RUNS_DIR = 'reports/runs';
+
+const analyzedEvent = (id: string): AnalyzedEvent => ({
+  id,
+  title: `Event ${id}`,
+  date: '2024-03-14T00:00:00.000Z',
+  description: 'Description',
+  category: 'research',
+  sources: [`https://example.com/${id}`],
+  impactScore: 9,
+  significance: { technologicalBreakthrough: 9, industryImpact: 9, adoptionScale: 9, novelty: 9 }
+});
+
+async function checkpointRunUntilSelection(runId: string): Promise<RunCheckpoint> {
+  const checkpoint = await RunCheckpoint.create(RUNS_DIR, runId);
+  await checkpoint.save('ingest', {
+    correlationId: runId,
+    windowStart: '2024-03-08T00:00:00.000Z',
+    windowEnd: '2024-03-15T00:00:00.000Z',
+    sources: [],
+    totalBeforeLimit: 1,
+    items: [
+      {
+        id: 'item-1',
+        title: 'Event one',
+        url: 'https://example.com/one',
+        publishedAt: '2024-03-14T00:00:00.000Z',
+        source: 'blog'
+      }
+    ]
+  });
+  await checkpoint.save('dedupe', {
+    events: [
+      {
+        title: 'Event one',
+        date: '2024-03-14T00:00:00.000Z',
+        source: 'blog',
+        url: 'https://example.com/one',
+        content: 'Event one'
+      }
+    ],
+    removed: 0
+  });
+  await checkpoint.save('analyze', { events: [analyzedEvent('one')] });
+  await checkpoint.save('select', { events: [analyzedEvent('one')], considered: 1 });
+  return checkpoint;
+}
+
+describe('RunCheckpoint', () => {
+  const originalCwd = process.cwd();
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-checkpoint-'));
+    process.chdir(dir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    process.chdir(originalCwd);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads completed stages and prunes older runs', async () => {
+    const checkpoint = await checkpointRunUntilSelection('run-1');
+
+    expect((await checkpoint.load('select'))?.considered).toBe(1);
+    expect(await checkpoint.load('publish')).toBeUndefined();
+    await expect(RunCheckpoint.open(RUNS_DIR, 'missing')).rejects.toThrow(
+      'No checkpoints for run missing'
+    );
+    await expect(RunCheckpoint.open(RUNS_DIR, '../outside')).rejects.toThrow('Invalid run id');
+
+    await RunCheckpoint.create(RUNS_DIR, 'run-2');
+    const older = new Date('2024-01-01T00:00:00.000Z');
+    await fs.utimes(checkpoint.dir, older, older);
+    expect(await RunCheckpoint.prune(RUNS_DIR, 1)).toEqual(['run-1']);
+  });
+
+  it('evaluates the selection once and reuses the decisions for the run report', async () => {
+    await checkpointRunUntilSelection('run-1');
+    await fs.rm(path.join(RUNS_DIR, 'run-1', 'select.json'));
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 7, maxEventsToSelect: 3 },
+      {
+        llmProvider: new MockLLMProvider(),
+        scoringEngine: new ScoringEngine(DEFAULT_SCORING_CONFIG)
+      }
+    );
+    const evaluateSelection = jest.spyOn(analyzer, 'evaluateSelection');
+    const store: TimelineStore = {
+      backend: 'local',
+      describe: () => 'stub',
+      fetchTimeline: jest.fn(),
+      publishEvents: jest.fn().mockResolvedValue({
+        url: 'https://example.com/pr/1',
+        reference: 'timeline-update',
+        created: true
+      })
+    };
+
+    const result = await new WeeklyUpdateOrchestrator(
+      { resumeRunId: 'run-1', useSeenLedger: false, timelineBackend: 'local' },
+      analyzer,
+      store
+    ).run();
+
+    expect(result.selected).toEqual([analyzedEvent('one')]);
+    expect(evaluateSelection).toHaveBeenCalledTimes(1);
+    const report = JSON.parse(await fs.readFile('reports/run-report.json', 'utf-8'));
+    expect(report.counts.selected).toBe(1);
+  });
+
+  it('does not checkpoint an analysis that left events unanalyzed', async () => {
+    await checkpointRunUntilSelection('run-1');
+    await fs.rm(path.join(RUNS_DIR, 'run-1', 'analyze.json'));
+    await fs.rm(path.join(RUNS_DIR, 'run-1', 'select.json'));
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 7, maxEventsToSelect: 3 },
+      {
+        llmProvider: new MockLLMProvider(),
+        scoringEngine: new ScoringEngine(DEFAULT_SCORING_CONFIG)
+      }
+    );
+    // analyzeEvent drops an event whose LLM calls keep failing without raising an error
+    const analyzeEvents = jest.spyOn(analyzer, 'analyzeEvents').mockResolvedValueOnce([]);
+    const store: TimelineStore = {
+      backend: 'local',
+      describe: () => 'stub',
+      fetchTimeline: jest.fn(),
+      publishEvents: jest.fn()
+    };
+    const resume = () =>
+      new WeeklyUpdateOrchestrator(
+        { resumeRunId: 'run-1', useSeenLedger: false, timelineBackend: 'local' },
+        analyzer,
+        store
+      ).run();
+
+    await resume();
+    await expect(fs.stat(path.join(RUNS_DIR, 'run-1', 'analyze.json'))).rejects.toThrow();
+
+    await resume();
+    expect(analyzeEvents).toHaveBeenCalledTimes(2);
+    expect(analyzeEvents.mock.calls[1][0]).toHaveLength(1);
+    expect((await (await RunCheckpoint.open(RUNS_DIR, 'run-1')).load('analyze'))?.events).toEqual(
+      await analyzeEvents.mock.results[1].value
+    );
+  });
+
+  it('resumes a run at the publish step without analyzing again', async () => {
+    await checkpointRunUntilSelection('run-1');
+
+    const provider = new MockLLMProvider();
+    const complete = jest.spyOn(provider, 'complete');
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 7, maxEventsToSelect: 3 },
+      { llmProvider: provider, scoringEngine: new ScoringEngine(DEFAULT_SCORING_CONFIG) }
+    );
+    const publishEvents = jest.fn().mockResolvedValue({
+      url: 'https://example.com/pr/1',
+      reference: 'timeline-update',
+      created: true
+    });
+    const store: TimelineStore = {
+      backend: 'local',
+      describe: () => 'stub',
+      fetchTimeline: jest.fn(),
+      publishEvents
+    };
+    const resume = () =>
+      new WeeklyUpdateOrchestrator(
+        { resumeRunId: 'run-1', useSeenLedger: false, timelineBackend: 'local' },
+        analyzer,
+        store
+      ).run();
+
+    const first = await resume();
+    expect(first).toMatchObject({
+      success: true,
+      runId: 'run-1',
+      prUrl: 'https://example.com/pr/1'
+    });
+    expect(publishEvents).toHaveBeenCalledWith([analyzedEvent('one')], expect.anything());
+    expect(complete).not.toHaveBeenCalled();
+
+    const second = await resume();
+    expect(second.prUrl).toBe('https://example.com/pr/1');
+    expect(publishEvents).toHaveBeenCalledTimes(1);
+
+    const metrics = JSON.parse(await fs.readFile('reports/metrics.json', 'utf-8'));
+    expect(metrics.correlationId).toBe('run-1');
+    expect(metrics.stages.map(({ stage, restored }: StageMetrics) => [stage, restored])).toEqual([
+      ['ingest', true],
+      ['dedupe', true],
+      ['analyze', true],
+      ['select', true],
+      ['publish', true]
+    ]);
+    expect(await fs.readFile('reports/metrics.prom', 'utf-8')).toContain(
+      'ai_timeline_run_info{correlation_id="run-1"} 1'
+    );
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Run report built from a run's collected, deduplicated, analyzed and selected events
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { EventAnalyzer } from '../../analyzers';
+import { DEFAULT_SCORING_CONFIG, ScoringEngine } from '../../analyzers/scoring';
+import { MockLLMProvider } from '../../llm';
+import type { AnalyzedEvent, RawEvent, TimelineEntry } from '../../types';
+import { buildRunReport, renderRunReportMarkdown, writeRunReport } from '../run-report';
+
+const rawEvent = (id: string, metadata?: Record<string, unknown>): RawEvent => ({
+  title: `Item ${id}`,
+  date: new Date('2024-03-14T00:00:00.000Z'),
+  source: 'blog',
+  url: `https://example.com/${id}`,
+  content: `Item ${id}`,
+  metadata: { raw_item_id: id, ...metadata }
+});
+
+const analyzedEvent = (
+  id: string,
+  impactScore: number,
+  metadata: Record<string, unknown>
+): AnalyzedEvent => ({
+  id: `2024-03-14-${id}`,
+  title: `Event ${id}`,
+  date: '2024-03-14T00:00:00.000Z',
+  description: `Why ${id} matters`,
+  category: 'research',
+  sources: [`https://example.com/${id}`],
+  impactScore,
+  significance: {
+    technologicalBreakthrough: impactScore,
+    industryImpact: impactScore,
+    adoptionScale: impactScore,
+    novelty: impactScore
+  },
+  metadata: { analysisProvider: 'mock', keyInsights: [`${id} insight`], ...metadata }
+});
+
+describe('run report', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'run-report-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('explains why each collected item was or was not selected', async () => {
+    const analyzer = new EventAnalyzer(
+      { significanceThreshold: 7, maxEventsToSelect: 3 },
+      {
+        llmProvider: new MockLLMProvider(),
+        scoringEngine: new ScoringEngine(DEFAULT_SCORING_CONFIG)
+      }
+    );
+    const launch = analyzedEvent('launch', 9, { merged_item_ids: ['a', 'b'] });
+    const minor = analyzedEvent('minor', 5, { raw_item_id: 'c' });
+    const known = analyzedEvent('known', 9, { raw_item_id: 'f' });
+    const analyzed = [launch, minor, known];
+    const existing: TimelineEntry = {
+      id: '2024-03-10-known',
+      date: '2024-03-10T00:00:00.000Z',
+      title: 'Event known',
+      description: 'Already published',
+      category: 'research',
+      sources: ['https://example.com/known'],
+      impact_score: 9
+    };
+
+    const report = buildRunReport({
+      runId: 'run-1',
+      generatedAt: new Date('2024-03-15T00:00:00.000Z'),
+      dryRun: true,
+      settings: { significanceThreshold: 7, maxEventsPerWeek: 3 },
+      collected: ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => rawEvent(id)),
+      deduplicated: [rawEvent('a', { merged_item_ids: ['a', 'b'] }), rawEvent('c'), rawEvent('d')],
+      analyzed,
+      decisions: await analyzer.evaluateSelection(analyzed),
+      selected: [launch, known],
+      timelineDuplicates: new Map([[known.id, existing]])
+    });
+
+    const outcomes = report.entries.map((entry) => ({
+      title: entry.title,
+      items: entry.items.map((item) => item.id),
+      cached: entry.cached,
+      selected: entry.selected,
+      reason: entry.rejection?.reason
+    }));
+    expect(outcomes).toEqual([
+      {
+        title: 'Event launch',
+        items: ['a', 'b'],
+        cached: false,
+        selected: true,
+        reason: undefined
+      },
+      {
+        title: 'Event minor',
+        items: ['c'],
+        cached: false,
+        selected: false,
+        reason: 'below_threshold'
+      },
+      {
+        title: 'Event known',
+        items: ['f'],
+        cached: true,
+        selected: false,
+        reason: 'duplicate_of_timeline_entry'
+      },
+      { title: 'Item d', items: ['d'], cached: false, selected: false, reason: 'analysis_failed' },
+      {
+        title: 'Item e',
+        items: ['e'],
+        cached: true,
+        selected: false,
+        reason: 'previously_published'
+      }
+    ]);
+    expect(report.entries[1].rejection?.detail).toBe('impact 5 below threshold 7');
+    expect(report.entries[0].rationale).toMatchObject({
+      description: 'Why launch matters',
+      keyInsights: ['launch insight'],
+      provider: 'mock'
+    });
+    expect(report.counts).toMatchObject({
+      collected: 6,
+      selected: 1,
+      rejected: {
+        below_threshold: 1,
+        duplicate_of_timeline_entry: 1,
+        analysis_failed: 1,
+        previously_published: 1
+      }
+    });
+
+    const [jsonPath, markdownPath] = await writeRunReport(dir, report);
+    expect(JSON.parse(await fs.readFile(jsonPath, 'utf-8'))).toEqual(report);
+    const markdown = await fs.readFile(markdownPath, 'utf-8');
+    expect(markdown).toBe(renderRunReportMarkdown(report));
+    expect(markdown).toContain('| Event minor | Below threshold | impact 5 below threshold 7 |');
+    expect(markdown).toContain('Already on timeline | matches "Event known" (2024-03-10)');
+  });
+});
@@ -2,9 +2,35 @@
  * Central export point for orchestrator modules
  */
 
+export { RunCheckpoint } from './run-checkpoint';
+export {
+  buildRunReport,
+  type RunReport,
+  type RunReportEntry,
+  type RunReportItem,
+  type RunReportRejection,
+  renderRunReportMarkdown,
+  writeRunReport
+} from './run-report';
+export {
+  type ConnectorIngestionSummary,
+  defaultArtifactPath,
+  deserializeRawEvents,
+  type IngestionResult,
+  PIPELINE_STAGES,
+  type PipelineStage,
+  readStageArtifact,
+  type SerializedRawEvent,
+  type StageArtifact,
+  type StageArtifactData,
+  serializeRawEvents,
+  toIngestArtifact,
+  writeStageArtifact
+} from './stage-artifacts';
 export {
   NewsCollector,
   OrchestratorConfig,
   OrchestratorResult,
+  rawItemToRawEvent,
   WeeklyUpdateOrchestrator
 } from './weekly-update-orchestrator';
@@ -0,0 +1,101 @@
+/**
+ * Per-run directory of stage artifacts, keyed by the run's correlation id. A failed run can be
+ * resumed from the last stage it completed instead of fetching and analyzing everything again.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { ConfigurationError } from '../utils/errors';
+import {
+  PIPELINE_STAGES,
+  type PipelineStage,
+  readStageArtifact,
+  type StageArtifactData,
+  writeStageArtifact
+} from './stage-artifacts';
+
+const RUN_ID_PATTERN = /^[\w.-]+$/;
+
+export class RunCheckpoint {
+  private constructor(
+    readonly runId: string,
+    readonly dir: string
+  ) {}
+
+  private static resolveDir(runsDir: string, runId: string): string {
+    if (!RUN_ID_PATTERN.test(runId) || runId.startsWith('.')) {
+      throw new ConfigurationError(`Invalid run id "${runId}"`);
+    }
+    return path.resolve(process.cwd(), runsDir, runId);
+  }
+
+  /**
+   * Start checkpointing a new run
+   */
+  static async create(runsDir: string, runId: string): Promise<RunCheckpoint> {
+    const dir = RunCheckpoint.resolveDir(runsDir, runId);
+    await fs.mkdir(dir, { recursive: true });
+    return new RunCheckpoint(runId, dir);
+  }
+
+  /**
+   * Open the checkpoints of an earlier run; it must have completed at least its first stage
+   */
+  static async open(runsDir: string, runId: string): Promise<RunCheckpoint> {
+    const checkpoint = new RunCheckpoint(runId, RunCheckpoint.resolveDir(runsDir, runId));
+    if (!(await checkpoint.has(PIPELINE_STAGES[0]))) {
+      throw new ConfigurationError(`No checkpoints for run ${runId} in ${runsDir}`);
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Delete all but the `keep` most recently updated run directories
+   * @returns Run ids that were removed
+   */
+  static async prune(runsDir: string, keep: number): Promise<string[]> {
+    const resolved = path.resolve(process.cwd(), runsDir);
+    const entries = await fs.readdir(resolved, { withFileTypes: true }).catch(() => []);
+    const runs = await Promise.all(
+      entries
+        .filter((entry) => entry.isDirectory())
+        .map(async (entry) => ({
+          runId: entry.name,
+          modified: (await fs.stat(path.join(resolved, entry.name))).mtimeMs
+        }))
+    );
+
+    const stale = runs.sort((a, b) => b.modified - a.modified).slice(keep);
+    for (const run of stale) {
+      await fs.rm(path.join(resolved, run.runId), { recursive: true, force: true });
+    }
+    return stale.map((run) => run.runId);
+  }
+
+  artifactPath(stage: PipelineStage): string {
+    return path.join(this.dir, `${stage}.json`);
+  }
+
+  async has(stage: PipelineStage): Promise<boolean> {
+    try {
+      await fs.access(this.artifactPath(stage));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Output of a completed stage; undefined when the run did not get that far
+   */
+  async load<S extends PipelineStage>(stage: S): Promise<StageArtifactData[S] | undefined> {
+    if (!(await this.has(stage))) {
+      return undefined;
+    }
+    return (await readStageArtifact(this.artifactPath(stage), [stage])).data;
+  }
+
+  async save<S extends PipelineStage>(stage: S, data: StageArtifactData[S]): Promise<void> {
+    await writeStageArtifact(this.artifactPath(stage), stage, data);
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * Per-run report for editors: every collected item with its dedup group, the LLM's scores and
+ * rationale, and why its event was or wasn't selected.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { SelectionDecision, SelectionRejection } from '../analyzers';
+import { getRawItemIds } from '../lib/seen-ledger';
+import type { AnalyzedEvent, RawEvent, SignificanceScores, TimelineEntry } from '../types';
+
+const REPORT_VERSION = 1;
+export const RUN_REPORT_BASENAME = 'run-report';
+
+export type RunReportRejection =
+  | SelectionRejection
+  | 'duplicate_of_timeline_entry'
+  | 'analysis_failed'
+  | 'previously_published';
+
+export interface RunReportItem {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+}
+
+/**
+ * One event: a dedup group of collected items and what happened to it
+ */
+export interface RunReportEntry {
+  /** Analyzed event id; absent when the group was not analyzed */
+  eventId?: string;
+  title: string;
+  category?: string;
+  /** Collected items merged into this event by deduplication */
+  items: RunReportItem[];
+  scores?: {
+    impactScore: number;
+    composite: number;
+    minimum: number;
+    minimumSource: string;
+    significance: SignificanceScores;
+  };
+  rationale?: {
+    description: string;
+    keyInsights: string[];
+    provider?: string;
+    model?: string;
+  };
+  /** Analysis reused from an earlier run through the seen-items ledger */
+  cached: boolean;
+  selected: boolean;
+  rejection?: { reason: RunReportRejection; detail: string };
+}
+
+export interface RunReport {
+  version: number;
+  runId?: string;
+  generatedAt: string;
+  dryRun: boolean;
+  settings: { significanceThreshold: number; maxEventsPerWeek: number };
+  counts: {
+    collected: number;
+    afterDeduplication: number;
+    analyzed: number;
+    selected: number;
+    rejected: Partial<Record<RunReportRejection, number>>;
+  };
+  published?: { url: string };
+  entries: RunReportEntry[];
+}
+
+export interface RunReportInput {
+  runId?: string;
+  generatedAt: Date;
+  dryRun: boolean;
+  settings: RunReport['settings'];
+  collected: RawEvent[];
+  /** Events deduplicated in this run; analyses of other collected items came from the ledger */
+  deduplicated: RawEvent[];
+  analyzed: AnalyzedEvent[];
+  /** Selection decisions for the analyzed events under the current configuration */
+  decisions: SelectionDecision[];
+  selected: AnalyzedEvent[];
+  /** Existing timeline entries matched by selected events, keyed by event id */
+  timelineDuplicates: Map<string, TimelineEntry>;
+  publishedUrl?: string;
+}
+
+/**
+ * Keys linking a collected event to the deduplicated and analyzed events built from it.
+ * Connector item ids are preferred; legacy collectors only provide URLs.
+ */
+function itemKeys(metadata: Record<string, unknown> | undefined, url: string): string[] {
+  const ids = getRawItemIds(metadata);
+  if (ids.length > 0) {
+    return ids;
+  }
+  const urls = metadata?.urls;
+  return Array.isArray(urls) && urls.length > 0 ? urls.map(String) : [url];
+}
+
+function toReportItem(event: RawEvent): RunReportItem {
+  const [id] = itemKeys(event.metadata, event.url);
+  return {
+    id,
+    title: event.title,
+    url: event.url,
+    source: event.source,
+    publishedAt: event.date.toISOString()
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function rejectionDetail(decision: SelectionDecision, input: RunReportInput): string {
+  const { event, scoring } = decision;
+  switch (decision.reason) {
+    case 'below_threshold':
+      return `impact ${event.impactScore} below threshold ${input.settings.significanceThreshold}`;
+    case 'composite_minimum':
+    case 'category_minimum':
+      return `composite ${round(scoring.composite)} below ${scoring.minimumSource} minimum ${scoring.minimum}`;
+    default:
+      return `ranked below the ${input.settings.maxEventsPerWeek} events selected this week`;
+  }
+}
+
+export function buildRunReport(input: RunReportInput): RunReport {
+  const selectedIds = new Set(input.selected.map((event) => event.id));
+  const decisions = new Map(input.decisions.map((decision) => [decision.event.id, decision]));
+  const deduplicatedKeys = new Set(
+    input.deduplicated.flatMap((event) => itemKeys(event.metadata, event.url))
+  );
+  const collectedByKey = new Map(
+    input.collected.map((event) => [itemKeys(event.metadata, event.url)[0], event])
+  );
+  const claimed = new Set<string>();
+
+  const itemsFor = (keys: string[]): RunReportItem[] =>
+    keys.flatMap((key) => {
+      const event = collectedByKey.get(key);
+      if (!event || claimed.has(key)) {
+        return [];
+      }
+      claimed.add(key);
+      return [toReportItem(event)];
+    });
+
+  const entries: RunReportEntry[] = input.analyzed.map((event) => {
+    const keys = itemKeys(event.metadata, event.url ?? event.sources[0] ?? event.id);
+    const decision = decisions.get(event.id);
+    const selected = selectedIds.has(event.id);
+    const scoring = decision?.scoring;
+    const duplicate = input.timelineDuplicates.get(event.id);
+
+    let rejection: RunReportEntry['rejection'];
+    if (selected && duplicate) {
+      rejection = {
+        reason: 'duplicate_of_timeline_entry',
+        detail: `matches "${duplicate.title}" (${duplicate.date.slice(0, 10)})`
+      };
+    } else if (!selected && decision) {
+      rejection = {
+        reason: decision.reason ?? 'weekly_limit',
+        detail: rejectionDetail(decision, input)
+      };
+    }
+
+    return {
+      eventId: event.id,
+      title: event.title,
+      category: event.category,
+      items: itemsFor(keys),
+      scores: scoring && {
+        impactScore: event.impactScore,
+        composite: round(scoring.composite),
+        minimum: scoring.minimum,
+        minimumSource: scoring.minimumSource,
+        significance: event.significance
+      },
+      rationale: {
+        description: event.description,
+        keyInsights: Array.isArray(event.metadata?.keyInsights)
+          ? (event.metadata.keyInsights as string[])
+          : [],
+        provider: event.metadata?.analysisProvider as string | undefined,
+        model: event.metadata?.analysisModel as string | undefined
+      },
+      cached: !keys.some((key) => deduplicatedKeys.has(key)),
+      selected: selected && !duplicate,
+      rejection
+    };
+  });
+
+  // Groups that reached analysis without producing an event
+  for (const event of input.deduplicated) {
+    const items = itemsFor(itemKeys(event.metadata, event.url));
+    if (items.length > 0) {
+      entries.push({
+        title: event.title,
+        items,
+        cached: false,
+        selected: false,
+        rejection: { reason: 'analysis_failed', detail: 'no analysis was produced' }
+      });
+    }
+  }
+
+  // Items the seen-items ledger dropped because an earlier run published them
+  for (const event of input.collected) {
+    const items = itemsFor(itemKeys(event.metadata, event.url).slice(0, 1));
+    if (items.length > 0) {
+      entries.push({
+        title: event.title,
+        items,
+        cached: true,
+        selected: false,
+        rejection: { reason: 'previously_published', detail: 'published by an earlier run' }
+      });
+    }
+  }
+
+  const rejected: RunReport['counts']['rejected'] = {};
+  for (const entry of entries) {
+    if (entry.rejection) {
+      rejected[entry.rejection.reason] = (rejected[entry.rejection.reason] ?? 0) + 1;
+    }
+  }
+
+  return {
+    version: REPORT_VERSION,
+    runId: input.runId,
+    generatedAt: input.generatedAt.toISOString(),
+    dryRun: input.dryRun,
+    settings: input.settings,
+    counts: {
+      collected: input.collected.length,
+      afterDeduplication: input.deduplicated.length,
+      analyzed: input.analyzed.length,
+      selected: entries.filter((entry) => entry.selected).length,
+      rejected
+    },
+    published: input.publishedUrl ? { url: input.publishedUrl } : undefined,
+    entries
+  };
+}
+
+const REJECTION_LABELS: Record<RunReportRejection, string> = {
+  below_threshold: 'Below threshold',
+  composite_minimum: 'Composite minimum',
+  category_minimum: 'Category minimum',
+  weekly_limit: 'Weekly limit',
+  duplicate_of_timeline_entry: 'Already on timeline',
+  analysis_failed: 'Analysis failed',
+  previously_published: 'Previously published'
+};
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
+
+function formatSignificance(scores: SignificanceScores): string {
+  return (
+    `breakthrough ${scores.technologicalBreakthrough}, industry ${scores.industryImpact}, ` +
+    `adoption ${scores.adoptionScale}, novelty ${scores.novelty}`
+  );
+}
+
+export function renderRunReportMarkdown(report: RunReport): string {
+  const lines: string[] = [];
+  const { counts } = report;
+
+  lines.push(`# Run report ${report.generatedAt.slice(0, 10)}`);
+  lines.push('');
+  lines.push(
+    `${counts.collected} items collected, ${counts.afterDeduplication} after deduplication, ` +
+      `${counts.analyzed} analyzed, ${counts.selected} selected ` +
+      `(threshold ${report.settings.significanceThreshold}, ` +
+      `at most ${report.settings.maxEventsPerWeek} per week).`
+  );
+  if (report.runId) {
+    lines.push(`Run id: \`${report.runId}\`${report.dryRun ? ' (dry run)' : ''}`);
+  } else if (report.dryRun) {
+    lines.push('Dry run.');
+  }
+  if (report.published) {
+    lines.push(`Published: ${report.published.url}`);
+  }
+
+  const selected = report.entries.filter((entry) => entry.selected);
+  lines.push('');
+  lines.push('## Selected');
+  if (selected.length === 0) {
+    lines.push('None.');
+  } else {
+    lines.push('| Event | Category | Impact | Composite | Items |');
+    lines.push('| --- | --- | ---: | ---: | ---: |');
+    for (const entry of selected) {
+      lines.push(
+        `| ${escapeCell(entry.title)} | ${entry.category ?? ''} | ${entry.scores?.impactScore ?? ''} | ` +
+          `${entry.scores?.composite ?? ''} | ${entry.items.length} |`
+      );
+    }
+  }
+
+  const rejected = report.entries.filter((entry) => entry.rejection);
+  lines.push('');
+  lines.push('## Not selected');
+  if (rejected.length === 0) {
+    lines.push('None.');
+  } else {
+    lines.push('| Event | Reason | Detail | Impact | Items |');
+    lines.push('| --- | --- | --- | ---: | ---: |');
+    for (const entry of rejected) {
+      const rejection = entry.rejection as NonNullable<RunReportEntry['rejection']>;
+      lines.push(
+        `| ${escapeCell(entry.title)} | ${REJECTION_LABELS[rejection.reason]} | ` +
+          `${escapeCell(rejection.detail)} | ${entry.scores?.impactScore ?? ''} | ${entry.items.length} |`
+      );
+    }
+  }
+
+  lines.push('');
+  lines.push('## Events');
+  for (const entry of report.entries) {
+    const outcome = entry.selected
+      ? 'selected'
+      : entry.rejection
+        ? REJECTION_LABELS[entry.rejection.reason].toLowerCase()
+        : 'not selected';
+    lines.push('');
+    lines.push(`### ${entry.title}`);
+    lines.push(`- Outcome: ${outcome}${entry.cached ? ' (analysis from an earlier run)' : ''}`);
+    if (entry.scores) {
+      lines.push(
+        `- Scores: impact ${entry.scores.impactScore}, composite ${entry.scores.composite} ` +
+          `(${entry.scores.minimumSource} minimum ${entry.scores.minimum}); ` +
+          formatSignificance(entry.scores.significance)
+      );
+    }
+    if (entry.rationale) {
+      const analyzedBy = entry.rationale.provider
+        ? ` (${entry.rationale.provider}${entry.rationale.model ? `, ${entry.rationale.model}` : ''})`
+        : '';
+      lines.push(`- Rationale${analyzedBy}: ${escapeCell(entry.rationale.description)}`);
+      for (const insight of entry.rationale.keyInsights) {
+        lines.push(`  - ${escapeCell(insight)}`);
+      }
+    }
+    lines.push('- Items:');
+    for (const item of entry.items) {
+      lines.push(
+        `  - ${item.publishedAt.slice(0, 10)} [${escapeCell(item.title)}](${item.url}) (${item.source})`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write the report as `run-report.json` and `run-report.md` in `dir`
+ * @returns Paths of the JSON and Markdown files
+ */
+export async function writeRunReport(dir: string, report: RunReport): Promise<string[]> {
+  const resolved = path.resolve(process.cwd(), dir);
+  await fs.mkdir(resolved, { recursive: true });
+
+  const files: [string, string][] = [
+    [`${RUN_REPORT_BASENAME}.json`, `${JSON.stringify(report, null, 2)}\n`],
+    [`${RUN_REPORT_BASENAME}.md`, renderRunReportMarkdown(report)]
+  ];
+
+  const written: string[] = [];
+  for (const [name, content] of files) {
+    const filePath = path.join(resolved, name);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.rename(tempPath, filePath);
+    written.push(filePath);
+  }
+  return written;
+}
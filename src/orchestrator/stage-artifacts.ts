@@ -0,0 +1,166 @@
+/**
+ * JSON artifacts holding the output of a pipeline stage: run checkpoints and the files passed
+ * between stages run from the CLI. Every file records the stage that wrote it, so a stage can
+ * refuse input from the wrong step instead of misreading it.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { RawItem } from '../connectors/types';
+import type { TimelinePublishResult } from '../timeline';
+import type { AnalyzedEvent, RawEvent } from '../types';
+import { getClock } from '../utils/clock';
+import { ConfigurationError } from '../utils/errors';
+
+const ARTIFACT_VERSION = 1;
+
+export interface ConnectorIngestionSummary {
+  id: string;
+  itemCount: number;
+  latencyMs: number;
+  throttleWaitMs: number;
+}
+
+/**
+ * Items fetched from the configured sources, with the raw events built from them
+ */
+export interface IngestionResult {
+  correlationId: string;
+  items: RawItem[];
+  events: RawEvent[];
+  totalBeforeLimit: number;
+  connectorSummaries: ConnectorIngestionSummary[];
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+export const PIPELINE_STAGES = ['ingest', 'dedupe', 'analyze', 'select', 'publish'] as const;
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+/**
+ * RawEvent as stored in an artifact, with the date as an ISO string
+ */
+export type SerializedRawEvent = Omit<RawEvent, 'date'> & { date: string };
+
+export interface StageArtifactData {
+  ingest: {
+    correlationId: string;
+    windowStart: string;
+    windowEnd: string;
+    sources: ConnectorIngestionSummary[];
+    /** Items fetched before the per-run limit was applied */
+    totalBeforeLimit: number;
+    items: RawItem[];
+  };
+  dedupe: {
+    events: SerializedRawEvent[];
+    /** Input events merged into another event */
+    removed: number;
+  };
+  analyze: {
+    events: AnalyzedEvent[];
+  };
+  select: {
+    events: AnalyzedEvent[];
+    /** Analyzed events the selection was made from */
+    considered: number;
+  };
+  publish: {
+    dryRun: boolean;
+    events: number;
+    /** Absent on dry runs */
+    result?: Omit<TimelinePublishResult, 'entries'>;
+  };
+}
+
+export interface StageArtifact<S extends PipelineStage = PipelineStage> {
+  version: number;
+  stage: S;
+  createdAt: string;
+  data: StageArtifactData[S];
+}
+
+/**
+ * Default location of a stage's artifact under `outputs.report_dir`
+ */
+export function defaultArtifactPath(reportDir: string, stage: PipelineStage): string {
+  return path.join(reportDir, 'artifacts', `${stage}.json`);
+}
+
+export function toIngestArtifact(ingestion: IngestionResult): StageArtifactData['ingest'] {
+  return {
+    correlationId: ingestion.correlationId,
+    windowStart: ingestion.windowStart.toISOString(),
+    windowEnd: ingestion.windowEnd.toISOString(),
+    sources: ingestion.connectorSummaries,
+    totalBeforeLimit: ingestion.totalBeforeLimit,
+    items: ingestion.items
+  };
+}
+
+export function serializeRawEvents(events: RawEvent[]): SerializedRawEvent[] {
+  return events.map((event) => ({ ...event, date: event.date.toISOString() }));
+}
+
+export function deserializeRawEvents(events: SerializedRawEvent[]): RawEvent[] {
+  return events.map((event) => ({ ...event, date: new Date(event.date) }));
+}
+
+/**
+ * Write a stage artifact atomically
+ * @returns Absolute path of the artifact
+ */
+export async function writeStageArtifact<S extends PipelineStage>(
+  filePath: string,
+  stage: S,
+  data: StageArtifactData[S]
+): Promise<string> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const artifact: StageArtifact<S> = {
+    version: ARTIFACT_VERSION,
+    stage,
+    createdAt: getClock().now().toISOString(),
+    data
+  };
+
+  await fs.mkdir(path.dirname(resolved), { recursive: true });
+  const tempPath = `${resolved}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(artifact, null, 2)}\n`, 'utf-8');
+  await fs.rename(tempPath, resolved);
+
+  return resolved;
+}
+
+/**
+ * Read an artifact written by one of the `expected` stages
+ */
+export async function readStageArtifact<S extends PipelineStage>(
+  filePath: string,
+  expected: readonly S[]
+): Promise<StageArtifact<S>> {
+  let parsed: Partial<StageArtifact>;
+  try {
+    parsed = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ConfigurationError(`Stage artifact not found: ${filePath}`);
+    }
+    throw new ConfigurationError(
+      `Failed to read stage artifact ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  if (parsed.version !== ARTIFACT_VERSION || !parsed.stage || !parsed.data) {
+    throw new ConfigurationError(`Unsupported stage artifact format: ${filePath}`);
+  }
+  if (!expected.includes(parsed.stage as S)) {
+    throw new ConfigurationError(
+      `${filePath} was written by "${parsed.stage}", expected output of ${expected
+        .map((stage) => `"${stage}"`)
+        .join(' or ')}`
+    );
+  }
+
+  return parsed as StageArtifact<S>;
+}
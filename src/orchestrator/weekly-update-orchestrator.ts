@@ -3,26 +3,83 @@
  */
 
 import { randomUUID } from 'node:crypto';
-import { EventAnalyzer } from '../analyzers';
+import path from 'node:path';
+import { EventAnalyzer, type SelectionDecision } from '../analyzers';
+import { DEFAULT_SCORING_CONFIG } from '../analyzers/scoring';
 import { loadPipelineConfig, type PipelineConfig } from '../config';
 import { bootstrapConnectors, computeIngestionWindow, type RawItem } from '../connectors';
-import { GitHubManager } from '../github';
+import {
+  renderTimelineExports,
+  type TimelineExportSettings,
+  writeTimelineExports
+} from '../exporters';
 import { DeduplicationService } from '../lib/deduplication';
-import type { AnalyzedEvent, RawEvent } from '../types';
+import { archiveRawEvents } from '../lib/raw-event-archive';
+import { DEFAULT_SEEN_LEDGER_RETENTION, SeenItemsLedger } from '../lib/seen-ledger';
+import { createLLMProvider, type LLMProvider } from '../llm';
+import {
+  buildCalibrationReport,
+  type ReviewCandidate,
+  ReviewStore,
+  renderReviewChecklist,
+  toReviewCandidate
+} from '../review';
+import { writeTimelineSite } from '../site';
+import { exportTelemetry } from '../telemetry';
+import {
+  createTimelineStore,
+  ForgeTimelineStore,
+  findExistingTimelineEntry,
+  type TimelineBackend,
+  type TimelinePublishOptions,
+  type TimelinePublishResult,
+  type TimelineStore
+} from '../timeline';
+import { type AnalyzedEvent, type RawEvent, type TimelineEntry, toTimelineEntry } from '../types';
 import {
   CircuitBreakerFactory,
+  ConfigurationError,
   AggregateError as CustomAggregateError,
+  configureHttpCache,
+  createErrorTracker,
   executeWithRetryPolicy,
+  getClock,
+  getErrorTracker,
+  getLogger,
+  getMetricsCollector,
+  HttpCache,
+  type Logger,
+  type MetricsCollector,
+  mapWithConcurrency,
+  NoopErrorTracker,
   RetryPolicies,
-  registerRetryPolicy
+  registerRetryPolicy,
+  setErrorTracker
 } from '../utils';
+import { RunCheckpoint } from './run-checkpoint';
+import { buildRunReport, type RunReport, writeRunReport } from './run-report';
+import {
+  type ConnectorIngestionSummary,
+  deserializeRawEvents,
+  type IngestionResult,
+  type PipelineStage,
+  type StageArtifactData,
+  serializeRawEvents,
+  toIngestArtifact
+} from './stage-artifacts';
 
 export interface OrchestratorConfig {
-  timelineRepo: string; // format: owner/repo
+  timelineRepo?: string; // format: owner/repo; required by the forge timeline backends
   maxEventsPerWeek?: number; // default 3
   significanceThreshold?: number; // default 7.0
   githubToken?: string;
   dryRun?: boolean;
+  useSeenLedger?: boolean; // default true; reuse analyses of items seen in earlier runs
+  httpCacheMode?: 'off' | 'revalidate' | 'offline'; // overrides pipeline.yaml http_cache.mode
+  timelineBackend?: TimelineBackend; // overrides pipeline.yaml timeline.backend
+  useCheckpoints?: boolean; // default true; save stage outputs under pipeline.yaml checkpoints.dir
+  resumeRunId?: string; // continue the checkpointed run with this correlation id
+  useLocalOutputs?: boolean; // default true; write the review queue, raw-event archive and site
 }
 
 export interface NewsCollector {
@@ -30,46 +87,97 @@ export interface NewsCollector {
   fetchEvents(): Promise<RawEvent[]>;
 }
 
-interface ConnectorIngestionSummary {
-  id: string;
-  itemCount: number;
-  latencyMs: number;
-}
+const DEFAULT_MAX_CONCURRENT_CONNECTORS = 4;
+/** File name of the metrics collector's summary inside `outputs.report_dir` */
+const METRICS_FILENAME = 'metrics.json';
 
 export interface OrchestratorResult {
   success: boolean;
   analyzed: AnalyzedEvent[];
   selected: AnalyzedEvent[];
   prUrl?: string;
+  /** Correlation id of a checkpointed run; pass it to --resume to continue the run */
+  runId?: string;
   metrics: {
     totalCollected: number;
     afterDeduplication: number;
     analyzed: number;
     selected: number;
+    previouslySeen: number;
     duration: number;
   };
   errors: Error[];
 }
 
+/**
+ * Raw event for a fetched item; items without a valid publish date are dated now
+ */
+export function rawItemToRawEvent(item: RawItem): RawEvent {
+  const now = getClock().now();
+  const publishedAt = item.publishedAt ? new Date(item.publishedAt) : now;
+  const eventDate = Number.isNaN(publishedAt.getTime()) ? now : publishedAt;
+
+  const summaryContent =
+    item.summary && item.summary.trim().length > 0 ? item.summary.trim() : undefined;
+
+  const metadata: Record<string, unknown> = {
+    ...item.metadata,
+    raw_item_id: item.id,
+    source_id: item.source
+  };
+
+  if (summaryContent) {
+    metadata.summary = summaryContent;
+  }
+
+  if (item.authors && item.authors.length > 0) {
+    metadata.authors = item.authors;
+  }
+
+  const content = summaryContent ?? item.title;
+
+  return {
+    title: item.title,
+    date: eventDate,
+    source: item.source,
+    url: item.url,
+    content,
+    metadata
+  };
+}
+
 export class WeeklyUpdateOrchestrator {
   private readonly analyzer: EventAnalyzer;
-  private readonly github: GitHubManager;
-  private readonly deduplication: DeduplicationService;
+  private timelineStore?: TimelineStore;
+  /** Exports the timeline store does not commit, written to the working directory instead */
+  private uncommittedExports?: TimelineExportSettings;
+  private deduplication?: DeduplicationService;
+  private pipelineConfigPromise?: Promise<PipelineConfig | null>;
   private readonly collectors: Map<string, NewsCollector> = new Map();
   private readonly maxEventsPerWeek: number;
   private readonly significanceThreshold: number;
   private readonly dryRun: boolean;
+  private readonly useSeenLedger: boolean;
+  private readonly useCheckpoints: boolean;
+  private readonly useLocalOutputs: boolean;
   private readonly errors: Error[] = [];
+  private httpCacheConfigured = false;
+  /** Correlates log lines, metrics, connector requests and LLM calls of one run */
+  private readonly correlationId: string;
+  private readonly logger: Logger;
+  private readonly metricsCollector: MetricsCollector;
+  /** Decisions of the last `select` call, reused for the run report */
+  private selectionDecisions?: SelectionDecision[];
 
   constructor(
     private readonly config: OrchestratorConfig,
     analyzer?: EventAnalyzer,
-    github?: GitHubManager,
+    timelineStore?: TimelineStore,
     deduplication?: DeduplicationService
   ) {
-    const [owner, repo] = config.timelineRepo.split('/');
+    const [owner, repo] = config.timelineRepo?.split('/') ?? [];
 
-    if (!owner || !repo) {
+    if (config.timelineRepo && (!owner || !repo)) {
       throw new Error(
         `Invalid timeline repo format: ${config.timelineRepo}. Expected format: owner/repo`
       );
@@ -82,19 +190,24 @@ export class WeeklyUpdateOrchestrator {
         maxEventsToSelect: config.maxEventsPerWeek || 3
       });
 
-    this.github =
-      github ||
-      new GitHubManager({
-        owner,
-        repo,
-        token: config.githubToken || process.env.GIT_TOKEN
-      });
-
-    this.deduplication = deduplication || new DeduplicationService();
+    this.timelineStore = timelineStore;
+    this.deduplication = deduplication;
 
     this.maxEventsPerWeek = config.maxEventsPerWeek || 3;
     this.significanceThreshold = config.significanceThreshold || 7.0;
     this.dryRun = config.dryRun ?? false;
+    this.useSeenLedger = config.useSeenLedger ?? true;
+    this.useCheckpoints = config.useCheckpoints ?? true;
+    this.useLocalOutputs = config.useLocalOutputs ?? true;
+
+    this.correlationId =
+      config.resumeRunId ??
+      (typeof randomUUID === 'function'
+        ? randomUUID()
+        : `${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    getLogger().setCorrelationId(this.correlationId);
+    this.logger = getLogger().child({ service: 'orchestrator' });
+    this.metricsCollector = getMetricsCollector();
 
     // Configure retry policies for different services
     registerRetryPolicy('collector', RetryPolicies.standard);
@@ -102,13 +215,13 @@ export class WeeklyUpdateOrchestrator {
       ...RetryPolicies.standard,
       maxAttempts: 2,
       onRetry: (attempt, error, delay) => {
-        console.log(`[Analyzer] Retry attempt ${attempt}, waiting ${delay}ms:`, error.message);
+        this.logger.warn('Retrying analysis', { attempt, delay, error: error.message });
       }
     });
-    registerRetryPolicy('github', {
+    registerRetryPolicy('timeline', {
       ...RetryPolicies.rateLimited,
       onRetry: (attempt, error, delay) => {
-        console.log(`[GitHub] Retry attempt ${attempt}, waiting ${delay}ms:`, error.message);
+        this.logger.warn('Retrying timeline update', { attempt, delay, error: error.message });
       }
     });
   }
@@ -118,10 +231,12 @@ export class WeeklyUpdateOrchestrator {
    */
   registerCollector(collector: NewsCollector): void {
     if (this.collectors.has(collector.name)) {
-      console.warn(`Collector ${collector.name} already registered, replacing...`);
+      this.logger.warn('Collector already registered, replacing it', {
+        collector: collector.name
+      });
     }
     this.collectors.set(collector.name, collector);
-    console.log(`Registered collector: ${collector.name}`);
+    this.logger.debug('Registered collector', { collector: collector.name });
   }
 
   /**
@@ -143,47 +258,85 @@ export class WeeklyUpdateOrchestrator {
       afterDeduplication: 0,
       analyzed: 0,
       selected: 0,
+      previouslySeen: 0,
       duration: 0
     };
 
-    console.log('====================================================');
-    console.log('🚀 WeeklyUpdateOrchestrator: Starting weekly update');
-    console.log(`⚙️  Configuration:`);
-    console.log(`   - Timeline repo: ${this.config.timelineRepo}`);
-    console.log(`   - Max events per week: ${this.maxEventsPerWeek}`);
-    console.log(`   - Significance threshold: ${this.significanceThreshold}`);
-    console.log('====================================================\n');
+    this.metricsCollector.reset();
+    this.selectionDecisions = undefined;
+    this.logger.info('Starting weekly update', {
+      timelineRepo: this.config.timelineRepo,
+      maxEventsPerWeek: this.maxEventsPerWeek,
+      significanceThreshold: this.significanceThreshold,
+      dryRun: this.dryRun,
+      resumeRunId: this.config.resumeRunId
+    });
 
     try {
-      // Step 1: Collect events via config-driven connectors
-      console.log('📊 Step 1: Collecting events from configured sources...');
-      const ingestion = await this.collectFromConfigSources();
+      await this.configureErrorTracker();
+      await this.configureHttpCache();
+
+      const reviews = await this.loadReviewStore();
+      if (reviews) {
+        await this.collectReviewDecisions(reviews);
+      }
 
+      let checkpoint = this.config.resumeRunId
+        ? await this.openRunCheckpoint(this.config.resumeRunId)
+        : null;
+      // Stages of a resumed run are restored in order, up to the first one it did not complete
+      let restoring = checkpoint !== null;
+      const restore = async <S extends PipelineStage>(
+        stage: S
+      ): Promise<StageArtifactData[S] | undefined> => {
+        const data = restoring ? await checkpoint?.load(stage) : undefined;
+        restoring = data !== undefined;
+        return data;
+      };
+
+      // Step 1: Collect events via config-driven connectors
+      let stageStart = Date.now();
       let collected: RawEvent[];
-      if (ingestion) {
-        collected = ingestion.events;
+      const restoredIngestion = await restore('ingest');
+      if (restoredIngestion) {
+        collected = restoredIngestion.items.map(rawItemToRawEvent);
         metrics.totalCollected = collected.length;
-        console.log(
-          `   ✓ Collected ${ingestion.totalBeforeLimit} items across ${ingestion.connectorSummaries.length} sources`
-        );
-        if (ingestion.totalBeforeLimit !== collected.length) {
-          console.log(`   ✓ Trimmed to ${collected.length} items per pipeline limits`);
-        }
-        ingestion.connectorSummaries.forEach((summary) => {
-          console.log(`     - ${summary.id}: ${summary.itemCount} items in ${summary.latencyMs}ms`);
-        });
-        console.log(
-          `   ✓ Window: ${ingestion.windowStart.toISOString()} -> ${ingestion.windowEnd.toISOString()}\n`
-        );
+        this.logger.info('Restored collected items from checkpoint', { items: collected.length });
       } else {
-        console.log('   ⚠️ No config-driven connectors found, falling back to legacy collectors');
-        collected = await this.collectAllEvents();
-        metrics.totalCollected = collected.length;
-        console.log(`   ✓ Collected ${collected.length} raw events\n`);
+        const ingestion = await this.ingest();
+
+        if (ingestion) {
+          collected = ingestion.events;
+          metrics.totalCollected = collected.length;
+          this.logger.info('Collected items from configured sources', {
+            sources: ingestion.connectorSummaries.length,
+            items: ingestion.totalBeforeLimit,
+            kept: collected.length,
+            windowStart: ingestion.windowStart.toISOString(),
+            windowEnd: ingestion.windowEnd.toISOString()
+          });
+          checkpoint = await this.createRunCheckpoint(ingestion);
+        } else {
+          this.logger.warn('No config-driven connectors found, using legacy collectors');
+          collected = await this.collectAllEvents();
+          metrics.totalCollected = collected.length;
+          this.logger.info('Collected raw events', { events: collected.length });
+        }
+
+        await this.archiveRawEvents(collected);
       }
+      this.metricsCollector.trackStage(
+        'ingest',
+        Date.now() - stageStart,
+        0,
+        collected.length,
+        restoredIngestion !== undefined
+      );
 
       if (collected.length === 0) {
-        console.log('⚠️  No events collected. Exiting.');
+        this.logger.warn('No events collected, stopping');
+        await this.saveMetrics(checkpoint);
+        await getErrorTracker().flush();
         return {
           success: false,
           analyzed: [],
@@ -193,72 +346,234 @@ export class WeeklyUpdateOrchestrator {
         };
       }
 
+      // Skip items processed in earlier runs and reuse their cached analyses
+      const ledger = await this.loadSeenLedger();
+      let pending = collected;
+      let cachedAnalyses: AnalyzedEvent[] = [];
+      if (ledger) {
+        const partition = ledger.partition(collected, await this.resolveDeduplication());
+        pending = partition.fresh;
+        cachedAnalyses = partition.cached;
+        metrics.previouslySeen = partition.skipped;
+        if (partition.skipped > 0) {
+          this.logger.info('Skipped previously processed items', {
+            items: partition.skipped,
+            matchedByContent: partition.matchedByContent
+          });
+        }
+      }
+
       // Step 2: Deduplicate events
-      console.log('🔄 Step 2: Deduplicating events...');
-      const deduplicated = await this.deduplication.deduplicate(collected);
+      stageStart = Date.now();
+      let deduplicated: RawEvent[];
+      const restoredDeduplication = await restore('dedupe');
+      if (restoredDeduplication) {
+        deduplicated = deserializeRawEvents(restoredDeduplication.events);
+        this.logger.info('Restored deduplicated events from checkpoint', {
+          events: deduplicated.length
+        });
+      } else {
+        deduplicated = await this.deduplicate(pending);
+        this.logger.info('Deduplicated events', {
+          events: deduplicated.length,
+          removed: pending.length - deduplicated.length
+        });
+        await this.saveCheckpoint(checkpoint, 'dedupe', {
+          events: serializeRawEvents(deduplicated),
+          removed: pending.length - deduplicated.length
+        });
+      }
       metrics.afterDeduplication = deduplicated.length;
-      console.log(`   ✓ ${deduplicated.length} events after deduplication`);
-      console.log(`   ✓ Removed ${collected.length - deduplicated.length} duplicates\n`);
+      this.metricsCollector.trackStage(
+        'dedupe',
+        Date.now() - stageStart,
+        pending.length,
+        deduplicated.length,
+        restoredDeduplication !== undefined
+      );
 
       // Step 3: Analyze events with AI
-      console.log('🤖 Step 3: Analyzing events with AI...');
-      const analyzed = await this.analyzeEvents(deduplicated);
+      stageStart = Date.now();
+      let analyzed: AnalyzedEvent[];
+      const restoredAnalysis = await restore('analyze');
+      if (restoredAnalysis) {
+        analyzed = restoredAnalysis.events;
+        ledger?.recordAnalyses(analyzed, deduplicated);
+        this.logger.info('Restored analyzed events from checkpoint', { events: analyzed.length });
+      } else {
+        const errorsBefore = this.errors.length;
+        const freshlyAnalyzed = deduplicated.length > 0 ? await this.analyze(deduplicated) : [];
+        ledger?.recordAnalyses(freshlyAnalyzed, deduplicated);
+        analyzed = [...cachedAnalyses, ...freshlyAnalyzed];
+        this.logger.info('Analyzed events', {
+          events: freshlyAnalyzed.length,
+          cached: cachedAnalyses.length
+        });
+        // Events whose analysis failed come back missing rather than as errors. A partial
+        // analysis is not checkpointed, so resuming the run retries it.
+        const failed = deduplicated.length - freshlyAnalyzed.length;
+        if (failed === 0 && this.errors.length === errorsBefore) {
+          await this.saveCheckpoint(checkpoint, 'analyze', { events: analyzed });
+        } else if (failed > 0) {
+          this.logger.warn('Not checkpointing a partial analysis', { failed });
+        }
+      }
       metrics.analyzed = analyzed.length;
-      console.log(`   ✓ Successfully analyzed ${analyzed.length} events\n`);
+      this.metricsCollector.trackStage(
+        'analyze',
+        Date.now() - stageStart,
+        deduplicated.length,
+        analyzed.length,
+        restoredAnalysis !== undefined
+      );
 
       // Step 4: Select top events
-      console.log('⭐ Step 4: Selecting top events...');
-      const selected = await this.analyzer.selectTopEvents(analyzed);
-      const finalSelected = selected.slice(0, this.maxEventsPerWeek);
+      stageStart = Date.now();
+      const restoredSelection = await restore('select');
+      const finalSelected = restoredSelection?.events ?? (await this.select(analyzed));
+      if (restoredSelection) {
+        this.logger.info('Restored the selection from checkpoint');
+      } else {
+        await this.saveCheckpoint(checkpoint, 'select', {
+          events: finalSelected,
+          considered: analyzed.length
+        });
+      }
       metrics.selected = finalSelected.length;
+      this.metricsCollector.trackStage(
+        'select',
+        Date.now() - stageStart,
+        analyzed.length,
+        finalSelected.length,
+        restoredSelection !== undefined
+      );
+      this.metricsCollector.trackSelection(
+        analyzed.length,
+        finalSelected.length,
+        analyzed.map((event) => event.impactScore),
+        this.significanceThreshold
+      );
+      ledger?.recordOutcome(analyzed, 'rejected');
+      ledger?.recordOutcome(finalSelected, 'selected');
 
       if (finalSelected.length > 0) {
-        console.log(`   ✓ Selected ${finalSelected.length} significant events:`);
-        finalSelected.forEach((event, i) => {
-          console.log(`     ${i + 1}. ${event.title} (score: ${event.impactScore})`);
+        this.logger.info('Selected significant events', {
+          events: finalSelected.map((event) => ({
+            id: event.id,
+            title: event.title,
+            impactScore: event.impactScore
+          }))
         });
-        console.log();
       } else {
-        console.log('   ⚠️ No events met significance threshold\n');
+        this.logger.warn('No events met the significance threshold');
       }
 
+      const selectedIds = new Set(finalSelected.map((event) => event.id));
+      const candidates = analyzed.map((event) =>
+        toReviewCandidate(event, selectedIds.has(event.id))
+      );
+
       // Step 5: Create PR if we have events
+      stageStart = Date.now();
       let prUrl: string | undefined;
+      let published: TimelinePublishResult | undefined;
+      const restoredPublication = (await restore('publish'))?.result;
+      // Checked before publishing, which silently drops events the timeline already has
+      const timelineDuplicates =
+        finalSelected.length > 0 && !restoredPublication
+          ? await this.findTimelineDuplicates(finalSelected)
+          : new Map<string, TimelineEntry>();
       if (finalSelected.length > 0) {
-        if (this.dryRun) {
-          console.log('🛑 Step 5: Dry run mode — skipping PR creation\n');
+        if (restoredPublication) {
+          prUrl = restoredPublication.url;
+          ledger?.recordOutcome(finalSelected, 'published', prUrl);
+          this.logger.info('Already published by this run', { url: prUrl });
+        } else if (this.dryRun) {
+          this.logger.info('Dry run, skipping timeline update');
         } else {
-          console.log('📝 Step 5: Creating GitHub pull request...');
           try {
-            const pr = await this.createPullRequest(finalSelected);
-            prUrl = pr.html_url;
-            console.log(`   ✓ Pull request created: ${prUrl}\n`);
+            published = await this.publish(finalSelected, {
+              appendDescription: reviews
+                ? (current) => renderReviewChecklist(candidates, current)
+                : undefined
+            });
+            prUrl = published.url;
+            ledger?.recordOutcome(finalSelected, 'published', prUrl);
+            await this.saveCheckpoint(checkpoint, 'publish', {
+              dryRun: false,
+              events: finalSelected.length,
+              result: {
+                url: published.url,
+                reference: published.reference,
+                created: published.created,
+                changeRequest: published.changeRequest
+              }
+            });
           } catch (error) {
-            console.error('   ✗ Failed to create pull request:', error);
-            this.errors.push(error as Error);
+            this.recordError('publish', error);
           }
         }
       } else {
-        console.log('⏭️  Step 5: Skipping PR creation (no events selected)\n');
+        this.logger.info('No events selected, skipping timeline update');
+      }
+      this.metricsCollector.trackStage(
+        'publish',
+        Date.now() - stageStart,
+        finalSelected.length,
+        prUrl ? finalSelected.length : 0,
+        restoredPublication !== undefined
+      );
+
+      if (ledger) {
+        await this.saveSeenLedger(ledger);
       }
 
-      // Calculate duration and print summary
+      if (reviews && candidates.length > 0) {
+        await this.saveReviewQueue(reviews, candidates, published);
+      }
+
+      await this.saveRunReport(
+        buildRunReport({
+          runId: checkpoint?.runId,
+          generatedAt: getClock().now(),
+          dryRun: this.dryRun,
+          settings: {
+            significanceThreshold: this.significanceThreshold,
+            maxEventsPerWeek: this.maxEventsPerWeek
+          },
+          collected,
+          deduplicated,
+          analyzed,
+          decisions: this.selectionDecisions ?? (await this.analyzer.evaluateSelection(analyzed)),
+          selected: finalSelected,
+          timelineDuplicates,
+          publishedUrl: prUrl
+        }),
+        checkpoint
+      );
+
+      await this.pruneRunCheckpoints();
+
       metrics.duration = Math.round((Date.now() - start) / 1000);
-      this.printSummary(metrics, prUrl);
+      this.logSummary(metrics, prUrl, checkpoint?.runId);
+      await this.saveMetrics(checkpoint);
+      await getErrorTracker().flush();
 
       return {
         success: finalSelected.length > 0 && (this.dryRun ? true : !!prUrl),
         analyzed,
         selected: finalSelected,
         prUrl,
+        runId: checkpoint?.runId,
         metrics,
         errors: this.errors
       };
     } catch (error) {
-      console.error('\n❌ Fatal error in orchestrator:', error);
-      this.errors.push(error as Error);
+      this.recordError('orchestrator', error);
 
       metrics.duration = Math.round((Date.now() - start) / 1000);
+      await this.saveMetrics(null);
+      await getErrorTracker().flush();
 
       return {
         success: false,
@@ -275,7 +590,7 @@ export class WeeklyUpdateOrchestrator {
    */
   private async collectAllEvents(): Promise<RawEvent[]> {
     if (this.collectors.size === 0) {
-      console.warn('   ⚠️ No collectors registered');
+      this.logger.warn('No collectors registered');
       return [];
     }
 
@@ -283,18 +598,24 @@ export class WeeklyUpdateOrchestrator {
     const collectorErrors: Error[] = [];
 
     const promises = Array.from(this.collectors.entries()).map(async ([name, collector]) => {
+      const startedAt = Date.now();
       try {
-        console.log(`   📡 Fetching from ${name}...`);
         const events = (await breaker.execute(() =>
           executeWithRetryPolicy('collector', () => collector.fetchEvents())
         )) as RawEvent[];
-        console.log(`      ✓ ${name}: ${events.length} events`);
+        this.metricsCollector.trackEventCollection(
+          name,
+          events.length,
+          events.length,
+          Date.now() - startedAt
+        );
         return events;
       } catch (error) {
         const err = error as Error;
-        console.error(`      ✗ ${name} failed: ${err.message}`);
         collectorErrors.push(err);
         this.errors.push(err);
+        this.metricsCollector.trackEventCollection(name, 0, 0, Date.now() - startedAt, err);
+        getErrorTracker().capture(err, { source: name });
         return [] as RawEvent[];
       }
     });
@@ -302,11 +623,11 @@ export class WeeklyUpdateOrchestrator {
     const results = await Promise.all(promises);
     const flatResults = results.flat() as RawEvent[];
 
-    // Log summary
     const successCount = results.filter((r: RawEvent[]) => r.length > 0).length;
-    console.log(
-      `   📊 Collection summary: ${successCount}/${this.collectors.size} sources succeeded`
-    );
+    this.logger.info('Collection summary', {
+      succeeded: successCount,
+      collectors: this.collectors.size
+    });
 
     if (collectorErrors.length === this.collectors.size) {
       throw new CustomAggregateError('All collectors failed', collectorErrors);
@@ -315,83 +636,108 @@ export class WeeklyUpdateOrchestrator {
     return flatResults;
   }
 
-  private async collectFromConfigSources(): Promise<{
-    events: RawEvent[];
-    totalBeforeLimit: number;
-    connectorSummaries: ConnectorIngestionSummary[];
-    windowStart: Date;
-    windowEnd: Date;
-  } | null> {
-    let pipelineConfig: PipelineConfig;
-    try {
-      pipelineConfig = await loadPipelineConfig();
-    } catch (error) {
-      console.error('Unable to load pipeline configuration:', error);
-      this.errors.push(error instanceof Error ? error : new Error(String(error)));
+  /**
+   * Fetch items from the sources in sources.yaml within the ingestion window, trimmed to the
+   * pipeline limits; null when there is no pipeline configuration or no enabled source
+   */
+  async ingest(): Promise<IngestionResult | null> {
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
       return null;
     }
 
+    if (!this.httpCacheConfigured) {
+      await this.configureHttpCache();
+    }
+
     const { connectors, windowDays } = await bootstrapConnectors();
     if (connectors.length === 0) {
-      console.warn('No connectors defined in configuration.');
+      this.logger.warn('No connectors defined in configuration');
       return null;
     }
 
     const { windowStart, windowEnd } = computeIngestionWindow(windowDays);
-    const correlationId =
-      typeof randomUUID === 'function'
-        ? randomUUID()
-        : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    const correlationId = this.correlationId;
 
     const maxPerSource = pipelineConfig.limits?.max_items_per_source ?? 20;
 
-    const results = await Promise.all(
-      connectors.map(async (connector) => {
-        const startedAt = Date.now();
-        try {
-          const items = await connector.fetch({
-            windowStart,
-            windowEnd,
-            maxItems: maxPerSource,
-            correlationId
-          });
-          const events = items.map((item) => this.rawItemToRawEvent(item));
-          return {
-            id: connector.id,
-            events,
-            latencyMs: Date.now() - startedAt
-          };
-        } catch (error) {
-          const latencyMs = Date.now() - startedAt;
-          console.error(`Error fetching from ${connector.id}:`, error);
-          this.errors.push(error instanceof Error ? error : new Error(String(error)));
-          return {
-            id: connector.id,
-            events: [] as RawEvent[],
-            latencyMs
-          };
-        }
-      })
-    );
+    const maxConcurrent =
+      pipelineConfig.limits?.max_concurrent_connectors ?? DEFAULT_MAX_CONCURRENT_CONNECTORS;
 
-    const allEvents = results.flatMap((result) => result.events);
+    const results = await mapWithConcurrency(connectors, maxConcurrent, async (connector) => {
+      const startedAt = Date.now();
+      let throttleWaitMs = 0;
+      const onThrottle = (waitMs: number) => {
+        throttleWaitMs += waitMs;
+      };
 
-    const totalBeforeLimit = allEvents.length;
-    allEvents.sort((a, b) => b.date.getTime() - a.date.getTime());
+      try {
+        const items = await connector.fetch({
+          windowStart,
+          windowEnd,
+          maxItems: maxPerSource,
+          correlationId,
+          onThrottle
+        });
+        const latencyMs = Date.now() - startedAt;
+        this.metricsCollector.trackEventCollection(
+          connector.id,
+          items.length,
+          items.length,
+          latencyMs
+        );
+        this.metricsCollector.trackThrottleWait(connector.id, throttleWaitMs);
+        this.logger.info('Fetched source', {
+          connector: connector.id,
+          items: items.length,
+          latencyMs,
+          throttleWaitMs
+        });
+        return {
+          id: connector.id,
+          items,
+          latencyMs,
+          throttleWaitMs
+        };
+      } catch (error) {
+        const latencyMs = Date.now() - startedAt;
+        const err = error instanceof Error ? error : new Error(String(error));
+        this.errors.push(err);
+        this.metricsCollector.trackEventCollection(connector.id, 0, 0, latencyMs, err);
+        this.metricsCollector.trackThrottleWait(connector.id, throttleWaitMs);
+        getErrorTracker().capture(err, { source: connector.id });
+        return {
+          id: connector.id,
+          items: [] as RawItem[],
+          latencyMs,
+          throttleWaitMs
+        };
+      }
+    });
+
+    const collected = results.flatMap((result) =>
+      result.items.map((item) => ({ item, event: rawItemToRawEvent(item) }))
+    );
+
+    const totalBeforeLimit = collected.length;
+    collected.sort((a, b) => b.event.date.getTime() - a.event.date.getTime());
 
     const maxPerRun = pipelineConfig.limits?.max_items_per_run;
-    const limitedEvents = typeof maxPerRun === 'number' ? allEvents.slice(0, maxPerRun) : allEvents;
+    const limited = typeof maxPerRun === 'number' ? collected.slice(0, maxPerRun) : collected;
 
     const connectorSummaries: ConnectorIngestionSummary[] = results.map(
-      ({ id, events, latencyMs }) => ({
+      ({ id, items, latencyMs, throttleWaitMs }) => ({
         id,
-        itemCount: events.length,
-        latencyMs
+        itemCount: items.length,
+        latencyMs,
+        throttleWaitMs
       })
     );
 
     return {
-      events: limitedEvents,
+      correlationId,
+      items: limited.map(({ item }) => item),
+      events: limited.map(({ event }) => event),
       totalBeforeLimit,
       connectorSummaries,
       windowStart,
@@ -399,43 +745,299 @@ export class WeeklyUpdateOrchestrator {
     };
   }
 
-  private rawItemToRawEvent(item: RawItem): RawEvent {
-    const publishedAt = item.publishedAt ? new Date(item.publishedAt) : new Date();
-    const eventDate = Number.isNaN(publishedAt.getTime()) ? new Date() : publishedAt;
+  /**
+   * Load pipeline.yaml once per run; failures are recorded and reported as null
+   */
+  private loadPipeline(): Promise<PipelineConfig | null> {
+    if (!this.pipelineConfigPromise) {
+      this.pipelineConfigPromise = loadPipelineConfig().catch((error) => {
+        this.recordError('pipeline-config', error);
+        return null;
+      });
+    }
 
-    const summaryContent =
-      item.summary && item.summary.trim().length > 0 ? item.summary.trim() : undefined;
+    return this.pipelineConfigPromise;
+  }
 
-    const metadata: Record<string, unknown> = {
-      ...item.metadata,
-      raw_item_id: item.id,
-      source_id: item.source
-    };
+  /**
+   * Report the run's errors to the tracker selected by `errors.tracker` in pipeline.yaml; an
+   * unusable tracker configuration is recorded and the run reports to no tracker
+   */
+  private async configureErrorTracker(): Promise<void> {
+    setErrorTracker(new NoopErrorTracker());
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
+      return;
+    }
 
-    if (summaryContent) {
-      metadata.summary = summaryContent;
+    try {
+      const tracker = createErrorTracker(pipelineConfig.errors, {
+        correlationId: this.correlationId
+      });
+      setErrorTracker(tracker);
+      this.logger.debug('Error tracker configured', { tracker: tracker.name });
+    } catch (error) {
+      this.recordError('error-tracker', error);
     }
+  }
 
-    if (item.authors && item.authors.length > 0) {
-      metadata.authors = item.authors;
+  /**
+   * Route connector GET requests through the on-disk HTTP cache configured in pipeline.yaml
+   */
+  private async configureHttpCache(): Promise<void> {
+    this.httpCacheConfigured = true;
+    const pipelineConfig = await this.loadPipeline();
+    const settings = pipelineConfig?.http_cache;
+    const mode = this.config.httpCacheMode ?? settings?.mode ?? 'off';
+
+    if (mode === 'off') {
+      configureHttpCache(null);
+      return;
     }
 
-    const content = summaryContent ?? item.title;
+    const cache = new HttpCache({ dir: settings?.dir ?? '.cache/http', mode });
+    configureHttpCache(cache);
+    this.logger.info('HTTP cache enabled', { mode, dir: cache.dir });
+  }
 
-    return {
-      title: item.title,
-      date: eventDate,
-      source: item.source,
-      url: item.url,
-      content,
-      metadata
-    };
+  /**
+   * Keep the run's raw events under `outputs.raw_events_dir` for backtests; failures only warn
+   */
+  private async archiveRawEvents(events: RawEvent[]): Promise<void> {
+    const dir = (await this.loadPipeline())?.outputs.raw_events_dir;
+    if (!this.useLocalOutputs || !dir || events.length === 0) {
+      return;
+    }
+
+    try {
+      const filePath = await archiveRawEvents(dir, events, getClock().now());
+      this.logger.info('Archived raw events', { events: events.length, path: filePath });
+    } catch (error) {
+      this.logger.warn('Failed to archive raw events', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Checkpoint settings from pipeline.yaml; null when checkpoints are disabled
+   */
+  private async checkpointSettings(): Promise<NonNullable<PipelineConfig['checkpoints']> | null> {
+    if (!this.useCheckpoints) {
+      return null;
+    }
+    const settings = (await this.loadPipeline())?.checkpoints;
+    return settings?.enabled ? settings : null;
+  }
+
+  /**
+   * Open the checkpoints of the run to resume
+   */
+  private async openRunCheckpoint(runId: string): Promise<RunCheckpoint> {
+    const settings = await this.checkpointSettings();
+    if (!settings) {
+      throw new ConfigurationError('Resuming a run requires checkpoints.enabled in pipeline.yaml');
+    }
+
+    const checkpoint = await RunCheckpoint.open(settings.dir, runId);
+    this.logger.info('Resuming run', { runId, dir: checkpoint.dir });
+    return checkpoint;
+  }
+
+  /**
+   * Start checkpointing a new run with its collected items; null when checkpoints are
+   * disabled or the run directory cannot be written
+   */
+  private async createRunCheckpoint(ingestion: IngestionResult): Promise<RunCheckpoint | null> {
+    const settings = await this.checkpointSettings();
+    if (!settings) {
+      return null;
+    }
+
+    try {
+      const checkpoint = await RunCheckpoint.create(settings.dir, ingestion.correlationId);
+      await checkpoint.save('ingest', toIngestArtifact(ingestion));
+      this.logger.info('Checkpointing run', { runId: checkpoint.runId, dir: checkpoint.dir });
+      return checkpoint;
+    } catch (error) {
+      this.logger.warn('Failed to create run checkpoint', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Save a completed stage's output; failures only warn, the run itself is unaffected
+   */
+  private async saveCheckpoint<S extends PipelineStage>(
+    checkpoint: RunCheckpoint | null,
+    stage: S,
+    data: StageArtifactData[S]
+  ): Promise<void> {
+    if (!checkpoint) {
+      return;
+    }
+
+    try {
+      await checkpoint.save(stage, data);
+    } catch (error) {
+      this.logger.warn('Failed to checkpoint stage', { stage, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Keep the `checkpoints.keep` most recent run directories
+   */
+  private async pruneRunCheckpoints(): Promise<void> {
+    const settings = await this.checkpointSettings();
+    if (!settings) {
+      return;
+    }
+
+    try {
+      const removed = await RunCheckpoint.prune(settings.dir, settings.keep);
+      if (removed.length > 0) {
+        this.logger.info('Removed checkpoints of older runs', { runIds: removed });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to prune run checkpoints', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Existing timeline entries that selected events duplicate, keyed by event id; empty when
+   * the timeline cannot be read
+   */
+  private async findTimelineDuplicates(
+    events: AnalyzedEvent[]
+  ): Promise<Map<string, TimelineEntry>> {
+    const duplicates = new Map<string, TimelineEntry>();
+    try {
+      const { events: existing } = await (await this.resolveTimelineStore()).fetchTimeline();
+      for (const event of events) {
+        const match = findExistingTimelineEntry(toTimelineEntry(event), existing);
+        if (match) {
+          duplicates.set(event.id, match);
+        }
+      }
+    } catch (error) {
+      this.logger.warn('Failed to check the timeline for duplicates', {
+        error: (error as Error).message
+      });
+    }
+    return duplicates;
+  }
+
+  /**
+   * Write the run report to `outputs.report_dir` and next to the run's checkpoints; failures
+   * only warn
+   */
+  private async saveRunReport(report: RunReport, checkpoint: RunCheckpoint | null): Promise<void> {
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
+      return;
+    }
+
+    try {
+      const [jsonPath, markdownPath] = await writeRunReport(
+        pipelineConfig.outputs.report_dir,
+        report
+      );
+      if (checkpoint) {
+        await writeRunReport(checkpoint.dir, report);
+      }
+      this.logger.info('Wrote run report', { json: jsonPath, markdown: markdownPath });
+    } catch (error) {
+      this.logger.warn('Failed to write run report', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Load the seen-items ledger from `outputs.report_dir` and apply the `seen_ledger` retention;
+   * null when disabled or unavailable
+   */
+  private async loadSeenLedger(): Promise<SeenItemsLedger | null> {
+    if (!this.useSeenLedger) {
+      return null;
+    }
+
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
+      return null;
+    }
+
+    const ledger = await SeenItemsLedger.load(
+      SeenItemsLedger.resolvePath(pipelineConfig.outputs.report_dir)
+    );
+    const retention = pipelineConfig.seen_ledger;
+    const pruned = ledger.prune(
+      retention
+        ? { retentionDays: retention.retention_days, maxItems: retention.max_items }
+        : DEFAULT_SEEN_LEDGER_RETENTION
+    );
+    this.logger.info('Loaded seen-items ledger', {
+      items: ledger.itemCount,
+      pruned,
+      path: ledger.path
+    });
+    return ledger;
+  }
+
+  /**
+   * Persist the ledger; failures are recorded but do not fail the run
+   */
+  private async saveSeenLedger(ledger: SeenItemsLedger): Promise<void> {
+    try {
+      await ledger.save();
+    } catch (error) {
+      this.recordError('seen-ledger', error);
+    }
+  }
+
+  /**
+   * Build the deduplication service from pipeline.yaml unless one was injected.
+   * Embeddings go through the LLM provider chain; without one, matching stays lexical.
+   */
+  private async resolveDeduplication(): Promise<DeduplicationService> {
+    if (this.deduplication) {
+      return this.deduplication;
+    }
+
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
+      this.deduplication = new DeduplicationService();
+      return this.deduplication;
+    }
+
+    let embeddingProvider: LLMProvider | undefined;
+    try {
+      embeddingProvider = await createLLMProvider();
+    } catch (error) {
+      this.logger.warn('No embedding provider available, using lexical deduplication', {
+        error: (error as Error).message
+      });
+    }
+
+    this.deduplication = DeduplicationService.fromPipelineConfig(
+      pipelineConfig.dedupe,
+      embeddingProvider
+    );
+    return this.deduplication;
+  }
+
+  /**
+   * Merge duplicate events with the strategy configured in pipeline.yaml
+   */
+  async deduplicate(events: RawEvent[]): Promise<RawEvent[]> {
+    const deduplication = await this.resolveDeduplication();
+    this.logger.info('Deduplicating events', {
+      events: events.length,
+      strategy: deduplication.getEffectiveMode()
+    });
+    return deduplication.deduplicate(events);
   }
 
   /**
    * Analyze events with error handling
    */
-  private async analyzeEvents(events: RawEvent[]): Promise<AnalyzedEvent[]> {
+  async analyze(events: RawEvent[]): Promise<AnalyzedEvent[]> {
     const breaker = CircuitBreakerFactory.getBreaker('Analyzer');
 
     try {
@@ -443,8 +1045,7 @@ export class WeeklyUpdateOrchestrator {
         executeWithRetryPolicy('analyzer', () => this.analyzer.analyzeEvents(events))
       );
     } catch (error) {
-      console.error('   ✗ Analysis failed:', error);
-      this.errors.push(error as Error);
+      this.recordError('analyze', error);
 
       // Return empty array to continue with workflow
       return [];
@@ -452,40 +1053,309 @@ export class WeeklyUpdateOrchestrator {
   }
 
   /**
-   * Create pull request with error handling
+   * Pick the events to publish: above the significance threshold and composite minimums,
+   * capped at the weekly maximum
+   */
+  async select(analyzed: AnalyzedEvent[]): Promise<AnalyzedEvent[]> {
+    this.selectionDecisions = await this.analyzer.evaluateSelection(analyzed);
+    const selected = this.analyzer.selectFromDecisions(this.selectionDecisions);
+    return selected.slice(0, this.maxEventsPerWeek);
+  }
+
+  /**
+   * Publish selected events to the configured timeline store, then write the exports it
+   * does not commit and the static site
+   */
+  async publish(
+    events: AnalyzedEvent[],
+    options?: TimelinePublishOptions
+  ): Promise<TimelinePublishResult> {
+    const store = await this.resolveTimelineStore();
+    this.logger.info('Publishing timeline update', {
+      events: events.length,
+      store: store.describe()
+    });
+    const published = await this.publishTimelineUpdate(store, events, {
+      ...options,
+      selectionCriteria: options?.selectionCriteria ?? (await this.analyzer.getSelectionCriteria())
+    });
+    this.logger.info('Timeline update published', { url: published.url });
+    await this.writeUncommittedExports(published.entries);
+    await this.writeSite(published.entries);
+    return published;
+  }
+
+  /**
+   * Errors recorded so far; stages log and collect recoverable failures instead of throwing
+   */
+  getErrors(): Error[] {
+    return [...this.errors];
+  }
+
+  /**
+   * Build the timeline store from pipeline.yaml unless one was injected
+   */
+  private async resolveTimelineStore(): Promise<TimelineStore> {
+    if (this.timelineStore) {
+      return this.timelineStore;
+    }
+
+    const pipelineConfig = await this.loadPipeline();
+    const settings = pipelineConfig?.timeline;
+    const backend = this.config.timelineBackend ?? settings?.backend ?? 'github';
+    const exportConfig = pipelineConfig?.outputs.exports;
+    const exports: TimelineExportSettings | undefined = exportConfig && {
+      targets: exportConfig.files,
+      options: {
+        title: exportConfig.title,
+        siteUrl: exportConfig.site_url,
+        description: exportConfig.description,
+        feedLimit: exportConfig.feed_limit
+      }
+    };
+    // The local backend writes exports next to its file; forges only when they are committed
+    const commitExports = backend === 'local' || exportConfig?.commit === true;
+    this.uncommittedExports = commitExports ? undefined : exports;
+
+    this.timelineStore = createTimelineStore({
+      backend,
+      filePath: pipelineConfig?.outputs.timeline_path ?? 'data/timeline-events.json',
+      fields: pipelineConfig?.outputs.timeline_fields,
+      format: pipelineConfig?.outputs.timeline_format,
+      repo: this.config.timelineRepo,
+      token: this.config.githubToken || process.env.GIT_TOKEN,
+      apiUrl: settings?.api_url,
+      baseBranch: settings?.base_branch,
+      incremental: settings?.incremental,
+      localDir: settings?.local_dir,
+      commit: settings?.commit,
+      exports: commitExports ? exports : undefined
+    });
+
+    return this.timelineStore;
+  }
+
+  /**
+   * Generate the static site from the published timeline into `outputs.site.dir`
+   */
+  private async writeSite(entries?: TimelineEntry[]): Promise<void> {
+    const site = (await this.loadPipeline())?.outputs.site;
+    if (!this.useLocalOutputs || !site || !entries) {
+      return;
+    }
+
+    try {
+      await writeTimelineSite(
+        entries,
+        { title: site.title, description: site.description, baseUrl: site.base_url },
+        site.dir
+      );
+      this.logger.info('Generated timeline site', { events: entries.length, dir: site.dir });
+    } catch (error) {
+      this.recordError('site', error);
+    }
+  }
+
+  /**
+   * Render exports the timeline store did not commit into the working directory
+   */
+  private async writeUncommittedExports(entries?: TimelineEntry[]): Promise<void> {
+    if (!this.useLocalOutputs || !this.uncommittedExports || !entries) {
+      return;
+    }
+
+    try {
+      const written = await writeTimelineExports(
+        renderTimelineExports(entries, this.uncommittedExports)
+      );
+      this.logger.info('Wrote timeline exports', { files: written.length });
+    } catch (error) {
+      this.recordError('exports', error);
+    }
+  }
+
+  /**
+   * Publish selected events with error handling
    */
-  private async createPullRequest(events: AnalyzedEvent[]) {
-    const breaker = CircuitBreakerFactory.getBreaker('GitHub');
+  private async publishTimelineUpdate(
+    store: TimelineStore,
+    events: AnalyzedEvent[],
+    options?: TimelinePublishOptions
+  ) {
+    const breaker = CircuitBreakerFactory.getBreaker('Timeline');
 
     return await breaker.execute(() =>
-      executeWithRetryPolicy('github', () => this.github.createTimelineUpdatePR(events))
+      executeWithRetryPolicy('timeline', () => store.publishEvents(events, options))
     );
   }
 
   /**
-   * Print execution summary
+   * Load the review queue from `review.dir`; null when review is disabled or not configured, or
+   * local outputs are off
    */
-  private printSummary(metrics: OrchestratorResult['metrics'], prUrl?: string): void {
-    console.log('====================================================');
-    console.log('📈 Execution Summary');
-    console.log('====================================================');
-    console.log(`Total events collected:     ${metrics.totalCollected}`);
-    console.log(`After deduplication:        ${metrics.afterDeduplication}`);
-    console.log(`Successfully analyzed:      ${metrics.analyzed}`);
-    console.log(`Selected for timeline:      ${metrics.selected}`);
-    console.log(`Execution time:             ${metrics.duration}s`);
+  private async loadReviewStore(): Promise<ReviewStore | null> {
+    const settings = (await this.loadPipeline())?.review;
+    if (!this.useLocalOutputs || !settings?.enabled) {
+      return null;
+    }
+
+    const reviews = await ReviewStore.load(settings.dir);
+    this.logger.info('Loaded review queue', {
+      pending: reviews.pending.length,
+      labeled: reviews.examples.length,
+      path: reviews.path
+    });
+    return reviews;
+  }
+
+  /**
+   * Record the decisions of pending reviews concluded since earlier runs, either through a
+   * local checklist marked complete or a merged or closed change request, then refresh the
+   * calibration report
+   */
+  private async collectReviewDecisions(reviews: ReviewStore): Promise<void> {
+    let recorded = 0;
+
+    for (const review of reviews.pending) {
+      try {
+        const markdown = await reviews.readCompletedFile(review);
+        if (markdown) {
+          recorded += reviews.conclude(review, { source: 'file', markdown }).length;
+          continue;
+        }
+
+        if (review.changeRequest === undefined) {
+          continue;
+        }
+
+        const store = await this.resolveTimelineStore();
+        if (!(store instanceof ForgeTimelineStore)) {
+          continue;
+        }
+
+        const status = await store.getChangeRequest(review.changeRequest);
+        if (status.state !== 'open') {
+          recorded += reviews.conclude(review, {
+            source: 'change_request',
+            state: status.state,
+            description: status.description
+          }).length;
+        }
+      } catch (error) {
+        this.logger.warn('Could not read review decisions', {
+          reference: review.reference,
+          error: (error as Error).message
+        });
+      }
+    }
 
-    if (prUrl) {
-      console.log(`\n✅ Pull Request:            ${prUrl}`);
+    if (recorded === 0) {
+      return;
     }
 
-    if (this.errors.length > 0) {
-      console.log(`\n⚠️  Errors encountered:       ${this.errors.length}`);
-      this.errors.forEach((err, i) => {
-        console.log(`   ${i + 1}. ${err.message}`);
+    this.logger.info('Recorded review decisions', { decisions: recorded });
+
+    try {
+      const scoring = (await this.loadPipeline())?.scoring;
+      const report = buildCalibrationReport(reviews.examples, {
+        significanceThreshold: this.significanceThreshold,
+        weights: scoring?.weights ?? DEFAULT_SCORING_CONFIG.weights,
+        minComposite: scoring?.min_composite ?? DEFAULT_SCORING_CONFIG.minComposite
+      });
+      await reviews.save();
+      this.logger.info('Saved calibration report', {
+        path: await reviews.saveCalibration(report)
       });
+    } catch (error) {
+      this.recordError('review', error);
+    }
+  }
+
+  /**
+   * Queue this run's candidates for review under the reference they were published to, or
+   * under the run date when nothing was published
+   */
+  private async saveReviewQueue(
+    reviews: ReviewStore,
+    candidates: ReviewCandidate[],
+    published?: TimelinePublishResult
+  ): Promise<void> {
+    const review = reviews.enqueue(candidates, {
+      reference: published?.reference ?? `run-${getClock().now().toISOString().slice(0, 10)}`,
+      changeRequest: published?.changeRequest,
+      url: published?.url
+    });
+
+    try {
+      await reviews.save();
+      this.logger.info('Queued candidates for review', {
+        candidates: candidates.length,
+        path: reviews.reviewFilePath(review)
+      });
+    } catch (error) {
+      this.recordError('review', error);
+    }
+  }
+
+  /**
+   * Keep a recoverable failure for the run result and report it to the metrics collector
+   */
+  private recordError(source: string, error: unknown): void {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.errors.push(err);
+    this.metricsCollector.trackError(source, err);
+    getErrorTracker().capture(err, { source });
+  }
+
+  /**
+   * Write the metrics collector's summary to `outputs.report_dir` and next to the run's
+   * checkpoints, then hand it to the configured telemetry exporters; failures only warn
+   */
+  private async saveMetrics(checkpoint: RunCheckpoint | null): Promise<void> {
+    const pipelineConfig = await this.loadPipeline();
+    if (!pipelineConfig) {
+      return;
     }
 
-    console.log('====================================================\n');
+    try {
+      await this.metricsCollector.saveToFile(
+        path.resolve(process.cwd(), pipelineConfig.outputs.report_dir, METRICS_FILENAME)
+      );
+      if (checkpoint) {
+        await this.metricsCollector.saveToFile(path.join(checkpoint.dir, METRICS_FILENAME));
+      }
+    } catch (error) {
+      this.logger.warn('Failed to save metrics', { error: (error as Error).message });
+    }
+
+    if (!pipelineConfig.telemetry) {
+      return;
+    }
+    const outcomes = await exportTelemetry(
+      this.metricsCollector.getSummary(),
+      pipelineConfig.telemetry
+    );
+    for (const outcome of outcomes) {
+      if (outcome.error) {
+        this.logger.warn('Telemetry export failed', { ...outcome });
+      } else {
+        this.logger.info('Telemetry exported', { ...outcome });
+      }
+    }
+  }
+
+  /**
+   * Log the run's outcome and the metrics collector's summary
+   */
+  private logSummary(metrics: OrchestratorResult['metrics'], prUrl?: string, runId?: string): void {
+    this.logger.info('Weekly update finished', {
+      ...metrics,
+      prUrl,
+      errors: this.errors.map((error) => error.message)
+    });
+    if (this.errors.length > 0 && runId) {
+      this.logger.warn('Continue from the last completed stage with --resume', { runId });
+    }
+    this.metricsCollector.logSummary();
   }
 }
@@ -0,0 +1,226 @@
+/**
+ * Unit tests for the review checklist, the review store and calibration reports
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { buildCalibrationReport, renderCalibrationMarkdown } from '../calibration';
+import {
+  isReviewFileComplete,
+  parseReviewChecklist,
+  renderReviewChecklist,
+  renderReviewFile
+} from '../checklist';
+import { ReviewStore } from '../review-store';
+import type { ReviewCandidate, ReviewExample } from '../types';
+
+function candidate(id: string, impactScore: number, selected: boolean): ReviewCandidate {
+  return {
+    id,
+    title: `Event ${id}`,
+    date: '2024-03-14T00:00:00.000Z',
+    category: 'research',
+    impactScore,
+    significance: {
+      technologicalBreakthrough: impactScore,
+      industryImpact: impactScore,
+      adoptionScale: impactScore,
+      novelty: impactScore
+    },
+    url: `https://example.com/${id}`,
+    selected
+  };
+}
+
+const candidates = [
+  candidate('2024-03-14-alpha', 8.5, true),
+  candidate('2024-03-14-beta', 7.2, true),
+  candidate('2024-03-14-gamma', 5, false)
+];
+
+describe('review checklist', () => {
+  it('starts with the selected candidates ticked', () => {
+    const markdown = renderReviewChecklist(candidates);
+
+    expect(markdown).toContain(
+      '- [x] **[Event 2024-03-14-alpha](https://example.com/2024-03-14-alpha)** · `research` · impact 8.5 <!-- review:2024-03-14-alpha -->'
+    );
+    expect(parseReviewChecklist(markdown)).toEqual([
+      expect.objectContaining({ id: '2024-03-14-alpha', checked: true, section: 'selected' }),
+      expect.objectContaining({ id: '2024-03-14-beta', checked: true, section: 'selected' }),
+      expect.objectContaining({ id: '2024-03-14-gamma', checked: false, section: 'not_selected' })
+    ]);
+  });
+
+  it('keeps reviewer ticks and earlier items when re-rendered', () => {
+    const reviewed = renderReviewChecklist(candidates)
+      .replace('- [x] **[Event 2024-03-14-beta]', '- [ ] **[Event 2024-03-14-beta]')
+      .replace('- [ ] **[Event 2024-03-14-gamma]', '- [x] **[Event 2024-03-14-gamma]');
+
+    const markdown = renderReviewChecklist(
+      [candidate('2024-03-14-beta', 7.2, true), candidate('2024-03-15-delta', 9, true)],
+      `PR body\n\n${reviewed}`
+    );
+
+    expect(
+      parseReviewChecklist(markdown).map((item) => [item.id, item.checked, item.section])
+    ).toEqual([
+      ['2024-03-14-alpha', true, 'selected'],
+      ['2024-03-15-delta', true, 'selected'],
+      ['2024-03-14-beta', false, 'selected'],
+      ['2024-03-14-gamma', true, 'not_selected']
+    ]);
+  });
+
+  it('marks local review files complete only once the box is ticked', () => {
+    const file = renderReviewFile(candidates, 'auto-update/week-2024-11');
+
+    expect(isReviewFileComplete(file)).toBe(false);
+    expect(parseReviewChecklist(file)).toHaveLength(3);
+    expect(
+      isReviewFileComplete(file.replace('- [ ] Review complete', '- [x] Review complete'))
+    ).toBe(true);
+  });
+});
+
+describe('ReviewStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'review-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('records ticks of a merged change request as approvals and rejections', async () => {
+    const store = await ReviewStore.load(dir);
+    const review = store.enqueue(candidates, {
+      reference: 'auto-update/week-2024-11',
+      changeRequest: 7
+    });
+    await store.save();
+
+    const description = renderReviewChecklist(candidates).replace(
+      '- [x] **[Event 2024-03-14-beta]',
+      '- [ ] **[Event 2024-03-14-beta]'
+    );
+    const recorded = store.conclude(review, {
+      source: 'change_request',
+      state: 'merged',
+      description
+    });
+    await store.save();
+
+    expect(recorded.map((example) => [example.eventId, example.decision])).toEqual([
+      ['2024-03-14-alpha', 'approved'],
+      ['2024-03-14-beta', 'rejected'],
+      ['2024-03-14-gamma', 'rejected']
+    ]);
+
+    const reloaded = await ReviewStore.load(dir);
+    expect(reloaded.pending).toEqual([]);
+    expect(reloaded.examples).toHaveLength(3);
+    expect((await fs.readdir(dir)).sort()).toEqual(['labels.json', 'queue.json']);
+  });
+
+  it('rejects the proposed events of a closed change request', async () => {
+    const store = await ReviewStore.load(dir);
+    const review = store.enqueue(candidates, { reference: 'auto-update/week-2024-11' });
+
+    const recorded = store.conclude(review, {
+      source: 'change_request',
+      state: 'closed',
+      description: renderReviewChecklist(candidates)
+    });
+
+    expect(recorded.map((example) => example.decision)).toEqual([
+      'rejected',
+      'rejected',
+      'rejected'
+    ]);
+  });
+
+  it('reads decisions from a completed local review file', async () => {
+    const store = await ReviewStore.load(dir);
+    const review = store.enqueue(candidates.slice(0, 2), { reference: 'run-2024-03-14' });
+    store.enqueue([candidates[2]], { reference: 'run-2024-03-14' });
+    await store.save();
+
+    const filePath = store.reviewFilePath(review);
+    expect(await store.readCompletedFile(review)).toBeNull();
+
+    const file = await fs.readFile(filePath, 'utf-8');
+    await fs.writeFile(
+      filePath,
+      file
+        .replace('- [ ] Review complete', '- [x] Review complete')
+        .replace('- [ ] **[Event 2024-03-14-gamma]', '- [x] **[Event 2024-03-14-gamma]')
+    );
+
+    const markdown = await store.readCompletedFile(review);
+    expect(markdown).not.toBeNull();
+
+    const recorded = store.conclude(review, { source: 'file', markdown: markdown as string });
+    expect(recorded.map((example) => [example.eventId, example.decision, example.source])).toEqual([
+      ['2024-03-14-alpha', 'approved', 'file'],
+      ['2024-03-14-beta', 'approved', 'file'],
+      ['2024-03-14-gamma', 'approved', 'file']
+    ]);
+  });
+});
+
+describe('buildCalibrationReport', () => {
+  const current = {
+    significanceThreshold: 7,
+    weights: { technical: 0.5, commercial: 0.3, social: 0.2 },
+    minComposite: 0
+  };
+
+  function example(impactScore: number, decision: ReviewExample['decision']): ReviewExample {
+    const { significance, category } = candidate('x', impactScore, false);
+    return {
+      eventId: `event-${impactScore}`,
+      decision,
+      selected: impactScore >= 7,
+      category,
+      impactScore,
+      significance,
+      source: 'change_request',
+      reference: 'auto-update/week-2024-11',
+      decidedAt: '2024-03-20T00:00:00.000Z'
+    };
+  }
+
+  it('suggests the threshold that best separates approved from rejected candidates', () => {
+    const report = buildCalibrationReport(
+      [
+        example(9, 'approved'),
+        example(8, 'approved'),
+        example(7.5, 'rejected'),
+        example(7, 'rejected'),
+        example(5, 'rejected')
+      ],
+      current
+    );
+
+    expect(report.labels).toEqual({ approved: 2, rejected: 3 });
+    expect(report.confident).toBe(false);
+    expect(report.current.threshold).toEqual({ precision: 0.5, recall: 1, f1: 0.67, passed: 4 });
+    expect(report.suggested?.significanceThreshold).toBe(8);
+    expect(report.suggested?.threshold).toEqual({ precision: 1, recall: 1, f1: 1, passed: 2 });
+    expect(report.suggested?.composite.f1).toBe(1);
+    expect(renderCalibrationMarkdown(report)).toContain(
+      '- Suggested 8: precision 1.00, recall 1.00, F1 1.00'
+    );
+  });
+
+  it('makes no suggestions without both approved and rejected labels', () => {
+    const report = buildCalibrationReport([example(9, 'approved')], current);
+
+    expect(report.suggested).toBeUndefined();
+    expect(renderCalibrationMarkdown(report)).toContain('No suggestions until');
+  });
+});
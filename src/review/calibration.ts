@@ -0,0 +1,295 @@
+/**
+ * Calibration report from editorial decisions: how well the significance threshold and the
+ * scoring weights reproduce what reviewers approved, and which values would do better.
+ * Selection caps (max events per week) are ignored; only the pass/fail gates are evaluated.
+ */
+
+import { ScoringEngine, type ScoringWeightGroup } from '../analyzers/scoring';
+import type { ReviewExample } from './types';
+
+const GROUPS: ScoringWeightGroup[] = ['technical', 'commercial', 'social'];
+const THRESHOLD_STEP = 0.5;
+const COMPOSITE_STEP = 0.05;
+const WEIGHT_STEP = 0.1;
+/** Below this many labels per class, suggestions are flagged as low confidence */
+const MIN_CONFIDENT_LABELS = 10;
+
+export interface CalibrationSettings {
+  significanceThreshold: number;
+  weights: Record<ScoringWeightGroup, number>;
+  minComposite: number;
+}
+
+export interface SelectionQuality {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Examples the gate lets through */
+  passed: number;
+}
+
+export interface CategoryCalibration {
+  category: string;
+  approved: number;
+  rejected: number;
+  /** Quality of the current threshold within the category */
+  current: SelectionQuality;
+  /**
+   * Composite minimum (under the current weights) that best matches the decisions within the
+   * category, for `category_minimums`; only when it has both approved and rejected examples
+   */
+  suggestedMinComposite?: number;
+}
+
+export interface CalibrationReport {
+  generatedAt: string;
+  labels: { approved: number; rejected: number };
+  /** Whether there are enough labels of both kinds for the suggestions to be meaningful */
+  confident: boolean;
+  current: CalibrationSettings & { threshold: SelectionQuality; composite: SelectionQuality };
+  suggested?: CalibrationSettings & { threshold: SelectionQuality; composite: SelectionQuality };
+  categories: CategoryCalibration[];
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Precision and recall of a selection gate against items labeled as wanted
+ */
+export function selectionQuality<T>(
+  items: T[],
+  passes: (item: T) => boolean,
+  wanted: (item: T) => boolean
+): SelectionQuality {
+  let truePositives = 0;
+  let passed = 0;
+  let approved = 0;
+
+  for (const item of items) {
+    const isApproved = wanted(item);
+    const didPass = passes(item);
+    approved += isApproved ? 1 : 0;
+    passed += didPass ? 1 : 0;
+    truePositives += isApproved && didPass ? 1 : 0;
+  }
+
+  const precision = passed > 0 ? truePositives / passed : 0;
+  const recall = approved > 0 ? truePositives / approved : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  return { precision: round(precision), recall: round(recall), f1: round(f1), passed };
+}
+
+function quality(examples: ReviewExample[], passes: (example: ReviewExample) => boolean) {
+  return selectionQuality(examples, passes, (example) => example.decision === 'approved');
+}
+
+/**
+ * Weight combinations on a 0.1 grid that sum to 1
+ */
+function weightGrid(): Record<ScoringWeightGroup, number>[] {
+  const steps = Math.round(1 / WEIGHT_STEP);
+  const grid: Record<ScoringWeightGroup, number>[] = [];
+
+  for (let technical = 0; technical <= steps; technical++) {
+    for (let commercial = 0; commercial <= steps - technical; commercial++) {
+      grid.push({
+        technical: round(technical * WEIGHT_STEP),
+        commercial: round(commercial * WEIGHT_STEP),
+        social: round((steps - technical - commercial) * WEIGHT_STEP)
+      });
+    }
+  }
+
+  return grid;
+}
+
+function composites(examples: ReviewExample[], weights: Record<ScoringWeightGroup, number>) {
+  if (!GROUPS.some((group) => weights[group] > 0)) {
+    return null;
+  }
+
+  const engine = new ScoringEngine({ weights, minComposite: 0 });
+  return new Map(
+    examples.map((example) => [
+      example,
+      engine.score(example.significance, example.category).composite
+    ])
+  );
+}
+
+/**
+ * Best threshold on a grid by F1; ties go to the higher, more selective value
+ */
+function bestThreshold(
+  examples: ReviewExample[],
+  score: (example: ReviewExample) => number,
+  max: number,
+  step: number
+): { value: number; quality: SelectionQuality } {
+  let best = { value: 0, quality: quality(examples, () => true) };
+
+  for (let index = 1; index * step <= max + 1e-9; index++) {
+    const value = round(index * step);
+    const candidate = quality(examples, (example) => score(example) >= value);
+    if (candidate.f1 >= best.quality.f1) {
+      best = { value, quality: candidate };
+    }
+  }
+
+  return best;
+}
+
+export function buildCalibrationReport(
+  examples: ReviewExample[],
+  current: CalibrationSettings
+): CalibrationReport {
+  const approved = examples.filter((example) => example.decision === 'approved').length;
+  const rejected = examples.length - approved;
+
+  const currentComposites = composites(examples, current.weights);
+  const passesCurrentComposite = (example: ReviewExample) =>
+    (currentComposites?.get(example) ?? 0) >= current.minComposite;
+
+  const report: CalibrationReport = {
+    generatedAt: new Date().toISOString(),
+    labels: { approved, rejected },
+    confident: approved >= MIN_CONFIDENT_LABELS && rejected >= MIN_CONFIDENT_LABELS,
+    current: {
+      ...current,
+      threshold: quality(
+        examples,
+        (example) => example.impactScore >= current.significanceThreshold
+      ),
+      composite: quality(examples, passesCurrentComposite)
+    },
+    categories: [...new Set(examples.map((example) => example.category))].sort().map((category) => {
+      const inCategory = examples.filter((example) => example.category === category);
+      const categoryApproved = inCategory.filter((example) => example.decision === 'approved');
+      const categoryRejected = inCategory.length - categoryApproved.length;
+      return {
+        category,
+        approved: categoryApproved.length,
+        rejected: categoryRejected,
+        current: quality(
+          inCategory,
+          (example) => example.impactScore >= current.significanceThreshold
+        ),
+        suggestedMinComposite:
+          currentComposites && categoryApproved.length > 0 && categoryRejected > 0
+            ? bestThreshold(
+                inCategory,
+                (example) => currentComposites.get(example) ?? 0,
+                1,
+                COMPOSITE_STEP
+              ).value
+            : undefined
+      };
+    })
+  };
+
+  // Suggestions need both approved and rejected examples to say anything
+  if (approved === 0 || rejected === 0) {
+    return report;
+  }
+
+  const threshold = bestThreshold(examples, (example) => example.impactScore, 10, THRESHOLD_STEP);
+
+  // Current weights go first so they are kept unless another combination does strictly better
+  let bestComposite: {
+    weights: Record<ScoringWeightGroup, number>;
+    value: number;
+    quality: SelectionQuality;
+  } | null = null;
+  for (const weights of [current.weights, ...weightGrid()]) {
+    const scores = composites(examples, weights);
+    if (!scores) {
+      continue;
+    }
+    const candidate = bestThreshold(
+      examples,
+      (example) => scores.get(example) ?? 0,
+      1,
+      COMPOSITE_STEP
+    );
+    if (!bestComposite || candidate.quality.f1 > bestComposite.quality.f1) {
+      bestComposite = { weights, ...candidate };
+    }
+  }
+
+  report.suggested = {
+    significanceThreshold: threshold.value,
+    threshold: threshold.quality,
+    weights: bestComposite?.weights ?? current.weights,
+    minComposite: bestComposite?.value ?? current.minComposite,
+    composite: bestComposite?.quality ?? report.current.composite
+  };
+
+  return report;
+}
+
+function formatQuality(value: SelectionQuality): string {
+  return `precision ${value.precision.toFixed(2)}, recall ${value.recall.toFixed(2)}, F1 ${value.f1.toFixed(2)}`;
+}
+
+function formatWeights(weights: Record<ScoringWeightGroup, number>): string {
+  return GROUPS.map((group) => `${group} ${weights[group]}`).join(', ');
+}
+
+export function renderCalibrationMarkdown(report: CalibrationReport): string {
+  const lines: string[] = [];
+
+  lines.push('# Selection calibration');
+  lines.push('');
+  lines.push(
+    `Based on ${report.labels.approved + report.labels.rejected} reviewed candidates ` +
+      `(${report.labels.approved} approved, ${report.labels.rejected} rejected), generated ${report.generatedAt}.`
+  );
+  if (!report.confident) {
+    lines.push('');
+    lines.push(
+      `> Low confidence: fewer than ${MIN_CONFIDENT_LABELS} approved or rejected labels so far.`
+    );
+  }
+
+  lines.push('');
+  lines.push('## Significance threshold');
+  lines.push(
+    `- Current \`significanceThreshold\` ${report.current.significanceThreshold}: ${formatQuality(report.current.threshold)}`
+  );
+  if (report.suggested) {
+    lines.push(
+      `- Suggested ${report.suggested.significanceThreshold}: ${formatQuality(report.suggested.threshold)}`
+    );
+  }
+
+  lines.push('');
+  lines.push('## Scoring weights and `min_composite`');
+  lines.push(
+    `- Current (${formatWeights(report.current.weights)}; min_composite ${report.current.minComposite}): ${formatQuality(report.current.composite)}`
+  );
+  if (report.suggested) {
+    lines.push(
+      `- Suggested (${formatWeights(report.suggested.weights)}; min_composite ${report.suggested.minComposite}): ${formatQuality(report.suggested.composite)}`
+    );
+  } else {
+    lines.push('- No suggestions until there are both approved and rejected candidates.');
+  }
+
+  lines.push('');
+  lines.push('## By category');
+  lines.push('| Category | Approved | Rejected | Precision | Recall | Suggested minimum |');
+  lines.push('| --- | ---: | ---: | ---: | ---: | ---: |');
+  for (const category of report.categories) {
+    lines.push(
+      `| ${category.category} | ${category.approved} | ${category.rejected} | ` +
+        `${category.current.precision.toFixed(2)} | ${category.current.recall.toFixed(2)} | ` +
+        `${category.suggestedMinComposite ?? '–'} |`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Markdown checklist of review candidates. The same format is used in change request
+ * descriptions and in local review files; each item carries the event id in an HTML comment
+ * so decisions can be read back after reviewers tick or untick the boxes.
+ */
+
+import type { ReviewCandidate } from './types';
+
+const START_MARKER = '<!-- review-queue:start -->';
+const END_MARKER = '<!-- review-queue:end -->';
+const COMPLETE_MARKER = '<!-- review:complete -->';
+const ITEM_PATTERN = /^\s*[-*] \[( |x|X)\] .*<!-- review:([a-z0-9-]+) -->\s*$/;
+
+/**
+ * A checklist item as found in a description or file
+ */
+export interface ChecklistItem {
+  id: string;
+  checked: boolean;
+  line: string;
+  /** Heading the item was listed under */
+  section: 'selected' | 'not_selected';
+}
+
+function renderItem(candidate: ReviewCandidate, checked: boolean): string {
+  const title = candidate.url ? `[${candidate.title}](${candidate.url})` : candidate.title;
+  return (
+    `- [${checked ? 'x' : ' '}] **${title}** · \`${candidate.category}\` · ` +
+    `impact ${candidate.impactScore.toFixed(1)} <!-- review:${candidate.id} -->`
+  );
+}
+
+/**
+ * Parse checklist items; the event id comment makes this independent of the surrounding text
+ */
+export function parseReviewChecklist(markdown: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  let section: ChecklistItem['section'] = 'selected';
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^#+\s*Not selected/i.test(line)) {
+      section = 'not_selected';
+    } else if (/^#+\s*Selected/i.test(line)) {
+      section = 'selected';
+    }
+
+    const match = ITEM_PATTERN.exec(line);
+    if (match && !line.includes(COMPLETE_MARKER)) {
+      items.push({ id: match[2], checked: match[1] !== ' ', line, section });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Render the checklist section of a change request description. Selected candidates start
+ * ticked; ticks from `previousDescription` are kept, and items only found there stay listed.
+ */
+export function renderReviewChecklist(
+  candidates: ReviewCandidate[],
+  previousDescription?: string
+): string {
+  const previous = previousDescription ? parseReviewChecklist(previousDescription) : [];
+  const previousById = new Map(previous.map((item) => [item.id, item]));
+  const ids = new Set(candidates.map((candidate) => candidate.id));
+
+  const renderSection = (selected: boolean): string[] => {
+    const lines = candidates
+      .filter((candidate) => candidate.selected === selected)
+      .sort((a, b) => b.impactScore - a.impactScore)
+      .map((candidate) =>
+        renderItem(candidate, previousById.get(candidate.id)?.checked ?? candidate.selected)
+      );
+    const section = selected ? 'selected' : 'not_selected';
+    const carried = previous
+      .filter((item) => item.section === section && !ids.has(item.id))
+      .map((item) => item.line.trim());
+    return [...carried, ...lines];
+  };
+
+  const selected = renderSection(true);
+  const notSelected = renderSection(false);
+
+  return [
+    START_MARKER,
+    '### 🗳️ Review queue',
+    'Tick every event that belongs on the timeline and untick the ones that do not. ' +
+      'Decisions are recorded as calibration labels once this is merged or closed.',
+    '',
+    '#### Selected',
+    ...(selected.length > 0 ? selected : ['_None_']),
+    '',
+    '#### Not selected',
+    ...(notSelected.length > 0 ? notSelected : ['_None_']),
+    END_MARKER
+  ].join('\n');
+}
+
+/**
+ * Local review file: the checklist plus a box to tick once the review is done
+ */
+export function renderReviewFile(
+  candidates: ReviewCandidate[],
+  reference: string,
+  previousFile?: string
+): string {
+  return [
+    `# Review queue for ${reference}`,
+    '',
+    `- [ ] Review complete ${COMPLETE_MARKER}`,
+    '',
+    renderReviewChecklist(candidates, previousFile),
+    ''
+  ].join('\n');
+}
+
+export function isReviewFileComplete(markdown: string): boolean {
+  return markdown
+    .split(/\r?\n/)
+    .some((line) => /^\s*[-*] \[[xX]\] /.test(line) && line.includes(COMPLETE_MARKER));
+}
@@ -0,0 +1,9 @@
+/**
+ * Human review queue: candidates offered for approval, the decisions read back from change
+ * requests or local checklists, and the calibration report built from them
+ */
+
+export * from './calibration';
+export * from './checklist';
+export * from './review-store';
+export * from './types';
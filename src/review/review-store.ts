@@ -0,0 +1,248 @@
+/**
+ * Review queue persisted under the review directory: candidates awaiting decisions
+ * (`queue.json`, plus a Markdown checklist per pending review) and the editorial decisions
+ * recorded so far (`labels.json`), keyed by AnalyzedEvent.id.
+ */
+
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { AnalyzedEvent } from '../types';
+import { type CalibrationReport, renderCalibrationMarkdown } from './calibration';
+import { isReviewFileComplete, parseReviewChecklist, renderReviewFile } from './checklist';
+import type { PendingReview, ReviewCandidate, ReviewDecision, ReviewExample } from './types';
+
+const STORE_VERSION = 1;
+const QUEUE_FILENAME = 'queue.json';
+const LABELS_FILENAME = 'labels.json';
+const CALIBRATION_BASENAME = 'calibration';
+
+interface ReviewQueueFile {
+  version: number;
+  reviews: PendingReview[];
+}
+
+interface ReviewLabelsFile {
+  version: number;
+  examples: Record<string, ReviewExample>;
+}
+
+/**
+ * How a pending review was concluded
+ */
+export type ReviewOutcome =
+  | { source: 'file'; markdown: string }
+  | { source: 'change_request'; state: 'merged' | 'closed'; description: string };
+
+export function toReviewCandidate(event: AnalyzedEvent, selected: boolean): ReviewCandidate {
+  return {
+    id: event.id,
+    title: event.title,
+    date: event.date,
+    category: event.category,
+    impactScore: event.impactScore,
+    significance: event.significance,
+    url: event.url ?? event.sources[0],
+    selected
+  };
+}
+
+function reviewId(reference: string, createdAt: string): string {
+  const hash = crypto.createHash('sha1').update(reference).digest('hex').slice(0, 7);
+  return `${createdAt.slice(0, 10)}-${hash}`;
+}
+
+async function readJson<T>(filePath: string): Promise<Partial<T> | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as Partial<T>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn(`Unable to read ${filePath}, starting empty:`, (error as Error).message);
+    }
+    return null;
+  }
+}
+
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+export class ReviewStore {
+  private constructor(
+    private readonly dir: string,
+    private readonly queue: ReviewQueueFile,
+    private readonly labels: ReviewLabelsFile
+  ) {}
+
+  /**
+   * Load the queue and labels, starting empty when the files are missing or unreadable
+   */
+  static async load(dir: string): Promise<ReviewStore> {
+    const resolved = path.resolve(process.cwd(), dir);
+    const queue = await readJson<ReviewQueueFile>(path.join(resolved, QUEUE_FILENAME));
+    const labels = await readJson<ReviewLabelsFile>(path.join(resolved, LABELS_FILENAME));
+
+    return new ReviewStore(
+      resolved,
+      {
+        version: STORE_VERSION,
+        reviews: queue?.version === STORE_VERSION && queue.reviews ? queue.reviews : []
+      },
+      {
+        version: STORE_VERSION,
+        examples: labels?.version === STORE_VERSION && labels.examples ? labels.examples : {}
+      }
+    );
+  }
+
+  get path(): string {
+    return this.dir;
+  }
+
+  get pending(): PendingReview[] {
+    return [...this.queue.reviews];
+  }
+
+  get examples(): ReviewExample[] {
+    return Object.values(this.labels.examples);
+  }
+
+  reviewFilePath(review: PendingReview): string {
+    return path.join(this.dir, `review-${review.id}.md`);
+  }
+
+  /**
+   * Add a run's candidates to the pending review for its publish reference, creating it if
+   * needed; candidates seen again replace their earlier version
+   */
+  enqueue(
+    candidates: ReviewCandidate[],
+    target: { reference: string; changeRequest?: number; url?: string }
+  ): PendingReview {
+    const now = new Date().toISOString();
+    const existing = this.queue.reviews.find((review) => review.reference === target.reference);
+
+    if (existing) {
+      const ids = new Set(candidates.map((candidate) => candidate.id));
+      existing.candidates = [
+        ...existing.candidates.filter((candidate) => !ids.has(candidate.id)),
+        ...candidates
+      ];
+      existing.changeRequest = target.changeRequest ?? existing.changeRequest;
+      existing.url = target.url ?? existing.url;
+      existing.updatedAt = now;
+      return existing;
+    }
+
+    const review: PendingReview = {
+      id: reviewId(target.reference, now),
+      reference: target.reference,
+      changeRequest: target.changeRequest,
+      url: target.url,
+      createdAt: now,
+      updatedAt: now,
+      candidates
+    };
+    this.queue.reviews.push(review);
+    return review;
+  }
+
+  /**
+   * Record the decisions of a concluded review as labeled examples and drop it from the queue.
+   * Ticked candidates are approved and unticked ones rejected; closing a change request
+   * rejects everything it proposed. Candidates missing from the checklist stay unlabeled.
+   * @returns The examples recorded
+   */
+  conclude(review: PendingReview, outcome: ReviewOutcome): ReviewExample[] {
+    const markdown = outcome.source === 'file' ? outcome.markdown : outcome.description;
+    const checked = new Map(parseReviewChecklist(markdown).map((item) => [item.id, item.checked]));
+    const decidedAt = new Date().toISOString();
+    const recorded: ReviewExample[] = [];
+
+    for (const candidate of review.candidates) {
+      const isChecked = checked.get(candidate.id);
+      if (isChecked === undefined) {
+        continue;
+      }
+
+      const declined =
+        outcome.source === 'change_request' && outcome.state === 'closed' && candidate.selected;
+      const decision: ReviewDecision = isChecked && !declined ? 'approved' : 'rejected';
+
+      const example: ReviewExample = {
+        eventId: candidate.id,
+        decision,
+        selected: candidate.selected,
+        category: candidate.category,
+        impactScore: candidate.impactScore,
+        significance: candidate.significance,
+        source: outcome.source,
+        reference: review.reference,
+        decidedAt
+      };
+      this.labels.examples[candidate.id] = example;
+      recorded.push(example);
+    }
+
+    this.queue.reviews = this.queue.reviews.filter((pending) => pending.id !== review.id);
+    return recorded;
+  }
+
+  /**
+   * Read the local checklist of a pending review; null while it is missing or not marked complete
+   */
+  async readCompletedFile(review: PendingReview): Promise<string | null> {
+    try {
+      const markdown = await fs.readFile(this.reviewFilePath(review), 'utf-8');
+      return isReviewFileComplete(markdown) ? markdown : null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write the queue, the labels and a checklist file per pending review; ticks already made in
+   * a checklist file are kept, and files of concluded reviews are removed
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const pendingFiles = new Set<string>();
+    for (const review of this.queue.reviews) {
+      const filePath = this.reviewFilePath(review);
+      pendingFiles.add(path.basename(filePath));
+      const previous = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+      await fs.writeFile(
+        filePath,
+        renderReviewFile(review.candidates, review.url ?? review.reference, previous),
+        'utf-8'
+      );
+    }
+
+    for (const fileName of await fs.readdir(this.dir)) {
+      if (/^review-.+\.md$/.test(fileName) && !pendingFiles.has(fileName)) {
+        await fs.rm(path.join(this.dir, fileName), { force: true });
+      }
+    }
+
+    await writeJson(path.join(this.dir, QUEUE_FILENAME), this.queue);
+    await writeJson(path.join(this.dir, LABELS_FILENAME), this.labels);
+  }
+
+  /**
+   * Write the calibration report as JSON and Markdown next to the labels
+   * @returns Path of the Markdown report
+   */
+  async saveCalibration(report: CalibrationReport): Promise<string> {
+    const markdownPath = path.join(this.dir, `${CALIBRATION_BASENAME}.md`);
+    await writeJson(path.join(this.dir, `${CALIBRATION_BASENAME}.json`), report);
+    await fs.writeFile(markdownPath, renderCalibrationMarkdown(report), 'utf-8');
+    return markdownPath;
+  }
+}
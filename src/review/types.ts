@@ -0,0 +1,55 @@
+import type { EventCategory, SignificanceScores } from '../types';
+
+/**
+ * An analyzed event offered to reviewers, whether or not the pipeline selected it
+ */
+export interface ReviewCandidate {
+  /** AnalyzedEvent.id */
+  id: string;
+  title: string;
+  date: string;
+  category: EventCategory;
+  impactScore: number;
+  significance: SignificanceScores;
+  url?: string;
+  /** Whether the pipeline proposed the event for the timeline */
+  selected: boolean;
+}
+
+/**
+ * Candidates of one run (or of every run that fed the same change request) awaiting decisions
+ */
+export interface PendingReview {
+  /** Stable id derived from the publish reference; names the local review file */
+  id: string;
+  /** Branch, commit or file the candidates were published to */
+  reference: string;
+  /** Change request whose description carries the checklist, when there is one */
+  changeRequest?: number;
+  url?: string;
+  createdAt: string;
+  updatedAt: string;
+  candidates: ReviewCandidate[];
+}
+
+export type ReviewDecision = 'approved' | 'rejected';
+
+/**
+ * Editorial decision on a candidate, kept as a labeled example for calibration
+ */
+export interface ReviewExample {
+  eventId: string;
+  decision: ReviewDecision;
+  /** Whether the pipeline had selected the event */
+  selected: boolean;
+  category: EventCategory;
+  impactScore: number;
+  significance: SignificanceScores;
+  /**
+   * `change_request` when read from a merged or closed PR/MR, `file` for the local checklist,
+   * `backtest` when derived from the published timeline
+   */
+  source: 'change_request' | 'file' | 'backtest';
+  reference: string;
+  decidedAt: string;
+}
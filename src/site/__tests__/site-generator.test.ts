@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the static timeline site generator
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { TimelineEntry } from '../../types';
+import { impactLevel, renderTimelineSite, writeTimelineSite } from '../site-generator';
+
+const entries: TimelineEntry[] = [
+  {
+    id: '2023-03-14-gpt-4-released',
+    date: '2023-03-14T00:00:00.000Z',
+    title: 'GPT-4 Released',
+    description: 'OpenAI releases GPT-4.',
+    category: 'Models & Architectures',
+    sources: ['https://openai.com/research/gpt-4'],
+    impact_score: 9.5
+  },
+  {
+    id: '2024-03-20-eu-ai-act-adopted',
+    date: '2024-03-20T00:00:00.000Z',
+    title: 'EU AI Act <Adopted>',
+    description: 'The European Parliament adopts the AI Act.',
+    category: 'Ethics & Policy',
+    sources: [],
+    impact_score: 8,
+    tags: ['regulation']
+  },
+  {
+    id: '2024-01-10-small-model',
+    date: '2024-01-10T00:00:00.000Z',
+    title: 'Small Model',
+    description: 'A small model ships.',
+    category: 'Public Releases',
+    sources: ['https://example.com/small'],
+    impact_score: 5
+  }
+];
+
+const options = { title: 'AI Timeline', baseUrl: 'https://example.com/timeline/' };
+
+function page(filePath: string): string {
+  const file = renderTimelineSite(entries, options).find(
+    (candidate) => candidate.path === filePath
+  );
+  if (!file) {
+    throw new Error(`No page at ${filePath}`);
+  }
+  return file.content;
+}
+
+describe('renderTimelineSite', () => {
+  it('writes an index, a permalink page per event and the shared assets', () => {
+    expect(renderTimelineSite(entries, options).map((file) => file.path)).toEqual([
+      'index.html',
+      'events/2023-03-14-gpt-4-released.html',
+      'events/2024-01-10-small-model.html',
+      'events/2024-03-20-eu-ai-act-adopted.html',
+      'assets/timeline.css',
+      'assets/filters.js'
+    ]);
+  });
+
+  it('lists events newest first by year with filter options', () => {
+    const index = page('index.html');
+
+    expect(index.match(/<section class="year" data-year="\d+">/g)).toEqual([
+      '<section class="year" data-year="2024">',
+      '<section class="year" data-year="2023">'
+    ]);
+    expect(index.indexOf('2024-03-20-eu-ai-act-adopted')).toBeLessThan(
+      index.indexOf('2024-01-10-small-model')
+    );
+    expect(index).toContain(
+      [
+        '  <select id="category-filter">',
+        '    <option value="">All categories</option>',
+        '    <option>Ethics &amp; Policy</option>',
+        '    <option>Models &amp; Architectures</option>',
+        '    <option>Public Releases</option>',
+        '  </select>'
+      ].join('\n')
+    );
+    expect(index).toContain('<a href="events/2023-03-14-gpt-4-released.html">GPT-4 Released</a>');
+    expect(index).toContain('EU AI Act &lt;Adopted&gt;');
+    expect(index).toContain('<script src="assets/filters.js"></script>');
+    expect(index).toContain('<link rel="canonical" href="https://example.com/timeline/">');
+  });
+
+  it('shows impact badges and sources on event pages', () => {
+    const eventPage = page('events/2023-03-14-gpt-4-released.html');
+
+    expect(eventPage).toContain('<span class="badge impact-critical" title="Impact score">9.5');
+    expect(eventPage).toContain('<time datetime="2023-03-14T00:00:00.000Z">March 14, 2023</time>');
+    expect(eventPage).toContain(
+      '<a href="https://openai.com/research/gpt-4" rel="noopener">https://openai.com/research/gpt-4</a>'
+    );
+    expect(eventPage).toContain('<a href="../index.html#2023-03-14-gpt-4-released">');
+    expect(eventPage).toContain('<link rel="stylesheet" href="../assets/timeline.css">');
+    expect(eventPage).toContain(
+      '<link rel="canonical" href="https://example.com/timeline/events/2023-03-14-gpt-4-released.html">'
+    );
+    expect(page('events/2024-03-20-eu-ai-act-adopted.html')).toContain('<li>regulation</li>');
+  });
+
+  it('links only http(s) sources', () => {
+    const [entry] = entries;
+    const files = renderTimelineSite(
+      [
+        {
+          ...entry,
+          sources: ['javascript://host/%0Aalert(1)', 'data:text/html,hi', ...entry.sources]
+        }
+      ],
+      options
+    );
+    const eventPage = files.find((file) => file.path.startsWith('events/'))?.content ?? '';
+
+    expect(eventPage).not.toContain('javascript:');
+    expect(eventPage).not.toContain('data:text');
+    expect(eventPage).toContain('<a href="https://openai.com/research/gpt-4" rel="noopener">');
+  });
+
+  it('loads scripts and styles from the output directory only', () => {
+    for (const file of renderTimelineSite(entries, { title: 'AI Timeline' })) {
+      const resources = file.content.match(/<(script src|link rel="stylesheet" href)="[^"]*"/g);
+      for (const resource of resources ?? []) {
+        expect(resource).toMatch(/="(\.\.\/)?assets\//);
+      }
+    }
+  });
+
+  it('maps impact scores to the change request label levels', () => {
+    expect([9, 8.9, 7, 6.9].map(impactLevel)).toEqual(['critical', 'high', 'high', 'moderate']);
+  });
+});
+
+describe('writeTimelineSite', () => {
+  it('writes every file under the output directory', async () => {
+    const outDir = await fs.mkdtemp(path.join(os.tmpdir(), 'timeline-site-'));
+
+    try {
+      const written = await writeTimelineSite(entries, options, outDir);
+
+      expect(written).toHaveLength(6);
+      expect(
+        await fs.readFile(path.join(outDir, 'events', '2024-01-10-small-model.html'), 'utf-8')
+      ).toContain('<h1>Small Model</h1>');
+    } finally {
+      await fs.rm(outDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Stylesheet and filter script shared by every page of the static site. Both are written as
+ * files next to the pages, so the site works offline and from file:// URLs.
+ */
+
+export const SITE_CSS = `:root {
+  color-scheme: light dark;
+  --text: #1f2328;
+  --muted: #59636e;
+  --border: #d1d9e0;
+  --surface: #f6f8fa;
+  --accent: #0969da;
+  --critical: #cf222e;
+  --high: #bc4c00;
+  --moderate: #1a7f37;
+}
+
+@media (prefers-color-scheme: dark) {
+  :root {
+    --text: #f0f6fc;
+    --muted: #9198a1;
+    --border: #3d444d;
+    --surface: #151b23;
+    --accent: #4493f8;
+  }
+}
+
+* {
+  box-sizing: border-box;
+}
+
+body {
+  margin: 0 auto;
+  max-width: 52rem;
+  padding: 2rem 1rem 4rem;
+  font: 16px/1.6 system-ui, -apple-system, 'Segoe UI', sans-serif;
+  color: var(--text);
+}
+
+a {
+  color: var(--accent);
+}
+
+header p,
+.meta,
+.empty {
+  color: var(--muted);
+}
+
+.filters {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 1rem;
+  padding: 0.75rem 1rem;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  background: var(--surface);
+}
+
+.filters label {
+  display: flex;
+  gap: 0.5rem;
+  align-items: center;
+}
+
+.year h2 {
+  margin-top: 2.5rem;
+  border-bottom: 1px solid var(--border);
+}
+
+.event {
+  padding: 1rem 0;
+  border-bottom: 1px solid var(--border);
+}
+
+.event h3,
+.event h1 {
+  margin: 0 0 0.25rem;
+}
+
+.event h3 a {
+  color: inherit;
+  text-decoration: none;
+}
+
+.event h3 a:hover {
+  text-decoration: underline;
+}
+
+.meta {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+  align-items: center;
+  font-size: 0.875rem;
+}
+
+.badge {
+  padding: 0.1rem 0.5rem;
+  border-radius: 1rem;
+  color: #fff;
+  font-weight: 600;
+  white-space: nowrap;
+}
+
+.impact-critical {
+  background: var(--critical);
+}
+
+.impact-high {
+  background: var(--high);
+}
+
+.impact-moderate {
+  background: var(--moderate);
+}
+
+.tags {
+  padding: 0;
+  list-style: none;
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  font-size: 0.875rem;
+}
+
+.tags li {
+  padding: 0 0.5rem;
+  border: 1px solid var(--border);
+  border-radius: 1rem;
+}
+
+[hidden] {
+  display: none !important;
+}
+`;
+
+export const SITE_SCRIPT = `(function () {
+  var year = document.getElementById('year-filter');
+  var category = document.getElementById('category-filter');
+  var empty = document.getElementById('no-results');
+  if (!year || !category) {
+    return;
+  }
+
+  function apply() {
+    var visible = 0;
+    document.querySelectorAll('.year').forEach(function (section) {
+      var yearMatches = !year.value || section.dataset.year === year.value;
+      var shown = 0;
+      section.querySelectorAll('.event').forEach(function (event) {
+        var match = yearMatches && (!category.value || event.dataset.category === category.value);
+        event.hidden = !match;
+        if (match) {
+          shown += 1;
+        }
+      });
+      section.hidden = shown === 0;
+      visible += shown;
+    });
+    empty.hidden = visible > 0;
+
+    var params = new URLSearchParams();
+    if (year.value) params.set('year', year.value);
+    if (category.value) params.set('category', category.value);
+    var query = params.toString();
+    try {
+      history.replaceState(null, '', (query ? '?' + query : location.pathname) + location.hash);
+    } catch (error) {
+      // Some browsers refuse history updates for file:// pages; filtering still works
+    }
+  }
+
+  var initial = new URLSearchParams(location.search);
+  year.value = initial.get('year') || '';
+  category.value = initial.get('category') || '';
+  year.addEventListener('change', apply);
+  category.addEventListener('change', apply);
+  apply();
+})();
+`;
@@ -0,0 +1,12 @@
+/**
+ * Central export point for the static timeline site generator
+ */
+
+export {
+  eventPagePath,
+  impactLevel,
+  renderTimelineSite,
+  type SiteFile,
+  type TimelineSiteOptions,
+  writeTimelineSite
+} from './site-generator';
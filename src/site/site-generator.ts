@@ -0,0 +1,271 @@
+/**
+ * Static HTML site for browsing the timeline: an index with year and category filters, and a
+ * permalink page per event at events/<id>.html. Pages only link to each other and to the
+ * assets written alongside them, so the output can be opened straight from disk.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { escapeXml as escapeHtml, isWebUrl, sortChronologically } from '../exporters/format';
+import type { TimelineEntry } from '../types';
+import { SITE_CSS, SITE_SCRIPT } from './assets';
+
+export interface TimelineSiteOptions {
+  /** Site title, shown in the header and page titles */
+  title: string;
+  description?: string;
+  /** Public URL the site is deployed at; adds canonical links to event pages */
+  baseUrl?: string;
+}
+
+/**
+ * A page or asset, with its path relative to the output directory
+ */
+export interface SiteFile {
+  path: string;
+  content: string;
+}
+
+const STYLESHEET_PATH = 'assets/timeline.css';
+const SCRIPT_PATH = 'assets/filters.js';
+
+export function eventPagePath(entry: TimelineEntry): string {
+  return `events/${entry.id}.html`;
+}
+
+/**
+ * Impact level for the badge; thresholds match the impact labels put on change requests
+ */
+export function impactLevel(score: number): 'critical' | 'high' | 'moderate' {
+  if (score >= 9) {
+    return 'critical';
+  }
+  return score >= 7 ? 'high' : 'moderate';
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+function yearOf(entry: TimelineEntry): number {
+  return new Date(entry.date).getUTCFullYear();
+}
+
+function renderPage(options: {
+  title: string;
+  root: string;
+  body: string;
+  description?: string;
+  canonical?: string;
+  script?: boolean;
+}): string {
+  const head = [
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    ...(options.description
+      ? [`<meta name="description" content="${escapeHtml(options.description)}">`]
+      : []),
+    ...(options.canonical
+      ? [`<link rel="canonical" href="${escapeHtml(options.canonical)}">`]
+      : []),
+    `<link rel="stylesheet" href="${options.root}${STYLESHEET_PATH}">`
+  ];
+
+  return `${[
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    ...head.map((line) => `  ${line}`),
+    '</head>',
+    '<body>',
+    options.body,
+    ...(options.script ? [`<script src="${options.root}${SCRIPT_PATH}"></script>`] : []),
+    '</body>',
+    '</html>'
+  ].join('\n')}\n`;
+}
+
+function renderMeta(entry: TimelineEntry): string {
+  const level = impactLevel(entry.impact_score);
+  return [
+    '<p class="meta">',
+    `  <time datetime="${escapeHtml(entry.date)}">${formatDate(entry.date)}</time>`,
+    `  <span class="category">${escapeHtml(entry.category)}</span>`,
+    `  <span class="badge impact-${level}" title="Impact score">${entry.impact_score.toFixed(1)} &middot; ${level}</span>`,
+    '</p>'
+  ].join('\n');
+}
+
+function renderSources(entry: TimelineEntry): string {
+  const sources = entry.sources.filter(isWebUrl);
+  if (sources.length === 0) {
+    return '';
+  }
+
+  const items = sources.map(
+    (source) =>
+      `  <li><a href="${escapeHtml(source)}" rel="noopener">${escapeHtml(source)}</a></li>`
+  );
+  return ['<ul class="sources">', ...items, '</ul>'].join('\n');
+}
+
+function renderTags(entry: TimelineEntry): string {
+  if (!entry.tags || entry.tags.length === 0) {
+    return '';
+  }
+
+  const items = entry.tags.map((tag) => `  <li>${escapeHtml(tag)}</li>`);
+  return ['<ul class="tags">', ...items, '</ul>'].join('\n');
+}
+
+function renderIndexEntry(entry: TimelineEntry): string {
+  return [
+    `<article class="event" id="${entry.id}" data-category="${escapeHtml(entry.category)}">`,
+    `<h3><a href="${eventPagePath(entry)}">${escapeHtml(entry.title)}</a></h3>`,
+    renderMeta(entry),
+    `<p>${escapeHtml(entry.description)}</p>`,
+    renderSources(entry),
+    '</article>'
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderSelect(id: string, label: string, all: string, values: string[]): string {
+  const choices = values.map((value) => `    <option>${escapeHtml(value)}</option>`);
+  return [
+    `<label>${label}`,
+    `  <select id="${id}">`,
+    `    <option value="">${all}</option>`,
+    ...choices,
+    '  </select>',
+    '</label>'
+  ].join('\n');
+}
+
+function renderIndex(entries: TimelineEntry[], options: TimelineSiteOptions): string {
+  // Newest first
+  const byYear = new Map<number, TimelineEntry[]>();
+  for (const entry of sortChronologically(entries).reverse()) {
+    const year = yearOf(entry);
+    byYear.set(year, [...(byYear.get(year) ?? []), entry]);
+  }
+
+  const years = [...byYear.keys()];
+  const categories = [...new Set(entries.map((entry) => entry.category))].sort();
+
+  const sections = years.map((year) =>
+    [
+      `<section class="year" data-year="${year}">`,
+      `<h2>${year}</h2>`,
+      ...(byYear.get(year) ?? []).map(renderIndexEntry),
+      '</section>'
+    ].join('\n')
+  );
+
+  const body = [
+    '<header>',
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    ...(options.description ? [`<p>${escapeHtml(options.description)}</p>`] : []),
+    `<p>${entries.length} events</p>`,
+    '</header>',
+    '<form class="filters">',
+    renderSelect(
+      'year-filter',
+      'Year',
+      'All years',
+      years.map((year) => String(year))
+    ),
+    renderSelect('category-filter', 'Category', 'All categories', categories),
+    '</form>',
+    '<main>',
+    ...sections,
+    `<p class="empty" id="no-results"${entries.length > 0 ? ' hidden' : ''}>No events match the selected filters.</p>`,
+    '</main>'
+  ].join('\n');
+
+  return renderPage({
+    title: options.title,
+    root: '',
+    body,
+    description: options.description,
+    canonical: options.baseUrl ? `${options.baseUrl.replace(/\/+$/, '')}/` : undefined,
+    script: true
+  });
+}
+
+function renderEventPage(entry: TimelineEntry, options: TimelineSiteOptions): string {
+  const body = [
+    '<header>',
+    `<p><a href="../index.html#${entry.id}">&larr; ${escapeHtml(options.title)}</a></p>`,
+    '</header>',
+    '<main>',
+    '<article class="event">',
+    `<h1>${escapeHtml(entry.title)}</h1>`,
+    renderMeta(entry),
+    `<p>${escapeHtml(entry.description)}</p>`,
+    ...(entry.sources.length > 0 ? ['<h2>Sources</h2>', renderSources(entry)] : []),
+    renderTags(entry),
+    '</article>',
+    '</main>'
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return renderPage({
+    title: `${entry.title} | ${options.title}`,
+    root: '../',
+    body,
+    description: entry.description,
+    canonical: options.baseUrl
+      ? `${options.baseUrl.replace(/\/+$/, '')}/${eventPagePath(entry)}`
+      : undefined
+  });
+}
+
+/**
+ * Render the site; output only depends on the entries and options, so unchanged timelines
+ * produce identical files
+ */
+export function renderTimelineSite(
+  entries: TimelineEntry[],
+  options: TimelineSiteOptions
+): SiteFile[] {
+  return [
+    { path: 'index.html', content: renderIndex(entries, options) },
+    ...sortChronologically(entries).map((entry) => ({
+      path: eventPagePath(entry),
+      content: renderEventPage(entry, options)
+    })),
+    { path: STYLESHEET_PATH, content: SITE_CSS },
+    { path: SCRIPT_PATH, content: SITE_SCRIPT }
+  ];
+}
+
+/**
+ * Write the site into a directory, creating it as needed; files of events that are no longer
+ * in the timeline are left in place
+ * @returns The absolute paths written
+ */
+export async function writeTimelineSite(
+  entries: TimelineEntry[],
+  options: TimelineSiteOptions,
+  outDir: string
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const file of renderTimelineSite(entries, options)) {
+    const filePath = path.resolve(outDir, file.path);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content, 'utf-8');
+    written.push(filePath);
+  }
+
+  return written;
+}
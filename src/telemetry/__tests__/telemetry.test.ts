@@ -0,0 +1,294 @@
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { type ExecutionMetrics, MetricsCollector } from '../../utils/metrics';
+import {
+  exportTelemetry,
+  type OtlpTraceRequest,
+  parseOtlpHeaders,
+  renderOpenMetrics,
+  traceIdFor
+} from '..';
+
+interface ReceivedRequest {
+  method?: string;
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local receiver standing in for a Pushgateway and an OTLP/HTTP collector
+ */
+async function startReceiver(options: { failPath?: string } = {}) {
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ method: req.method, path: req.url ?? '', headers: req.headers, body });
+      res.writeHead(req.url === options.failPath ? 503 : 200);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+const CORRELATION_ID = '5f0c6b1e-8a6d-4c1f-9a43-2f7d0c9b1e21';
+
+function sampleMetrics(): ExecutionMetrics {
+  return {
+    correlationId: CORRELATION_ID,
+    startTime: '2026-10-19T08:00:00.000Z',
+    endTime: '2026-10-19T08:01:30.000Z',
+    duration: 90,
+    totalEventsCollected: 12,
+    totalEventsAfterDedup: 9,
+    totalEventsAnalyzed: 9,
+    totalEventsSelected: 3,
+    sources: [
+      {
+        source: 'openai_blog',
+        startTime: '2026-10-19T08:00:01.000Z',
+        collected: 12,
+        filtered: 0,
+        errors: 0,
+        duration: 1500,
+        throttleWait: 2500
+      },
+      {
+        source: 'arxiv_cs_ai',
+        startTime: '2026-10-19T08:00:01.000Z',
+        collected: 0,
+        filtered: 0,
+        errors: 1,
+        duration: 15000,
+        throttleWait: 0
+      }
+    ],
+    apiCalls: [],
+    llmUsage: [
+      {
+        provider: 'openai_gpt5_low',
+        model: 'gpt-5',
+        calls: 9,
+        failures: 0,
+        promptTokens: 4000,
+        completionTokens: 900,
+        totalTokens: 4900,
+        totalDuration: 20000
+      }
+    ],
+    stages: [
+      {
+        stage: 'ingest',
+        startTime: '2026-10-19T08:00:00.500Z',
+        duration: 16000,
+        inputCount: 0,
+        outputCount: 12,
+        restored: false
+      },
+      {
+        stage: 'analyze',
+        startTime: '2026-10-19T08:00:20.000Z',
+        duration: 60000,
+        inputCount: 9,
+        outputCount: 9,
+        restored: false
+      }
+    ],
+    selection: {
+      analyzed: 9,
+      selected: 3,
+      averageScore: 6.5,
+      maxScore: 8.5,
+      minScore: 4,
+      threshold: 7
+    },
+    errors: [
+      {
+        timestamp: '2026-10-19T08:00:16.000Z',
+        source: 'arxiv_cs_ai',
+        error: 'Request timed out after 15000ms'
+      }
+    ],
+    success: false
+  };
+}
+
+describe('telemetry exporters', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'telemetry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('renders the run as OpenMetrics gauges', () => {
+    const text = renderOpenMetrics(sampleMetrics());
+
+    expect(text).toContain('# TYPE ai_timeline_run_success gauge\nai_timeline_run_success 0\n');
+    expect(text).toContain(`ai_timeline_run_info{correlation_id="${CORRELATION_ID}"} 1`);
+    expect(text).toContain('ai_timeline_events{stage="selected"} 3');
+    expect(text).toContain('ai_timeline_source_errors{source="arxiv_cs_ai"} 1');
+    expect(text).toContain('ai_timeline_stage_duration_seconds{stage="analyze"} 60');
+    expect(text).toContain('ai_timeline_source_throttle_wait_seconds{source="openai_blog"} 2.5');
+    expect(text).toContain(
+      'ai_timeline_llm_tokens{provider="openai_gpt5_low",model="gpt-5",type="completion"} 900'
+    );
+    expect(text).not.toContain('ai_timeline_api_calls');
+    expect(text.endsWith('# EOF\n')).toBe(true);
+  });
+
+  it('exports the rate limiter waits tracked by the metrics collector', () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const collector = MetricsCollector.getInstance();
+    collector.reset();
+
+    try {
+      collector.trackEventCollection('hf_papers', 4, 4, 3000);
+      collector.trackThrottleWait('hf_papers', 1200);
+      collector.trackThrottleWait('hf_papers', 800);
+
+      const text = renderOpenMetrics(collector.getSummary());
+      expect(text).toContain('ai_timeline_source_throttle_wait_seconds{source="hf_papers"} 2');
+    } finally {
+      collector.reset();
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('writes the text file, pushes to a Pushgateway and sends OTLP traces', async () => {
+    const receiver = await startReceiver();
+    const promPath = path.join(tmpDir, 'textfile', 'ai_timeline.prom');
+
+    try {
+      const outcomes = await exportTelemetry(
+        sampleMetrics(),
+        {
+          openmetrics: {
+            enabled: true,
+            path: promPath,
+            push_url: `${receiver.baseUrl}/metrics/job/ai_timeline`
+          },
+          otlp: {
+            enabled: true,
+            endpoint: 'http://127.0.0.1:1/unused',
+            service_name: 'timeline-test',
+            headers: { 'x-team': 'research' },
+            timeout_ms: 2000
+          }
+        },
+        {
+          OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: `${receiver.baseUrl}/v1/traces`,
+          OTEL_EXPORTER_OTLP_HEADERS: 'authorization=Bearer%20token'
+        }
+      );
+
+      expect(outcomes).toEqual([
+        { exporter: 'openmetrics_file', target: promPath },
+        { exporter: 'pushgateway', target: `${receiver.baseUrl}/metrics/job/ai_timeline` },
+        { exporter: 'otlp', target: `${receiver.baseUrl}/v1/traces` }
+      ]);
+      const written = await fs.readFile(promPath, 'utf-8');
+      expect(written).toBe(renderOpenMetrics(sampleMetrics()));
+
+      const push = receiver.requests.find((request) => request.path.startsWith('/metrics/'));
+      expect(push?.method).toBe('POST');
+      expect(push?.headers['content-type']).toBe('text/plain; version=0.0.4');
+      expect(push?.body).toBe(written);
+
+      const traces = receiver.requests.find((request) => request.path === '/v1/traces');
+      expect(traces?.headers['content-type']).toBe('application/json');
+      expect(traces?.headers.authorization).toBe('Bearer token');
+      expect(traces?.headers['x-team']).toBe('research');
+
+      const payload = JSON.parse(traces?.body ?? '{}') as OtlpTraceRequest;
+      const [resourceSpans] = payload.resourceSpans;
+      expect(resourceSpans.resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'timeline-test' } }
+      ]);
+      const spans = resourceSpans.scopeSpans[0].spans;
+      const byName = new Map(spans.map((span) => [span.name, span]));
+      const root = byName.get('pipeline run');
+      const ingest = byName.get('stage ingest');
+      const failedFetch = byName.get('fetch arxiv_cs_ai');
+
+      expect(spans).toHaveLength(5);
+      expect(spans.every((span) => span.traceId === CORRELATION_ID.replace(/-/g, ''))).toBe(true);
+      expect(root?.parentSpanId).toBeUndefined();
+      expect(root?.status.code).toBe(2);
+      expect(root?.startTimeUnixNano).toBe(`${Date.parse('2026-10-19T08:00:00.000Z')}000000`);
+      expect(ingest?.parentSpanId).toBe(root?.spanId);
+      expect(byName.get('stage analyze')?.endTimeUnixNano).toBe(
+        `${Date.parse('2026-10-19T08:01:20.000Z')}000000`
+      );
+      expect(byName.get('fetch openai_blog')).toMatchObject({
+        parentSpanId: ingest?.spanId,
+        kind: 3,
+        status: { code: 1 }
+      });
+      expect(failedFetch?.status).toEqual({
+        code: 2,
+        message: 'Request timed out after 15000ms'
+      });
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('reports a failing exporter without stopping the others', async () => {
+    const receiver = await startReceiver({ failPath: '/metrics/job/ai_timeline' });
+
+    try {
+      const outcomes = await exportTelemetry(sampleMetrics(), {
+        openmetrics: {
+          enabled: true,
+          path: path.join(tmpDir, 'metrics.prom'),
+          push_url: `${receiver.baseUrl}/metrics/job/ai_timeline`
+        },
+        otlp: {
+          enabled: true,
+          endpoint: `${receiver.baseUrl}/v1/traces`,
+          service_name: 'ai-timeline-automation',
+          timeout_ms: 2000
+        }
+      });
+
+      expect(outcomes.map((outcome) => [outcome.exporter, Boolean(outcome.error)])).toEqual([
+        ['openmetrics_file', false],
+        ['pushgateway', true],
+        ['otlp', false]
+      ]);
+      expect(receiver.requests.map((request) => request.path)).toContain('/v1/traces');
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('parses OTLP header lists and derives trace ids from non-UUID run ids', () => {
+    expect(parseOtlpHeaders('api-key=abc%3D%3D, x-tenant = lab ,invalid')).toEqual({
+      'api-key': 'abc==',
+      'x-tenant': 'lab'
+    });
+    expect(parseOtlpHeaders(undefined)).toEqual({});
+    expect(traceIdFor('run-1')).toMatch(/^[0-9a-f]{32}$/);
+    expect(traceIdFor('run-1')).toBe(traceIdFor('run-1'));
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Exports a run's metrics to monitoring systems: an OpenMetrics text file (optionally pushed to a
+ * Pushgateway) and OTLP/HTTP JSON traces
+ */
+
+import type { PipelineConfig } from '../config';
+import type { ExecutionMetrics } from '../utils/metrics';
+import { pushOpenMetrics, renderOpenMetrics, writeOpenMetricsFile } from './openmetrics';
+import { exportOtlpTraces, parseOtlpHeaders } from './otlp';
+
+export { pushOpenMetrics, renderOpenMetrics, writeOpenMetricsFile } from './openmetrics';
+export {
+  buildOtlpTraceRequest,
+  exportOtlpTraces,
+  type OtlpExportOptions,
+  type OtlpSpan,
+  type OtlpTraceRequest,
+  parseOtlpHeaders,
+  traceIdFor
+} from './otlp';
+
+export type TelemetrySettings = NonNullable<PipelineConfig['telemetry']>;
+
+export type TelemetryExporter = 'openmetrics_file' | 'pushgateway' | 'otlp';
+
+export interface TelemetryExportOutcome {
+  exporter: TelemetryExporter;
+  /** File path or URL the metrics went to */
+  target: string;
+  error?: string;
+}
+
+/**
+ * Run every enabled exporter; a failing exporter does not stop the others
+ */
+export async function exportTelemetry(
+  metrics: ExecutionMetrics,
+  settings: TelemetrySettings,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<TelemetryExportOutcome[]> {
+  const outcomes: TelemetryExportOutcome[] = [];
+  const attempt = async (
+    exporter: TelemetryExporter,
+    target: string,
+    run: () => Promise<unknown>
+  ): Promise<void> => {
+    try {
+      await run();
+      outcomes.push({ exporter, target });
+    } catch (error) {
+      outcomes.push({ exporter, target, error: (error as Error).message });
+    }
+  };
+
+  const openMetrics = settings.openmetrics;
+  if (openMetrics?.enabled) {
+    const text = renderOpenMetrics(metrics);
+    await attempt('openmetrics_file', openMetrics.path, () =>
+      writeOpenMetricsFile(openMetrics.path, text)
+    );
+    const pushUrl = openMetrics.push_url;
+    if (pushUrl) {
+      await attempt('pushgateway', pushUrl, () => pushOpenMetrics(pushUrl, text));
+    }
+  }
+
+  const otlp = settings.otlp;
+  if (otlp?.enabled) {
+    const endpoint = env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || otlp.endpoint;
+    await attempt('otlp', endpoint, () =>
+      exportOtlpTraces(metrics, {
+        endpoint,
+        serviceName: otlp.service_name,
+        headers: { ...otlp.headers, ...parseOtlpHeaders(env.OTEL_EXPORTER_OTLP_HEADERS) },
+        timeoutMs: otlp.timeout_ms
+      })
+    );
+  }
+
+  return outcomes;
+}
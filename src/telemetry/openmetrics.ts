@@ -0,0 +1,222 @@
+/**
+ * OpenMetrics text exposition of a run's metrics. Every value describes the last run, so all
+ * families are gauges; the output also parses as Prometheus text format 0.0.4, which the
+ * node-exporter textfile collector and the Pushgateway accept.
+ */
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { fetchText } from '../utils/http';
+import type { ExecutionMetrics } from '../utils/metrics';
+
+const METRIC_PREFIX = 'ai_timeline_';
+const PUSH_TIMEOUT_MS = 10_000;
+
+interface Sample {
+  labels?: Record<string, string>;
+  value: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  samples: Sample[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatSample(name: string, sample: Sample): string {
+  const labels = Object.entries(sample.labels ?? {})
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(',');
+  const value = Number.isFinite(sample.value) ? String(sample.value) : '0';
+  return `${name}${labels ? `{${labels}}` : ''} ${value}`;
+}
+
+function seconds(milliseconds: number): number {
+  return Math.round(milliseconds) / 1000;
+}
+
+function metricFamilies(metrics: ExecutionMetrics): MetricFamily[] {
+  const llmLabels = (usage: ExecutionMetrics['llmUsage'][number]) => ({
+    provider: usage.provider,
+    model: usage.model
+  });
+
+  return [
+    {
+      name: 'run_info',
+      help: 'Correlation id of the last run',
+      samples: [{ labels: { correlation_id: metrics.correlationId }, value: 1 }]
+    },
+    {
+      name: 'run_start_timestamp_seconds',
+      help: 'Start of the last run in seconds since the epoch',
+      samples: [{ value: seconds(Date.parse(metrics.startTime)) }]
+    },
+    {
+      name: 'run_duration_seconds',
+      help: 'Duration of the last run',
+      samples: [{ value: metrics.duration }]
+    },
+    {
+      name: 'run_success',
+      help: 'Whether the last run completed without errors',
+      samples: [{ value: metrics.success ? 1 : 0 }]
+    },
+    {
+      name: 'run_errors',
+      help: 'Errors recorded by the last run',
+      samples: [{ value: metrics.errors.length }]
+    },
+    {
+      name: 'events',
+      help: 'Events at each point of the pipeline in the last run',
+      samples: [
+        { labels: { stage: 'collected' }, value: metrics.totalEventsCollected },
+        { labels: { stage: 'deduplicated' }, value: metrics.totalEventsAfterDedup },
+        { labels: { stage: 'analyzed' }, value: metrics.totalEventsAnalyzed },
+        { labels: { stage: 'selected' }, value: metrics.totalEventsSelected }
+      ]
+    },
+    {
+      name: 'selection_average_score',
+      help: 'Average impact score of the analyzed events',
+      samples: [{ value: metrics.selection.averageScore }]
+    },
+    {
+      name: 'source_items',
+      help: 'Items fetched from each source',
+      samples: metrics.sources.map((source) => ({
+        labels: { source: source.source },
+        value: source.collected
+      }))
+    },
+    {
+      name: 'source_errors',
+      help: 'Failed fetches of each source',
+      samples: metrics.sources.map((source) => ({
+        labels: { source: source.source },
+        value: source.errors
+      }))
+    },
+    {
+      name: 'source_fetch_duration_seconds',
+      help: 'Time spent fetching each source',
+      samples: metrics.sources.map((source) => ({
+        labels: { source: source.source },
+        value: seconds(source.duration)
+      }))
+    },
+    {
+      name: 'source_throttle_wait_seconds',
+      help: 'Time each source waited on the per-host rate limiter',
+      samples: metrics.sources.map((source) => ({
+        labels: { source: source.source },
+        value: seconds(source.throttleWait)
+      }))
+    },
+    {
+      name: 'stage_duration_seconds',
+      help: 'Duration of each pipeline stage',
+      samples: metrics.stages.map((stage) => ({
+        labels: { stage: stage.stage },
+        value: seconds(stage.duration)
+      }))
+    },
+    {
+      name: 'stage_output_items',
+      help: 'Items each pipeline stage produced',
+      samples: metrics.stages.map((stage) => ({
+        labels: { stage: stage.stage },
+        value: stage.outputCount
+      }))
+    },
+    {
+      name: 'llm_calls',
+      help: 'LLM provider calls',
+      samples: metrics.llmUsage.map((usage) => ({ labels: llmLabels(usage), value: usage.calls }))
+    },
+    {
+      name: 'llm_failures',
+      help: 'Failed LLM provider calls',
+      samples: metrics.llmUsage.map((usage) => ({
+        labels: llmLabels(usage),
+        value: usage.failures
+      }))
+    },
+    {
+      name: 'llm_tokens',
+      help: 'Tokens used by LLM provider calls',
+      samples: metrics.llmUsage.flatMap((usage) => [
+        { labels: { ...llmLabels(usage), type: 'prompt' }, value: usage.promptTokens },
+        { labels: { ...llmLabels(usage), type: 'completion' }, value: usage.completionTokens }
+      ])
+    },
+    {
+      name: 'api_calls',
+      help: 'Calls to external APIs',
+      samples: metrics.apiCalls.map((api) => ({
+        labels: { service: api.service },
+        value: api.calls
+      }))
+    },
+    {
+      name: 'api_failures',
+      help: 'Failed calls to external APIs',
+      samples: metrics.apiCalls.map((api) => ({
+        labels: { service: api.service },
+        value: api.failures
+      }))
+    }
+  ];
+}
+
+export function renderOpenMetrics(metrics: ExecutionMetrics): string {
+  const lines: string[] = [];
+
+  for (const family of metricFamilies(metrics)) {
+    if (family.samples.length === 0) {
+      continue;
+    }
+    const name = `${METRIC_PREFIX}${family.name}`;
+    lines.push(`# HELP ${name} ${family.help}`);
+    lines.push(`# TYPE ${name} gauge`);
+    for (const sample of family.samples) {
+      lines.push(formatSample(name, sample));
+    }
+  }
+
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Write the exposition atomically, as the textfile collector may read it at any time
+ * @returns Absolute path of the file
+ */
+export async function writeOpenMetricsFile(filePath: string, text: string): Promise<string> {
+  const resolved = path.resolve(process.cwd(), filePath);
+  await fs.mkdir(path.dirname(resolved), { recursive: true });
+
+  const tempPath = `${resolved}.tmp`;
+  await fs.writeFile(tempPath, text, 'utf-8');
+  await fs.rename(tempPath, resolved);
+  return resolved;
+}
+
+/**
+ * Push the exposition to a Pushgateway grouping key URL, e.g. `<gateway>/metrics/job/<job>`;
+ * POST replaces the metrics of the same names in that group
+ */
+export async function pushOpenMetrics(url: string, text: string): Promise<void> {
+  await fetchText(url, {
+    method: 'POST',
+    headers: { 'content-type': 'text/plain; version=0.0.4' },
+    body: text,
+    timeout: PUSH_TIMEOUT_MS,
+    cache: false
+  });
+}
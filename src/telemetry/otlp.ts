@@ -0,0 +1,196 @@
+/**
+ * OTLP/HTTP JSON trace export of a run: a root span for the run, a child span per pipeline
+ * stage and a span per source fetch under the ingest stage
+ */
+
+import crypto from 'node:crypto';
+import { fetchText } from '../utils/http';
+import type { ExecutionMetrics } from '../utils/metrics';
+
+const INSTRUMENTATION_SCOPE = 'ai-timeline-automation';
+
+/** OTLP SpanKind values */
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+
+/** OTLP StatusCode values */
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { boolValue: boolean };
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpAttribute[];
+  status: { code: number; message?: string };
+}
+
+export interface OtlpTraceRequest {
+  resourceSpans: Array<{
+    resource: { attributes: OtlpAttribute[] };
+    scopeSpans: Array<{ scope: { name: string }; spans: OtlpSpan[] }>;
+  }>;
+}
+
+export interface OtlpExportOptions {
+  endpoint: string;
+  serviceName: string;
+  headers?: Record<string, string>;
+  timeoutMs: number;
+}
+
+function attribute(key: string, value: string | number | boolean): OtlpAttribute {
+  if (typeof value === 'boolean') {
+    return { key, value: { boolValue: value } };
+  }
+  if (typeof value === 'number') {
+    return { key, value: { intValue: String(Math.round(value)) } };
+  }
+  return { key, value: { stringValue: value } };
+}
+
+function unixNanos(milliseconds: number): string {
+  return `${Math.round(milliseconds)}000000`;
+}
+
+/**
+ * Trace id of a run: its correlation id when that is a UUID, a hash of it otherwise
+ */
+export function traceIdFor(correlationId: string): string {
+  const hex = correlationId.replace(/-/g, '').toLowerCase();
+  if (/^[0-9a-f]{32}$/.test(hex)) {
+    return hex;
+  }
+  return crypto.createHash('sha256').update(correlationId).digest('hex').slice(0, 32);
+}
+
+function newSpanId(): string {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+export function buildOtlpTraceRequest(
+  metrics: ExecutionMetrics,
+  serviceName: string
+): OtlpTraceRequest {
+  const traceId = traceIdFor(metrics.correlationId);
+  const rootSpanId = newSpanId();
+  const llmTokens = metrics.llmUsage.reduce((sum, usage) => sum + usage.totalTokens, 0);
+
+  const spans: OtlpSpan[] = [
+    {
+      traceId,
+      spanId: rootSpanId,
+      name: 'pipeline run',
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: unixNanos(Date.parse(metrics.startTime)),
+      endTimeUnixNano: unixNanos(Date.parse(metrics.endTime)),
+      attributes: [
+        attribute('pipeline.correlation_id', metrics.correlationId),
+        attribute('pipeline.events.collected', metrics.totalEventsCollected),
+        attribute('pipeline.events.analyzed', metrics.totalEventsAnalyzed),
+        attribute('pipeline.events.selected', metrics.totalEventsSelected),
+        attribute('pipeline.errors', metrics.errors.length),
+        attribute('llm.tokens.total', llmTokens)
+      ],
+      status: metrics.success
+        ? { code: STATUS_CODE_OK }
+        : { code: STATUS_CODE_ERROR, message: `${metrics.errors.length} errors` }
+    }
+  ];
+
+  let ingestSpanId: string | undefined;
+  for (const stage of metrics.stages) {
+    const start = Date.parse(stage.startTime);
+    const spanId = newSpanId();
+    if (stage.stage === 'ingest') {
+      ingestSpanId = spanId;
+    }
+    spans.push({
+      traceId,
+      spanId,
+      parentSpanId: rootSpanId,
+      name: `stage ${stage.stage}`,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: unixNanos(start),
+      endTimeUnixNano: unixNanos(start + stage.duration),
+      attributes: [
+        attribute('pipeline.stage', stage.stage),
+        attribute('pipeline.stage.input_count', stage.inputCount),
+        attribute('pipeline.stage.output_count', stage.outputCount),
+        attribute('pipeline.stage.restored', stage.restored)
+      ],
+      status: { code: STATUS_CODE_OK }
+    });
+  }
+
+  for (const source of metrics.sources) {
+    const start = Date.parse(source.startTime);
+    const error = metrics.errors.find((entry) => entry.source === source.source);
+    spans.push({
+      traceId,
+      spanId: newSpanId(),
+      parentSpanId: ingestSpanId ?? rootSpanId,
+      name: `fetch ${source.source}`,
+      kind: SPAN_KIND_CLIENT,
+      startTimeUnixNano: unixNanos(start),
+      endTimeUnixNano: unixNanos(start + source.duration),
+      attributes: [
+        attribute('source.id', source.source),
+        attribute('source.items', source.collected),
+        attribute('source.errors', source.errors)
+      ],
+      status:
+        source.errors > 0
+          ? { code: STATUS_CODE_ERROR, message: error?.error ?? 'fetch failed' }
+          : { code: STATUS_CODE_OK }
+    });
+  }
+
+  return {
+    resourceSpans: [
+      {
+        resource: { attributes: [attribute('service.name', serviceName)] },
+        scopeSpans: [{ scope: { name: INSTRUMENTATION_SCOPE }, spans }]
+      }
+    ]
+  };
+}
+
+/**
+ * Parse OTEL_EXPORTER_OTLP_HEADERS-style `key=value,key2=value2` pairs
+ */
+export function parseOtlpHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value?.split(',') ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    headers[decodeURIComponent(pair.slice(0, separator).trim())] = decodeURIComponent(
+      pair.slice(separator + 1).trim()
+    );
+  }
+  return headers;
+}
+
+export async function exportOtlpTraces(
+  metrics: ExecutionMetrics,
+  options: OtlpExportOptions
+): Promise<void> {
+  await fetchText(options.endpoint, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...options.headers },
+    body: JSON.stringify(buildOtlpTraceRequest(metrics, options.serviceName)),
+    timeout: options.timeoutMs,
+    cache: false
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the local filesystem timeline backend
+ */
+
+import { execFileSync } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { AnalyzedEvent } from '../../types';
+import { ConfigurationError } from '../../utils/errors';
+import { createTimelineStore } from '../factory';
+import { LocalTimelineStore } from '../local-timeline-store';
+
+const EXISTING_TIMELINE = `[
+  {
+    "year": 2023,
+    "month": "March",
+    "title": "GPT-4 Released",
+    "description": "OpenAI releases GPT-4.",
+    "category": "Models & Architectures",
+    "link": "https://openai.com/research/gpt-4"
+  }
+]
+`;
+
+const analyzedEvent: AnalyzedEvent = {
+  id: '2024-01-15-ai-breakthrough',
+  title: 'AI Breakthrough',
+  date: '2024-01-15T00:00:00Z',
+  description: 'Major breakthrough in AI',
+  category: 'research',
+  sources: ['https://example.com/ai-news'],
+  impactScore: 9.5,
+  significance: {
+    technologicalBreakthrough: 9,
+    industryImpact: 8,
+    adoptionScale: 7,
+    novelty: 9
+  }
+};
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+describe('LocalTimelineStore', () => {
+  let workDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'local-timeline-'));
+    filePath = path.join(workDir, 'data', 'timeline-events.json');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(workDir, { recursive: true, force: true });
+  });
+
+  it('reads and validates the timeline file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, EXISTING_TIMELINE);
+
+    const timeline = await new LocalTimelineStore({ filePath }).fetchTimeline();
+
+    expect(timeline.events).toHaveLength(1);
+    expect(timeline.events[0].title).toBe('GPT-4 Released');
+    expect(timeline.sha).toBe(git(workDir, 'hash-object', filePath));
+  });
+
+  it('treats a missing file as an empty timeline and creates it on publish', async () => {
+    const store = new LocalTimelineStore({ filePath });
+
+    expect((await store.fetchTimeline()).events).toEqual([]);
+
+    const result = await store.publishEvents([analyzedEvent]);
+    const written = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+
+    expect(result).toEqual({
+      url: `file://${filePath}`,
+      reference: filePath,
+      created: true,
+      entries: [
+        expect.objectContaining({ title: analyzedEvent.title, category: 'Research Breakthroughs' })
+      ]
+    });
+    expect(written).toEqual([
+      expect.objectContaining({ year: 2024, month: 'January', title: 'AI Breakthrough' })
+    ]);
+  });
+
+  it('appends without rewriting existing entries and rejects repeats', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, EXISTING_TIMELINE);
+    const store = new LocalTimelineStore({ filePath });
+
+    await store.publishEvents([analyzedEvent]);
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    const existingEntry = EXISTING_TIMELINE.slice(0, EXISTING_TIMELINE.lastIndexOf('}') + 1);
+    expect(content.startsWith(existingEntry)).toBe(true);
+    expect(JSON.parse(content)).toHaveLength(2);
+    await expect(store.publishEvents([analyzedEvent])).rejects.toThrow('No new events to add');
+  });
+
+  it('commits the update in a local git checkout', async () => {
+    git(workDir, 'init', '-q');
+    git(workDir, 'config', 'user.email', 'timeline@example.com');
+    git(workDir, 'config', 'user.name', 'Timeline Bot');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, EXISTING_TIMELINE);
+    git(workDir, 'add', '.');
+    git(workDir, 'commit', '-q', '-m', 'Initial timeline');
+
+    const result = await new LocalTimelineStore({ filePath, commit: true }).publishEvents([
+      analyzedEvent
+    ]);
+
+    expect(result.reference).toBe(git(workDir, 'rev-parse', 'HEAD'));
+    expect(git(workDir, 'log', '-1', '--format=%s')).toBe('Add 1 new AI timeline event');
+    expect(git(workDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('writes exports next to the timeline and commits them with it', async () => {
+    git(workDir, 'init', '-q');
+    git(workDir, 'config', 'user.email', 'timeline@example.com');
+    git(workDir, 'config', 'user.name', 'Timeline Bot');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, EXISTING_TIMELINE);
+    git(workDir, 'add', '.');
+    git(workDir, 'commit', '-q', '-m', 'Initial timeline');
+
+    const store = createTimelineStore({
+      backend: 'local',
+      filePath: 'data/timeline-events.json',
+      localDir: workDir,
+      commit: true,
+      exports: {
+        targets: [
+          { format: 'markdown', path: 'exports/timeline.md' },
+          { format: 'csv', path: 'exports/timeline.csv' }
+        ],
+        options: { title: 'AI Timeline', feedLimit: 10 }
+      }
+    });
+    await store.publishEvents([analyzedEvent]);
+
+    const markdown = await fs.readFile(path.join(workDir, 'exports', 'timeline.md'), 'utf-8');
+    expect(markdown).toContain('### March\n\n- **[GPT-4 Released]');
+    expect(markdown).toContain('## 2024\n\n### January\n\n- **[AI Breakthrough]');
+    expect(git(workDir, 'show', '--name-only', '--format=', 'HEAD').split('\n')).toEqual([
+      'data/timeline-events.json',
+      'exports/timeline.csv',
+      'exports/timeline.md'
+    ]);
+    expect(git(workDir, 'status', '--porcelain')).toBe('');
+  });
+});
+
+describe('createTimelineStore', () => {
+  it('resolves the local file against the working copy', () => {
+    const store = createTimelineStore({
+      backend: 'local',
+      filePath: 'data/timeline-events.json',
+      localDir: '/srv/ai-timeline'
+    });
+
+    expect(store).toBeInstanceOf(LocalTimelineStore);
+    expect((store as LocalTimelineStore).filePath).toBe(
+      '/srv/ai-timeline/data/timeline-events.json'
+    );
+  });
+
+  it('requires a repository for the github backend', () => {
+    expect(() =>
+      createTimelineStore({ backend: 'github', filePath: 'data/timeline-events.json' })
+    ).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Unit tests for timeline file parsing and serialization
+ */
+
+import { type AnalyzedEvent, toTimelineEntry } from '../../types';
+import {
+  appendEventsToTimelineContent,
+  canonicalizeTimelineContent,
+  missingTimelineFields,
+  parseTimelineData,
+  type TimelineFieldMapping,
+  toTimelineJson,
+  writeEventsToTimelineContent
+} from '../timeline-file';
+
+const analyzedEvent: AnalyzedEvent = {
+  id: '2024-01-15-ai-breakthrough',
+  title: 'AI Breakthrough',
+  date: '2024-01-15T09:30:00.000Z',
+  description: 'Major breakthrough in AI',
+  category: 'research',
+  sources: ['https://example.com/ai-news', 'https://example.com/paper'],
+  impactScore: 9.5,
+  significance: {
+    technologicalBreakthrough: 9,
+    industryImpact: 8,
+    adoptionScale: 7,
+    novelty: 9
+  },
+  metadata: { relatedTopics: ['reasoning', 'benchmarks'] }
+};
+
+const RICH_FIELDS: TimelineFieldMapping = {
+  id: 'id',
+  date: 'date',
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  url: 'link',
+  sources: 'sources',
+  impact: 'impact_score',
+  tags: 'tags'
+};
+
+describe('timeline file schema', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes the legacy site layout by default', () => {
+    expect(toTimelineJson(toTimelineEntry(analyzedEvent))).toEqual({
+      year: 2024,
+      month: 'January',
+      title: 'AI Breakthrough',
+      description: 'Major breakthrough in AI',
+      category: 'Research Breakthroughs',
+      link: 'https://example.com/ai-news'
+    });
+  });
+
+  it('writes mapped fields in mapping order and reads them back unchanged', () => {
+    const entry = toTimelineEntry(analyzedEvent);
+    const content = appendEventsToTimelineContent('[]\n', [entry], RICH_FIELDS);
+    const [written] = JSON.parse(content);
+
+    expect(Object.keys(written)).toEqual(Object.keys(RICH_FIELDS));
+    expect(written).toMatchObject({
+      id: '2024-01-15-ai-breakthrough',
+      date: '2024-01-15T09:30:00.000Z',
+      url: 'https://example.com/ai-news',
+      impact: 9.5,
+      tags: ['reasoning', 'benchmarks']
+    });
+    expect(parseTimelineData(JSON.parse(content), RICH_FIELDS)).toEqual([entry]);
+  });
+
+  it('drops links that are not http(s) URLs', () => {
+    const [entry] = parseTimelineData([
+      {
+        year: 2023,
+        month: 'March',
+        title: 'GPT-4 Released',
+        description: 'OpenAI releases GPT-4.',
+        category: 'Models & Architectures',
+        link: 'javascript://host/%0Aalert(1)',
+        sources: ['ftp://example.com/file', 'https://openai.com/research/gpt-4']
+      }
+    ]);
+
+    expect(entry.sources).toEqual(['https://openai.com/research/gpt-4']);
+  });
+
+  it('keeps fields the pipeline does not model when an entry is rewritten', () => {
+    const existing = {
+      year: 2023,
+      month: 'March',
+      title: 'GPT-4 Released',
+      description: 'OpenAI releases GPT-4.',
+      category: 'Models & Architectures',
+      link: 'https://openai.com/research/gpt-4',
+      sources: ['https://example.com/gpt-4-coverage'],
+      image: 'gpt-4.png',
+      featured: true
+    };
+
+    const [entry] = parseTimelineData([existing]);
+
+    expect(entry.sources).toEqual([
+      'https://openai.com/research/gpt-4',
+      'https://example.com/gpt-4-coverage'
+    ]);
+    expect(entry.extra).toEqual({
+      sources: ['https://example.com/gpt-4-coverage'],
+      image: 'gpt-4.png',
+      featured: true
+    });
+    expect(toTimelineJson(entry)).toEqual(existing);
+  });
+
+  it('honors ids and exact dates on existing entries', () => {
+    const [entry] = parseTimelineData([
+      {
+        id: '2023-03-14-gpt-4',
+        date: '2023-03-14T17:00:00Z',
+        title: 'GPT-4 Released',
+        description: 'OpenAI releases GPT-4.',
+        category: 'Models & Architectures',
+        link: 'https://openai.com/research/gpt-4',
+        impact_score: 9
+      }
+    ]);
+
+    expect(entry).toMatchObject({
+      id: '2023-03-14-gpt-4',
+      date: '2023-03-14T17:00:00.000Z',
+      impact_score: 9
+    });
+  });
+
+  it('reports mappings that could not be read back', () => {
+    expect(missingTimelineFields(RICH_FIELDS)).toEqual([]);
+    expect(missingTimelineFields({ title: 'title', year: 'year' })).toEqual([
+      'description',
+      'category',
+      'date (or year and month)',
+      'link (or sources)'
+    ]);
+  });
+});
+
+describe('timeline file insertion and formatting', () => {
+  // Hand-formatted entries whose bytes must survive insertion untouched
+  const ASCENDING = `[
+  { "year": 2023, "month": "March", "title": "GPT-4 Released", "description": "OpenAI releases GPT-4.", "category": "Models & Architectures", "link": "https://openai.com/research/gpt-4" },
+  {
+    "year": 2024,
+    "month": "January",
+    "title": "Older January Entry",
+    "description": "Something from early January.",
+    "category": "Public Releases",
+    "link": "https://example.com/january"
+  },
+  {
+    "year": 2024,
+    "month": "May",
+    "title": "May Entry",
+    "description": "Something from May.",
+    "category": "Public Releases",
+    "link": "https://example.com/may"
+  }
+]
+`;
+
+  const entry = toTimelineEntry(analyzedEvent);
+  const titles = (content: string) =>
+    JSON.parse(content).map((item: { title: string }) => item.title);
+
+  it('inserts entries chronologically and keeps existing bytes intact', () => {
+    const updated = writeEventsToTimelineContent(ASCENDING, [entry], undefined, {
+      insertion: 'chronological'
+    });
+
+    expect(titles(updated)).toEqual([
+      'GPT-4 Released',
+      'Older January Entry',
+      'AI Breakthrough',
+      'May Entry'
+    ]);
+
+    const mayEntry = ASCENDING.indexOf('  {\n    "year": 2024,\n    "month": "May"');
+    const inserted = updated.slice(ASCENDING.slice(0, mayEntry).length);
+    expect(updated.startsWith(ASCENDING.slice(0, mayEntry - 1))).toBe(true);
+    expect(inserted).toMatch(
+      /^ {2}\{\n {4}"year": 2024,\n {4}"month": "January",\n {4}"title": "AI Breakthrough"/
+    );
+    expect(updated.endsWith(ASCENDING.slice(mayEntry))).toBe(true);
+  });
+
+  it('follows newest-first files', () => {
+    const descending = JSON.stringify([...JSON.parse(ASCENDING)].reverse(), null, 2);
+
+    const updated = writeEventsToTimelineContent(descending, [entry], undefined, {
+      insertion: 'chronological'
+    });
+
+    expect(titles(updated)).toEqual([
+      'May Entry',
+      'AI Breakthrough',
+      'Older January Entry',
+      'GPT-4 Released'
+    ]);
+  });
+
+  it('orders by day when both entries record an exact date', () => {
+    const fields: TimelineFieldMapping = { ...RICH_FIELDS };
+    const earlier = {
+      ...entry,
+      id: '2024-01-10-earlier',
+      title: 'Earlier',
+      date: '2024-01-10T00:00:00.000Z'
+    };
+    const later = {
+      ...entry,
+      id: '2024-01-20-later',
+      title: 'Later',
+      date: '2024-01-20T00:00:00.000Z'
+    };
+
+    const base = appendEventsToTimelineContent('[]\n', [earlier, later], fields);
+    const updated = writeEventsToTimelineContent(base, [entry], fields, {
+      insertion: 'chronological'
+    });
+
+    expect(titles(updated)).toEqual(['Earlier', 'AI Breakthrough', 'Later']);
+  });
+
+  it('canonicalizes key order and indentation idempotently', () => {
+    const canonical = canonicalizeTimelineContent(
+      '[{"link":"https://example.com/a","title":"A","zeta":1,"alpha":{"b":1,"a":2},"year":2024,' +
+        '"month":"May","description":"D","category":"Public Releases"}]'
+    );
+
+    expect(canonical).toBe(`[
+  {
+    "year": 2024,
+    "month": "May",
+    "title": "A",
+    "description": "D",
+    "category": "Public Releases",
+    "link": "https://example.com/a",
+    "alpha": {
+      "a": 2,
+      "b": 1
+    },
+    "zeta": 1
+  }
+]
+`);
+    expect(canonicalizeTimelineContent(canonical)).toBe(canonical);
+
+    // New entries are already canonical, so existing ones come through unchanged
+    const updated = writeEventsToTimelineContent(canonical, [entry], undefined, {
+      insertion: 'chronological',
+      canonicalize: true
+    });
+    expect(updated).toBe(
+      writeEventsToTimelineContent(canonical, [entry], undefined, { insertion: 'chronological' })
+    );
+    expect(updated).toContain(canonical.slice(2, -3));
+  });
+});
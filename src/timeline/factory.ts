@@ -0,0 +1,92 @@
+/**
+ * Timeline store selection from configuration
+ */
+
+import path from 'node:path';
+import type { TimelineExportSettings } from '../exporters';
+import { GiteaManager } from '../gitea/gitea-manager';
+import { GitHubManager } from '../github/github-manager';
+import { GitLabManager } from '../gitlab/gitlab-manager';
+import { ConfigurationError } from '../utils/errors';
+import { LocalTimelineStore } from './local-timeline-store';
+import type { TimelineFieldMapping, TimelineFileFormat } from './timeline-file';
+import type { TimelineBackend, TimelineStore } from './types';
+
+export interface TimelineStoreOptions {
+  backend: TimelineBackend;
+  /** Timeline file path inside the repository or working copy (outputs.timeline_path) */
+  filePath: string;
+  /** Output schema of the timeline file (outputs.timeline_fields) */
+  fields?: TimelineFieldMapping;
+  /** Insertion mode and formatting of the timeline file (outputs.timeline_format) */
+  format?: TimelineFileFormat;
+  /** Forge repository as owner/repo (GitLab also accepts group/subgroup/project) */
+  repo?: string;
+  token?: string;
+  /** API root for self-hosted forges; each forge defaults to its public instance */
+  apiUrl?: string;
+  /** Branch that change requests target */
+  baseBranch?: string;
+  /** Add later runs' events to the week's open change request */
+  incremental?: boolean;
+  /** Exports rendered from the updated timeline and committed with it (outputs.exports) */
+  exports?: TimelineExportSettings;
+  /** Working copy the file path is relative to, for the local backend */
+  localDir?: string;
+  /** Commit local updates in the working copy's git repository */
+  commit?: boolean;
+}
+
+export function createTimelineStore(options: TimelineStoreOptions): TimelineStore {
+  if (options.backend === 'local') {
+    const localDir = options.localDir ?? '.';
+    return new LocalTimelineStore({
+      filePath: path.resolve(localDir, options.filePath),
+      commit: options.commit,
+      fields: options.fields,
+      format: options.format,
+      exports: options.exports && {
+        ...options.exports,
+        targets: options.exports.targets.map((target) => ({
+          ...target,
+          path: path.resolve(localDir, target.path)
+        }))
+      }
+    });
+  }
+
+  const forgeConfig = {
+    filePath: options.filePath,
+    fields: options.fields,
+    format: options.format,
+    baseBranch: options.baseBranch,
+    incremental: options.incremental,
+    exports: options.exports,
+    token: options.token
+  };
+
+  if (options.backend === 'gitlab') {
+    if (!options.repo?.includes('/')) {
+      throw new ConfigurationError(
+        'The gitlab timeline backend requires TIMELINE_REPO in group/project format',
+        ['TIMELINE_REPO']
+      );
+    }
+    return new GitLabManager({ ...forgeConfig, project: options.repo, apiUrl: options.apiUrl });
+  }
+
+  const parts = options.repo?.split('/') ?? [];
+  const [owner, repo] = parts;
+  if (parts.length !== 2 || !owner || !repo) {
+    throw new ConfigurationError(
+      `The ${options.backend} timeline backend requires TIMELINE_REPO in owner/repo format`,
+      ['TIMELINE_REPO']
+    );
+  }
+
+  if (options.backend === 'gitea') {
+    return new GiteaManager({ ...forgeConfig, owner, repo, apiUrl: options.apiUrl });
+  }
+
+  return new GitHubManager({ ...forgeConfig, owner, repo, baseUrl: options.apiUrl });
+}
@@ -0,0 +1,38 @@
+/**
+ * JSON REST helper for the GitLab and Gitea publishers
+ */
+
+import { fetchText, HttpRequestError } from '../utils/http';
+
+const FORGE_REQUEST_TIMEOUT_MS = 30_000;
+
+export interface ForgeRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+/**
+ * Send a JSON request to a forge API, bypassing the HTTP cache; empty responses resolve to undefined
+ */
+export async function forgeRequest<T>(url: string, options: ForgeRequestOptions = {}): Promise<T> {
+  const text = await fetchText(url, {
+    method: options.method ?? 'GET',
+    headers: {
+      accept: 'application/json',
+      ...(options.body !== undefined ? { 'content-type': 'application/json' } : {}),
+      ...options.headers
+    },
+    query: options.query,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    timeout: FORGE_REQUEST_TIMEOUT_MS,
+    cache: false
+  });
+
+  return (text ? JSON.parse(text) : undefined) as T;
+}
+
+export function isHttpStatus(error: unknown, ...statuses: number[]): boolean {
+  return error instanceof HttpRequestError && statuses.includes(error.status);
+}
@@ -0,0 +1,44 @@
+/**
+ * Central export point for timeline storage
+ */
+
+export { createTimelineStore, type TimelineStoreOptions } from './factory';
+export {
+  getTimelineInterceptor,
+  setTimelineInterceptor,
+  type TimelineInterceptor
+} from './interceptor';
+export { LocalTimelineStore, type LocalTimelineStoreConfig } from './local-timeline-store';
+export {
+  type ChangeRequest,
+  type ChangeRequestStatus,
+  type ForgeTimelineConfig,
+  ForgeTimelineStore,
+  type PullRequestResult,
+  type TimelinePublisher,
+  type TimelinePublisherProvider
+} from './publisher';
+export {
+  appendEventsToTimelineContent,
+  canonicalizeTimelineContent,
+  DEFAULT_TIMELINE_FIELDS,
+  filterNewEvents,
+  findExistingTimelineEntry,
+  missingTimelineFields,
+  parseTimelineData,
+  TIMELINE_FIELDS,
+  type TimelineField,
+  type TimelineFieldMapping,
+  type TimelineFileFormat,
+  type TimelineValidationResult,
+  toTimelineJson,
+  validateNewEvents,
+  writeEventsToTimelineContent
+} from './timeline-file';
+export type {
+  TimelineBackend,
+  TimelineData,
+  TimelinePublishOptions,
+  TimelinePublishResult,
+  TimelineStore
+} from './types';
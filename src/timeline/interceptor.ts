@@ -0,0 +1,23 @@
+/**
+ * Hook around timeline reads and publishes, used to record and replay runs
+ */
+
+import type { TimelineData, TimelinePublishResult } from './types';
+
+export interface TimelineInterceptor {
+  fetchTimeline(read: () => Promise<TimelineData>): Promise<TimelineData>;
+  publishEvents(publish: () => Promise<TimelinePublishResult>): Promise<TimelinePublishResult>;
+}
+
+let activeInterceptor: TimelineInterceptor | null = null;
+
+/**
+ * Install an interceptor for timeline reads and publishes; pass null to remove it
+ */
+export function setTimelineInterceptor(interceptor: TimelineInterceptor | null): void {
+  activeInterceptor = interceptor;
+}
+
+export function getTimelineInterceptor(): TimelineInterceptor | null {
+  return activeInterceptor;
+}
@@ -0,0 +1,199 @@
+/**
+ * LocalTimelineStore - Reads and appends to a timeline file on disk, optionally committing
+ * the change in the git checkout that contains it. Needs no GitHub token or network access.
+ */
+
+import { execFile } from 'node:child_process';
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { promisify } from 'node:util';
+import {
+  renderTimelineExports,
+  type TimelineExportSettings,
+  writeTimelineExports
+} from '../exporters';
+import { type AnalyzedEvent, toTimelineEntry } from '../types';
+import { getTimelineInterceptor } from './interceptor';
+import {
+  filterNewEvents,
+  parseTimelineData,
+  type TimelineFieldMapping,
+  type TimelineFileFormat,
+  validateNewEvents,
+  writeEventsToTimelineContent
+} from './timeline-file';
+import type {
+  TimelineData,
+  TimelinePublishOptions,
+  TimelinePublishResult,
+  TimelineStore
+} from './types';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Configuration for LocalTimelineStore
+ */
+export interface LocalTimelineStoreConfig {
+  /** Path to timeline-events.json, resolved against the working directory */
+  filePath: string;
+  /** Commit the updated file in the git checkout that contains it */
+  commit?: boolean;
+  /** Output schema of the timeline file */
+  fields?: TimelineFieldMapping;
+  /** Insertion mode and formatting of the timeline file */
+  format?: TimelineFileFormat;
+  /** Rendered exports written (and committed) next to the timeline file; absolute paths */
+  exports?: TimelineExportSettings;
+}
+
+/**
+ * Git blob SHA of the content, so local and GitHub versions of a file compare equal
+ */
+function blobSha(content: string): string {
+  const body = Buffer.from(content, 'utf-8');
+  return crypto.createHash('sha1').update(`blob ${body.length}\0`).update(body).digest('hex');
+}
+
+export class LocalTimelineStore implements TimelineStore {
+  readonly backend = 'local' as const;
+  readonly filePath: string;
+  private readonly commit: boolean;
+  private readonly fields?: TimelineFieldMapping;
+  private readonly format?: TimelineFileFormat;
+  private readonly exports?: TimelineExportSettings;
+
+  constructor(config: LocalTimelineStoreConfig) {
+    this.filePath = path.resolve(config.filePath);
+    this.commit = config.commit ?? false;
+    this.fields = config.fields;
+    this.format = config.format;
+    this.exports = config.exports;
+  }
+
+  describe(): string {
+    return `local:${this.filePath}${this.commit ? ' (git commit)' : ''}`;
+  }
+
+  async fetchTimeline(): Promise<TimelineData> {
+    const interceptor = getTimelineInterceptor();
+    if (interceptor) {
+      return interceptor.fetchTimeline(() => this.readTimelineFile());
+    }
+
+    return this.readTimelineFile();
+  }
+
+  /**
+   * Append new events to the file, and commit it when configured to; there is no change
+   * request, so publish options do not apply
+   */
+  async publishEvents(
+    events: AnalyzedEvent[],
+    _options?: TimelinePublishOptions
+  ): Promise<TimelinePublishResult> {
+    const interceptor = getTimelineInterceptor();
+    if (interceptor) {
+      return interceptor.publishEvents(() => this.writeTimelineUpdate(events));
+    }
+
+    return this.writeTimelineUpdate(events);
+  }
+
+  private async readTimelineFile(): Promise<TimelineData> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.log('Timeline file not found, assuming empty timeline');
+        return { events: [], sha: '', content: '[]' };
+      }
+      throw new Error(`Failed to read timeline ${this.filePath}: ${(error as Error).message}`);
+    }
+
+    try {
+      const events = parseTimelineData(JSON.parse(content), this.fields);
+      console.log(`Successfully read ${events.length} existing events from ${this.filePath}`);
+      return { events, sha: blobSha(content), content };
+    } catch (error) {
+      throw new Error(`Failed to parse timeline ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+
+  private async writeTimelineUpdate(events: AnalyzedEvent[]): Promise<TimelinePublishResult> {
+    const timelineEntries = events.map(toTimelineEntry);
+    if (timelineEntries.length === 0) {
+      throw new Error('No events to add to timeline');
+    }
+
+    const currentTimeline = await this.readTimelineFile();
+    const newEvents = filterNewEvents(timelineEntries, currentTimeline.events);
+    if (newEvents.length === 0) {
+      console.log('All events already exist in timeline');
+      throw new Error('No new events to add');
+    }
+
+    const validation = validateNewEvents(newEvents, currentTimeline.events);
+    if (!validation.valid) {
+      throw new Error(`Event validation failed: ${validation.conflicts.join(', ')}`);
+    }
+
+    if (validation.warnings.length > 0) {
+      console.warn('Validation warnings:', validation.warnings);
+    }
+
+    const updatedContent = writeEventsToTimelineContent(
+      currentTimeline.content,
+      newEvents,
+      this.fields,
+      this.format
+    );
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, updatedContent, 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+    console.log(`Updated ${this.filePath} with ${newEvents.length} new events`);
+
+    const entries = parseTimelineData(JSON.parse(updatedContent), this.fields);
+    const exportPaths = this.exports
+      ? await writeTimelineExports(renderTimelineExports(entries, this.exports))
+      : [];
+
+    const url = pathToFileURL(this.filePath).toString();
+
+    if (!this.commit) {
+      return { url, reference: this.filePath, created: true, entries };
+    }
+
+    const message = `Add ${newEvents.length} new AI timeline event${newEvents.length > 1 ? 's' : ''}`;
+    const sha = await this.commitFiles([this.filePath, ...exportPaths], message);
+    console.log(`Committed timeline update ${sha.slice(0, 7)}: ${message}`);
+
+    return { url, reference: sha, created: true, entries };
+  }
+
+  /**
+   * Commit only the timeline file and its exports, leaving anything else staged in the
+   * checkout alone
+   * @returns The new commit SHA
+   */
+  private async commitFiles(filePaths: string[], message: string): Promise<string> {
+    const cwd = path.dirname(this.filePath);
+
+    try {
+      await execFileAsync('git', ['add', '--', ...filePaths], { cwd });
+      await execFileAsync('git', ['commit', '-m', message, '--', ...filePaths], { cwd });
+      const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd });
+      return stdout.trim();
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(
+        `Failed to commit timeline update in ${cwd}: ${stderr || (error as Error).message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,727 @@
+/**
+ * Pull/merge request workflow shared by the forge-hosted timeline backends (GitHub, GitLab, Gitea).
+ * Each forge implements the TimelinePublisher primitives; ForgeTimelineStore drives them.
+ */
+
+import type { SelectionCriteria } from '../analyzers/scoring';
+import { renderTimelineExports, type TimelineExportSettings } from '../exporters';
+import { type AnalyzedEvent, type TimelineEntry, toTimelineEntry } from '../types';
+import { getLogger, type Logger } from '../utils/logger';
+import { getTimelineInterceptor } from './interceptor';
+import {
+  filterNewEvents,
+  parseTimelineData,
+  type TimelineFieldMapping,
+  type TimelineFileFormat,
+  type TimelineValidationResult,
+  validateNewEvents,
+  writeEventsToTimelineContent
+} from './timeline-file';
+import type {
+  TimelineBackend,
+  TimelineData,
+  TimelinePublishOptions,
+  TimelinePublishResult,
+  TimelineStore
+} from './types';
+
+export type TimelinePublisherProvider = Exclude<TimelineBackend, 'local'>;
+
+/**
+ * An open pull request (GitHub, Gitea) or merge request (GitLab)
+ */
+export interface ChangeRequest {
+  /** PR number or MR iid */
+  number: number;
+  html_url: string;
+}
+
+/**
+ * Review state of a change request
+ */
+export interface ChangeRequestStatus extends ChangeRequest {
+  state: 'open' | 'merged' | 'closed';
+  description: string;
+}
+
+/**
+ * Result from creating a pull request
+ */
+export interface PullRequestResult {
+  /** PR number */
+  number: number;
+  /** PR URL */
+  html_url: string;
+  /** Branch name */
+  branch: string;
+  /** Whether the PR was created (true) or already existed (false) */
+  created: boolean;
+  /** Whether an existing PR received new events (incremental mode only) */
+  updated?: boolean;
+  /** Full timeline on the branch after the update; absent when nothing was written */
+  entries?: TimelineEntry[];
+}
+
+/**
+ * A file read from a branch, with the version identifier the forge expects on update
+ */
+export interface RepositoryFile {
+  content: string;
+  sha: string;
+}
+
+/**
+ * Forge operations needed to propose a timeline update for review
+ */
+export interface TimelinePublisher {
+  readonly provider: TimelinePublisherProvider;
+  /** Read the timeline file from the base branch, or from another branch or ref */
+  fetchTimeline(ref?: string): Promise<TimelineData>;
+  /** Open change request whose source is the branch, if any */
+  findOpenChangeRequest(branchName: string): Promise<ChangeRequest | null>;
+  getChangeRequest(number: number): Promise<ChangeRequestStatus>;
+  /** Create the branch from the base branch, resetting it if it already exists */
+  createOrUpdateBranch(branchName: string): Promise<void>;
+  /** Append entries to the timeline file on the branch; returns the new content */
+  updateTimelineFile(
+    currentTimeline: TimelineData,
+    newEvents: TimelineEntry[],
+    branchName: string
+  ): Promise<string>;
+  createChangeRequest(branchName: string, title: string, body: string): Promise<ChangeRequest>;
+  /** Replace the title and description of an open change request */
+  updateChangeRequest(number: number, title: string, body: string): Promise<void>;
+  addLabels(number: number, labels: string[]): Promise<void>;
+  addComment(number: number, body: string): Promise<void>;
+}
+
+/**
+ * Settings shared by every forge backend
+ */
+export interface ForgeTimelineConfig {
+  /** Path to timeline-events.json file */
+  filePath?: string;
+  /** Base branch to open change requests against */
+  baseBranch?: string;
+  /** Labels to add to change requests */
+  defaultLabels?: string[];
+  /** Output schema of the timeline file */
+  fields?: TimelineFieldMapping;
+  /** Insertion mode and formatting of the timeline file */
+  format?: TimelineFileFormat;
+  /**
+   * Append events from later runs to the week's open change request instead of leaving it as is
+   */
+  incremental?: boolean;
+  /** Rendered exports committed next to the timeline file in the same change request */
+  exports?: TimelineExportSettings;
+}
+
+/**
+ * Timeline store that publishes each week's events as a reviewed change request
+ */
+export abstract class ForgeTimelineStore implements TimelineStore, TimelinePublisher {
+  abstract readonly provider: TimelinePublisherProvider;
+  protected readonly filePath: string;
+  protected readonly baseBranch: string;
+  protected readonly defaultLabels: string[];
+  protected readonly incremental: boolean;
+  protected readonly fields?: TimelineFieldMapping;
+  protected readonly format?: TimelineFileFormat;
+  protected readonly exports?: TimelineExportSettings;
+
+  constructor(config: ForgeTimelineConfig) {
+    this.filePath = config.filePath || 'data/timeline-events.json';
+    this.baseBranch = config.baseBranch || 'main';
+    this.defaultLabels = config.defaultLabels || ['automated', 'weekly-update'];
+    this.incremental = config.incremental ?? false;
+    this.fields = config.fields;
+    this.format = config.format;
+    this.exports = config.exports;
+  }
+
+  get backend(): TimelinePublisherProvider {
+    return this.provider;
+  }
+
+  /**
+   * Structured logger tagged with this forge; correlated with the run that publishes
+   */
+  protected get logger(): Logger {
+    return getLogger().child({ service: 'timeline-publisher', provider: this.provider });
+  }
+
+  abstract describe(): string;
+  abstract fetchTimeline(ref?: string): Promise<TimelineData>;
+  abstract findOpenChangeRequest(branchName: string): Promise<ChangeRequest | null>;
+  abstract getChangeRequest(number: number): Promise<ChangeRequestStatus>;
+  abstract createOrUpdateBranch(branchName: string): Promise<void>;
+  abstract createChangeRequest(
+    branchName: string,
+    title: string,
+    body: string
+  ): Promise<ChangeRequest>;
+  abstract updateChangeRequest(number: number, title: string, body: string): Promise<void>;
+  abstract addLabels(number: number, labels: string[]): Promise<void>;
+  abstract addComment(number: number, body: string): Promise<void>;
+
+  /**
+   * Read a file from a branch or ref; resolves to null if it does not exist
+   */
+  protected abstract readRepositoryFile(
+    ref: string,
+    filePath: string
+  ): Promise<RepositoryFile | null>;
+
+  /**
+   * Write the full file content to the branch; `sha` is the version being replaced, empty if new
+   */
+  protected abstract writeRepositoryFile(
+    branchName: string,
+    filePath: string,
+    content: string,
+    message: string,
+    sha: string
+  ): Promise<void>;
+
+  /**
+   * Publish new events as a change request against the base branch
+   */
+  async publishEvents(
+    events: AnalyzedEvent[],
+    options: TimelinePublishOptions = {}
+  ): Promise<TimelinePublishResult> {
+    const publish = async (): Promise<TimelinePublishResult> => {
+      const pr = await this.createTimelineUpdatePR(events, undefined, undefined, options);
+      return {
+        url: pr.html_url,
+        reference: pr.branch,
+        created: pr.created || pr.updated === true,
+        changeRequest: pr.number,
+        entries: pr.entries
+      };
+    };
+
+    const interceptor = getTimelineInterceptor();
+    return interceptor ? interceptor.publishEvents(publish) : publish();
+  }
+
+  /**
+   * Create a pull request with new timeline events
+   */
+  async createTimelineUpdatePR(
+    events: AnalyzedEvent[],
+    weekNumber?: number,
+    year?: number,
+    options: TimelinePublishOptions = {}
+  ): Promise<PullRequestResult> {
+    // Convert to timeline entries
+    const timelineEntries = events.map(toTimelineEntry);
+
+    if (timelineEntries.length === 0) {
+      throw new Error('No events to add to timeline');
+    }
+
+    // Calculate week number if not provided
+    const now = new Date();
+    if (!weekNumber || !year) {
+      const startOfYear = new Date(now.getFullYear(), 0, 1);
+      const daysSinceStart = Math.floor(
+        (now.getTime() - startOfYear.getTime()) / (1000 * 60 * 60 * 24)
+      );
+      weekNumber = weekNumber || Math.ceil((daysSinceStart + startOfYear.getDay() + 1) / 7);
+      year = year || now.getFullYear();
+    }
+
+    // Generate branch name
+    const branchName = this.generateBranchName(year, weekNumber);
+    const title = `AI Timeline Update - Week ${weekNumber}, ${year}`;
+    this.logger.info('Creating change request', { branch: branchName });
+
+    try {
+      // Check if PR already exists
+      const existingPR = await this.findOpenChangeRequest(branchName);
+      if (existingPR && !this.incremental) {
+        this.logger.info('Change request already exists', { number: existingPR.number });
+        return {
+          number: existingPR.number,
+          html_url: existingPR.html_url,
+          branch: branchName,
+          created: false
+        };
+      }
+
+      // Fetch current timeline
+      const currentTimeline = await this.fetchTimeline();
+
+      if (existingPR) {
+        return await this.updateExistingChangeRequest(
+          existingPR,
+          branchName,
+          title,
+          events,
+          timelineEntries,
+          currentTimeline,
+          options
+        );
+      }
+
+      const newEvents = this.filterNewEvents(timelineEntries, currentTimeline.events);
+      if (newEvents.length === 0) {
+        this.logger.info('All events already exist in timeline');
+        throw new Error('No new events to add');
+      }
+
+      // Validate new events after filtering
+      const validation = this.validateNewEvents(newEvents, currentTimeline.events);
+      if (!validation.valid) {
+        throw new Error(`Event validation failed: ${validation.conflicts.join(', ')}`);
+      }
+
+      if (validation.warnings.length > 0) {
+        this.logger.warn('Validation warnings', { warnings: validation.warnings });
+      }
+
+      const analyzedNewEvents = events.filter((event) =>
+        newEvents.some((entry) => entry.id === event.id)
+      );
+
+      // Create or update branch
+      await this.createOrUpdateBranch(branchName);
+
+      // Update timeline file and the exports rendered from it
+      const updatedContent = await this.updateTimelineFile(currentTimeline, newEvents, branchName);
+      const entries = parseTimelineData(JSON.parse(updatedContent), this.fields);
+      await this.updateExportFiles(entries, branchName);
+
+      // Generate PR description
+      const description = this.withAppendix(
+        this.generatePRDescription(
+          events,
+          newEvents,
+          validation.warnings,
+          options.selectionCriteria
+        ),
+        options.appendDescription?.()
+      );
+
+      // Create pull request
+      const pr = await this.createChangeRequest(branchName, title, description);
+
+      // Add labels
+      await this.applyLabels(pr.number, analyzedNewEvents);
+
+      this.logger.info('Created change request', { number: pr.number, url: pr.html_url });
+
+      return {
+        number: pr.number,
+        html_url: pr.html_url,
+        branch: branchName,
+        created: true,
+        entries
+      };
+    } catch (error) {
+      this.logger.error('Error creating timeline update', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rebase the branch of an open change request onto the base branch and append the events
+   * that are in neither the base timeline nor the change request yet
+   */
+  private async updateExistingChangeRequest(
+    existingPR: ChangeRequest,
+    branchName: string,
+    title: string,
+    events: AnalyzedEvent[],
+    timelineEntries: TimelineEntry[],
+    currentTimeline: TimelineData,
+    options: TimelinePublishOptions
+  ): Promise<PullRequestResult> {
+    const unchanged: PullRequestResult = {
+      number: existingPR.number,
+      html_url: existingPR.html_url,
+      branch: branchName,
+      created: false,
+      updated: false
+    };
+
+    // Entries the change request already proposes, including any edits made during review
+    const branchTimeline = await this.fetchTimeline(branchName);
+    const proposedEntries = this.filterNewEvents(branchTimeline.events, currentTimeline.events);
+    const knownEntries = [...currentTimeline.events, ...proposedEntries];
+
+    const newEvents = this.filterNewEvents(timelineEntries, knownEntries);
+    if (newEvents.length === 0) {
+      this.logger.info('Change request already contains all selected events', {
+        number: existingPR.number
+      });
+      return unchanged;
+    }
+
+    const validation = this.validateNewEvents(newEvents, knownEntries);
+    if (!validation.valid) {
+      throw new Error(`Event validation failed: ${validation.conflicts.join(', ')}`);
+    }
+
+    if (validation.warnings.length > 0) {
+      this.logger.warn('Validation warnings', { warnings: validation.warnings });
+    }
+
+    const analyzedNewEvents = events.filter((event) =>
+      newEvents.some((entry) => entry.id === event.id)
+    );
+    const allEntries = [...proposedEntries, ...newEvents];
+
+    // Rebase, then rewrite the file from the base version so the change applies cleanly
+    await this.rebaseBranch(branchName, existingPR.number);
+    const rebasedTimeline = await this.fetchTimeline(branchName);
+    const updatedContent = await this.updateTimelineFile(
+      { ...currentTimeline, sha: rebasedTimeline.sha },
+      allEntries,
+      branchName
+    );
+    const entries = parseTimelineData(JSON.parse(updatedContent), this.fields);
+    await this.updateExportFiles(entries, branchName);
+
+    const appendix = options.appendDescription
+      ? options.appendDescription((await this.getChangeRequest(existingPR.number)).description)
+      : undefined;
+    await this.updateChangeRequest(
+      existingPR.number,
+      title,
+      this.withAppendix(
+        this.generatePRDescription(
+          events,
+          allEntries,
+          validation.warnings,
+          options.selectionCriteria
+        ),
+        appendix
+      )
+    );
+    await this.applyLabels(existingPR.number, analyzedNewEvents, proposedEntries);
+    await this.addComment(
+      existingPR.number,
+      this.generateUpdateComment(newEvents, proposedEntries.length)
+    );
+
+    this.logger.info('Added new events to change request', {
+      events: newEvents.length,
+      number: existingPR.number,
+      url: existingPR.html_url
+    });
+
+    return { ...unchanged, updated: true, entries };
+  }
+
+  /**
+   * Update the timeline file with new events
+   */
+  async updateTimelineFile(
+    currentTimeline: TimelineData,
+    newEvents: TimelineEntry[],
+    branchName: string
+  ): Promise<string> {
+    const updatedContent = writeEventsToTimelineContent(
+      currentTimeline.content,
+      newEvents,
+      this.fields,
+      this.format
+    );
+    const message = `Add ${newEvents.length} new AI timeline event${newEvents.length > 1 ? 's' : ''}`;
+
+    try {
+      await this.writeRepositoryFile(
+        branchName,
+        this.filePath,
+        updatedContent,
+        message,
+        currentTimeline.sha
+      );
+
+      this.logger.info('Updated timeline file', { branch: branchName, events: newEvents.length });
+      return updatedContent;
+    } catch (error) {
+      this.logger.error('Error updating timeline file', error as Error);
+      throw new Error(`Failed to update timeline file: ${error}`);
+    }
+  }
+
+  /**
+   * Render the configured exports from the updated timeline and commit those that changed
+   */
+  private async updateExportFiles(entries: TimelineEntry[], branchName: string): Promise<void> {
+    if (!this.exports || this.exports.targets.length === 0) {
+      return;
+    }
+
+    try {
+      for (const rendered of renderTimelineExports(entries, this.exports)) {
+        const existing = await this.readRepositoryFile(branchName, rendered.path);
+        if (existing?.content === rendered.content) {
+          continue;
+        }
+
+        await this.writeRepositoryFile(
+          branchName,
+          rendered.path,
+          rendered.content,
+          `Update ${rendered.path}`,
+          existing?.sha ?? ''
+        );
+        this.logger.info('Updated timeline export', {
+          format: rendered.format,
+          path: rendered.path
+        });
+      }
+    } catch (error) {
+      this.logger.error('Error updating timeline exports', error as Error);
+      throw new Error(`Failed to write timeline exports: ${error}`);
+    }
+  }
+
+  /**
+   * Bring the branch of an open change request up to date with the base branch, keeping the
+   * commits already on it. Resetting or recreating the branch instead would drop commits pushed
+   * during review and can close the change request.
+   */
+  protected abstract rebaseBranch(branchName: string, number: number): Promise<void>;
+
+  protected filterNewEvents(
+    newEvents: TimelineEntry[],
+    existingEvents: TimelineEntry[]
+  ): TimelineEntry[] {
+    return filterNewEvents(newEvents, existingEvents);
+  }
+
+  protected validateNewEvents(
+    newEvents: TimelineEntry[],
+    existingEvents: TimelineEntry[]
+  ): TimelineValidationResult {
+    return validateNewEvents(newEvents, existingEvents);
+  }
+
+  /**
+   * Generate branch name for the update
+   */
+  protected generateBranchName(year: number, weekNumber: number): string {
+    return `auto-update/week-${year}-${String(weekNumber).padStart(2, '0')}`;
+  }
+
+  /**
+   * Generate PR description
+   */
+  private generatePRDescription(
+    analyzedEvents: AnalyzedEvent[],
+    addedEntries: TimelineEntry[],
+    warnings: string[],
+    criteria?: SelectionCriteria
+  ): string {
+    const lines: string[] = [];
+
+    lines.push('## 🤖 Daily AI Timeline Update\n');
+    lines.push(
+      `This automated PR adds ${addedEntries.length} significant AI developments to the timeline.\n`
+    );
+
+    // Summary statistics
+    lines.push('### 📊 Summary');
+    lines.push(`- **Events analyzed**: ${analyzedEvents.length}`);
+    lines.push(`- **Events added**: ${addedEntries.length}`);
+    lines.push(`- **Date range**: ${this.getDateRange(addedEntries)}`);
+
+    // Categories breakdown
+    const categories = this.getCategoryBreakdown(addedEntries);
+    lines.push(
+      `- **Categories**: ${Object.entries(categories)
+        .map(([cat, count]) => `${cat} (${count})`)
+        .join(', ')}\n`
+    );
+
+    // Events details
+    lines.push('### 📝 Events Added\n');
+    addedEntries.forEach((entry, index) => {
+      // Entries carried over from an earlier run only have their timeline fields
+      const analyzed = analyzedEvents.find((e) => e.id === entry.id);
+      const event = {
+        ...entry,
+        category: analyzed?.category ?? entry.category,
+        impactScore: analyzed?.impactScore ?? entry.impact_score,
+        significance: analyzed?.significance
+      };
+
+      lines.push(`#### ${index + 1}. ${event.title}`);
+      lines.push(
+        `- **Date**: ${new Date(event.date).toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric'
+        })}`
+      );
+      lines.push(`- **Category**: \`${event.category}\``);
+      lines.push(`- **Impact Score**: ${event.impactScore}/10`);
+
+      // Significance breakdown
+      if (event.significance) {
+        lines.push('- **Significance**:');
+        lines.push(
+          `  - Technological Breakthrough: ${event.significance.technologicalBreakthrough}/10`
+        );
+        lines.push(`  - Industry Impact: ${event.significance.industryImpact}/10`);
+        lines.push(`  - Adoption Scale: ${event.significance.adoptionScale}/10`);
+        lines.push(`  - Novelty: ${event.significance.novelty}/10`);
+      }
+
+      lines.push(`\n${event.description}\n`);
+
+      if (event.sources && event.sources.length > 0) {
+        lines.push('**Sources:**');
+        event.sources.forEach((source, sourceIndex) => {
+          const label = event.sources.length > 1 ? `Source ${sourceIndex + 1}` : 'Source';
+          lines.push(`- [${label}](${source})`);
+        });
+        lines.push('');
+      }
+    });
+
+    // Selection criteria
+    lines.push('### 🎯 Selection Criteria');
+    lines.push('Events were selected based on:');
+    lines.push('- Technological breakthrough potential');
+    lines.push('- Industry-wide impact');
+    lines.push('- Expected adoption scale');
+    lines.push('- Novelty of the development');
+    if (criteria) {
+      lines.push(
+        `- Minimum significance threshold: ${criteria.significanceThreshold.toFixed(1)}/10`
+      );
+      const categoryMinimums = Object.entries(criteria.categoryMinimums).map(
+        ([category, minimum]) => `${category} ${minimum}`
+      );
+      lines.push(
+        `- Minimum composite score: ${criteria.minComposite}` +
+          (categoryMinimums.length > 0 ? ` (${categoryMinimums.join(', ')})` : '')
+      );
+    }
+    lines.push('');
+
+    // Warnings if any
+    if (warnings.length > 0) {
+      lines.push('### ⚠️ Warnings');
+      warnings.forEach((warning) => {
+        lines.push(`- ${warning}`);
+      });
+      lines.push('');
+    }
+
+    // Metadata
+    lines.push('### 🔧 Metadata');
+    lines.push('- **Generated by**: AI Timeline Automation');
+    lines.push(`- **Timestamp**: ${new Date().toISOString()}`);
+    lines.push('- **Type**: Automated weekly update');
+
+    return lines.join('\n');
+  }
+
+  private withAppendix(description: string, appendix?: string): string {
+    return appendix ? `${description}\n\n${appendix}` : description;
+  }
+
+  /**
+   * Summarize what a later run added to an open change request
+   */
+  private generateUpdateComment(addedEntries: TimelineEntry[], previousCount: number): string {
+    const lines: string[] = [];
+
+    lines.push('### 🔄 Timeline update');
+    const noun = addedEntries.length > 1 ? 'events' : 'event';
+    lines.push(
+      `This run added ${addedEntries.length} new ${noun} to the ${previousCount} already proposed ` +
+        `and rebased the branch onto \`${this.baseBranch}\`.\n`
+    );
+    addedEntries.forEach((entry) => {
+      lines.push(`- **${entry.title}** (${this.getDateRange([entry])}, \`${entry.category}\`)`);
+    });
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Add default, category and impact labels to the change request
+   */
+  private async applyLabels(
+    number: number,
+    events: AnalyzedEvent[],
+    previousEntries: TimelineEntry[] = []
+  ): Promise<void> {
+    const labels = [...this.defaultLabels];
+
+    // Add category-specific labels
+    const categories = new Set(events.map((e) => e.category));
+    categories.forEach((category) => {
+      labels.push(`category:${category}`);
+    });
+
+    // Add impact level label, counting entries proposed by earlier runs
+    const maxImpact = Math.max(
+      ...events.map((e) => e.impactScore),
+      ...previousEntries.map((e) => e.impact_score)
+    );
+    if (maxImpact >= 9) {
+      labels.push('impact:critical');
+    } else if (maxImpact >= 7) {
+      labels.push('impact:high');
+    } else {
+      labels.push('impact:moderate');
+    }
+
+    try {
+      await this.addLabels(number, labels);
+      this.logger.info('Added labels to change request', { number, labels });
+    } catch (error) {
+      this.logger.warn('Error adding labels (they may not exist in the repo)', {
+        number,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Get date range of events
+   */
+  private getDateRange(events: TimelineEntry[]): string {
+    if (events.length === 0) return 'N/A';
+
+    const dates = events.map((e) => new Date(e.date));
+    const earliest = new Date(Math.min(...dates.map((d) => d.getTime())));
+    const latest = new Date(Math.max(...dates.map((d) => d.getTime())));
+
+    const format = (date: Date) =>
+      date.toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric'
+      });
+
+    if (earliest.getTime() === latest.getTime()) {
+      return format(earliest);
+    }
+
+    return `${format(earliest)} - ${format(latest)}`;
+  }
+
+  /**
+   * Get category breakdown
+   */
+  private getCategoryBreakdown(events: TimelineEntry[]): Record<string, number> {
+    const breakdown: Record<string, number> = {};
+
+    events.forEach((event) => {
+      breakdown[event.category] = (breakdown[event.category] || 0) + 1;
+    });
+
+    return breakdown;
+  }
+}
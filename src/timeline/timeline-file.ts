@@ -0,0 +1,821 @@
+/**
+ * Parsing, validation and editing of the timeline-events.json file, independent of where it is stored
+ */
+
+import { z } from 'zod';
+import { isWebUrl } from '../exporters/format';
+import { generateEventId, type TimelineEntry, TimelineEntrySchema } from '../types';
+
+/**
+ * Entry fields that can be written to, and read back from, timeline-events.json
+ */
+export const TIMELINE_FIELDS = [
+  'id',
+  'date',
+  'year',
+  'month',
+  'title',
+  'description',
+  'category',
+  'link',
+  'sources',
+  'impact_score',
+  'tags'
+] as const;
+
+export type TimelineField = (typeof TIMELINE_FIELDS)[number];
+
+/**
+ * Output schema of the timeline file: JSON key -> entry field, in the order keys are written
+ */
+export type TimelineFieldMapping = Record<string, TimelineField>;
+
+/**
+ * The layout of the upstream timeline site
+ */
+export const DEFAULT_TIMELINE_FIELDS: TimelineFieldMapping = {
+  year: 'year',
+  month: 'month',
+  title: 'title',
+  description: 'description',
+  category: 'category',
+  link: 'link'
+};
+
+/**
+ * Required entry fields a mapping does not write; entries without them could not be read back
+ */
+export function missingTimelineFields(fields: TimelineFieldMapping): string[] {
+  const mapped = new Set(Object.values(fields));
+  const missing: string[] = (['title', 'description', 'category'] as const).filter(
+    (field) => !mapped.has(field)
+  );
+
+  if (!mapped.has('date') && !(mapped.has('year') && mapped.has('month'))) {
+    missing.push('date (or year and month)');
+  }
+  if (!mapped.has('link') && !mapped.has('sources')) {
+    missing.push('link (or sources)');
+  }
+
+  return missing;
+}
+
+const TimelineJsonEventSchema = z.object({
+  id: z.string().optional(),
+  date: z.string().optional(),
+  year: z.number().int().optional(),
+  month: z.union([z.string(), z.number().int().min(1).max(12)]).optional(),
+  title: z.string().min(1),
+  description: z.string().min(1),
+  category: z.string().min(1),
+  link: z.string().url().optional(),
+  sources: z.array(z.string()).optional(),
+  impact_score: z.number().min(0).max(10).optional(),
+  tags: z.array(z.string()).optional(),
+  extra: z.record(z.unknown()).optional()
+});
+
+type TimelineJsonEvent = z.infer<typeof TimelineJsonEventSchema>;
+type TimelineCategory = TimelineEntry['category'];
+
+const DEFAULT_CATEGORY: TimelineCategory = 'Research Breakthroughs';
+const EVENT_ID_PATTERN = /^\d{4}-\d{2}-\d{2}-[a-z0-9-]+$/;
+
+const MONTHS: Record<string, number> = {
+  january: 0,
+  february: 1,
+  march: 2,
+  april: 3,
+  may: 4,
+  june: 5,
+  july: 6,
+  august: 7,
+  september: 8,
+  october: 9,
+  november: 10,
+  december: 11
+};
+
+const MONTH_NAMES: readonly string[] = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+/**
+ * Outcome of checking new entries against the existing timeline
+ */
+export interface TimelineValidationResult {
+  valid: boolean;
+  conflicts: string[];
+  warnings: string[];
+}
+
+/**
+ * Parse timeline data in array format
+ */
+export function parseTimelineData(
+  data: unknown,
+  fields: TimelineFieldMapping = DEFAULT_TIMELINE_FIELDS
+): TimelineEntry[] {
+  const canonical = Array.isArray(data) ? data.map((item) => fromFileEntry(item, fields)) : data;
+  const timelineArray = z.array(TimelineJsonEventSchema).safeParse(canonical);
+  if (!timelineArray.success) {
+    console.error('Timeline validation error:', timelineArray.error);
+    throw new Error(
+      'Invalid timeline data structure. Expected an array of timeline entries like the provided sample.'
+    );
+  }
+
+  return timelineArray.data
+    .map((entry, index) => normalizeTimelineEvent(entry, index))
+    .filter((entry): entry is TimelineEntry => entry !== null);
+}
+
+/**
+ * Rename mapped keys to entry fields and set everything else aside, so it survives a rewrite.
+ * Unmapped keys named like an entry field (e.g. `sources`) are still read for that field.
+ */
+function fromFileEntry(item: unknown, fields: TimelineFieldMapping): unknown {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return item;
+  }
+
+  const raw = item as Record<string, unknown>;
+  const mappedFields = new Set<string>(Object.values(fields));
+  const entry: Record<string, unknown> = {};
+  const extra: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = fields[key];
+    if (field) {
+      entry[field] = value;
+      continue;
+    }
+
+    extra[key] = value;
+    if ((TIMELINE_FIELDS as readonly string[]).includes(key) && !mappedFields.has(key)) {
+      entry[key] = value;
+    }
+  }
+
+  if (Object.keys(extra).length > 0) {
+    entry.extra = extra;
+  }
+
+  return entry;
+}
+
+function normalizeTimelineEvent(entry: TimelineJsonEvent, index: number): TimelineEntry | null {
+  const title = entry.title.trim();
+  if (!title) {
+    console.warn(`Timeline entry at index ${index} is missing a title. Skipping.`);
+    return null;
+  }
+
+  const eventDate = resolveTimelineDate(entry);
+  if (!eventDate) {
+    console.warn(`Timeline entry "${title}" is missing a valid date. Skipping.`);
+    return null;
+  }
+
+  const sources = normalizeSources(entry);
+  if (sources.length === 0) {
+    console.warn(`Timeline entry "${title}" does not contain any valid source URLs. Skipping.`);
+    return null;
+  }
+
+  const candidate: TimelineEntry = {
+    id: entry.id && EVENT_ID_PATTERN.test(entry.id) ? entry.id : generateEventId(eventDate, title),
+    date: eventDate.toISOString(),
+    title,
+    description: (entry.description ?? title).trim(),
+    category: mapCategory(entry.category),
+    sources,
+    impact_score: entry.impact_score ?? 5
+  };
+
+  if (entry.tags && entry.tags.length > 0) {
+    candidate.tags = entry.tags;
+  }
+  if (entry.extra) {
+    candidate.extra = entry.extra;
+  }
+
+  try {
+    return TimelineEntrySchema.parse(candidate);
+  } catch (error) {
+    console.warn(
+      `Timeline entry "${title}" failed validation after normalization. Skipping entry.`,
+      error
+    );
+    return null;
+  }
+}
+
+function resolveTimelineDate(entry: TimelineJsonEvent): Date | null {
+  if (entry.date) {
+    const exact = new Date(entry.date);
+    if (!Number.isNaN(exact.getTime())) {
+      return exact;
+    }
+    console.warn(`Invalid date "${entry.date}" on "${entry.title}"; falling back to year/month.`);
+  }
+
+  const year = entry.year;
+  if (year === undefined || entry.month === undefined) {
+    return null;
+  }
+
+  let monthIndex = 0;
+
+  if (typeof entry.month === 'number') {
+    monthIndex = Math.min(11, Math.max(0, entry.month - 1));
+  } else {
+    const normalized = entry.month.trim().toLowerCase();
+    if (normalized in MONTHS) {
+      monthIndex = MONTHS[normalized];
+    } else {
+      console.warn(`Unknown month "${entry.month}"; defaulting to January.`);
+      monthIndex = 0;
+    }
+  }
+
+  return new Date(Date.UTC(year, monthIndex, 1));
+}
+
+function mapCategory(category?: string): TimelineCategory {
+  if (!category) {
+    return DEFAULT_CATEGORY;
+  }
+
+  const normalized = category.trim().toLowerCase();
+
+  switch (normalized) {
+    case 'models & architectures':
+    case 'models':
+    case 'architectures':
+    case 'ai models':
+      return 'Models & Architectures';
+    case 'research breakthroughs':
+    case 'research':
+    case 'fundamental research':
+    case 'academic research':
+    case 'breakthroughs':
+      return 'Research Breakthroughs';
+    case 'public releases':
+    case 'product':
+    case 'products':
+    case 'product releases':
+    case 'commercial releases':
+    case 'industry adoption':
+      return 'Public Releases';
+    case 'ethics & policy':
+    case 'policy':
+    case 'regulation':
+    case 'policy & regulation':
+    case 'regulation & policy':
+    case 'ethics':
+      return 'Ethics & Policy';
+    case 'hardware advances':
+    case 'hardware':
+    case 'infrastructure':
+    case 'compute':
+      return 'Hardware Advances';
+    default:
+      console.warn(`Unknown category "${category}". Defaulting to ${DEFAULT_CATEGORY}.`);
+      return DEFAULT_CATEGORY;
+  }
+}
+
+function normalizeSources(entry: TimelineJsonEvent): string[] {
+  const sources = new Set<string>();
+
+  const addSource = (value?: string) => {
+    if (!value) return;
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    if (!isWebUrl(trimmed)) return;
+    sources.add(trimmed);
+  };
+
+  addSource(entry.link);
+
+  // Allow optional extra links
+  entry.sources?.forEach((value) => {
+    addSource(value);
+  });
+
+  return Array.from(sources);
+}
+
+/**
+ * Filter out events that already exist in the timeline
+ */
+export function filterNewEvents(
+  newEvents: TimelineEntry[],
+  existingEvents: TimelineEntry[]
+): TimelineEntry[] {
+  const existingIds = new Set(existingEvents.map((e) => e.id));
+  const existingKeys = new Set(existingEvents.map((e) => getDuplicateKey(e)));
+
+  return newEvents.filter((event) => {
+    if (existingIds.has(event.id)) {
+      return false;
+    }
+
+    const duplicateKey = getDuplicateKey(event);
+    if (existingKeys.has(duplicateKey)) {
+      console.warn(`Skipping duplicate event "${event.title}" with existing key ${duplicateKey}`);
+      return false;
+    }
+
+    existingKeys.add(duplicateKey);
+    return true;
+  });
+}
+
+/**
+ * Existing entry that filterNewEvents would treat `entry` as a duplicate of: the same id, or
+ * the same title in the same month
+ */
+export function findExistingTimelineEntry(
+  entry: TimelineEntry,
+  existingEvents: TimelineEntry[]
+): TimelineEntry | undefined {
+  const duplicateKey = getDuplicateKey(entry);
+  return (
+    existingEvents.find((existing) => existing.id === entry.id) ??
+    existingEvents.find((existing) => getDuplicateKey(existing) === duplicateKey)
+  );
+}
+
+/**
+ * Validate that new events can be added without conflicts
+ */
+export function validateNewEvents(
+  newEvents: TimelineEntry[],
+  existingEvents: TimelineEntry[]
+): TimelineValidationResult {
+  const result: TimelineValidationResult = {
+    valid: true,
+    conflicts: [],
+    warnings: []
+  };
+
+  const existingIds = new Set(existingEvents.map((e) => e.id));
+  const existingKeys = new Set(existingEvents.map((e) => getDuplicateKey(e)));
+  const newKeys = new Set<string>();
+
+  newEvents.forEach((event) => {
+    // Check for ID conflicts
+    if (existingIds.has(event.id)) {
+      result.conflicts.push(`Event ID already exists: ${event.id}`);
+      result.valid = false;
+    }
+
+    const duplicateKey = getDuplicateKey(event);
+    if (existingKeys.has(duplicateKey)) {
+      result.conflicts.push(
+        `Event duplicates existing timeline entry: "${event.title}" (${duplicateKey})`
+      );
+      result.valid = false;
+    }
+
+    if (newKeys.has(duplicateKey)) {
+      result.conflicts.push(`Duplicate event in submission: "${event.title}" (${duplicateKey})`);
+      result.valid = false;
+    }
+
+    newKeys.add(duplicateKey);
+
+    // Check for very similar events on the same date
+    const sameDateEvents = existingEvents.filter(
+      (e) => e.date === event.date && e.category === event.category
+    );
+
+    if (sameDateEvents.length > 0) {
+      const similarEvent = sameDateEvents.find(
+        (e) => calculateSimilarity(e.title, event.title) > 0.8
+      );
+
+      if (similarEvent) {
+        result.warnings.push(
+          `Potential duplicate: "${event.title}" is similar to existing "${similarEvent.title}"`
+        );
+      }
+    }
+
+    // Validate date is not in the future
+    if (new Date(event.date) > new Date()) {
+      result.warnings.push(`Event "${event.title}" has a future date: ${event.date}`);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Simple similarity calculation for titles
+ */
+function calculateSimilarity(str1: string, str2: string): number {
+  const s1 = str1.toLowerCase();
+  const s2 = str2.toLowerCase();
+
+  if (s1 === s2) return 1;
+
+  // Simple word overlap calculation
+  const words1 = new Set(s1.split(/\s+/));
+  const words2 = new Set(s2.split(/\s+/));
+
+  // Convert sets to arrays for ES5 compatibility
+  const words1Array = Array.from(words1);
+  const words2Array = Array.from(words2);
+
+  const intersection = new Set(words1Array.filter((x) => words2.has(x)));
+  const union = new Set(words1Array.concat(words2Array));
+
+  return intersection.size / union.size;
+}
+
+function getDuplicateKey(event: TimelineEntry): string {
+  const date = new Date(event.date);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  const normalizedTitle = event.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return `${year}-${String(month).padStart(2, '0')}-${normalizedTitle}`;
+}
+
+function timelineFieldValue(event: TimelineEntry, field: TimelineField): unknown {
+  const date = new Date(event.date);
+
+  switch (field) {
+    case 'year':
+      return date.getUTCFullYear();
+    case 'month':
+      return MONTH_NAMES[date.getUTCMonth()] ?? MONTH_NAMES[0];
+    case 'link':
+      return event.sources[0] ?? '';
+    case 'date':
+      return date.toISOString();
+    default:
+      return event[field];
+  }
+}
+
+/**
+ * Serialize an entry with the configured output schema; fields it was read with but the
+ * pipeline does not model are written back unchanged after the mapped ones
+ */
+export function toTimelineJson(
+  event: TimelineEntry,
+  fields: TimelineFieldMapping = DEFAULT_TIMELINE_FIELDS
+): Record<string, unknown> {
+  const json: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(fields)) {
+    const value = timelineFieldValue(event, field);
+    if (value !== undefined) {
+      json[key] = value;
+    }
+  }
+
+  for (const [key, value] of Object.entries(event.extra ?? {})) {
+    if (!(key in json)) {
+      json[key] = value;
+    }
+  }
+
+  return json;
+}
+
+/**
+ * Append entries to the raw file content, leaving existing entries byte-for-byte untouched
+ */
+export function appendEventsToTimelineContent(
+  currentContent: string,
+  newEvents: TimelineEntry[],
+  fields: TimelineFieldMapping = DEFAULT_TIMELINE_FIELDS
+): string {
+  if (newEvents.length === 0) {
+    return currentContent;
+  }
+
+  const newline = currentContent.includes('\r\n') ? '\r\n' : '\n';
+  const formattedEvents = newEvents.map((event) => formatTimelineEvent(event, newline, fields));
+
+  const trimmedContent = currentContent.trim();
+  const isEmptyArray = /^\[\s*\]$/.test(trimmedContent);
+
+  if (trimmedContent === '' || isEmptyArray) {
+    const body = formattedEvents.join(`,${newline}`);
+    const trailingWhitespace = currentContent.slice(currentContent.trimEnd().length);
+    const closingWhitespace = trailingWhitespace || newline;
+    return `[` + (body ? `${newline}${body}${newline}` : '') + `]${closingWhitespace}`;
+  }
+
+  if (!trimmedContent.startsWith('[') || !trimmedContent.endsWith(']')) {
+    throw new Error('Timeline content must be a JSON array');
+  }
+
+  const closingBracketIndex = currentContent.lastIndexOf(']');
+  if (closingBracketIndex === -1) {
+    throw new Error('Timeline content missing closing bracket');
+  }
+
+  const prefix = currentContent.slice(0, closingBracketIndex);
+  const suffix = currentContent.slice(closingBracketIndex);
+
+  const trimmedPrefix = prefix.replace(/\s*$/, '');
+  const needsComma = !trimmedPrefix.trim().endsWith('[');
+  const separator = needsComma ? ',' : '';
+
+  const updatedBody = `${trimmedPrefix}${separator}${newline}${formattedEvents.join(`,${newline}`)}${newline}`;
+
+  return `${updatedBody}${suffix}`;
+}
+
+function formatTimelineEvent(
+  event: TimelineEntry,
+  newline: string,
+  fields: TimelineFieldMapping
+): string {
+  const json = JSON.stringify(toTimelineJson(event, fields), null, 2).replace(/\n/g, newline);
+  return json
+    .split(newline)
+    .map((line) => (line.length > 0 ? `  ${line}` : line))
+    .join(newline);
+}
+
+/**
+ * Where new entries go and whether the whole file is normalized afterwards
+ */
+export interface TimelineFileFormat {
+  /** `append` adds entries at the end; `chronological` places them by year/month (and day) */
+  insertion?: 'append' | 'chronological';
+  /** Rewrite every entry with stable key order and two-space indentation */
+  canonicalize?: boolean;
+}
+
+/**
+ * Add entries to the raw file content using the configured insertion mode and formatting.
+ * Unless canonicalizing, existing entries are copied byte-for-byte.
+ */
+export function writeEventsToTimelineContent(
+  currentContent: string,
+  newEvents: TimelineEntry[],
+  fields: TimelineFieldMapping = DEFAULT_TIMELINE_FIELDS,
+  format: TimelineFileFormat = {}
+): string {
+  const updated =
+    format.insertion === 'chronological'
+      ? insertEventsChronologically(currentContent, newEvents, fields)
+      : appendEventsToTimelineContent(currentContent, newEvents, fields);
+
+  return format.canonicalize ? canonicalizeTimelineContent(updated, fields) : updated;
+}
+
+interface ElementSpan {
+  start: number;
+  end: number;
+}
+
+interface TimelineSortKey {
+  year: number;
+  month: number;
+  /** Exact time, only when the entry records a full date */
+  time?: number;
+}
+
+/**
+ * Insert entries next to their chronological neighbours, following the file's existing order
+ * (oldest or newest first). Only the separators around each inserted entry are new text.
+ */
+function insertEventsChronologically(
+  currentContent: string,
+  newEvents: TimelineEntry[],
+  fields: TimelineFieldMapping
+): string {
+  const sorted = [...newEvents].sort((a, b) => a.date.localeCompare(b.date));
+  let content = currentContent;
+
+  for (const event of sorted) {
+    const data: unknown = JSON.parse(content.trim() || '[]');
+    if (!Array.isArray(data)) {
+      throw new Error('Timeline content must be a JSON array');
+    }
+
+    const spans = findElementSpans(content);
+    if (spans.length === 0) {
+      content = appendEventsToTimelineContent(content, [event], fields);
+      continue;
+    }
+
+    const keys = data.map((item) => fileEntrySortKey(item, fields));
+    const newKey = entrySortKey(event);
+    const firstKey = keys.find((key) => key !== null);
+    const lastKey = [...keys].reverse().find((key) => key !== null);
+    const descending = !!firstKey && !!lastKey && compareSortKeys(firstKey, lastKey) > 0;
+
+    // Insert before the first entry that should come after the new one; within the same month
+    // the new entry counts as the most recent
+    const index = keys.findIndex((key) => {
+      if (key === null) return false;
+      const order = compareSortKeys(key, newKey);
+      return descending ? order <= 0 : order > 0;
+    });
+
+    content = insertElement(content, spans, index === -1 ? spans.length : index, event, fields);
+  }
+
+  return content;
+}
+
+function insertElement(
+  content: string,
+  spans: ElementSpan[],
+  index: number,
+  event: TimelineEntry,
+  fields: TimelineFieldMapping
+): string {
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  const lineStart = content.lastIndexOf('\n', spans[0].start - 1) + 1;
+  const indent = content.slice(lineStart, spans[0].start).replace(/\S/g, ' ');
+  const separator =
+    spans.length > 1 ? content.slice(spans[0].end, spans[1].start) : `,${newline}${indent || '  '}`;
+
+  const text = JSON.stringify(toTimelineJson(event, fields), null, indent || '  ')
+    .split('\n')
+    .map((line, lineIndex) => (lineIndex === 0 ? line : `${indent}${line}`))
+    .join(newline);
+
+  if (index < spans.length) {
+    const at = spans[index].start;
+    return `${content.slice(0, at)}${text}${separator}${content.slice(at)}`;
+  }
+
+  const at = spans[spans.length - 1].end;
+  return `${content.slice(0, at)}${separator}${text}${content.slice(at)}`;
+}
+
+/**
+ * Offsets of each top-level array element in valid JSON text
+ */
+function findElementSpans(content: string): ElementSpan[] {
+  const spans: ElementSpan[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+  let lastSignificant = -1;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === '\\') {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      lastSignificant = i;
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      continue;
+    }
+
+    if (depth === 1 && (ch === ',' || ch === ']')) {
+      if (start >= 0) {
+        spans.push({ start, end: lastSignificant + 1 });
+        start = -1;
+      }
+      if (ch === ']') {
+        break;
+      }
+      continue;
+    }
+
+    if (depth === 1 && start < 0) {
+      start = i;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    }
+    lastSignificant = i;
+  }
+
+  return spans;
+}
+
+function fileEntrySortKey(item: unknown, fields: TimelineFieldMapping): TimelineSortKey | null {
+  const parsed = TimelineJsonEventSchema.partial().safeParse(fromFileEntry(item, fields));
+  if (!parsed.success) {
+    return null;
+  }
+
+  const entry = parsed.data;
+  if (entry.date) {
+    const exact = new Date(entry.date);
+    if (!Number.isNaN(exact.getTime())) {
+      return entrySortKey({ date: exact.toISOString() });
+    }
+  }
+
+  if (entry.year === undefined || entry.month === undefined) {
+    return null;
+  }
+
+  if (typeof entry.month === 'number') {
+    return { year: entry.year, month: entry.month - 1 };
+  }
+
+  const normalized = entry.month.trim().toLowerCase();
+  return normalized in MONTHS ? { year: entry.year, month: MONTHS[normalized] } : null;
+}
+
+function entrySortKey(entry: Pick<TimelineEntry, 'date'>): TimelineSortKey {
+  const date = new Date(entry.date);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), time: date.getTime() };
+}
+
+/**
+ * Order by year and month; the day only breaks ties when both entries know it
+ */
+function compareSortKeys(a: TimelineSortKey, b: TimelineSortKey): number {
+  if (a.year !== b.year) return a.year - b.year;
+  if (a.month !== b.month) return a.month - b.month;
+  if (a.time !== undefined && b.time !== undefined) return a.time - b.time;
+  return 0;
+}
+
+/**
+ * Rewrite the file with two-space indentation and stable key order: mapped keys in mapping
+ * order, then any other keys alphabetically. Idempotent, so canonical entries never change.
+ */
+export function canonicalizeTimelineContent(
+  content: string,
+  fields: TimelineFieldMapping = DEFAULT_TIMELINE_FIELDS
+): string {
+  const data: unknown = JSON.parse(content.trim() || '[]');
+  if (!Array.isArray(data)) {
+    throw new Error('Timeline content must be a JSON array');
+  }
+
+  const newline = content.includes('\r\n') ? '\r\n' : '\n';
+  if (data.length === 0) {
+    return `[]${newline}`;
+  }
+
+  const mappedKeys = Object.keys(fields);
+  const body = data
+    .map((item) =>
+      JSON.stringify(sortKeys(item, mappedKeys), null, 2)
+        .split('\n')
+        .map((line) => `  ${line}`)
+        .join(newline)
+    )
+    .join(`,${newline}`);
+
+  return `[${newline}${body}${newline}]${newline}`;
+}
+
+function sortKeys(value: unknown, leadingKeys: string[] = []): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => sortKeys(item));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record);
+  const ordered = [
+    ...leadingKeys.filter((key) => key in record),
+    ...keys.filter((key) => !leadingKeys.includes(key)).sort()
+  ];
+
+  return Object.fromEntries(ordered.map((key) => [key, sortKeys(record[key])]));
+}
@@ -0,0 +1,63 @@
+/**
+ * Timeline storage contracts shared by the forge and local backends
+ */
+
+import type { SelectionCriteria } from '../analyzers/scoring';
+import type { AnalyzedEvent, TimelineEntry } from '../types';
+
+export type TimelineBackend = 'github' | 'gitlab' | 'gitea' | 'local';
+
+/**
+ * Result from reading the timeline file
+ */
+export interface TimelineData {
+  /** Current timeline entries */
+  events: TimelineEntry[];
+  /** Version of the current file (blob SHA on GitHub, content hash locally); empty when missing */
+  sha: string;
+  /** Content of the file */
+  content: string;
+}
+
+/**
+ * Result from publishing new events to the timeline
+ */
+export interface TimelinePublishResult {
+  /** Where the update can be reviewed: a PR URL, or a file URL for local updates */
+  url: string;
+  /** Branch, commit or file that received the update */
+  reference: string;
+  /** Whether this run produced the update (false when it already existed) */
+  created: boolean;
+  /** PR number or MR iid, for forge backends */
+  changeRequest?: number;
+  /** Full timeline after the update; absent when nothing was written */
+  entries?: TimelineEntry[];
+}
+
+/**
+ * Per-publish additions to the change request
+ */
+export interface TimelinePublishOptions {
+  /**
+   * Markdown appended to the change request description; receives the current description
+   * when an open change request is updated, so edits made during review can be carried over
+   */
+  appendDescription?: (currentDescription?: string) => string;
+  /** Selection minimums listed in the change request description */
+  selectionCriteria?: SelectionCriteria;
+}
+
+/**
+ * A place the timeline is read from and new events are published to
+ */
+export interface TimelineStore {
+  readonly backend: TimelineBackend;
+  /** Human-readable target, used in logs */
+  describe(): string;
+  fetchTimeline(): Promise<TimelineData>;
+  publishEvents(
+    events: AnalyzedEvent[],
+    options?: TimelinePublishOptions
+  ): Promise<TimelinePublishResult>;
+}
@@ -147,6 +147,10 @@ export interface TimelineEntry {
   sources: string[];
   /** Overall impact score (0-10) */
   impact_score: number;
+  /** Topic tags */
+  tags?: string[];
+  /** Fields of the timeline file entry that the pipeline does not model, kept for rewrites */
+  extra?: Record<string, unknown>;
 }
 
 /**
@@ -165,7 +169,9 @@ export const TimelineEntrySchema = z.object({
     'Hardware Advances'
   ]),
   sources: z.array(z.string().url()),
-  impact_score: z.number().min(0).max(10)
+  impact_score: z.number().min(0).max(10),
+  tags: z.array(z.string()).optional(),
+  extra: z.record(z.unknown()).optional()
 });
 
 // ============================================================================
@@ -202,6 +208,10 @@ export function isTimelineEntry(obj: unknown): obj is TimelineEntry {
  */
 export function toTimelineEntry(event: AnalyzedEvent): TimelineEntry {
   const category = mapAnalyzedCategory(event.category);
+  const topics = event.metadata?.relatedTopics;
+  const tags = Array.isArray(topics)
+    ? topics.filter((topic): topic is string => typeof topic === 'string')
+    : [];
   return {
     id: event.id,
     date: event.date,
@@ -209,7 +219,8 @@ export function toTimelineEntry(event: AnalyzedEvent): TimelineEntry {
     description: event.description,
     category,
     sources: event.sources,
-    impact_score: event.impactScore
+    impact_score: event.impactScore,
+    ...(tags.length > 0 ? { tags } : {})
   };
 }
 
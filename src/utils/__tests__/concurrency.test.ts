@@ -0,0 +1,39 @@
+/**
+ * Unit tests for bounded concurrency helpers
+ */
+
+import { mapWithConcurrency } from '../concurrency';
+
+describe('mapWithConcurrency', () => {
+  it('never exceeds the limit and preserves input order', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      active--;
+      return index * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual([0, 10, 20, 30, 40]);
+  });
+
+  it('handles empty input and invalid limits', async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async (value) => value * 2)).toEqual([2, 4]);
+  });
+
+  it('rejects when a callback fails', async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (value) => {
+        if (value === 2) {
+          throw new Error('boom');
+        }
+        return value;
+      })
+    ).rejects.toThrow('boom');
+  });
+});
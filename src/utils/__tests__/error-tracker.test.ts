@@ -0,0 +1,222 @@
+import { promises as fs } from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { LLMProviderError } from '../../llm/errors';
+import {
+  createErrorTracker,
+  type ErrorReport,
+  type ErrorTrackerSettings,
+  JsonlErrorTracker,
+  parseSentryDsn,
+  SentryErrorTracker,
+  WebhookErrorTracker
+} from '../error-tracker';
+import {
+  ConfigurationError,
+  ErrorBoundary,
+  NewsSourceError,
+  NoopErrorTracker,
+  setErrorTracker
+} from '../errors';
+
+interface ReceivedRequest {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+async function startReceiver(options: { status?: number } = {}) {
+  const requests: ReceivedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      requests.push({ path: req.url ?? '', headers: req.headers, body });
+      res.writeHead(options.status ?? 200);
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    host: `127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+function settings(overrides: Partial<ErrorTrackerSettings> = {}): ErrorTrackerSettings {
+  return { tracker: 'noop', path: 'reports/errors.jsonl', timeout_ms: 2000, ...overrides };
+}
+
+describe('error trackers', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'error-tracker-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    setErrorTracker(new NoopErrorTracker());
+    jest.restoreAllMocks();
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes one JSON line per fingerprint with the BaseError context', async () => {
+    const filePath = path.join(tmpDir, 'reports', 'errors.jsonl');
+    const tracker = new JsonlErrorTracker(filePath, 'run-1');
+
+    tracker.capture(new NewsSourceError('arxiv_cs_ai', 'Request timed out after 15000ms'));
+    tracker.capture(new NewsSourceError('arxiv_cs_ai', 'Request timed out after 20000ms'));
+    tracker.capture(
+      new LLMProviderError('rate limited', { providerId: 'openai_gpt5_low', model: 'gpt-5' }),
+      { source: 'analyze' }
+    );
+    await tracker.flush();
+    tracker.capture(new NewsSourceError('arxiv_cs_ai', 'Request timed out after 30000ms'));
+    await tracker.flush();
+
+    const lines = (await fs.readFile(filePath, 'utf-8')).trim().split('\n');
+    const reports = lines.map((line) => JSON.parse(line) as ErrorReport);
+    expect(reports).toHaveLength(2);
+    expect(reports[0]).toMatchObject({
+      name: 'NewsSourceError',
+      source: 'arxiv_cs_ai',
+      correlationId: 'run-1',
+      occurrences: 2,
+      context: { source: 'arxiv_cs_ai' }
+    });
+    expect(reports[1]).toMatchObject({
+      name: 'LLMProviderError',
+      source: 'analyze',
+      providerId: 'openai_gpt5_low',
+      context: { model: 'gpt-5' }
+    });
+    expect(reports[0].fingerprint).not.toBe(reports[1].fingerprint);
+    expect(tracker.getReports()[0].occurrences).toBe(3);
+  });
+
+  it('posts the distinct errors of a run to a webhook', async () => {
+    const receiver = await startReceiver();
+
+    try {
+      const tracker = createErrorTracker(
+        settings({ tracker: 'webhook', headers: { authorization: 'Bearer hook' } }),
+        {
+          correlationId: 'run-2',
+          env: { ERROR_WEBHOOK_URL: `http://${receiver.host}/hooks/errors` }
+        }
+      );
+      expect(tracker).toBeInstanceOf(WebhookErrorTracker);
+
+      tracker.capture(new Error('Checkpoint write failed'), { source: 'checkpoint' });
+      tracker.capture(new Error('Checkpoint write failed'), { source: 'checkpoint' });
+      await tracker.flush();
+      await tracker.flush();
+
+      expect(receiver.requests).toHaveLength(1);
+      const [request] = receiver.requests;
+      expect(request.path).toBe('/hooks/errors');
+      expect(request.headers.authorization).toBe('Bearer hook');
+      expect(JSON.parse(request.body)).toMatchObject({
+        service: 'ai-timeline-automation',
+        correlationId: 'run-2',
+        errors: [{ message: 'Checkpoint write failed', source: 'checkpoint', occurrences: 2 }]
+      });
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('sends Sentry envelopes with the fingerprint and tags', async () => {
+    const receiver = await startReceiver();
+
+    try {
+      const tracker = createErrorTracker(settings({ tracker: 'sentry', environment: 'ci' }), {
+        correlationId: 'run-3',
+        env: { SENTRY_DSN: `http://public123@${receiver.host}/sentry/42` }
+      });
+      expect(tracker).toBeInstanceOf(SentryErrorTracker);
+
+      tracker.capture(
+        new LLMProviderError('timeout', { providerId: 'local_gguf_small', correlationId: 'run-3' })
+      );
+      await tracker.flush();
+
+      const [request] = receiver.requests;
+      expect(request.path).toBe('/sentry/api/42/envelope/');
+      expect(request.headers['content-type']).toBe('application/x-sentry-envelope');
+      expect(request.headers['x-sentry-auth']).toContain('sentry_key=public123');
+
+      const [header, itemHeader, event] = request.body
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(header.event_id).toBe(event.event_id);
+      expect(itemHeader).toEqual({ type: 'event' });
+      expect(event).toMatchObject({
+        level: 'error',
+        environment: 'ci',
+        exception: { values: [{ type: 'LLMProviderError', value: 'LLM provider error: timeout' }] },
+        tags: { provider_id: 'local_gguf_small', correlation_id: 'run-3' },
+        extra: { occurrences: 1 }
+      });
+      expect(event.fingerprint).toEqual([
+        (tracker as SentryErrorTracker).getReports()[0].fingerprint
+      ]);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('warns instead of throwing when the endpoint rejects the errors', async () => {
+    const receiver = await startReceiver({ status: 500 });
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    try {
+      const tracker = new WebhookErrorTracker(`http://${receiver.host}/hooks`, { timeoutMs: 2000 });
+      tracker.capture(new Error('boom'));
+      await expect(tracker.flush()).resolves.toBeUndefined();
+
+      const warnings = log.mock.calls.map(([line]) => JSON.parse(String(line)));
+      expect(warnings).toContainEqual(
+        expect.objectContaining({ level: 'WARN', message: 'Failed to report errors' })
+      );
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('rejects incomplete tracker configuration', () => {
+    expect(() => createErrorTracker(settings({ tracker: 'webhook' }), { env: {} })).toThrow(
+      ConfigurationError
+    );
+    expect(() => createErrorTracker(settings({ tracker: 'sentry' }), { env: {} })).toThrow(
+      ConfigurationError
+    );
+    expect(() => parseSentryDsn('https://sentry.example.com/7')).toThrow(ConfigurationError);
+    expect(createErrorTracker(settings())).toBeInstanceOf(NoopErrorTracker);
+  });
+
+  it('reports errors caught by an ErrorBoundary to the current tracker', async () => {
+    const tracker = new JsonlErrorTracker(path.join(tmpDir, 'errors.jsonl'));
+    setErrorTracker(tracker);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await new ErrorBoundary().execute(() => {
+      throw new Error('render failed');
+    });
+
+    expect(tracker.getReports()).toEqual([
+      expect.objectContaining({ message: 'render failed', occurrences: 1 })
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the on-disk HTTP cache and conditional requests
+ */
+
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fetchJson, fetchText } from '../http';
+import { configureHttpCache, HttpCache, HttpCacheMissError } from '../http-cache';
+
+const FEED_URL = 'https://feeds.example.com/rss.xml';
+
+describe('HTTP cache', () => {
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'http-cache-'));
+    fetchSpy = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    configureHttpCache(null);
+    fetchSpy.mockRestore();
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  function requestHeaders(callIndex: number): Record<string, string> {
+    return (fetchSpy.mock.calls[callIndex][1]?.headers ?? {}) as Record<string, string>;
+  }
+
+  it('stores validators and serves the cached body on 304', async () => {
+    configureHttpCache(new HttpCache({ dir: cacheDir }));
+    fetchSpy
+      .mockResolvedValueOnce(
+        new Response('<rss>v1</rss>', {
+          status: 200,
+          headers: { etag: '"abc"', 'last-modified': 'Mon, 15 Sep 2025 06:00:00 GMT' }
+        })
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    const first = await fetchText(FEED_URL);
+    const second = await fetchText(FEED_URL, { headers: { 'User-Agent': 'bot' } });
+
+    expect(first).toBe('<rss>v1</rss>');
+    expect(second).toBe('<rss>v1</rss>');
+    expect(requestHeaders(0)['if-none-match']).toBeUndefined();
+    expect(requestHeaders(1)).toEqual({
+      'if-none-match': '"abc"',
+      'if-modified-since': 'Mon, 15 Sep 2025 06:00:00 GMT',
+      'User-Agent': 'bot'
+    });
+  });
+
+  it('replaces the cached body when the source changed', async () => {
+    configureHttpCache(new HttpCache({ dir: cacheDir }));
+    fetchSpy
+      .mockResolvedValueOnce(new Response('{"v":1}', { status: 200, headers: { etag: '"1"' } }))
+      .mockResolvedValueOnce(new Response('{"v":2}', { status: 200, headers: { etag: '"2"' } }));
+
+    await fetchJson('https://api.example.com/latest');
+    const updated = await fetchJson<{ v: number }>('https://api.example.com/latest');
+    const entry = await new HttpCache({ dir: cacheDir }).get('https://api.example.com/latest');
+
+    expect(updated.v).toBe(2);
+    expect(entry?.etag).toBe('"2"');
+  });
+
+  it('replays cached responses offline without touching the network', async () => {
+    configureHttpCache(new HttpCache({ dir: cacheDir }));
+    fetchSpy.mockResolvedValueOnce(new Response('<rss>v1</rss>', { status: 200 }));
+    await fetchText(FEED_URL);
+
+    configureHttpCache(new HttpCache({ dir: cacheDir, mode: 'offline' }));
+    fetchSpy.mockClear();
+
+    await expect(fetchText(FEED_URL)).resolves.toBe('<rss>v1</rss>');
+    await expect(fetchText('https://feeds.example.com/other.xml')).rejects.toThrow(
+      HttpCacheMissError
+    );
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('never caches non-GET requests or requests that opt out', async () => {
+    configureHttpCache(new HttpCache({ dir: cacheDir }));
+    fetchSpy.mockImplementation(async () => new Response('{}', { status: 200 }));
+
+    await fetchJson('https://llm.example.com/v1/chat/completions', { method: 'POST', body: '{}' });
+    await fetchText(FEED_URL, { cache: false });
+
+    expect(await fs.readdir(cacheDir).catch(() => [])).toEqual([]);
+  });
+
+  it('throws for 304 responses without a cached body', async () => {
+    configureHttpCache(new HttpCache({ dir: cacheDir }));
+    fetchSpy.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await expect(fetchText(FEED_URL)).rejects.toThrow(/failed with 304/);
+  });
+});
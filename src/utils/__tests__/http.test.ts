@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the per-host rate limiter and its use by the HTTP helpers
+ */
+
+import { fetchText, getHostRateLimiter, HostRateLimiter } from '../http';
+
+function createClock() {
+  let now = 0;
+  const sleeps: number[] = [];
+
+  return {
+    sleeps,
+    now: () => now,
+    sleep: async (ms: number) => {
+      sleeps.push(ms);
+    },
+    advance: (ms: number) => {
+      now += ms;
+    }
+  };
+}
+
+describe('HostRateLimiter', () => {
+  it('spaces requests to the same host at the configured rate', async () => {
+    const clock = createClock();
+    const limiter = new HostRateLimiter({ now: clock.now, sleep: clock.sleep });
+
+    const waits = [
+      await limiter.acquire('openai.com', 20),
+      await limiter.acquire('openai.com', 20),
+      await limiter.acquire('openai.com', 20)
+    ];
+
+    // 20 QPM is one request every 3s; queued callers reserve consecutive slots
+    expect(waits).toEqual([0, 3000, 6000]);
+
+    clock.advance(9000);
+    expect(await limiter.acquire('openai.com', 20)).toBe(0);
+  });
+
+  it('keeps separate buckets per host and allows a configured burst', async () => {
+    const clock = createClock();
+    const limiter = new HostRateLimiter({ now: clock.now, sleep: clock.sleep, burst: 2 });
+
+    expect(await limiter.acquire('a.example', 60)).toBe(0);
+    expect(await limiter.acquire('a.example', 60)).toBe(0);
+    expect(await limiter.acquire('b.example', 60)).toBe(0);
+    expect(await limiter.acquire('a.example', 60)).toBe(1000);
+  });
+
+  it('applies the strictest rate when sources share a host', async () => {
+    const clock = createClock();
+    const limiter = new HostRateLimiter({ now: clock.now, sleep: clock.sleep });
+
+    await limiter.acquire('r.jina.ai', 60);
+    expect(await limiter.acquire('r.jina.ai', 30)).toBe(2000);
+    clock.advance(2000);
+    expect(await limiter.acquire('r.jina.ai', 60)).toBe(2000);
+  });
+
+  it('ignores missing rates and releases the slot of aborted waiters', async () => {
+    const clock = createClock();
+    const limiter = new HostRateLimiter({
+      now: clock.now,
+      sleep: async (ms, signal) => {
+        if (signal?.aborted) {
+          throw new Error('aborted');
+        }
+        clock.sleeps.push(ms);
+      }
+    });
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await limiter.acquire('x.ai', 0)).toBe(0);
+    await limiter.acquire('x.ai', 60);
+    await expect(limiter.acquire('x.ai', 60, controller.signal)).rejects.toThrow('aborted');
+    expect(await limiter.acquire('x.ai', 60)).toBe(1000);
+  });
+});
+
+describe('fetchText rate limiting', () => {
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response('ok'));
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    getHostRateLimiter().reset();
+  });
+
+  it('throttles requests per host and reports the wait', async () => {
+    const onThrottle = jest.fn();
+    const options = { rateLimitQpm: 1200, onThrottle };
+
+    await fetchText('https://throttled.example/a', options);
+    await fetchText('https://throttled.example/b', options);
+    await fetchText('https://other.example/c', options);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(onThrottle).toHaveBeenCalledTimes(1);
+    expect(onThrottle.mock.calls[0][0]).toBeGreaterThan(0);
+    expect(onThrottle.mock.calls[0][0]).toBeLessThanOrEqual(50);
+  });
+
+  it('does not throttle requests without a rate limit', async () => {
+    const onThrottle = jest.fn();
+
+    await fetchText('https://unthrottled.example/a', { onThrottle });
+    await fetchText('https://unthrottled.example/b', { onThrottle });
+
+    expect(onThrottle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Injectable source of the current time.
+ * Code whose output ends up in pipeline results reads the time through here so record/replay
+ * runs can pin it to the recorded run's start.
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * Clock that always reports the same instant
+ */
+export class FixedClock implements Clock {
+  private readonly timestamp: number;
+
+  constructor(instant: Date | string) {
+    this.timestamp = new Date(instant).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.timestamp);
+  }
+}
+
+let activeClock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return activeClock;
+}
+
+/**
+ * Replace the active clock; pass null to restore the system clock
+ */
+export function setClock(clock: Clock | null): void {
+  activeClock = clock ?? systemClock;
+}
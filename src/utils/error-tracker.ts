@@ -0,0 +1,337 @@
+/**
+ * Error trackers selected by `errors.tracker` in pipeline.yaml. Errors are collected during a
+ * run, deduplicated by fingerprint and sent once per fingerprint when the tracker is flushed.
+ */
+
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import type { PipelineConfig } from '../config';
+import { BaseError, ConfigurationError, type ErrorTracker, NoopErrorTracker } from './errors';
+import { fetchText } from './http';
+import { getLogger } from './logger';
+
+const SERVICE_NAME = 'ai-timeline-automation';
+const SENTRY_CLIENT = `${SERVICE_NAME}/1.0`;
+
+export type ErrorTrackerSettings = PipelineConfig['errors'];
+
+export interface ErrorReport {
+  fingerprint: string;
+  name: string;
+  message: string;
+  stack?: string;
+  /** Source or pipeline step the error came from */
+  source?: string;
+  providerId?: string;
+  correlationId?: string;
+  /** The `BaseError` context merged with the context passed to `capture` */
+  context: Record<string, unknown>;
+  firstSeen: string;
+  lastSeen: string;
+  occurrences: number;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Replace ids, hashes and numbers so that repeats of an error with different details share a
+ * fingerprint, e.g. timeouts of different requests to one source
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\b[0-9a-f]{12,}\b/gi, '<hash>')
+    .replace(/\d+/g, '<n>');
+}
+
+export function errorFingerprint(
+  report: Pick<ErrorReport, 'name' | 'message' | 'source' | 'providerId'>
+): string {
+  return crypto
+    .createHash('sha256')
+    .update(
+      [
+        report.name,
+        report.source ?? '',
+        report.providerId ?? '',
+        normalizeMessage(report.message)
+      ].join('\n')
+    )
+    .digest('hex')
+    .slice(0, 32);
+}
+
+export function buildErrorReport(
+  error: unknown,
+  context: Record<string, unknown> = {},
+  correlationId?: string
+): ErrorReport {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const merged = { ...context, ...(err instanceof BaseError ? err.context : undefined) };
+  const timestamp = (err instanceof BaseError ? err.timestamp : new Date()).toISOString();
+  const report = {
+    name: err.name,
+    message: err.message,
+    stack: err.stack,
+    source: optionalString(merged.source) ?? optionalString(merged.service),
+    providerId: optionalString(merged.providerId),
+    correlationId: optionalString(merged.correlationId) ?? correlationId
+  };
+
+  return {
+    fingerprint: errorFingerprint(report),
+    ...report,
+    context: merged,
+    firstSeen: timestamp,
+    lastSeen: timestamp,
+    occurrences: 1
+  };
+}
+
+/**
+ * Collects reports by fingerprint and sends those not sent yet on flush. A failed send only
+ * warns, so error reporting never fails a run.
+ */
+export abstract class ReportingErrorTracker implements ErrorTracker {
+  private readonly reports = new Map<string, ErrorReport>();
+  private readonly sent = new Set<string>();
+
+  constructor(
+    readonly name: string,
+    private readonly correlationId?: string
+  ) {}
+
+  capture(error: unknown, context?: Record<string, unknown>): void {
+    const report = buildErrorReport(error, context, this.correlationId);
+    const existing = this.reports.get(report.fingerprint);
+    if (existing) {
+      existing.occurrences += 1;
+      existing.lastSeen = report.lastSeen;
+      return;
+    }
+    this.reports.set(report.fingerprint, report);
+  }
+
+  getReports(): ErrorReport[] {
+    return Array.from(this.reports.values());
+  }
+
+  async flush(): Promise<void> {
+    const pending = this.getReports().filter((report) => !this.sent.has(report.fingerprint));
+    if (pending.length === 0) {
+      return;
+    }
+
+    try {
+      await this.send(pending);
+      for (const report of pending) {
+        this.sent.add(report.fingerprint);
+      }
+    } catch (error) {
+      getLogger()
+        .child({ service: 'error-tracker' })
+        .warn('Failed to report errors', {
+          tracker: this.name,
+          errors: pending.length,
+          error: (error as Error).message
+        });
+    }
+  }
+
+  protected abstract send(reports: ErrorReport[]): Promise<void>;
+}
+
+/**
+ * Appends one JSON line per distinct error to a local file
+ */
+export class JsonlErrorTracker extends ReportingErrorTracker {
+  constructor(
+    private readonly filePath: string,
+    correlationId?: string
+  ) {
+    super('jsonl', correlationId);
+  }
+
+  protected async send(reports: ErrorReport[]): Promise<void> {
+    const resolved = path.resolve(process.cwd(), this.filePath);
+    await fs.mkdir(path.dirname(resolved), { recursive: true });
+    await fs.appendFile(
+      resolved,
+      reports.map((report) => `${JSON.stringify(report)}\n`).join(''),
+      'utf-8'
+    );
+  }
+}
+
+export interface HttpErrorTrackerOptions {
+  headers?: Record<string, string>;
+  timeoutMs: number;
+  correlationId?: string;
+}
+
+/**
+ * POSTs the distinct errors of a run as one JSON document: `{ service, correlationId, errors }`
+ */
+export class WebhookErrorTracker extends ReportingErrorTracker {
+  constructor(
+    private readonly url: string,
+    private readonly options: HttpErrorTrackerOptions
+  ) {
+    super('webhook', options.correlationId);
+  }
+
+  protected async send(reports: ErrorReport[]): Promise<void> {
+    await fetchText(this.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...this.options.headers },
+      body: JSON.stringify({
+        service: SERVICE_NAME,
+        correlationId: this.options.correlationId,
+        errors: reports
+      }),
+      timeout: this.options.timeoutMs,
+      cache: false
+    });
+  }
+}
+
+export interface SentryDsn {
+  dsn: string;
+  publicKey: string;
+  projectId: string;
+  envelopeUrl: string;
+}
+
+export function parseSentryDsn(dsn: string): SentryDsn {
+  let url: URL;
+  try {
+    url = new URL(dsn);
+  } catch {
+    throw new ConfigurationError(`Invalid Sentry DSN: ${dsn}`);
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean);
+  const projectId = segments.pop();
+  if (!url.username || !projectId) {
+    throw new ConfigurationError('Sentry DSN must include a public key and a project id');
+  }
+  const prefix = segments.length > 0 ? `/${segments.join('/')}` : '';
+
+  return {
+    dsn,
+    publicKey: url.username,
+    projectId,
+    envelopeUrl: `${url.protocol}//${url.host}${prefix}/api/${projectId}/envelope/`
+  };
+}
+
+/**
+ * Sends each distinct error as an event envelope to a Sentry-compatible ingest endpoint
+ * (Sentry, GlitchTip, ...). The fingerprint groups repeats into one issue there as well.
+ */
+export class SentryErrorTracker extends ReportingErrorTracker {
+  private readonly dsn: SentryDsn;
+
+  constructor(
+    dsn: string,
+    private readonly options: HttpErrorTrackerOptions & { environment?: string }
+  ) {
+    super('sentry', options.correlationId);
+    this.dsn = parseSentryDsn(dsn);
+  }
+
+  protected async send(reports: ErrorReport[]): Promise<void> {
+    for (const report of reports) {
+      await fetchText(this.dsn.envelopeUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/x-sentry-envelope',
+          'x-sentry-auth': `Sentry sentry_version=7, sentry_key=${this.dsn.publicKey}, sentry_client=${SENTRY_CLIENT}`,
+          ...this.options.headers
+        },
+        body: this.buildEnvelope(report),
+        timeout: this.options.timeoutMs,
+        cache: false
+      });
+    }
+  }
+
+  buildEnvelope(report: ErrorReport): string {
+    const eventId = crypto.randomUUID().replace(/-/g, '');
+    const tags: Record<string, string> = {};
+    if (report.source) tags.source = report.source;
+    if (report.providerId) tags.provider_id = report.providerId;
+    if (report.correlationId) tags.correlation_id = report.correlationId;
+
+    const event = {
+      event_id: eventId,
+      timestamp: Date.parse(report.lastSeen) / 1000,
+      platform: 'node',
+      level: 'error',
+      logger: report.source ?? SERVICE_NAME,
+      environment: this.options.environment,
+      fingerprint: [report.fingerprint],
+      exception: { values: [{ type: report.name, value: report.message }] },
+      tags,
+      extra: {
+        ...report.context,
+        occurrences: report.occurrences,
+        firstSeen: report.firstSeen,
+        stack: report.stack
+      }
+    };
+
+    return [
+      JSON.stringify({ event_id: eventId, sent_at: new Date().toISOString(), dsn: this.dsn.dsn }),
+      JSON.stringify({ type: 'event' }),
+      JSON.stringify(event)
+    ]
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+}
+
+/**
+ * Build the tracker configured in pipeline.yaml
+ * @throws ConfigurationError when the webhook URL or Sentry DSN is missing or invalid
+ */
+export function createErrorTracker(
+  settings: ErrorTrackerSettings,
+  options: { correlationId?: string; env?: NodeJS.ProcessEnv } = {}
+): ErrorTracker {
+  const env = options.env ?? process.env;
+  const httpOptions = {
+    headers: settings.headers,
+    timeoutMs: settings.timeout_ms,
+    correlationId: options.correlationId
+  };
+
+  switch (settings.tracker) {
+    case 'noop':
+      return new NoopErrorTracker();
+    case 'jsonl':
+      return new JsonlErrorTracker(settings.path, options.correlationId);
+    case 'webhook': {
+      const url = env.ERROR_WEBHOOK_URL || settings.url;
+      if (!url) {
+        throw new ConfigurationError('errors.tracker webhook requires errors.url', ['url']);
+      }
+      return new WebhookErrorTracker(url, httpOptions);
+    }
+    case 'sentry': {
+      const dsn = env.SENTRY_DSN || settings.dsn;
+      if (!dsn) {
+        throw new ConfigurationError('errors.tracker sentry requires SENTRY_DSN or errors.dsn', [
+          'dsn'
+        ]);
+      }
+      return new SentryErrorTracker(dsn, {
+        ...httpOptions,
+        environment: env.SENTRY_ENVIRONMENT || settings.environment
+      });
+    }
+  }
+}
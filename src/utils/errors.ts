@@ -155,6 +155,37 @@ export class ConfigurationError extends BaseError {
   }
 }
 
+/**
+ * Destination for errors worth reporting beyond the run's logs. Implementations live in
+ * `error-tracker.ts`; this module only keeps the tracker in use so `ErrorHandler` and
+ * `ErrorBoundary` can report to it.
+ */
+export interface ErrorTracker {
+  readonly name: string;
+  /** Record an error; extra context is merged with a `BaseError`'s own context */
+  capture(error: unknown, context?: Record<string, unknown>): void;
+  /** Send the errors recorded since the last flush */
+  flush(): Promise<void>;
+}
+
+export class NoopErrorTracker implements ErrorTracker {
+  readonly name = 'noop';
+
+  capture(): void {}
+
+  async flush(): Promise<void> {}
+}
+
+let errorTracker: ErrorTracker = new NoopErrorTracker();
+
+export function getErrorTracker(): ErrorTracker {
+  return errorTracker;
+}
+
+export function setErrorTracker(tracker: ErrorTracker): void {
+  errorTracker = tracker;
+}
+
 /**
  * Error handler with logging and recovery
  */
@@ -176,6 +207,7 @@ export class ErrorHandler {
     const count = (ErrorHandler.errorCounts.get(context) || 0) + 1;
     ErrorHandler.errorCounts.set(context, count);
     ErrorHandler.lastErrors.set(context, error);
+    errorTracker.capture(error, { operation: context });
 
     // Log error with context
     console.error(`[ERROR] ${context} (occurrence ${count}):`, {
@@ -218,6 +250,7 @@ export class ErrorHandler {
   // Instance methods expected by tests
   handle(error: Error): void {
     this.collected.push(error);
+    errorTracker.capture(error);
   }
   getCollectedErrors(): Error[] {
     return [...this.collected];
@@ -393,6 +426,7 @@ export class ErrorBoundary {
    */
   private handleError(error: Error): void {
     this.errors.push(error);
+    errorTracker.capture(error);
 
     // Find and execute specific handler
     const handler = this.handlers.get(error.constructor.name);
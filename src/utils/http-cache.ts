@@ -0,0 +1,107 @@
+/**
+ * On-disk cache for GET requests made through the HTTP helpers.
+ * Stores the body and validators (ETag/Last-Modified) per URL so unchanged sources are
+ * revalidated with a conditional request, and past ingestion can be replayed offline.
+ */
+
+import crypto from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { BaseError } from './errors';
+import { getLogger } from './logger';
+
+/**
+ * - `revalidate`: send conditional requests and serve the cached body on 304
+ * - `offline`: never touch the network; serve only what is cached
+ */
+export type HttpCacheMode = 'revalidate' | 'offline';
+
+export interface HttpCacheEntry {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  body: string;
+  storedAt: string;
+}
+
+export interface HttpCacheOptions {
+  dir: string;
+  mode?: HttpCacheMode;
+}
+
+export class HttpCacheMissError extends BaseError {
+  constructor(public readonly url: string) {
+    super(`No cached response for ${url} (HTTP cache is offline)`, { url });
+  }
+}
+
+export class HttpCache {
+  readonly dir: string;
+  readonly mode: HttpCacheMode;
+
+  constructor(options: HttpCacheOptions) {
+    this.dir = path.resolve(options.dir);
+    this.mode = options.mode ?? 'revalidate';
+  }
+
+  get offline(): boolean {
+    return this.mode === 'offline';
+  }
+
+  async get(url: string): Promise<HttpCacheEntry | undefined> {
+    try {
+      const raw = await fs.readFile(this.entryPath(url), 'utf-8');
+      const entry = JSON.parse(raw) as HttpCacheEntry;
+      return entry.url === url && typeof entry.body === 'string' ? entry : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        getLogger()
+          .child({ service: 'http-cache' })
+          .warn('Ignoring unreadable HTTP cache entry', { url, error: (error as Error).message });
+      }
+      return undefined;
+    }
+  }
+
+  async set(entry: HttpCacheEntry): Promise<void> {
+    const filePath = this.entryPath(entry.url);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Conditional request headers for a cached entry
+   */
+  validatorHeaders(entry: HttpCacheEntry | undefined): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry?.etag) {
+      headers['if-none-match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['if-modified-since'] = entry.lastModified;
+    }
+    return headers;
+  }
+
+  private entryPath(url: string): string {
+    const key = crypto.createHash('sha1').update(url).digest('hex');
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+let activeCache: HttpCache | null = null;
+
+/**
+ * Route GET requests from fetchText/fetchJson through a cache; pass null to disable
+ */
+export function configureHttpCache(cache: HttpCache | null): void {
+  activeCache = cache;
+}
+
+export function getHttpCache(): HttpCache | null {
+  return activeCache;
+}
@@ -1,4 +1,6 @@
 import { BaseError } from './errors';
+import { getHttpCache, HttpCacheMissError } from './http-cache';
+import { getLogger } from './logger';
 
 interface TimeoutResult {
   signal?: AbortSignal;
@@ -101,6 +103,143 @@ export interface HttpRequestOptions {
   query?: Record<string, string | number | boolean | null | undefined>;
   timeout?: number;
   signal?: AbortSignal;
+  body?: string;
+  /** Requests per minute allowed for the target host; unset means unthrottled */
+  rateLimitQpm?: number;
+  /** Called with the time spent waiting for the host's rate limit */
+  onThrottle?: (waitMs: number) => void;
+  /** Set to false to bypass the HTTP cache for this request */
+  cache?: boolean;
+}
+
+interface TokenBucket {
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+}
+
+export interface HostRateLimiterOptions {
+  /** Requests allowed back-to-back before the configured rate applies */
+  burst?: number;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Token-bucket rate limiter keyed by host, shared by every connector hitting that host.
+ * When connectors configure different rates for the same host, the strictest one wins.
+ * Waiters reserve tokens up front, so concurrent callers are released in arrival order.
+ */
+export class HostRateLimiter {
+  private readonly buckets = new Map<string, TokenBucket>();
+  private readonly burst: number;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+
+  constructor(options: HostRateLimiterOptions = {}) {
+    this.burst = Math.max(1, options.burst ?? 1);
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? abortableSleep;
+  }
+
+  /**
+   * Wait for a request slot on the host
+   * @returns Milliseconds spent waiting
+   */
+  async acquire(host: string, qpm: number, signal?: AbortSignal): Promise<number> {
+    if (!Number.isFinite(qpm) || qpm <= 0) {
+      return 0;
+    }
+
+    const now = this.now();
+    const refillPerMs = qpm / 60_000;
+    let bucket = this.buckets.get(host);
+
+    if (!bucket) {
+      bucket = { tokens: this.burst, refillPerMs, updatedAt: now };
+      this.buckets.set(host, bucket);
+    }
+
+    bucket.tokens = Math.min(
+      this.burst,
+      bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs
+    );
+    bucket.updatedAt = now;
+    bucket.refillPerMs = Math.min(bucket.refillPerMs, refillPerMs);
+    bucket.tokens -= 1;
+
+    if (bucket.tokens >= 0) {
+      return 0;
+    }
+
+    const waitMs = Math.ceil(-bucket.tokens / bucket.refillPerMs);
+    try {
+      await this.sleep(waitMs, signal);
+    } catch (error) {
+      // Hand the reserved slot back so later callers are not delayed by an aborted one
+      bucket.tokens += 1;
+      throw error;
+    }
+
+    return waitMs;
+  }
+
+  reset(): void {
+    this.buckets.clear();
+  }
+}
+
+const sharedRateLimiter = new HostRateLimiter();
+
+/**
+ * Request details passed to an HTTP interceptor
+ */
+export interface InterceptedHttpRequest {
+  method: string;
+  url: string;
+  body?: string;
+}
+
+/**
+ * Hook around every request made by the HTTP helpers, used to record and replay runs
+ */
+export interface HttpInterceptor {
+  /** Requests are answered without the network, so rate limits are skipped */
+  readonly offline: boolean;
+  intercept(request: InterceptedHttpRequest, send: () => Promise<Response>): Promise<Response>;
+}
+
+let activeInterceptor: HttpInterceptor | null = null;
+
+/**
+ * Install an interceptor for all requests; pass null to remove it
+ */
+export function setHttpInterceptor(interceptor: HttpInterceptor | null): void {
+  activeInterceptor = interceptor;
+}
+
+export function getHostRateLimiter(): HostRateLimiter {
+  return sharedRateLimiter;
 }
 
 function buildUrl(baseUrl: string, query?: HttpRequestOptions['query']): string {
@@ -119,20 +258,42 @@ function buildUrl(baseUrl: string, query?: HttpRequestOptions['query']): string
 }
 
 async function executeRequest(url: string, options: HttpRequestOptions = {}): Promise<Response> {
-  const { timeout, signal, method = 'GET', headers, query } = options;
+  const {
+    timeout,
+    signal,
+    method = 'GET',
+    headers,
+    query,
+    body,
+    rateLimitQpm,
+    onThrottle
+  } = options;
 
   const requestUrl = buildUrl(url, query);
+
+  // Rate-limit waits happen before the timeout starts so they do not eat into it
+  if (rateLimitQpm && !activeInterceptor?.offline) {
+    const waitMs = await sharedRateLimiter.acquire(new URL(requestUrl).host, rateLimitQpm, signal);
+    if (waitMs > 0) {
+      onThrottle?.(waitMs);
+    }
+  }
+
   const timeoutResult = createTimeoutSignal(timeout);
   const mergedSignal = mergeSignals([signal, timeoutResult.signal]);
 
-  try {
-    const response = await fetch(requestUrl, {
+  const send = () =>
+    fetch(requestUrl, {
       method,
       headers,
+      body,
       signal: mergedSignal
     });
 
-    return response;
+  try {
+    return activeInterceptor
+      ? await activeInterceptor.intercept({ method, url: requestUrl, body }, send)
+      : await send();
   } catch (error) {
     if (error instanceof Error && error.name === 'AbortError') {
       throw new BaseError(`HTTP ${method} ${requestUrl} aborted`, {
@@ -155,8 +316,33 @@ function extractHeaders(response: Response): Record<string, string> {
   return headers;
 }
 
-export async function fetchText(url: string, options: HttpRequestOptions = {}): Promise<string> {
-  const response = await executeRequest(url, options);
+/**
+ * Execute a request and return its body, going through the HTTP cache for GET requests
+ */
+async function requestBody(url: string, options: HttpRequestOptions): Promise<string> {
+  const method = options.method ?? 'GET';
+  const cache = method === 'GET' && options.cache !== false ? getHttpCache() : null;
+  const cacheKey = buildUrl(url, options.query);
+  const cached = cache ? await cache.get(cacheKey) : undefined;
+
+  if (cache?.offline) {
+    if (!cached) {
+      throw new HttpCacheMissError(cacheKey);
+    }
+    return cached.body;
+  }
+
+  const response = await executeRequest(url, {
+    ...options,
+    headers: {
+      ...cache?.validatorHeaders(cached),
+      ...options.headers
+    }
+  });
+
+  if (response.status === 304 && cached) {
+    return cached.body;
+  }
 
   if (!response.ok) {
     const body = await response.text().catch(() => undefined);
@@ -164,17 +350,43 @@ export async function fetchText(url: string, options: HttpRequestOptions = {}):
       url,
       response.status,
       response.statusText,
-      options.method ?? 'GET',
+      method,
       extractHeaders(response),
       body
     );
   }
 
-  return response.text();
+  const body = await response.text();
+
+  if (cache) {
+    try {
+      await cache.set({
+        url: cacheKey,
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+        contentType: response.headers.get('content-type') ?? undefined,
+        body,
+        storedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      getLogger()
+        .child({ service: 'http' })
+        .warn('Failed to write HTTP cache entry', {
+          url: cacheKey,
+          error: (error as Error).message
+        });
+    }
+  }
+
+  return body;
+}
+
+export async function fetchText(url: string, options: HttpRequestOptions = {}): Promise<string> {
+  return requestBody(url, options);
 }
 
 export async function fetchJson<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
-  const response = await executeRequest(url, {
+  const body = await requestBody(url, {
     ...options,
     headers: {
       accept: 'application/json',
@@ -182,20 +394,8 @@ export async function fetchJson<T>(url: string, options: HttpRequestOptions = {}
     }
   });
 
-  if (!response.ok) {
-    const body = await response.text().catch(() => undefined);
-    throw new HttpRequestError(
-      url,
-      response.status,
-      response.statusText,
-      options.method ?? 'GET',
-      extractHeaders(response),
-      body
-    );
-  }
-
   try {
-    return (await response.json()) as T;
+    return JSON.parse(body) as T;
   } catch (error) {
     throw new BaseError('Failed to parse JSON response', {
       url,
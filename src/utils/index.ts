@@ -9,6 +9,20 @@ export {
   CircuitBreakerState,
   CircuitState
 } from './circuit-breaker';
+export { type Clock, FixedClock, getClock, setClock, systemClock } from './clock';
+export { mapWithConcurrency } from './concurrency';
+export {
+  buildErrorReport,
+  createErrorTracker,
+  type ErrorReport,
+  type ErrorTrackerSettings,
+  errorFingerprint,
+  JsonlErrorTracker,
+  parseSentryDsn,
+  ReportingErrorTracker,
+  SentryErrorTracker,
+  WebhookErrorTracker
+} from './error-tracker';
 export {
   AggregateError,
   AnalysisError,
@@ -16,12 +30,36 @@ export {
   ConfigurationError,
   ErrorBoundary,
   ErrorHandler,
+  type ErrorTracker,
   GitHubError,
+  getErrorTracker,
   NewsSourceError,
+  NoopErrorTracker,
   RateLimitError,
+  setErrorTracker,
   ValidationError
 } from './errors';
-export { fetchJson, fetchText, HttpRequestError, type HttpRequestOptions } from './http';
+export {
+  fetchJson,
+  fetchText,
+  getHostRateLimiter,
+  HostRateLimiter,
+  type HostRateLimiterOptions,
+  type HttpInterceptor,
+  HttpRequestError,
+  type HttpRequestOptions,
+  type InterceptedHttpRequest,
+  setHttpInterceptor
+} from './http';
+export {
+  configureHttpCache,
+  getHttpCache,
+  HttpCache,
+  type HttpCacheEntry,
+  HttpCacheMissError,
+  type HttpCacheMode,
+  type HttpCacheOptions
+} from './http-cache';
 export {
   createLogger,
   getLogger,
@@ -36,13 +74,17 @@ export {
   ExecutionMetrics,
   getMetricsCollector,
   getMetricsSummary,
+  LlmUsageMetrics,
   logMetricsSummary,
   MetricsCollector,
   SelectionMetrics,
+  StageMetrics,
   trackApiCall,
   trackError,
   trackEventCollection,
-  trackSelection
+  trackLlmCall,
+  trackSelection,
+  trackStage
 } from './metrics';
 export {
   clearRetryPolicies,
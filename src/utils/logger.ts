@@ -235,6 +235,14 @@ export class Logger {
     return this.correlationId;
   }
 
+  /**
+   * Correlate subsequent entries, and child loggers created afterwards, with a run
+   */
+  setCorrelationId(correlationId: string): void {
+    this.correlationId = correlationId;
+    this.context = { ...this.context, correlationId };
+  }
+
   /**
    * Set log level
    */
@@ -6,10 +6,14 @@ import { getLogger, type Logger } from './logger';
 
 export interface EventMetrics {
   source: string;
+  /** When the source was first fetched in this run */
+  startTime: string;
   collected: number;
   filtered: number;
   errors: number;
   duration: number;
+  /** Time spent waiting on the host rate limiter before requests */
+  throttleWait: number;
 }
 
 export interface ApiMetrics {
@@ -22,6 +26,27 @@ export interface ApiMetrics {
   maxDuration: number;
 }
 
+export interface LlmUsageMetrics {
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  totalDuration: number;
+}
+
+export interface StageMetrics {
+  stage: string;
+  startTime: string;
+  duration: number;
+  inputCount: number;
+  outputCount: number;
+  /** Output restored from a checkpoint instead of computed */
+  restored: boolean;
+}
+
 export interface SelectionMetrics {
   analyzed: number;
   selected: number;
@@ -32,6 +57,7 @@ export interface SelectionMetrics {
 }
 
 export interface ExecutionMetrics {
+  correlationId: string;
   startTime: string;
   endTime: string;
   duration: number;
@@ -41,6 +67,8 @@ export interface ExecutionMetrics {
   totalEventsSelected: number;
   sources: EventMetrics[];
   apiCalls: ApiMetrics[];
+  llmUsage: LlmUsageMetrics[];
+  stages: StageMetrics[];
   selection: SelectionMetrics;
   errors: Array<{
     timestamp: string;
@@ -56,6 +84,8 @@ export class MetricsCollector {
   private startTime: Date;
   private eventMetrics: Map<string, EventMetrics>;
   private apiMetrics: Map<string, ApiMetrics>;
+  private llmMetrics: Map<string, LlmUsageMetrics>;
+  private stageMetrics: Map<string, StageMetrics>;
   private selectionMetrics: SelectionMetrics;
   private errors: Array<{ timestamp: string; source: string; error: string }>;
   private apiCallDetails: Map<string, number[]>;
@@ -65,6 +95,8 @@ export class MetricsCollector {
     this.startTime = new Date();
     this.eventMetrics = new Map();
     this.apiMetrics = new Map();
+    this.llmMetrics = new Map();
+    this.stageMetrics = new Map();
     this.apiCallDetails = new Map();
     this.errors = [];
     this.selectionMetrics = {
@@ -94,6 +126,8 @@ export class MetricsCollector {
     this.startTime = new Date();
     this.eventMetrics.clear();
     this.apiMetrics.clear();
+    this.llmMetrics.clear();
+    this.stageMetrics.clear();
     this.apiCallDetails.clear();
     this.errors = [];
     this.selectionMetrics = {
@@ -118,18 +152,22 @@ export class MetricsCollector {
   ): void {
     const existing = this.eventMetrics.get(source) || {
       source,
+      startTime: new Date(Date.now() - duration).toISOString(),
       collected: 0,
       filtered: 0,
       errors: 0,
-      duration: 0
+      duration: 0,
+      throttleWait: 0
     };
 
     this.eventMetrics.set(source, {
       source,
+      startTime: existing.startTime,
       collected: existing.collected + collected,
       filtered: existing.filtered + filtered,
       errors: error ? existing.errors + 1 : existing.errors,
-      duration: existing.duration + duration
+      duration: existing.duration + duration,
+      throttleWait: existing.throttleWait
     });
 
     if (error) {
@@ -144,6 +182,26 @@ export class MetricsCollector {
     });
   }
 
+  /**
+   * Track time a source spent waiting on the host rate limiter
+   */
+  trackThrottleWait(source: string, waitMs: number): void {
+    const existing = this.eventMetrics.get(source);
+    if (!existing) {
+      this.eventMetrics.set(source, {
+        source,
+        startTime: new Date().toISOString(),
+        collected: 0,
+        filtered: 0,
+        errors: 0,
+        duration: 0,
+        throttleWait: waitMs
+      });
+      return;
+    }
+    existing.throttleWait += waitMs;
+  }
+
   /**
    * Track API call
    */
@@ -185,6 +243,69 @@ export class MetricsCollector {
     });
   }
 
+  /**
+   * Track an LLM provider call and the tokens it used
+   */
+  trackLlmCall(
+    provider: string,
+    model: string,
+    duration: number,
+    usage?: { prompt: number; completion: number; total: number },
+    success: boolean = true
+  ): void {
+    const key = `${provider}:${model}`;
+    const existing = this.llmMetrics.get(key) || {
+      provider,
+      model,
+      calls: 0,
+      failures: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      totalDuration: 0
+    };
+
+    this.llmMetrics.set(key, {
+      ...existing,
+      calls: existing.calls + 1,
+      failures: success ? existing.failures : existing.failures + 1,
+      promptTokens: existing.promptTokens + (usage?.prompt ?? 0),
+      completionTokens: existing.completionTokens + (usage?.completion ?? 0),
+      totalTokens: existing.totalTokens + (usage?.total ?? 0),
+      totalDuration: existing.totalDuration + duration
+    });
+
+    this.logger.debug(`LLM call tracked: ${provider}`, {
+      model,
+      duration,
+      success,
+      tokens: usage?.total
+    });
+  }
+
+  /**
+   * Track a completed pipeline stage
+   */
+  trackStage(
+    stage: string,
+    duration: number,
+    inputCount: number,
+    outputCount: number,
+    restored: boolean = false
+  ): void {
+    const metrics: StageMetrics = {
+      stage,
+      startTime: new Date(Date.now() - duration).toISOString(),
+      duration,
+      inputCount,
+      outputCount,
+      restored
+    };
+    this.stageMetrics.set(stage, metrics);
+
+    this.logger.info(`Stage completed: ${stage}`, { ...metrics });
+  }
+
   /**
    * Track event selection
    */
@@ -248,15 +369,19 @@ export class MetricsCollector {
     const duration = (endTime.getTime() - this.startTime.getTime()) / 1000;
 
     const summary: ExecutionMetrics = {
+      correlationId: this.logger.getCorrelationId(),
       startTime: this.startTime.toISOString(),
       endTime: endTime.toISOString(),
       duration,
       totalEventsCollected: this.getTotalEventsCollected(),
-      totalEventsAfterDedup: this.getTotalEventsFiltered(),
+      totalEventsAfterDedup:
+        this.stageMetrics.get('dedupe')?.outputCount ?? this.getTotalEventsFiltered(),
       totalEventsAnalyzed: this.selectionMetrics.analyzed,
       totalEventsSelected: this.selectionMetrics.selected,
       sources: Array.from(this.eventMetrics.values()),
       apiCalls: Array.from(this.apiMetrics.values()),
+      llmUsage: Array.from(this.llmMetrics.values()),
+      stages: Array.from(this.stageMetrics.values()),
       selection: this.selectionMetrics,
       errors: this.errors,
       success: this.errors.length === 0
@@ -284,7 +409,8 @@ export class MetricsCollector {
         collected: source.collected,
         filtered: source.filtered,
         errors: source.errors,
-        duration: source.duration
+        duration: source.duration,
+        throttleWait: source.throttleWait
       });
     });
 
@@ -299,6 +425,27 @@ export class MetricsCollector {
       });
     });
 
+    // Log stage and LLM metrics
+    summary.stages.forEach((stage) => {
+      this.logger.info(`Stage: ${stage.stage}`, {
+        duration: stage.duration,
+        inputCount: stage.inputCount,
+        outputCount: stage.outputCount,
+        restored: stage.restored
+      });
+    });
+
+    summary.llmUsage.forEach((usage) => {
+      this.logger.info(`LLM: ${usage.provider}`, {
+        model: usage.model,
+        calls: usage.calls,
+        failures: usage.failures,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        totalTokens: usage.totalTokens
+      });
+    });
+
     // Log selection metrics
     this.logger.info('Selection metrics', {
       analyzed: summary.selection.analyzed,
@@ -330,7 +477,9 @@ export class MetricsCollector {
    */
   async saveToFile(filepath: string): Promise<void> {
     const fs = await import('node:fs').then((m) => m.promises);
+    const path = await import('node:path');
     const summary = this.getSummary();
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
     await fs.writeFile(filepath, JSON.stringify(summary, null, 2));
     this.logger.info(`Metrics saved to ${filepath}`);
   }
@@ -355,6 +504,26 @@ export function trackApiCall(service: string, duration: number, success: boolean
   getMetricsCollector().trackApiCall(service, duration, success);
 }
 
+export function trackLlmCall(
+  provider: string,
+  model: string,
+  duration: number,
+  usage?: { prompt: number; completion: number; total: number },
+  success: boolean = true
+): void {
+  getMetricsCollector().trackLlmCall(provider, model, duration, usage, success);
+}
+
+export function trackStage(
+  stage: string,
+  duration: number,
+  inputCount: number,
+  outputCount: number,
+  restored: boolean = false
+): void {
+  getMetricsCollector().trackStage(stage, duration, inputCount, outputCount, restored);
+}
+
 export function trackSelection(
   analyzed: number,
   selected: number,
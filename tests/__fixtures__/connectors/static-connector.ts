@@ -0,0 +1,28 @@
+import { AbstractSourceConnector } from '../../../src/connectors/base';
+import type { RawItem, SourceFetchOptions } from '../../../src/connectors/types';
+
+/**
+ * Example plugin connector loaded through `metadata.module` in sources.yaml
+ */
+export class StaticConnector extends AbstractSourceConnector {
+  async fetch(options: SourceFetchOptions): Promise<RawItem[]> {
+    return this.filterWindow(
+      [
+        {
+          id: `2025-09-20-${this.id}-static`,
+          title: `Static item (timeout ${this.timeoutMs})`,
+          url: this.url,
+          publishedAt: '2025-09-20T00:00:00.000Z',
+          source: this.id
+        }
+      ],
+      options
+    );
+  }
+}
+
+export function createBrokenConnector() {
+  return { id: 'broken' };
+}
+
+export default StaticConnector;
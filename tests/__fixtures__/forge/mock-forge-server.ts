@@ -0,0 +1,82 @@
+/**
+ * Routed HTTP stub for the forge publisher tests. Requests are recorded in order;
+ * unmatched routes answer 404 like a forge API would.
+ */
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ForgeRoute {
+  method: string;
+  /** Path without the query string */
+  path: string;
+  status?: number;
+  body?: unknown;
+  /** Only match the first N requests; later ones fall through to the next route */
+  times?: number;
+}
+
+export interface RecordedForgeRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+export interface MockForgeServer {
+  baseUrl: string;
+  requests: RecordedForgeRequest[];
+  /** Recorded requests for a method and path */
+  calls(method: string, path: string): RecordedForgeRequest[];
+  close(): Promise<void>;
+}
+
+export async function startMockForge(routes: ForgeRoute[]): Promise<MockForgeServer> {
+  const requests: RecordedForgeRequest[] = [];
+  const hits = new Map<ForgeRoute, number>();
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const path = decodeURIComponent(url.pathname);
+      requests.push({
+        method: req.method ?? 'GET',
+        path,
+        query: Object.fromEntries(url.searchParams),
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined
+      });
+
+      const route = routes.find(
+        (candidate) =>
+          candidate.method === req.method &&
+          candidate.path === path &&
+          (candidate.times === undefined || (hits.get(candidate) ?? 0) < candidate.times)
+      );
+      if (route) {
+        hits.set(route, (hits.get(route) ?? 0) + 1);
+      }
+
+      const status = route ? (route.status ?? 200) : 404;
+      const body = route ? route.body : { message: 'Not Found' };
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(body === undefined ? '' : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    requests,
+    calls: (method, path) =>
+      requests.filter((request) => request.method === method && request.path === path),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}